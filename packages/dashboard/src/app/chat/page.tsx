@@ -6,7 +6,7 @@
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { useGatewaySocket, type StreamEvent } from '@/hooks/use-gateway-socket';
+import { indexAfter, useGatewaySocket, type StreamEvent } from '@/hooks/use-gateway-socket';
 import {
   Send,
   Bot,
@@ -22,14 +22,16 @@ import {
 import { clsx } from 'clsx';
 import { MarkdownRenderer } from '@/components/chat/markdown-renderer';
 import { LinkPreviewList } from '@/components/chat/link-previews';
+import { CitationList } from '@/components/chat/citation-list';
 import {
   ThinkingIndicator,
   type ThinkingActivityEntry,
 } from '@/components/chat/thinking-indicator';
 import { ChatModelSelector } from '@/components/chat/model-selector';
+import { PlanVisualizer } from '@/components/chat/plan-visualizer';
 import { api } from '@/lib/api';
 import { Select } from '@/components/ui';
-import type { Workspace } from '@adytum/shared';
+import type { Citation, Plan, Workspace } from '@adytum/shared';
 
 interface ChatMessage {
   id: string;
@@ -37,6 +39,7 @@ interface ChatMessage {
   content: string;
   timestamp: number;
   toolCalls?: string[];
+  citations?: Citation[];
   approvals?: Array<{
     id: string;
     description: string;
@@ -60,10 +63,12 @@ export default function ChatPage() {
   const [pendingTools, setPendingTools] = useState<string[]>([]);
   const [activeApprovals, setActiveApprovals] = useState<ChatMessage['approvals']>([]);
   const [activityFeed, setActivityFeed] = useState<ThinkingActivityEntry[]>([]);
+  const [livePlans, setLivePlans] = useState<Record<string, Plan>>({});
   const [thinkingStartedAt, setThinkingStartedAt] = useState<number | null>(null);
+  const [draftResponse, setDraftResponse] = useState('');
   const [hasRestored, setHasRestored] = useState(false);
   const pendingToolsRef = useRef<string[]>([]);
-  const eventCursorRef = useRef(0);
+  const lastEventRef = useRef<StreamEvent | undefined>(undefined);
   const eventCursorInitializedRef = useRef(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -156,17 +161,14 @@ export default function ChatPage() {
   useEffect(() => {
     if (!eventCursorInitializedRef.current) {
       eventCursorInitializedRef.current = true;
-      eventCursorRef.current = events.length;
+      lastEventRef.current = events[events.length - 1];
       return;
     }
 
-    if (events.length < eventCursorRef.current) {
-      eventCursorRef.current = 0;
-    }
-
-    if (eventCursorRef.current >= events.length) return;
+    const start = indexAfter(events, lastEventRef.current);
+    if (start >= events.length) return;
 
-    for (let index = eventCursorRef.current; index < events.length; index += 1) {
+    for (let index = start; index < events.length; index += 1) {
       const event = events[index];
 
       if (event.type === 'message' && event.sessionId === sessionId) {
@@ -174,6 +176,9 @@ export default function ChatPage() {
         if (!content) continue;
 
         const tools = pendingToolsRef.current.length > 0 ? [...pendingToolsRef.current] : undefined;
+        const citations = Array.isArray(event.citations)
+          ? (event.citations as Citation[])
+          : undefined;
         setMessages((prev) => {
           const lastMsg = prev[prev.length - 1];
           // If previous message was assistant (e.g. held the approval request), merge content
@@ -184,6 +189,7 @@ export default function ChatPage() {
                 ...lastMsg,
                 content,
                 toolCalls: tools || lastMsg.toolCalls,
+                citations,
               },
             ];
           }
@@ -195,14 +201,17 @@ export default function ChatPage() {
               content,
               timestamp: Date.now(),
               toolCalls: tools,
+              citations,
             },
           ];
         });
         pendingToolsRef.current = [];
         setPendingTools([]);
+        setLivePlans({});
         setActiveApprovals([]); // Clear active approvals when response is finalized
         setIsThinking(false);
         setThinkingStartedAt(null);
+        setDraftResponse('');
         pushActivity('response', 'Response received.');
         continue;
       }
@@ -336,18 +345,32 @@ export default function ChatPage() {
         continue;
       }
 
+      if (streamType === 'plan_step') {
+        const metadata = (event.metadata || {}) as { planId?: string; plan?: Plan };
+        if (metadata.planId && metadata.plan) {
+          const { planId, plan } = metadata;
+          setLivePlans((prev) => ({ ...prev, [planId]: plan }));
+        }
+        if (detail) pushActivity('status', detail);
+        continue;
+      }
+
       if (streamType === 'thinking') {
         if (detail) pushActivity('thinking', detail);
         continue;
       }
 
       if (streamType === 'response') {
-        if (detail) pushActivity('response', detail);
+        // Deltas of the answer being generated; a reset withdraws what came so far
+        const delta = String(event.delta || '');
+        if (event.metadata?.reset) setDraftResponse('');
+        else if (delta) setDraftResponse((prev) => prev + delta);
         continue;
       }
 
       if (streamType === 'error') {
         pushActivity('error', detail || 'Error while generating response.');
+        setDraftResponse('');
         setIsThinking(false);
         setThinkingStartedAt(null);
         setActiveApprovals([]); // Clear on error
@@ -359,7 +382,7 @@ export default function ChatPage() {
       }
     }
 
-    eventCursorRef.current = events.length;
+    lastEventRef.current = events[events.length - 1];
   }, [events, pushActivity, sessionId]);
 
   // Auto-scroll
@@ -371,6 +394,7 @@ export default function ChatPage() {
     activityFeed.length,
     pendingTools.length,
     activeApprovals?.length,
+    draftResponse,
   ]);
 
   const handleApproval = useCallback(
@@ -499,6 +523,7 @@ export default function ChatPage() {
     ]);
     setThinkingStartedAt(Date.now());
     setIsThinking(true);
+    setDraftResponse('');
     setActiveApprovals([]); // Reset for new turn
   }, [input, connected, sendMessage, sessionId, activeInputRequest, sendInputResponse]);
 
@@ -569,6 +594,23 @@ export default function ChatPage() {
           />
         ))}
 
+        {isThinking &&
+          Object.entries(livePlans).map(([planId, plan]) => (
+            <PlanVisualizer key={planId} plan={plan} />
+          ))}
+
+        {isThinking && draftResponse && (
+          <MessageBubble
+            message={{
+              id: 'draft',
+              role: 'assistant',
+              content: draftResponse,
+              timestamp: thinkingStartedAt ?? Date.now(),
+            }}
+            onApproval={handleApproval}
+          />
+        )}
+
         {isThinking && (
           <ThinkingIndicator
             pendingTools={pendingTools}
@@ -693,6 +735,8 @@ function MessageBubble({
 
           {!isUser && <LinkPreviewList content={message.content} />}
 
+          {!isUser && <CitationList citations={message.citations} />}
+
           {!isUser && message.toolCalls && message.toolCalls.length > 0 && (
             <div className="mt-2.5 flex flex-wrap gap-1.5 pt-2.5 border-t border-border-primary/30">
               {message.toolCalls.map((tool) => (
@@ -158,6 +158,14 @@ function ConsoleEntry({
         content = content.replace(/^\[[^\]]+\]\s*/, '');
       }
     }
+  } else if (event.type === 'token_update' && event.budget) {
+    const budget = event.budget as Record<string, any>;
+    const limit = budget.limit?.maxCost
+      ? `$${Number(budget.spentCost).toFixed(2)}/$${Number(budget.limit.maxCost).toFixed(2)}`
+      : `${budget.spentTokens}/${budget.limit?.maxTokens} tokens`;
+    content = `${budget.scope} budget ${budget.status} (${limit}) → ${budget.action}${budget.role ? ` to ${budget.role}` : ''}`;
+    color = budget.status === 'exceeded' ? 'text-error' : 'text-warning';
+    prefix = '💸 BUDGET';
   } else if (event.type === 'token_update') {
     content = `model=${event.model} tokens=${event.totalTokens} cost=$${(Number(event.estimatedCost) || 0).toFixed(4)}`;
   } else if (event.type === 'connect') {
@@ -5,16 +5,52 @@
  * @description Knowledge Graph visualization page using reusable GraphView.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { GraphView } from '@/components/knowledge/graph-view';
-import { Brain, RefreshCw, Layers } from 'lucide-react';
+import { Brain, RefreshCw, Layers, Search, X } from 'lucide-react';
 import { api } from '@/lib/api';
-import type { Workspace } from '@adytum/shared';
+import type { GraphQuery, GraphQueryResult, Workspace } from '@adytum/shared';
+
+const EXAMPLE_QUERY = `{
+  "match": {
+    "type": "interface",
+    "path": "packages/gateway/**",
+    "where": [{ "edge": "implements", "direction": "in" }]
+  },
+  "traverse": [{ "edge": "implements", "direction": "in" }]
+}`;
 
 export default function KnowledgePage() {
   const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<string>('');
   const [loading, setLoading] = useState(true);
+  const [queryOpen, setQueryOpen] = useState(false);
+  const [queryText, setQueryText] = useState(EXAMPLE_QUERY);
+  const [query, setQuery] = useState<GraphQuery | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  // The gateway validates the query; its errors show in the graph view
+  const runQuery = () => {
+    try {
+      setQuery(JSON.parse(queryText) as GraphQuery);
+      setQueryError(null);
+    } catch (err: any) {
+      setQueryError(`Invalid JSON: ${err.message}`);
+    }
+  };
+
+  const clearQuery = () => {
+    setQuery(null);
+    setSummary(null);
+    setQueryError(null);
+  };
+
+  const onQueryResult = useCallback((result: GraphQueryResult) => {
+    setSummary(
+      `${result.results.length} result${result.results.length === 1 ? '' : 's'}${result.truncated ? ' (truncated)' : ''}, ${result.nodes.length} nodes, ${result.edges.length} edges`,
+    );
+  }, []);
 
   useEffect(() => {
     const fetchWorkspaces = async () => {
@@ -67,6 +103,14 @@ export default function KnowledgePage() {
             </div>
           )}
 
+          <button
+            onClick={() => setQueryOpen((open) => !open)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl hover:bg-bg-hover transition-all ${queryOpen ? 'text-accent-primary' : 'text-text-tertiary'}`}
+          >
+            <Search className="h-4 w-4" />
+            <span className="text-xs font-medium">Query</span>
+          </button>
+
           <button
             onClick={() => window.location.reload()}
             className="flex items-center gap-2 px-3 py-2 rounded-xl hover:bg-bg-hover text-text-tertiary transition-all"
@@ -77,13 +121,54 @@ export default function KnowledgePage() {
         </div>
       </div>
 
+      {queryOpen && (
+        <div className="flex gap-4 px-8 py-4 border-b border-border-primary/50 bg-bg-secondary/20">
+          <textarea
+            value={queryText}
+            onChange={(e) => setQueryText(e.target.value)}
+            spellCheck={false}
+            rows={8}
+            className="flex-1 bg-bg-tertiary/50 border border-border-primary/50 rounded-xl p-3 font-mono text-[11px] text-text-secondary focus:outline-none focus:border-accent-primary/50"
+          />
+          <div className="flex flex-col gap-2 w-64">
+            <button
+              onClick={runQuery}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-accent-primary/10 border border-accent-primary/20 text-accent-primary text-xs font-semibold hover:bg-accent-primary/20 transition-all"
+            >
+              <Search className="h-3.5 w-3.5" />
+              Run query
+            </button>
+            {query && (
+              <button
+                onClick={clearQuery}
+                className="flex items-center justify-center gap-2 px-3 py-2 rounded-xl hover:bg-bg-hover text-text-tertiary text-xs font-medium transition-all"
+              >
+                <X className="h-3.5 w-3.5" />
+                Show full graph
+              </button>
+            )}
+            {queryError && <p className="text-[11px] text-red-400 break-words">{queryError}</p>}
+            {summary && !queryError && <p className="text-[11px] text-text-tertiary">{summary}</p>}
+            <p className="text-[10px] text-text-muted leading-relaxed">
+              Filter nodes by type, id, label/path glob and metadata; <code>where</code> /{' '}
+              <code>whereNot</code> require patterns; <code>traverse</code> follows edges with{' '}
+              <code>minDepth</code>..<code>maxDepth</code>.
+            </p>
+          </div>
+        </div>
+      )}
+
       <div className="flex-1 relative">
         {loading ? (
           <div className="flex items-center justify-center h-full opacity-50">
             <RefreshCw className="h-8 w-8 text-accent-primary animate-spin" />
           </div>
         ) : (
-          <GraphView workspaceId={selectedWorkspaceId} />
+          <GraphView
+            workspaceId={selectedWorkspaceId}
+            query={query}
+            onQueryResult={onQueryResult}
+          />
         )}
       </div>
     </div>
@@ -10,7 +10,17 @@ import { useEffect, useMemo, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { gatewayFetch } from '@/lib/api';
 import { PageHeader, Card, Badge, Button, EmptyState, Spinner } from '@/components/ui';
-import { CheckCircle2, RefreshCw, Save, Trash2, X, Pencil, Filter } from 'lucide-react';
+import {
+  CheckCircle2,
+  RefreshCw,
+  Save,
+  Trash2,
+  X,
+  Pencil,
+  Filter,
+  Pin,
+  PinOff,
+} from 'lucide-react';
 
 type Memory = {
   id: string;
@@ -19,6 +29,7 @@ type Memory = {
   category: string;
   tags?: string[];
   metadata?: Record<string, unknown>;
+  pinned?: boolean;
   createdAt: number;
 };
 
@@ -31,6 +42,7 @@ type MemoriesResponse = {
 const CATEGORY_OPTIONS = [
   { value: 'dream', label: 'Dreamer' },
   { value: 'monologue', label: 'Inner Monologue' },
+  { value: 'episodic_summary', label: 'Summaries' },
 ];
 
 export default function MemoriesPage() {
@@ -38,6 +50,7 @@ export default function MemoriesPage() {
   const [loading, setLoading] = useState(true);
   const [savingId, setSavingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [pinningId, setPinningId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
   const [editCategory, setEditCategory] = useState<string>('');
@@ -83,7 +96,7 @@ export default function MemoriesPage() {
       setSavingId(id);
       const payload: any = { content: editContent, category: editCategory };
       const res = await gatewayFetch<{ memory: Memory }>(`/api/memories/${id}`, {
-        method: 'PATCH',
+        method: 'PUT',
         body: JSON.stringify(payload),
       });
       setMemories((prev) => prev.map((m) => (m.id === id ? res.memory : m)));
@@ -95,6 +108,21 @@ export default function MemoriesPage() {
     }
   };
 
+  const togglePin = async (m: Memory) => {
+    try {
+      setPinningId(m.id);
+      const res = await gatewayFetch<{ memory: Memory }>(`/api/memories/${m.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ pinned: !m.pinned }),
+      });
+      setMemories((prev) => prev.map((x) => (x.id === m.id ? res.memory : x)));
+    } catch (err: any) {
+      alert(err?.message || 'Failed to update pin');
+    } finally {
+      setPinningId(null);
+    }
+  };
+
   const deleteMemory = async (id: string) => {
     if (!confirm('Delete this memory?')) return;
     try {
@@ -118,7 +146,7 @@ export default function MemoriesPage() {
     <div className="flex h-full flex-col">
       <PageHeader
         title="Logs & Memories"
-        subtitle="Review, edit, or remove entries created by Dreamer or Inner Monologue."
+        subtitle="Review, edit, pin or remove entries created by Dreamer or Inner Monologue. Pinned memories are never merged or expired."
       >
         <div className="flex items-center gap-2">
           <Button variant="outline" size="sm" onClick={load}>
@@ -183,6 +211,11 @@ export default function MemoriesPage() {
                       <Badge variant={m.category === 'dream' ? 'info' : 'warning'} size="sm">
                         {m.category}
                       </Badge>
+                      {m.pinned && (
+                        <Badge variant="success" size="sm">
+                          pinned
+                        </Badge>
+                      )}
                       <span className="text-xs text-text-tertiary">{m.source}</span>
                     </div>
                     <div className="flex items-center gap-2 text-xs text-text-muted">
@@ -232,6 +265,22 @@ export default function MemoriesPage() {
                   )}
 
                   <div className="flex items-center justify-end gap-2 pt-1">
+                    <Button
+                      variant={m.pinned ? 'primary' : 'outline'}
+                      size="sm"
+                      isLoading={pinningId === m.id}
+                      onClick={() => togglePin(m)}
+                    >
+                      {m.pinned ? (
+                        <>
+                          <PinOff className="h-4 w-4" /> Unpin
+                        </>
+                      ) : (
+                        <>
+                          <Pin className="h-4 w-4" /> Pin
+                        </>
+                      )}
+                    </Button>
                     {!isEditing && (
                       <Button variant="outline" size="sm" onClick={() => startEdit(m)}>
                         <Pencil className="h-4 w-4" /> Edit
@@ -7,6 +7,7 @@ import { SwarmVisualizer } from '@/components/swarm/SwarmVisualizer';
 import { AgentDetail } from '@/components/swarm/AgentDetail';
 import { GraveyardList } from '@/components/swarm/GraveyardList';
 import { Activity, RefreshCw } from 'lucide-react';
+import { gatewayFetch, getGatewayToken } from '@/lib/api';
 
 const GATEWAY_URL = process.env.NEXT_PUBLIC_GATEWAY_URL || '';
 
@@ -22,17 +23,12 @@ export default function SwarmPage() {
   const fetchAgents = async () => {
     try {
       // Fetch Active Hierarchy
-      const res = await fetch(`${GATEWAY_URL}/api/agents/hierarchy`);
-      if (!res.ok) throw new Error('Failed to fetch agents');
-      const data = await res.json();
+      const data = await gatewayFetch<{ hierarchy: AdytumAgent[] }>('/api/agents/hierarchy');
       setAgents(data.hierarchy);
 
       // Fetch Graveyard
-      const gRes = await fetch(`${GATEWAY_URL}/api/agents/graveyard`);
-      if (gRes.ok) {
-        const gData = await gRes.json();
-        setGraveyardAgents(gData.agents);
-      }
+      const gData = await gatewayFetch<{ agents: AdytumAgent[] }>('/api/agents/graveyard');
+      setGraveyardAgents(gData.agents);
     } catch (err) {
       console.error('Error fetching swarm:', err);
     }
@@ -45,6 +41,7 @@ export default function SwarmPage() {
     const newSocket = io(GATEWAY_URL, {
       path: '/socket.io',
       transports: ['websocket', 'polling'],
+      auth: { token: getGatewayToken() },
     });
 
     newSocket.on('connect', () => {
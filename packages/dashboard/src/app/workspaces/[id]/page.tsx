@@ -19,7 +19,10 @@ export default function WorkspaceDetailIdPage({ params }: { params: Promise<{ id
     try {
       const data = await api.get('/api/workspaces');
       const ws = data.workspaces.find((w: Workspace) => w.id === id);
-      if (ws) setWorkspace(ws);
+      if (ws) {
+        setWorkspace(ws);
+        setIndexingMode(ws.indexingMode);
+      }
     } catch (error) {
       console.error('Failed to fetch workspace details:', error);
     } finally {
@@ -0,0 +1,68 @@
+'use client';
+
+/**
+ * @file packages/dashboard/src/components/chat/citation-list.tsx
+ * @description Defines reusable UI components for the dashboard.
+ */
+
+import type { Citation } from '@adytum/shared';
+import { openGatewayFile } from '@/lib/api';
+import { clsx } from 'clsx';
+import { FileText } from 'lucide-react';
+
+/**
+ * Numbered sources an answer was grounded on, matching the `[n]` markers in its text.
+ */
+export function CitationList({ citations }: { citations?: Citation[] }) {
+  if (!citations?.length) return null;
+
+  return (
+    <div className="mt-3 space-y-1.5">
+      <p className="text-[11px] font-semibold uppercase tracking-wider text-text-muted">Sources</p>
+      {citations.map((citation) => (
+        <button
+          key={citation.index}
+          type="button"
+          onClick={() =>
+            openGatewayFile(citation.path, {
+              workspaceId: citation.workspaceId,
+              page: citation.path.toLowerCase().endsWith('.pdf') ? citation.page : undefined,
+            }).catch((err) => console.error('Failed to open source:', err))
+          }
+          title={citation.snippet}
+          className={clsx(
+            'group flex w-full items-start gap-2 rounded-lg text-left border border-border-primary/70 bg-bg-primary/60 px-3 py-2',
+            'transition-colors duration-150 hover:border-accent-primary/40 hover:bg-bg-primary',
+          )}
+        >
+          <span className="mt-0.5 shrink-0 font-mono text-xs text-accent-primary">
+            [{citation.index}]
+          </span>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-xs font-medium text-text-primary group-hover:text-accent-primary">
+              {formatSource(citation)}
+            </p>
+            {citation.snippet && (
+              <p className="mt-0.5 truncate text-[11px] text-text-muted">{citation.snippet}</p>
+            )}
+          </div>
+          <FileText className="mt-0.5 h-3.5 w-3.5 shrink-0 text-text-muted group-hover:text-accent-primary" />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function formatSource(citation: Citation): string {
+  let source = citation.entry ? `${citation.path} › ${citation.entry}` : citation.path;
+  if (citation.startLine !== undefined) {
+    source +=
+      citation.endLine !== undefined && citation.endLine !== citation.startLine
+        ? `:${citation.startLine}-${citation.endLine}`
+        : `:${citation.startLine}`;
+  }
+  if (citation.page !== undefined) source += `, p. ${citation.page}`;
+  if (citation.location) source += `, ${citation.location}`;
+  if (citation.heading) source += ` (${citation.heading})`;
+  return source;
+}
@@ -72,6 +72,9 @@ export function PlanVisualizer({ plan, className }: PlanVisualizerProps) {
                       <span className="text-[10px] font-mono text-text-tertiary bg-bg-tertiary px-1.5 py-0.5 rounded">
                         {step.tool || 'thinking'}
                       </span>
+                      {(step.attempts ?? 0) > 1 && (
+                        <span className="text-[10px] text-warning">attempt {step.attempts}</span>
+                      )}
                       {step.dependencies.length > 0 && (
                         <span className="text-[10px] text-text-muted flex items-center gap-1">
                           after {step.dependencies.map((d) => d.replace('step_', '')).join(', ')}
@@ -85,7 +88,7 @@ export function PlanVisualizer({ plan, className }: PlanVisualizerProps) {
                         'text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider',
                         step.status === 'completed'
                           ? 'bg-success/10 text-success'
-                          : step.status === 'failed'
+                          : step.status === 'failed' || step.status === 'cancelled'
                             ? 'bg-error/10 text-error'
                             : step.status === 'running'
                               ? 'bg-accent-primary/10 text-accent-primary animate-pulse'
@@ -132,6 +135,9 @@ function StatusIcon({ status }: { status?: string }) {
     case 'failed':
     case 'error':
       return <AlertTriangle size={22} className="fill-error/10 text-error" />;
+    case 'skipped':
+    case 'cancelled':
+      return <Clock size={22} className="text-text-muted" />;
     default:
       return <Circle size={22} className="text-border-secondary fill-bg-tertiary" />;
   }
@@ -24,7 +24,7 @@ import '@xyflow/react/dist/style.css';
 import { gatewayFetch } from '@/lib/api';
 import { Card, Button, Spinner, Badge } from '@/components/ui';
 import { RefreshCw, Layout, ArrowDown, ArrowRight } from 'lucide-react';
-import { KnowledgeGraph, GraphNode, GraphEdge } from '@adytum/shared';
+import { KnowledgeGraph, GraphNode, GraphEdge, GraphQuery, GraphQueryResult } from '@adytum/shared';
 import dagre from 'dagre';
 
 const nodeWidth = 172;
@@ -70,7 +70,10 @@ const getLayoutedElements = (nodes: Node[], edges: Edge[]) => {
 
 interface GraphViewProps {
   workspaceId?: string;
+  /** Show only the subgraph matched by this query. */
+  query?: GraphQuery | null;
   onIndexingStatusChange?: (status: boolean) => void;
+  onQueryResult?: (result: GraphQueryResult) => void;
 }
 
 export function GraphView(props: GraphViewProps) {
@@ -81,7 +84,7 @@ export function GraphView(props: GraphViewProps) {
   );
 }
 
-function GraphViewInner({ workspaceId, onIndexingStatusChange }: GraphViewProps) {
+function GraphViewInner({ workspaceId, query, onQueryResult }: GraphViewProps) {
   const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
   const [loading, setLoading] = useState(true);
@@ -93,10 +96,23 @@ function GraphViewInner({ workspaceId, onIndexingStatusChange }: GraphViewProps)
     setLoading(true);
     setError(null);
     try {
-      const url = workspaceId
-        ? `/api/knowledge/graph?workspaceId=${workspaceId}`
-        : '/api/knowledge/graph';
-      const graph = await gatewayFetch<KnowledgeGraph>(url);
+      let graph: Pick<KnowledgeGraph, 'nodes' | 'edges'>;
+      let results = new Set<string>();
+      if (query) {
+        const result = await gatewayFetch<GraphQueryResult>('/api/knowledge/query', {
+          method: 'POST',
+          body: JSON.stringify({ workspaceId, query }),
+        });
+        graph = result;
+        results = new Set(result.results);
+        onQueryResult?.(result);
+      } else {
+        // File-level view; symbol nodes would swamp the layout
+        const url = workspaceId
+          ? `/api/knowledge/graph?workspaceId=${workspaceId}&symbols=false`
+          : '/api/knowledge/graph?symbols=false';
+        graph = await gatewayFetch<KnowledgeGraph>(url);
+      }
 
       const newNodes: Node[] = graph.nodes.map((n: GraphNode) => ({
         id: n.id,
@@ -106,7 +122,9 @@ function GraphViewInner({ workspaceId, onIndexingStatusChange }: GraphViewProps)
         style: {
           background: n.type === 'directory' ? '#2d1b4d' : n.type === 'doc' ? '#1e2d1b' : '#1e1e2e',
           color: '#fff',
-          border: `1px solid ${n.type === 'directory' ? '#4a3a8a' : '#4a4a6a'}`,
+          border: results.has(n.id)
+            ? '2px solid #6366f1'
+            : `1px solid ${n.type === 'directory' ? '#4a3a8a' : '#4a4a6a'}`,
           borderRadius: '8px',
           padding: '8px 12px',
           width: nodeWidth,
@@ -134,7 +152,7 @@ function GraphViewInner({ workspaceId, onIndexingStatusChange }: GraphViewProps)
       setEdges([...layoutedEdges]);
 
       // Auto-focus on the root node (id: '.') after a short delay
-      const rootNode = layoutedNodes.find((n) => n.id === '.');
+      const rootNode = query ? undefined : layoutedNodes.find((n) => n.id === '.');
       if (rootNode) {
         setTimeout(() => {
           void fitView({ duration: 800, padding: 0.3, nodes: [rootNode] });
@@ -145,7 +163,7 @@ function GraphViewInner({ workspaceId, onIndexingStatusChange }: GraphViewProps)
     } finally {
       setLoading(false);
     }
-  }, [setNodes, setEdges, workspaceId]);
+  }, [setNodes, setEdges, workspaceId, query, onQueryResult]);
 
   useEffect(() => {
     void fetchGraph();
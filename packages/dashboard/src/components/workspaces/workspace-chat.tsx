@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { useGatewaySocket } from '@/hooks/use-gateway-socket';
+import { indexAfter, useGatewaySocket, type StreamEvent } from '@/hooks/use-gateway-socket';
 import {
   Send,
   Bot,
@@ -18,11 +18,13 @@ import {
 import { clsx } from 'clsx';
 import { MarkdownRenderer } from '@/components/chat/markdown-renderer';
 import { LinkPreviewList } from '@/components/chat/link-previews';
+import { CitationList } from '@/components/chat/citation-list';
 import {
   ThinkingIndicator,
   type ThinkingActivityEntry,
 } from '@/components/chat/thinking-indicator';
 import { ChatModelSelector } from '@/components/chat/model-selector';
+import type { Citation } from '@adytum/shared';
 
 interface ChatMessage {
   id: string;
@@ -30,6 +32,7 @@ interface ChatMessage {
   content: string;
   timestamp: number;
   toolCalls?: string[];
+  citations?: Citation[];
   attachments?: Array<{
     type: 'image' | 'file' | 'audio' | 'video';
     data: string;
@@ -58,6 +61,7 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
   const [activeApprovals, setActiveApprovals] = useState<ChatMessage['approvals']>([]);
   const [activityFeed, setActivityFeed] = useState<ThinkingActivityEntry[]>([]);
   const [thinkingStartedAt, setThinkingStartedAt] = useState<number | null>(null);
+  const [draftResponse, setDraftResponse] = useState('');
 
   const [selectedRole, setSelectedRole] = useState('thinking');
   const [selectedModelId, setSelectedModelId] = useState('');
@@ -66,7 +70,7 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
   >([]);
 
   const pendingToolsRef = useRef<string[]>([]);
-  const eventCursorRef = useRef(0);
+  const lastEventRef = useRef<StreamEvent | undefined>(undefined);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -74,9 +78,10 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
 
   // Handle incoming WebSocket events
   useEffect(() => {
-    if (eventCursorRef.current >= events.length) return;
+    const start = indexAfter(events, lastEventRef.current);
+    if (start >= events.length) return;
 
-    for (let index = eventCursorRef.current; index < events.length; index += 1) {
+    for (let index = start; index < events.length; index += 1) {
       const event = events[index];
 
       // Filter events by sessionId and workspaceId
@@ -95,6 +100,9 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
         if (!content) continue;
 
         const tools = pendingToolsRef.current.length > 0 ? [...pendingToolsRef.current] : undefined;
+        const citations = Array.isArray(event.citations)
+          ? (event.citations as Citation[])
+          : undefined;
         setMessages((prev) => {
           const lastMsg = prev[prev.length - 1];
           if (lastMsg && lastMsg.role === 'assistant') {
@@ -104,6 +112,7 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
                 ...lastMsg,
                 content,
                 toolCalls: tools || lastMsg.toolCalls,
+                citations,
               },
             ];
           }
@@ -115,6 +124,7 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
               content,
               timestamp: Date.now(),
               toolCalls: tools,
+              citations,
             },
           ];
         });
@@ -123,6 +133,7 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
         setActiveApprovals([]);
         setIsThinking(false);
         setThinkingStartedAt(null);
+        setDraftResponse('');
         continue;
       }
 
@@ -166,7 +177,10 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
         const streamType = String(event.streamType || '').toLowerCase();
         const delta = String(event.delta || '');
 
-        if (streamType === 'tool_call') {
+        if (streamType === 'response') {
+          if (event.metadata?.reset) setDraftResponse('');
+          else if (delta) setDraftResponse((prev) => prev + delta);
+        } else if (streamType === 'tool_call') {
           const toolName = delta.replace(/^calling tool:\s*/i, '').split(/\s+/)[0] || 'tool';
           setPendingTools((prev) => (prev.includes(toolName) ? prev : [...prev, toolName]));
           setActivityFeed((prev) => [
@@ -202,13 +216,13 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
       }
     }
 
-    eventCursorRef.current = events.length;
+    lastEventRef.current = events[events.length - 1];
   }, [events, sessionId, workspaceId]);
 
   // Auto-scroll
   useEffect(() => {
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
-  }, [messages.length, isThinking, activityFeed.length]);
+  }, [messages.length, isThinking, activityFeed.length, draftResponse]);
 
   const handleSend = () => {
     const text = input.trim();
@@ -236,6 +250,7 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
     pendingToolsRef.current = [];
     setIsThinking(true);
     setThinkingStartedAt(Date.now());
+    setDraftResponse('');
     setActivityFeed([
       { id: crypto.randomUUID(), type: 'status', text: 'Thinking...', timestamp: Date.now() },
     ]);
@@ -344,6 +359,8 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
                 )
               )}
 
+              {msg.role === 'assistant' && <CitationList citations={msg.citations} />}
+
               {msg.attachments && msg.attachments.length > 0 && (
                 <div className="mt-3 flex flex-wrap gap-2">
                   {msg.attachments.map((at, i) => (
@@ -437,6 +454,14 @@ export function WorkspaceChat({ workspaceId, workspaceName, onClose }: Workspace
           </div>
         ))}
 
+        {isThinking && draftResponse && (
+          <div className="flex flex-col gap-2 items-start">
+            <div className="max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed shadow-sm bg-bg-primary border border-border-primary text-text-primary rounded-tl-none">
+              <MarkdownRenderer content={draftResponse} variant="assistant" />
+            </div>
+          </div>
+        )}
+
         {isThinking && (
           <ThinkingIndicator
             activities={activityFeed}
@@ -7,7 +7,7 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { getSocketIOUrl } from '@/lib/api';
+import { getGatewayToken, getSocketIOUrl } from '@/lib/api';
 
 export interface StreamEvent {
   type: string;
@@ -19,6 +19,18 @@ export interface StreamEvent {
   [key: string]: unknown;
 }
 
+/**
+ * Index of the first event after `last`. The buffer drops its oldest events, so positions
+ * shift once it is full; a `last` no longer in it means every event is new.
+ * @param events - Event buffer.
+ * @param last - Last event already handled.
+ * @returns Index to resume from.
+ */
+export function indexAfter(events: StreamEvent[], last: StreamEvent | undefined): number {
+  if (!last) return 0;
+  return events.lastIndexOf(last) + 1;
+}
+
 export function useGatewaySocket() {
   const socketRef = useRef<Socket | null>(null);
   const [connected, setConnected] = useState(false);
@@ -81,6 +93,7 @@ export function useGatewaySocket() {
       path: '/socket.io',
       transports: ['websocket', 'polling'],
       forceNew: true,
+      auth: { token: getGatewayToken() },
       reconnectionDelay: 1000,
       reconnectionDelayMax: 5000,
     });
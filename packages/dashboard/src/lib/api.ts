@@ -20,12 +20,66 @@ function joinGatewayPath(base: string, path: string): string {
   return `${normalizedBase}${normalizedPath}`;
 }
 
-export async function gatewayFetch<T = unknown>(path: string, options?: RequestInit): Promise<T> {
+const TOKEN_STORAGE_KEY = 'adytum.gatewayToken';
+let tokenPrompted = false;
+
+/**
+ * Returns the gateway API token. A `?token=` link (opened by `adytum start`) is moved
+ * into localStorage and stripped from the address bar.
+ */
+export function getGatewayToken(): string | null {
+  if (typeof window === 'undefined') return process.env.NEXT_PUBLIC_GATEWAY_TOKEN || null;
+
+  const params = new URLSearchParams(window.location.search);
+  const fromUrl = params.get('token');
+  if (fromUrl) {
+    window.localStorage.setItem(TOKEN_STORAGE_KEY, fromUrl);
+    params.delete('token');
+    const search = params.toString();
+    window.history.replaceState(
+      null,
+      '',
+      `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`,
+    );
+  }
+  return (
+    window.localStorage.getItem(TOKEN_STORAGE_KEY) || process.env.NEXT_PUBLIC_GATEWAY_TOKEN || null
+  );
+}
+
+/** Stores or clears the gateway API token. */
+export function setGatewayToken(token: string | null): void {
+  if (typeof window === 'undefined') return;
+  if (token) window.localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  else window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+/** Asks for a token once per page load after the gateway rejects the stored one. */
+function promptForToken(): string | null {
+  if (typeof window === 'undefined' || tokenPrompted) return null;
+  tokenPrompted = true;
+  const token = window.prompt(
+    'The gateway requires an API token (see data/admin.token or `adytum token create`):',
+  );
+  if (!token?.trim()) return null;
+  setGatewayToken(token.trim());
+  return token.trim();
+}
+
+/**
+ * Sends an authenticated request to the gateway, asking for a token once on 401.
+ * @throws Error with the gateway's message when the response is not ok.
+ */
+async function gatewayRequest(path: string, options?: RequestInit): Promise<Response> {
   const headers = new Headers(options?.headers || {});
   const hasBody = options?.body !== undefined && options?.body !== null;
   if (hasBody && !headers.has('Content-Type') && !(options?.body instanceof FormData)) {
     headers.set('Content-Type', 'application/json');
   }
+  const token = getGatewayToken();
+  if (token && !headers.has('Authorization')) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
 
   let res: Response;
   try {
@@ -38,6 +92,10 @@ export async function gatewayFetch<T = unknown>(path: string, options?: RequestI
     throw new Error(`Failed to fetch ${path}: ${msg}`);
   }
 
+  if (res.status === 401 && promptForToken()) {
+    return gatewayRequest(path, options);
+  }
+
   if (!res.ok) {
     let detail = '';
     try {
@@ -56,9 +114,43 @@ export async function gatewayFetch<T = unknown>(path: string, options?: RequestI
         : `Gateway error: ${res.status} ${res.statusText}`,
     );
   }
+  return res;
+}
+
+export async function gatewayFetch<T = unknown>(path: string, options?: RequestInit): Promise<T> {
+  const res = await gatewayRequest(path, options);
   return res.json();
 }
 
+/**
+ * Opens a workspace file served by the gateway in a new tab. The file is fetched with the
+ * Authorization header and shown from a blob URL, so the token never ends up in a link;
+ * PDFs open at `page`.
+ */
+export async function openGatewayFile(
+  path: string,
+  options: { workspaceId?: string; page?: number } = {},
+): Promise<void> {
+  // Open the tab before awaiting so popup blockers still see the click
+  const tab = window.open('', '_blank');
+  const params = new URLSearchParams();
+  if (options.workspaceId) params.set('workspaceId', options.workspaceId);
+  const encoded = path.split('/').map(encodeURIComponent).join('/');
+  const query = params.toString();
+  try {
+    const res = await gatewayRequest(`/api/system/files/${encoded}${query ? `?${query}` : ''}`);
+    const url = URL.createObjectURL(await res.blob());
+    const anchor = options.page ? `#page=${options.page}` : '';
+    if (tab) tab.location.href = `${url}${anchor}`;
+    else window.open(`${url}${anchor}`, '_blank', 'noreferrer');
+    // The new tab has loaded the blob by then
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  } catch (err) {
+    tab?.close();
+    throw err;
+  }
+}
+
 export function getWebSocketUrl(): string {
   if (process.env.NEXT_PUBLIC_WS_URL) return process.env.NEXT_PUBLIC_WS_URL;
 
@@ -16,6 +16,9 @@ import { randomUUID } from 'node:crypto';
 import { MemoryRepository } from '../../domain/interfaces/memory-repository.interface.js';
 import { ApprovalService } from '../../domain/logic/approval-service.js';
 import { SoulEngine } from '../../domain/logic/soul-engine.js';
+import { MemoryStore } from '../../infrastructure/repositories/memory-store.js';
+import { BackupService } from '../../application/services/backup-service.js';
+import { RuntimeRegistry } from '../../domain/agents/runtime-registry.js';
 import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 
@@ -46,6 +49,9 @@ export class AgentController {
     @inject('MemoryRepository') private memoryRepo: MemoryRepository,
     @inject(ApprovalService) private approvals: ApprovalService,
     @inject(SoulEngine) private soulEngine: SoulEngine,
+    @inject(MemoryStore) private memoryStore: MemoryStore,
+    @inject(BackupService) private backups: BackupService,
+    @inject(RuntimeRegistry) private runtimeRegistry: RuntimeRegistry,
   ) {}
 
   /**
@@ -109,6 +115,12 @@ export class AgentController {
             return;
           }
 
+          // Cancel stops the session's turn and its sub-agents, including calls in flight
+          if (frame.type === 'control' && frame.action === 'cancel') {
+            this.runtimeRegistry.abortHierarchy(frame.sessionId);
+            return;
+          }
+
           if (frame.type === 'message') {
             const { content, sessionId = 'default', workspaceId } = frame as any;
             const runtime = this.agentService.getRuntime();
@@ -149,6 +161,7 @@ export class AgentController {
                     type: 'message',
                     sessionId: sessionId === 'default' ? randomUUID() : sessionId, // Ensure UUID if default
                     content: result.response,
+                    citations: result.citations.length ? result.citations : undefined,
                     modelRole: 'assistant',
                     workspaceId: workspaceId,
                   }),
@@ -220,11 +233,19 @@ export class AgentController {
   public async updateMemory(request: FastifyRequest) {
     const { id } = request.params as { id: string };
     const body = request.body as any;
-    const updated = await this.memoryRepo.updateMemory(id, {
+    if (
+      body.importance !== undefined &&
+      (typeof body.importance !== 'number' || body.importance < 0 || body.importance > 1)
+    ) {
+      throw new AppError('importance must be a number between 0 and 1', 400);
+    }
+    const updated = await this.memoryStore.update(id, {
       content: body.content,
       category: body.category,
       tags: body.tags,
       metadata: body.metadata,
+      pinned: typeof body.pinned === 'boolean' ? body.pinned : undefined,
+      importance: body.importance,
     });
     if (!updated) throw new AppError('Memory not found', 404);
     return { memory: updated };
@@ -241,6 +262,53 @@ export class AgentController {
     return { success: true };
   }
 
+  /**
+   * Exports memory, conversations and agent state as a backup archive.
+   * @param request - Request.
+   * @param reply - Reply.
+   */
+  public async exportMemories(request: FastifyRequest, reply: FastifyReply) {
+    const { workspaceId, embeddings } = request.query as {
+      workspaceId?: string;
+      embeddings?: string;
+    };
+    const archive = this.backups.export({
+      workspaceId: workspaceId || undefined,
+      includeEmbeddings: embeddings !== 'false',
+    });
+    const scope = workspaceId ? `-${workspaceId.replace(/[^\w.-]/g, '_')}` : '';
+    const name = `adytum-backup${scope}-${new Date().toISOString().slice(0, 10)}.zip`;
+    reply.header('Content-Type', 'application/zip');
+    reply.header('Content-Disposition', `attachment; filename="${name}"`);
+    return reply.send(archive);
+  }
+
+  /**
+   * Restores a backup archive sent as the request body.
+   * @param request - Request.
+   */
+  public async importMemories(request: FastifyRequest) {
+    const { mode, workspaceId, into, reembed } = request.query as {
+      mode?: string;
+      workspaceId?: string;
+      into?: string;
+      reembed?: string;
+    };
+    if (!Buffer.isBuffer(request.body)) {
+      throw new AppError('Send the backup archive as application/zip', 415);
+    }
+    if (mode !== undefined && mode !== 'merge' && mode !== 'replace') {
+      throw new AppError('mode must be merge or replace', 400);
+    }
+    const report = await this.backups.import(request.body, {
+      mode,
+      workspaceId: workspaceId || undefined,
+      targetWorkspaceId: into || undefined,
+      reembed: reembed === 'true',
+    });
+    return { success: true, ...report };
+  }
+
   /**
    * Retrieves approvals.
    * @param request - Request.
@@ -295,6 +363,45 @@ export class AgentController {
     return { success: true, feedback };
   }
 
+  /**
+   * Lists interrupted turns of a session that can be resumed.
+   * @param request - Request.
+   */
+  public async getSessionCheckpoints(request: FastifyRequest) {
+    const { id } = request.params as { id: string };
+    const checkpoints = this.agentService
+      .getRuntime()
+      .getResumableTurns(id)
+      .map(({ messages, ...checkpoint }) => ({ ...checkpoint, messageCount: messages.length }));
+    return { checkpoints };
+  }
+
+  /**
+   * Resumes the latest (or the requested) interrupted turn of a session.
+   * @param request - Request.
+   */
+  public async resumeSession(request: FastifyRequest) {
+    const { id } = request.params as { id: string };
+    const body = (request.body || {}) as { traceId?: string };
+    const runtime = this.agentService.getRuntime();
+
+    if (runtime.isTurnActive(id)) {
+      throw new AppError('Session already has a turn in progress', 409);
+    }
+    const resumable = runtime.getResumableTurns(id);
+    if (!resumable.some((c) => !body.traceId || c.traceId === body.traceId)) {
+      throw new AppError('No resumable turn found for session', 404);
+    }
+
+    const result = await runtime.resume(id, body.traceId);
+    return {
+      response: result.response,
+      traceId: result.trace.id,
+      status: result.trace.status,
+      toolCalls: result.toolCalls,
+    };
+  }
+
   /**
    * Retrieves personality.
    * @param request - Request.
@@ -0,0 +1,137 @@
+import 'reflect-metadata';
+import { EventEmitter } from 'node:events';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIController, SESSION_HEADER, resolveModelName } from './openai.controller.js';
+
+/** Minimal runtime: emits the given deltas, then finishes the turn with `response`. */
+function fakeRuntime(response: string, deltas: string[] = [], status = 'completed') {
+  const runtime = Object.assign(new EventEmitter(), {
+    isTurnActive: vi.fn(() => false),
+    seedSession: vi.fn(),
+    resetContext: vi.fn(),
+    abort: vi.fn(),
+    run: vi.fn(async (_message: string, sessionId: string) => {
+      for (const delta of deltas) {
+        runtime.emit('stream', { sessionId, streamType: 'response', delta });
+      }
+      return {
+        response,
+        trace: { id: 'trace-1', status, outcome: status === 'completed' ? response : 'boom' },
+        toolCalls: [],
+        citations: [],
+      };
+    }),
+  });
+  return runtime;
+}
+
+describe('OpenAIController', () => {
+  let app: FastifyInstance;
+  let runtime: ReturnType<typeof fakeRuntime>;
+
+  const setup = async (rt: ReturnType<typeof fakeRuntime>) => {
+    runtime = rt;
+    const controller = new OpenAIController(
+      { error: vi.fn() } as any,
+      { getRuntime: () => runtime } as any,
+      { getAgent: (id: string) => (id === 'a1' ? { id } : undefined) } as any,
+    );
+    app = Fastify();
+    app.addHook('onRequest', async (_req, reply) => {
+      reply.header('access-control-allow-origin', '*');
+    });
+    app.post('/v1/chat/completions', (req, reply) => controller.chatCompletions(req, reply));
+    await app.ready();
+  };
+
+  const complete = (body: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: '/v1/chat/completions',
+      payload: { messages: [{ role: 'user', content: 'Hi' }], ...body },
+    });
+
+  beforeEach(() => {
+    runtime = fakeRuntime('');
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  it('resolves model names to runtime overrides', () => {
+    const hasAgent = (id: string) => id === 'a1';
+    expect(resolveModelName('adytum', hasAgent)).toEqual({});
+    expect(resolveModelName('adytum/fast', hasAgent)).toEqual({ modelRole: 'fast' });
+    expect(resolveModelName('adytum/agent:a1', hasAgent)).toEqual({ agentId: 'a1' });
+    expect(resolveModelName('adytum/agent:a2', hasAgent)).toBeNull();
+    expect(resolveModelName('adytum/unknown', hasAgent)).toBeNull();
+    expect(resolveModelName('gpt-4o', hasAgent)).toBeNull();
+  });
+
+  it('answers with a chat completion', async () => {
+    await setup(fakeRuntime('Hello there.'));
+    const res = await complete({ model: 'adytum/fast' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers[SESSION_HEADER]).toMatch(/^openai-/);
+    const body = res.json();
+    expect(body.object).toBe('chat.completion');
+    expect(body.model).toBe('adytum/fast');
+    expect(body.choices[0]).toEqual({
+      index: 0,
+      message: { role: 'assistant', content: 'Hello there.' },
+      finish_reason: 'stop',
+    });
+    expect(runtime.run).toHaveBeenCalledWith('Hi', expect.any(String), {
+      modelRole: 'fast',
+      workspaceId: undefined,
+    });
+  });
+
+  it('returns an error body when the turn fails', async () => {
+    await setup(fakeRuntime('I encountered an error: boom', [], 'failed'));
+    const res = await complete({});
+
+    expect(res.statusCode).toBe(500);
+    expect(res.json()).toEqual({
+      error: { message: 'boom', type: 'server_error', code: 'failed' },
+    });
+  });
+
+  it('rejects unknown models', async () => {
+    await setup(fakeRuntime(''));
+    const res = await complete({ model: 'adytum/agent:missing' });
+    expect(res.statusCode).toBe(404);
+    expect(runtime.run).not.toHaveBeenCalled();
+  });
+
+  it('streams chunks, usage and [DONE] with the hook headers', async () => {
+    await setup(fakeRuntime('Hello there.', ['Hello', ' there']));
+    const res = await complete({ stream: true });
+
+    expect(res.headers['content-type']).toBe('text/event-stream');
+    expect(res.headers['access-control-allow-origin']).toBe('*');
+    const events = res.body.split('\n\n').filter(Boolean);
+    expect(events.every((event) => event.startsWith('data: '))).toBe(true);
+    expect(events.at(-1)).toBe('data: [DONE]');
+
+    const chunks = events.slice(0, -1).map((event) => JSON.parse(event.slice('data: '.length)));
+    expect(chunks.map((c) => c.choices[0]?.delta)).toEqual([
+      { role: 'assistant' },
+      { content: 'Hello' },
+      { content: ' there' },
+      { content: '.' },
+      {},
+      undefined,
+    ]);
+    expect(chunks.at(-2).choices[0].finish_reason).toBe('stop');
+    expect(chunks.at(-1).usage).toEqual({
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+    });
+    expect(runtime.abort).not.toHaveBeenCalled();
+  });
+});
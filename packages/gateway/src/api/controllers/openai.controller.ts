@@ -0,0 +1,315 @@
+/**
+ * @file packages/gateway/src/api/controllers/openai.controller.ts
+ * @description OpenAI-compatible facade (`/v1/models`, `/v1/chat/completions`) over the agent runtime.
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { singleton, inject } from 'tsyringe';
+import { randomUUID } from 'node:crypto';
+import type { OutgoingHttpHeaders } from 'node:http';
+import { ModelRoleSchema, type ModelRole, type TokenUsage } from '@adytum/shared';
+import { Logger } from '../../logger.js';
+import { AgentService } from '../../application/services/agent-service.js';
+import { SwarmManager } from '../../domain/logic/swarm-manager.js';
+import { tokenTracker } from '../../domain/logic/token-tracker.js';
+import { AppError } from '../../domain/errors/app-error.js';
+import { loadConfig } from '../../config.js';
+import type { AgentRunOverrides, AgentTurnResult } from '../../domain/logic/agent-runtime.js';
+
+/** Header carrying the Adytum session id; without it every request runs in a fresh session. */
+export const SESSION_HEADER = 'x-adytum-session-id';
+/** Header selecting the workspace the turn runs in. */
+export const WORKSPACE_HEADER = 'x-adytum-workspace-id';
+
+const MODEL_PREFIX = 'adytum';
+const AGENT_PREFIX = `${MODEL_PREFIX}/agent:`;
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool' | 'developer';
+  content: string | Array<{ type: string; text?: string }> | null;
+}
+
+interface ChatCompletionBody {
+  model?: string;
+  messages?: ChatMessage[];
+  stream?: boolean;
+}
+
+/**
+ * Maps an OpenAI model name onto runtime overrides.
+ * `adytum` uses the default role, `adytum/<role>` a role chain and `adytum/agent:<id>` a swarm agent.
+ * @param model - Requested model name.
+ * @param hasAgent - Whether a swarm agent with the given id is active.
+ * @returns The overrides, or null when the name is unknown.
+ */
+export function resolveModelName(
+  model: string,
+  hasAgent: (id: string) => boolean,
+): Pick<AgentRunOverrides, 'modelRole' | 'agentId'> | null {
+  if (model === MODEL_PREFIX) return {};
+  if (model.startsWith(AGENT_PREFIX)) {
+    const agentId = model.slice(AGENT_PREFIX.length);
+    return agentId && hasAgent(agentId) ? { agentId } : null;
+  }
+  const role = ModelRoleSchema.safeParse(model.slice(MODEL_PREFIX.length + 1));
+  return model.startsWith(`${MODEL_PREFIX}/`) && role.success ? { modelRole: role.data } : null;
+}
+
+/**
+ * Flattens OpenAI message content parts into plain text.
+ * @param content - Message content.
+ * @returns The text content.
+ */
+function messageText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Builds an OpenAI error body for a turn that failed or was cancelled.
+ * @param result - Turn result.
+ * @returns The error body.
+ */
+function turnError(result: AgentTurnResult) {
+  return {
+    error: {
+      message: result.trace.outcome || result.response,
+      type: 'server_error',
+      code: result.trace.status,
+    },
+  };
+}
+
+/**
+ * Encapsulates the OpenAI-compatible API.
+ */
+@singleton()
+export class OpenAIController {
+  constructor(
+    @inject(Logger) private logger: Logger,
+    @inject(AgentService) private agentService: AgentService,
+    @inject(SwarmManager) private swarmManager: SwarmManager,
+  ) {}
+
+  /**
+   * Lists role chains with configured models and active swarm agents as OpenAI models.
+   * @returns The OpenAI model list.
+   */
+  public async listModels() {
+    const chains = loadConfig().modelChains ?? {};
+    const roles = ModelRoleSchema.options.filter(
+      (role: ModelRole) => (chains[role] ?? []).length > 0,
+    );
+    const data = [
+      { id: MODEL_PREFIX, object: 'model', created: 0, owned_by: MODEL_PREFIX },
+      ...roles.map((role) => ({
+        id: `${MODEL_PREFIX}/${role}`,
+        object: 'model',
+        created: 0,
+        owned_by: MODEL_PREFIX,
+      })),
+      ...this.swarmManager.getAllAgents().map((agent) => ({
+        id: `${AGENT_PREFIX}${agent.id}`,
+        object: 'model',
+        created: Math.floor(agent.createdAt / 1000),
+        owned_by: MODEL_PREFIX,
+        name: agent.name,
+      })),
+    ];
+    return { object: 'list', data };
+  }
+
+  /**
+   * Runs an agent turn for the last user message and replies as a chat completion or SSE stream.
+   * @param request - Request.
+   * @param reply - Reply.
+   */
+  public async chatCompletions(request: FastifyRequest, reply: FastifyReply) {
+    const body = (request.body || {}) as ChatCompletionBody;
+    const model = body.model || MODEL_PREFIX;
+    const overrides = resolveModelName(model, (id) => Boolean(this.swarmManager.getAgent(id)));
+    if (!overrides) {
+      throw new AppError(`Unknown model "${model}"`, 404);
+    }
+    const messages = Array.isArray(body.messages) ? body.messages : [];
+    const lastUser = messages.map((m) => m.role).lastIndexOf('user');
+    if (lastUser === -1) {
+      throw new AppError('messages must contain a user message', 400);
+    }
+
+    const header = request.headers[SESSION_HEADER];
+    const requestedSession = (Array.isArray(header) ? header[0] : header)?.trim();
+    const sessionId = requestedSession || `openai-${randomUUID()}`;
+    const workspaceHeader = request.headers[WORKSPACE_HEADER];
+    const runOverrides: AgentRunOverrides = {
+      ...overrides,
+      workspaceId:
+        (Array.isArray(workspaceHeader) ? workspaceHeader[0] : workspaceHeader) || undefined,
+    };
+
+    const runtime = this.agentService.getRuntime();
+    if (runtime.isTurnActive(sessionId)) {
+      throw new AppError(`Session ${sessionId} already has a turn in progress`, 409);
+    }
+    // Persistent sessions keep their own history; ephemeral ones take it from the request.
+    if (!requestedSession) {
+      runtime.seedSession(
+        sessionId,
+        messages.slice(0, lastUser).map((m) => ({
+          role: m.role === 'developer' || m.role === 'tool' ? 'system' : m.role,
+          content: messageText(m.content),
+        })),
+        runOverrides,
+      );
+    }
+
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    const onUsage = (record: TokenUsage & { sessionId: string }) => {
+      if (record.sessionId !== sessionId) return;
+      usage.prompt_tokens += record.promptTokens;
+      usage.completion_tokens += record.completionTokens;
+      usage.total_tokens += record.totalTokens;
+    };
+
+    reply.header(SESSION_HEADER, sessionId);
+    tokenTracker.on('token_update', onUsage);
+    try {
+      const userMessage = messageText(messages[lastUser].content);
+      if (!body.stream) {
+        const result = await runtime.run(userMessage, sessionId, runOverrides);
+        if (result.trace.status !== 'completed') {
+          return reply.status(500).send(turnError(result));
+        }
+        return {
+          id,
+          object: 'chat.completion',
+          created,
+          model,
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: result.response },
+              finish_reason: 'stop',
+            },
+          ],
+          usage,
+        };
+      }
+      await this.streamCompletion(reply, runtime, userMessage, sessionId, runOverrides, {
+        id,
+        created,
+        model,
+        usage,
+      });
+    } finally {
+      tokenTracker.off('token_update', onUsage);
+      if (!requestedSession) runtime.resetContext(sessionId);
+    }
+  }
+
+  /**
+   * Streams an agent turn as `chat.completion.chunk` server-sent events.
+   * @param reply - Reply.
+   * @param runtime - Agent runtime.
+   * @param userMessage - User message.
+   * @param sessionId - Session id.
+   * @param overrides - Run overrides.
+   * @param meta - Completion id, timestamp, model and running usage totals.
+   */
+  private async streamCompletion(
+    reply: FastifyReply,
+    runtime: ReturnType<AgentService['getRuntime']>,
+    userMessage: string,
+    sessionId: string,
+    overrides: AgentRunOverrides,
+    meta: { id: string; created: number; model: string; usage: Record<string, number> },
+  ): Promise<void> {
+    reply.hijack();
+    const raw = reply.raw;
+    // Hijacking skips Fastify's send, so headers set by hooks (CORS) are written here
+    raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      [SESSION_HEADER]: sessionId,
+    });
+
+    const send = (data: unknown) => {
+      if (!raw.writableEnded) raw.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+    const chunk = (delta: Record<string, string>, finishReason: string | null = null) =>
+      send({
+        id: meta.id,
+        object: 'chat.completion.chunk',
+        created: meta.created,
+        model: meta.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+
+    let streamed = '';
+    const onStream = (event: {
+      sessionId?: string;
+      streamType?: string;
+      delta?: string;
+      metadata?: Record<string, unknown>;
+    }) => {
+      if (event.sessionId !== sessionId || event.streamType !== 'response') return;
+      // Sent text cannot be withdrawn; separate it from the answer that replaces it
+      if (event.metadata?.reset) {
+        if (streamed) chunk({ content: '\n\n' });
+        streamed = '';
+        return;
+      }
+      if (!event.delta) return;
+      chunk({ content: event.delta });
+      streamed += event.delta;
+    };
+
+    // A client that disconnects mid-answer does not need the rest of the turn
+    const onClose = () => {
+      if (!raw.writableFinished) runtime.abort(sessionId);
+    };
+
+    chunk({ role: 'assistant' });
+    runtime.on('stream', onStream);
+    raw.on('close', onClose);
+    try {
+      const result = await runtime.run(userMessage, sessionId, overrides);
+      if (result.trace.status !== 'completed') {
+        send(turnError(result));
+        return;
+      }
+      // Send whatever the final response adds beyond the streamed deltas.
+      if (!streamed) chunk({ content: result.response });
+      else if (result.response.startsWith(streamed) && result.response.length > streamed.length) {
+        chunk({ content: result.response.slice(streamed.length) });
+      }
+      chunk({}, 'stop');
+      send({
+        id: meta.id,
+        object: 'chat.completion.chunk',
+        created: meta.created,
+        model: meta.model,
+        choices: [],
+        usage: meta.usage,
+      });
+    } catch (err: any) {
+      this.logger.error(`OpenAI stream failed for ${sessionId}: ${err.message}`);
+      send({ error: { message: err.message, type: 'server_error' } });
+    } finally {
+      runtime.off('stream', onStream);
+      raw.off('close', onClose);
+      if (!raw.writableEnded) {
+        raw.write('data: [DONE]\n\n');
+        raw.end();
+      }
+    }
+  }
+}
@@ -12,6 +12,7 @@ import { Logger } from '../../logger.js';
 import { auditLogger } from '../../security/audit-logger.js';
 import { AppError } from '../../domain/errors/app-error.js';
 import { MemoryDB } from '../../infrastructure/repositories/memory-db.js';
+import { GraphStore } from '../../domain/knowledge/graph-store.js';
 import { loadConfig } from '../../config.js';
 import { createReadStream, existsSync } from 'node:fs';
 
@@ -23,6 +24,7 @@ export class SystemController {
   constructor(
     @inject(Logger) private logger: Logger,
     @inject('MemoryDB') private memoryDb: MemoryDB,
+    @inject(GraphStore) private graphStore: GraphStore,
   ) {}
 
   /**
@@ -134,7 +136,8 @@ export class SystemController {
   }
 
   /**
-   * Serves a file from the workspace.
+   * Serves a file from the workspace, or from the knowledge workspace named by `workspaceId`
+   * (the paths in citations are relative to it).
    */
   public async serveFile(request: FastifyRequest, reply: FastifyReply) {
     const rawPath = (request.params as any)['*'];
@@ -142,12 +145,16 @@ export class SystemController {
       throw new AppError('File path is required', 400);
     }
 
-    const config = loadConfig();
-    const workspacePath = path.resolve(config.workspacePath);
+    const { workspaceId } = request.query as { workspaceId?: string };
+    const workspace = workspaceId ? this.graphStore.getWorkspace(workspaceId) : undefined;
+    if (workspaceId && workspaceId !== 'default' && !workspace) {
+      throw new AppError(`Workspace ${workspaceId} not found`, 404);
+    }
+    const workspacePath = path.resolve(workspace?.path ?? loadConfig().workspacePath);
     const targetPath = path.normalize(path.join(workspacePath, rawPath));
 
     // Security check: ensure the path is within the workspace
-    if (!targetPath.startsWith(workspacePath)) {
+    if (targetPath !== workspacePath && !targetPath.startsWith(workspacePath + path.sep)) {
       this.logger.warn(`Security alert: Attempted unauthorized file access: ${targetPath}`);
       throw new AppError('Access denied', 403);
     }
@@ -172,6 +179,14 @@ export class SystemController {
       '.pdf': 'application/pdf',
       '.txt': 'text/plain',
       '.md': 'text/markdown',
+      '.csv': 'text/csv',
+      '.json': 'application/json',
+      // Shown as source rather than rendered, so scripts never run on the gateway's origin
+      '.html': 'text/plain',
+      '.htm': 'text/plain',
+      '.eml': 'text/plain',
+      '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      '.zip': 'application/zip',
     };
 
     const contentType = contentTypes[ext] || 'application/octet-stream';
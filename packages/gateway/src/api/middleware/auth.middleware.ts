@@ -0,0 +1,52 @@
+/**
+ * @file packages/gateway/src/api/middleware/auth.middleware.ts
+ * @description Provides middleware behavior for the API layer.
+ */
+
+import { FastifyReply, FastifyRequest } from 'fastify';
+import type { ApiToken, AuthConfig } from '@adytum/shared';
+import { AppError } from '../../domain/errors/app-error.js';
+import type { TokenStore } from '../../security/token-store.js';
+import {
+  acceptsQueryToken,
+  extractToken,
+  requiredScope,
+  scopeAllows,
+} from '../../security/api-auth.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Token the request was authenticated with, when auth is enabled. */
+    apiToken?: ApiToken;
+  }
+}
+
+/**
+ * Creates the `onRequest` hook that checks API tokens and their scopes on every route.
+ * @param tokens - Token store.
+ * @param getSettings - Current auth settings.
+ * @returns The Fastify hook.
+ */
+export function createAuthHook(tokens: TokenStore, getSettings: () => AuthConfig) {
+  return async (request: FastifyRequest, _reply: FastifyReply) => {
+    const settings = getSettings();
+    if (!settings.enabled) return;
+
+    const path = request.url.split('?')[0];
+    const required = requiredScope(request.method, path, settings.publicPaths);
+    if (!required) return;
+
+    const secret = extractToken(
+      request.headers,
+      acceptsQueryToken(request.method, path) ? request.query : undefined,
+    );
+    const token = secret ? tokens.verify(secret) : undefined;
+    if (!token) {
+      throw new AppError('Authentication required', 401);
+    }
+    if (!scopeAllows(token.scope, required)) {
+      throw new AppError(`Token scope "${token.scope}" cannot access this route`, 403);
+    }
+    request.apiToken = token;
+  };
+}
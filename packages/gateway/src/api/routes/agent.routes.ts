@@ -7,6 +7,8 @@ import { FastifyInstance } from 'fastify';
 import { container } from 'tsyringe';
 import { AgentController } from '../controllers/agent.controller.js';
 
+const BACKUP_BODY_LIMIT = 512 * 1024 * 1024;
+
 /**
  * Executes agent routes.
  * @param app - App.
@@ -14,14 +16,26 @@ import { AgentController } from '../controllers/agent.controller.js';
 export async function agentRoutes(app: FastifyInstance) {
   const controller = container.resolve(AgentController);
 
+  // Backup archives are uploaded as raw zip bodies
+  app.addContentTypeParser(
+    ['application/zip', 'application/octet-stream'],
+    { parseAs: 'buffer', bodyLimit: BACKUP_BODY_LIMIT },
+    (_req, body, done) => done(null, body),
+  );
+
   // REST routes
   app.get('/api/memories', (req, reply) => controller.getMemories(req, reply));
+  app.get('/api/memories/export', (req, reply) => controller.exportMemories(req, reply));
+  app.post('/api/memories/import', (req, reply) => controller.importMemories(req));
   app.put('/api/memories/:id', (req, reply) => controller.updateMemory(req));
   app.delete('/api/memories/:id', (req, reply) => controller.deleteMemory(req));
 
   app.get('/api/approvals', (req, reply) => controller.getApprovals(req));
   app.post('/api/approvals/:id', (req, reply) => controller.resolveApproval(req));
 
+  app.get('/api/sessions/:id/checkpoints', (req, reply) => controller.getSessionCheckpoints(req));
+  app.post('/api/sessions/:id/resume', (req, reply) => controller.resumeSession(req));
+
   app.post('/api/feedback', (req, reply) => controller.handleFeedback(req));
 
   app.get('/api/personality', (req, reply) => controller.getPersonality(req));
@@ -7,9 +7,12 @@ import { FastifyInstance } from 'fastify';
 import { container } from 'tsyringe';
 import { GraphStore } from '../../domain/knowledge/graph-store.js';
 import { GraphIndexer } from '../../domain/knowledge/graph-indexer.js';
+import { SYMBOL_NODE_TYPES } from '../../domain/knowledge/code-symbols.js';
 import { GraphContext } from '../../domain/knowledge/graph-context.js';
+import { GraphTraversalService } from '../../domain/knowledge/graph-traversal.js';
+import { AppError } from '../../domain/errors/app-error.js';
 import { loadConfig } from '../../config.js';
-import { Workspace, WorkspaceType } from '@adytum/shared';
+import { GraphQuerySchema, Workspace, WorkspaceType } from '@adytum/shared';
 import { v4 as uuid } from 'uuid';
 import { basename } from 'path';
 
@@ -17,6 +20,7 @@ export async function knowledgeRoutes(app: FastifyInstance) {
   const store = container.resolve(GraphStore);
   const indexer = container.resolve(GraphIndexer);
   const context = container.resolve(GraphContext);
+  const traversal = container.resolve(GraphTraversalService);
   const config = loadConfig();
 
   /**
@@ -63,7 +67,8 @@ export async function knowledgeRoutes(app: FastifyInstance) {
       nodeCount: 0,
       edgeCount: 0,
       lastIndexed: 0,
-      indexingMode: 'fast',
+      // Collections are mostly documents, which are only searchable once chunked
+      indexingMode: type === 'collection' ? 'deep' : 'fast',
     };
 
     const workspaces = store.listWorkspaces();
@@ -71,7 +76,7 @@ export async function knowledgeRoutes(app: FastifyInstance) {
     store.saveWorkspaces(workspaces);
 
     // Trigger initial index
-    indexer.update(path, id).catch((err) => {
+    indexer.update(path, id, { mode: newWS.indexingMode, skipLLM: true }).catch((err) => {
       app.log.error(err, 'Initial indexing failed');
     });
 
@@ -89,30 +94,60 @@ export async function knowledgeRoutes(app: FastifyInstance) {
 
   /**
    * GET /api/knowledge/graph
+   * `symbols=false` leaves out code symbol nodes (classes, functions, methods) and their edges.
    */
   app.get('/api/knowledge/graph', async (request) => {
-    const { workspaceId } = request.query as { workspaceId?: string };
-    return store.load(workspaceId);
+    const { workspaceId, symbols } = request.query as { workspaceId?: string; symbols?: string };
+    const graph = store.load(workspaceId);
+    if (symbols !== 'false') return graph;
+
+    const nodes = graph.nodes.filter((n) => !SYMBOL_NODE_TYPES.has(n.type));
+    const ids = new Set(nodes.map((n) => n.id));
+    const edges = graph.edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+    return { ...graph, nodes, edges };
   });
 
   /**
    * POST /api/knowledge/reindex
+   * `mode` defaults to the workspace's `indexingMode`; `deep` also chunks documents into memory.
    */
   app.post('/api/knowledge/reindex', async (request) => {
-    const { workspaceId } = request.body as { workspaceId?: string };
+    const { workspaceId, mode } = request.body as { workspaceId?: string; mode?: 'fast' | 'deep' };
     const ws = workspaceId ? store.getWorkspace(workspaceId) : null;
     const path = ws ? ws.path : config.workspacePath;
 
-    const graph = await indexer.update(path, workspaceId);
+    const graph = await indexer.update(path, workspaceId, {
+      mode: mode ?? ws?.indexingMode ?? 'fast',
+      skipLLM: true,
+    });
     return { success: true, lastUpdated: graph.lastUpdated, nodeCount: graph.nodes.length };
   });
 
   /**
    * GET /api/knowledge/query
+   * Related context as text, plus a citation for each numbered source in it.
    */
   app.get('/api/knowledge/query', async (request) => {
     const { q, workspaceId } = request.query as { q?: string; workspaceId?: string };
-    if (!q) return { context: '' };
-    return { context: context.getRelatedContext(q, workspaceId) };
+    if (!q) return { context: '', citations: [] };
+    const related = await context.getRelatedContext(q, workspaceId);
+    return { context: related.text, citations: related.citations };
+  });
+
+  /**
+   * POST /api/knowledge/query
+   * Structured query: `{ workspaceId?, query: GraphQuery }`. Returns the matching subgraph.
+   */
+  app.post('/api/knowledge/query', async (request) => {
+    const { workspaceId, query } = (request.body ?? {}) as {
+      workspaceId?: string;
+      query?: unknown;
+    };
+    const parsed = GraphQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new AppError(`Invalid graph query at ${issue.path.join('.')}: ${issue.message}`, 400);
+    }
+    return traversal.query(parsed.data, workspaceId || 'default');
   });
 }
@@ -0,0 +1,19 @@
+/**
+ * @file packages/gateway/src/api/routes/openai.routes.ts
+ * @description Defines API route registration and endpoint wiring.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { container } from 'tsyringe';
+import { OpenAIController } from '../controllers/openai.controller.js';
+
+/**
+ * Executes OpenAI-compatible routes.
+ * @param app - App.
+ */
+export async function openaiRoutes(app: FastifyInstance) {
+  const controller = container.resolve(OpenAIController);
+
+  app.get('/v1/models', () => controller.listModels());
+  app.post('/v1/chat/completions', (req, reply) => controller.chatCompletions(req, reply));
+}
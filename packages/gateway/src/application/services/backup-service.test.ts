@@ -0,0 +1,144 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import AdmZip from 'adm-zip';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryDB } from '../../infrastructure/repositories/memory-db.js';
+import { BackupError, BackupService } from './backup-service.js';
+
+function writeJson(path: string, value: unknown) {
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, JSON.stringify(value));
+}
+
+describe('BackupService', () => {
+  let root: string;
+  let embedBatch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'adytum-backup-'));
+    embedBatch = vi.fn(async (texts: string[]) => texts.map(() => new Float32Array([0, 1, 0])));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  /** Creates a gateway data and workspace directory under the temp root. */
+  const setup = (name: string) => {
+    const dataPath = join(root, name, 'data');
+    const workspacePath = join(root, name, 'workspace');
+    mkdirSync(workspacePath, { recursive: true });
+    const db = new MemoryDB(dataPath);
+    const embeddings = { embedBatch, getModelName: () => 'test-model' };
+    return {
+      dataPath,
+      workspacePath,
+      db,
+      service: new BackupService(db, dataPath, workspacePath, embeddings as any),
+    };
+  };
+
+  it('restores a full backup into an empty gateway', async () => {
+    const source = setup('source');
+    source.db.addMessage('s1', 'user', 'hello');
+    source.db.addMemory({
+      content: 'User prefers dark mode',
+      source: 'user',
+      category: 'preference',
+      pinned: true,
+      embedding: Buffer.from(new Float32Array([1, 0, 0]).buffer),
+    });
+    writeJson(join(source.dataPath, 'cron.json'), [{ id: 'job1', schedule: '0 9 * * *' }]);
+    writeFileSync(join(source.workspacePath, 'SOUL.md'), '# Soul');
+
+    const target = setup('target');
+    const report = await target.service.import(source.service.export());
+
+    expect(report).toMatchObject({ messages: 1, memories: 1, reembedded: 0 });
+    expect(report.restartRequired).toBe(true);
+    expect(embedBatch).not.toHaveBeenCalled();
+    const [memory] = target.db.findMemories({ categories: ['preference'], withEmbedding: true });
+    expect(memory).toMatchObject({ content: 'User prefers dark mode', pinned: true });
+    expect([...new Float32Array(new Uint8Array(memory.embedding!).buffer)]).toEqual([1, 0, 0]);
+    expect(readFileSync(join(target.workspacePath, 'SOUL.md'), 'utf-8')).toBe('# Soul');
+    expect(JSON.parse(readFileSync(join(target.dataPath, 'cron.json'), 'utf-8'))).toEqual([
+      { id: 'job1', schedule: '0 9 * * *' },
+    ]);
+  });
+
+  it('merges one workspace under a new id and re-embeds when embeddings were left out', async () => {
+    const source = setup('source');
+    source.db.addMemory({
+      content: 'ws1 fact',
+      source: 'user',
+      category: 'fact',
+      workspaceId: 'ws1',
+    });
+    source.db.addMemory({
+      content: 'ws2 fact',
+      source: 'user',
+      category: 'fact',
+      workspaceId: 'ws2',
+    });
+    writeJson(join(source.dataPath, 'knowledge/workspaces.json'), [{ id: 'ws1', name: 'One' }]);
+    writeJson(join(source.dataPath, 'knowledge/graphs/graph_ws1.json'), {
+      nodes: [{ id: 'n1' }],
+      edges: [],
+      lastUpdated: 1,
+      version: 1,
+    });
+
+    const target = setup('target');
+    writeJson(join(target.dataPath, 'knowledge/graphs/graph_copy.json'), {
+      nodes: [{ id: 'n0' }],
+      edges: [],
+      lastUpdated: 2,
+      version: 1,
+    });
+    const archive = source.service.export({ workspaceId: 'ws1', includeEmbeddings: false });
+
+    await expect(target.service.import(archive, { workspaceId: 'ws2' })).rejects.toThrow(
+      BackupError,
+    );
+    const report = await target.service.import(archive, { targetWorkspaceId: 'copy' });
+
+    expect(report).toMatchObject({ memories: 1, reembedded: 1, restartRequired: false });
+    expect(target.db.findMemories({}).map((m) => [m.content, m.workspaceId])).toEqual([
+      ['ws1 fact', 'copy'],
+    ]);
+    const graph = JSON.parse(
+      readFileSync(join(target.dataPath, 'knowledge/graphs/graph_copy.json'), 'utf-8'),
+    );
+    expect(graph.nodes.map((n: { id: string }) => n.id)).toEqual(['n0', 'n1']);
+    expect(
+      JSON.parse(readFileSync(join(target.dataPath, 'knowledge/workspaces.json'), 'utf-8')),
+    ).toEqual([{ id: 'copy', name: 'One' }]);
+  });
+
+  it('rejects workspace and graph ids that would leave the data directory', async () => {
+    const source = setup('source');
+    writeJson(join(source.dataPath, 'knowledge/graphs/graph_ws1.json'), {
+      nodes: [],
+      edges: [],
+      lastUpdated: 1,
+    });
+    const archive = source.service.export({ workspaceId: 'ws1' });
+    const target = setup('target');
+
+    await expect(
+      target.service.import(archive, { targetWorkspaceId: '../../escaped' }),
+    ).rejects.toThrow(BackupError);
+
+    const tampered = new AdmZip(source.service.export());
+    // addFile normalizes the name, so rename the entry the way a crafted archive would have it
+    tampered.getEntry('data/knowledge/graphs/graph_ws1.json')!.entryName =
+      'data/knowledge/graphs/graph_../../../escaped.json';
+    await expect(target.service.import(tampered.toBuffer())).rejects.toThrow(
+      /Invalid workspace id/,
+    );
+    expect(existsSync(join(root, 'target', 'escaped.json'))).toBe(false);
+    expect(target.db.findMemories({})).toEqual([]);
+  });
+});
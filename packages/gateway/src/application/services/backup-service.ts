@@ -0,0 +1,469 @@
+/**
+ * @file packages/gateway/src/application/services/backup-service.ts
+ * @description Implements application-level service logic and coordination.
+ */
+
+import AdmZip from 'adm-zip';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { z } from 'zod';
+import { ADYTUM_VERSION } from '@adytum/shared';
+import { AppError } from '../../domain/errors/app-error.js';
+import { logger } from '../../logger.js';
+import type { EmbeddingService } from '../../infrastructure/llm/embedding-service.js';
+import type {
+  BackupRows,
+  MemoryDB,
+  MemoryRow,
+  MessageRow,
+} from '../../infrastructure/repositories/memory-db.js';
+
+export const BACKUP_FORMAT = 'adytum-backup';
+export const BACKUP_VERSION = 1;
+
+const BackupManifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  createdAt: z.number(),
+  adytumVersion: z.string(),
+  /** Set when the archive holds a single workspace. */
+  workspaceId: z.string().nullable(),
+  /** Model of the archived embeddings; null when they were left out. */
+  embedding: z.object({ model: z.string(), dimensions: z.number() }).nullable(),
+  counts: z.record(z.number()),
+});
+type BackupManifest = z.infer<typeof BackupManifestSchema>;
+
+/** Data-directory files copied as-is (merged by `id` on import). */
+const LIST_FILES = {
+  agents: 'hierarchy/agents.json',
+  cron: 'cron.json',
+  workspaces: 'knowledge/workspaces.json',
+} as const;
+const GRAPHS_DIR = 'knowledge/graphs';
+const GRAPH_ENTRY = /^data\/knowledge\/graphs\/graph_(.+)\.json$/;
+/** Workspace and graph ids end up in file names, so they are limited to these characters. */
+const SAFE_ID = /^[\w-]+$/;
+const WORKSPACE_FILES = ['SOUL.md', 'HEARTBEAT.md'];
+
+export interface BackupExportOptions {
+  /** Only export this workspace's messages, memories and knowledge graph. */
+  workspaceId?: string;
+  /** Include memory embeddings (default true); without them import re-embeds. */
+  includeEmbeddings?: boolean;
+}
+
+export interface BackupImportOptions {
+  /** `merge` keeps existing data and adds what is missing; `replace` restores over it. */
+  mode?: 'merge' | 'replace';
+  /** Only import this workspace (defaults to the archive's workspace, if it has one). */
+  workspaceId?: string;
+  /** Store the imported workspace under another id. */
+  targetWorkspaceId?: string;
+  /** Recompute embeddings even when the archive has compatible ones. */
+  reembed?: boolean;
+}
+
+export interface BackupImportReport {
+  messages: number;
+  memories: number;
+  tokenUsage: number;
+  reembedded: number;
+  files: string[];
+  /** Agents or cron jobs changed; a running gateway only picks them up after a restart. */
+  restartRequired: boolean;
+}
+
+/** Thrown for archives that cannot be read or options that do not fit the archive. */
+export class BackupError extends AppError {
+  constructor(message: string) {
+    super(message, 400);
+  }
+}
+
+/**
+ * Writes and restores portable backups: a zip with `manifest.json`, JSONL dumps of the
+ * messages, memories and token_usage tables, agents, cron jobs, knowledge graphs, and the
+ * workspace's SOUL.md and HEARTBEAT.md.
+ */
+export class BackupService {
+  constructor(
+    private memoryDb: MemoryDB,
+    private dataPath: string,
+    private workspacePath: string,
+    private embeddingService?: EmbeddingService,
+  ) {}
+
+  /**
+   * Builds a backup archive.
+   * @param options - Workspace scope and embedding inclusion.
+   * @returns The zip archive.
+   */
+  export(options: BackupExportOptions = {}): Buffer {
+    const { workspaceId, includeEmbeddings = true } = options;
+    if (workspaceId !== undefined && !SAFE_ID.test(workspaceId)) {
+      throw new BackupError(`Invalid workspace id "${workspaceId}"`);
+    }
+    const zip = new AdmZip();
+    const rows = this.memoryDb.exportBackupRows(workspaceId);
+
+    const embedded = rows.memories.find((m) => m.embedding);
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      adytumVersion: ADYTUM_VERSION,
+      workspaceId: workspaceId ?? null,
+      embedding:
+        includeEmbeddings && embedded?.embedding
+          ? {
+              model: embedded.embeddingModel ?? this.embeddingService?.getModelName() ?? 'unknown',
+              dimensions: embedded.embedding.byteLength / 4,
+            }
+          : null,
+      counts: {
+        messages: rows.messages.length,
+        memories: rows.memories.length,
+        tokenUsage: rows.tokenUsage.length,
+      },
+    };
+
+    zip.addFile('tables/messages.jsonl', toJsonl(rows.messages));
+    zip.addFile(
+      'tables/memories.jsonl',
+      toJsonl(
+        rows.memories.map(({ embedding, embeddingModel, embeddingDim, ...m }) =>
+          includeEmbeddings && embedding
+            ? { ...m, embedding: embedding.toString('base64'), embeddingModel, embeddingDim }
+            : m,
+        ),
+      ),
+    );
+    zip.addFile('tables/token_usage.jsonl', toJsonl(rows.tokenUsage));
+
+    const workspaces = this.readJson<Array<{ id: string }>>(LIST_FILES.workspaces) ?? [];
+    const graphIds = workspaceId
+      ? [workspaceId]
+      : this.listGraphFiles().map((f) => f.slice('graph_'.length, -'.json'.length));
+    for (const id of graphIds) {
+      const file = `${GRAPHS_DIR}/graph_${id}.json`;
+      if (existsSync(join(this.dataPath, file))) {
+        zip.addFile(`data/${file}`, readFileSync(join(this.dataPath, file)));
+      }
+    }
+    manifest.counts.graphs = graphIds.length;
+
+    if (workspaceId) {
+      const entry = workspaces.filter((w) => w.id === workspaceId);
+      zip.addFile(`data/${LIST_FILES.workspaces}`, Buffer.from(JSON.stringify(entry, null, 2)));
+    } else {
+      for (const file of Object.values(LIST_FILES)) {
+        const path = join(this.dataPath, file);
+        if (existsSync(path)) zip.addFile(`data/${file}`, readFileSync(path));
+      }
+      for (const file of WORKSPACE_FILES) {
+        const path = join(this.workspacePath, file);
+        if (existsSync(path)) zip.addFile(`workspace/${file}`, readFileSync(path));
+      }
+    }
+
+    zip.addFile('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+    return zip.toBuffer();
+  }
+
+  /**
+   * Restores a backup archive.
+   * @param archive - Zip archive produced by `export`.
+   * @param options - Merge mode, workspace scope and embedding handling.
+   * @returns What was imported.
+   */
+  async import(archive: Buffer, options: BackupImportOptions = {}): Promise<BackupImportReport> {
+    const replace = options.mode === 'replace';
+    const zip = openArchive(archive);
+    const manifest = readManifest(zip);
+    const scope = options.workspaceId ?? manifest.workspaceId ?? undefined;
+    const target = options.targetWorkspaceId ?? scope;
+    if (options.targetWorkspaceId && !scope) {
+      throw new BackupError('targetWorkspaceId requires a workspace to import (workspaceId)');
+    }
+    if (manifest.workspaceId && scope !== manifest.workspaceId) {
+      throw new BackupError(`Archive only contains workspace ${manifest.workspaceId}`);
+    }
+    const graphIds = zip.getEntries().flatMap((e) => e.entryName.match(GRAPH_ENTRY)?.[1] ?? []);
+    for (const id of [scope, target, ...graphIds]) {
+      if (id !== undefined && !SAFE_ID.test(id)) {
+        throw new BackupError(`Invalid workspace id "${id}"`);
+      }
+    }
+
+    const inScope = <T extends { workspaceId?: string }>(row: T): T | undefined => {
+      if (!scope) return row;
+      return row.workspaceId === scope ? { ...row, workspaceId: target } : undefined;
+    };
+    const messages = fromJsonl<MessageRow>(zip, 'tables/messages.jsonl').flatMap(
+      (m) => inScope(m) ?? [],
+    );
+    const archived = fromJsonl<Omit<MemoryRow, 'embedding'> & { embedding?: string }>(
+      zip,
+      'tables/memories.jsonl',
+    ).flatMap((m) => inScope(m) ?? []);
+    const { memories, reembedded } = await this.restoreEmbeddings(archived, manifest, options);
+
+    const counts = this.memoryDb.importBackupRows(
+      {
+        messages,
+        memories,
+        tokenUsage: scope
+          ? []
+          : fromJsonl<BackupRows['tokenUsage'][number]>(zip, 'tables/token_usage.jsonl'),
+      },
+      { replace, workspaceId: target },
+    );
+
+    const files = scope
+      ? this.importWorkspaceFiles(zip, scope, target!, replace)
+      : this.importAllFiles(zip, replace);
+    return {
+      ...counts,
+      reembedded,
+      files,
+      restartRequired: files.some((f) => f === LIST_FILES.agents || f === LIST_FILES.cron),
+    };
+  }
+
+  /**
+   * Decodes archived embeddings, re-embedding memories without a compatible one.
+   * @param archived - Memories as stored in the archive.
+   * @param manifest - Archive manifest.
+   * @param options - Import options.
+   * @returns Memories ready to insert and how many were re-embedded.
+   */
+  private async restoreEmbeddings(
+    archived: Array<Omit<MemoryRow, 'embedding'> & { embedding?: string }>,
+    manifest: BackupManifest,
+    options: BackupImportOptions,
+  ): Promise<{ memories: MemoryRow[]; reembedded: number }> {
+    const model = this.embeddingService?.getModelName();
+    const memories: MemoryRow[] = [];
+    const missing: MemoryRow[] = [];
+    for (const { embedding, ...memory } of archived) {
+      // Archives written before vectors recorded their model carry it in the manifest only
+      const archivedModel = memory.embeddingModel ?? manifest.embedding?.model;
+      if (!options.reembed && embedding && archivedModel === model) {
+        memories.push({
+          ...memory,
+          embedding: Buffer.from(embedding, 'base64'),
+          embeddingModel: archivedModel,
+        });
+        continue;
+      }
+      const restored = { ...memory, embedding: undefined, embeddingModel: undefined };
+      memories.push(restored);
+      missing.push(restored);
+    }
+
+    let reembedded = 0;
+    if (this.embeddingService && missing.length > 0) {
+      try {
+        const vectors = await this.embeddingService.embedBatch(missing.map((m) => m.content));
+        missing.forEach((memory, i) => {
+          memory.embedding = Buffer.from(vectors[i].buffer);
+          memory.embeddingModel = model;
+        });
+        reembedded = missing.length;
+      } catch (err) {
+        logger.warn({ err, count: missing.length }, 'Backup import: failed to embed memories');
+      }
+    }
+    return { memories, reembedded };
+  }
+
+  /**
+   * Imports agents, cron jobs, workspaces, every knowledge graph and the workspace markdown.
+   * @returns Data- and workspace-relative paths written.
+   */
+  private importAllFiles(zip: AdmZip, replace: boolean): string[] {
+    const written: string[] = [];
+    for (const file of Object.values(LIST_FILES)) {
+      const incoming = readEntryJson<unknown>(zip, `data/${file}`);
+      if (incoming === undefined) continue;
+      const existing = this.readJson<unknown>(file);
+      const agentsFile = file === LIST_FILES.agents;
+      const list = (value: unknown) =>
+        (agentsFile ? (value as { agents?: Array<{ id: string }> })?.agents : value) as
+          | Array<{ id: string }>
+          | undefined;
+      const merged = mergeById(list(existing) ?? [], list(incoming) ?? [], replace);
+      this.writeJson(file, agentsFile ? { agents: merged } : merged);
+      written.push(file);
+    }
+
+    for (const entry of zip.getEntries()) {
+      const match = entry.entryName.match(GRAPH_ENTRY);
+      if (match) written.push(this.importGraph(zip, match[1], match[1], replace));
+    }
+
+    for (const file of WORKSPACE_FILES) {
+      const entry = zip.getEntry(`workspace/${file}`);
+      const path = join(this.workspacePath, file);
+      if (!entry || (!replace && existsSync(path))) continue;
+      mkdirSync(this.workspacePath, { recursive: true });
+      writeFileSync(path, entry.getData());
+      written.push(`workspace/${file}`);
+    }
+    return written;
+  }
+
+  /**
+   * Imports one workspace's knowledge graph and registry entry, possibly under a new id.
+   * @returns Data-relative paths written.
+   */
+  private importWorkspaceFiles(
+    zip: AdmZip,
+    sourceId: string,
+    targetId: string,
+    replace: boolean,
+  ): string[] {
+    const written: string[] = [];
+    const incoming = (
+      readEntryJson<Array<{ id: string }>>(zip, `data/${LIST_FILES.workspaces}`) ?? []
+    )
+      .filter((w) => w.id === sourceId)
+      .map((w) => ({ ...w, id: targetId }));
+    if (incoming.length > 0) {
+      const existing = this.readJson<Array<{ id: string }>>(LIST_FILES.workspaces) ?? [];
+      this.writeJson(LIST_FILES.workspaces, mergeById(existing, incoming, replace, true));
+      written.push(LIST_FILES.workspaces);
+    }
+    if (zip.getEntry(`data/${GRAPHS_DIR}/graph_${sourceId}.json`)) {
+      written.push(this.importGraph(zip, sourceId, targetId, replace));
+    }
+    return written;
+  }
+
+  /**
+   * Writes a knowledge graph, merging nodes and edges by id unless replacing.
+   * @returns Data-relative path written.
+   */
+  private importGraph(zip: AdmZip, sourceId: string, targetId: string, replace: boolean): string {
+    type Graph = {
+      nodes: Array<{ id: string }>;
+      edges: Array<{ id: string }>;
+      lastUpdated: number;
+    };
+    const file = `${GRAPHS_DIR}/graph_${targetId}.json`;
+    const incoming = readEntryJson<Graph>(zip, `data/${GRAPHS_DIR}/graph_${sourceId}.json`)!;
+    const existing = replace ? undefined : this.readJson<Graph>(file);
+    this.writeJson(
+      file,
+      existing
+        ? {
+            ...existing,
+            nodes: mergeById(existing.nodes, incoming.nodes, false),
+            edges: mergeById(existing.edges, incoming.edges, false),
+            lastUpdated: Math.max(existing.lastUpdated, incoming.lastUpdated),
+          }
+        : incoming,
+    );
+    return file;
+  }
+
+  private listGraphFiles(): string[] {
+    const dir = join(this.dataPath, GRAPHS_DIR);
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir).filter((f) => /^graph_.+\.json$/.test(f));
+  }
+
+  /**
+   * Resolves a data-relative path, refusing any that leads outside the data directory.
+   * @param file - Data-relative path.
+   * @returns The absolute path.
+   */
+  private dataFile(file: string): string {
+    const path = resolve(this.dataPath, file);
+    const rel = relative(resolve(this.dataPath), path);
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+      throw new BackupError(`Refusing to write outside the data directory: ${file}`);
+    }
+    return path;
+  }
+
+  private readJson<T>(file: string): T | undefined {
+    const path = this.dataFile(file);
+    if (!existsSync(path)) return undefined;
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeJson(file: string, value: unknown): void {
+    const path = this.dataFile(file);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(value, null, 2), 'utf-8');
+  }
+}
+
+// ─── Archive Helpers ──────────────────────────────────────────
+
+function toJsonl(rows: unknown[]): Buffer {
+  return Buffer.from(rows.map((r) => JSON.stringify(r)).join('\n'));
+}
+
+function fromJsonl<T>(zip: AdmZip, name: string): T[] {
+  const text = zip.getEntry(name)?.getData().toString('utf-8') ?? '';
+  return text
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as T);
+}
+
+function readEntryJson<T>(zip: AdmZip, name: string): T | undefined {
+  const entry = zip.getEntry(name);
+  return entry ? (JSON.parse(entry.getData().toString('utf-8')) as T) : undefined;
+}
+
+function openArchive(archive: Buffer): AdmZip {
+  try {
+    return new AdmZip(archive);
+  } catch {
+    throw new BackupError('Not a zip archive');
+  }
+}
+
+function readManifest(zip: AdmZip): BackupManifest {
+  const parsed = BackupManifestSchema.safeParse(readEntryJson(zip, 'manifest.json'));
+  if (!parsed.success) throw new BackupError('Not an Adytum backup: missing or invalid manifest');
+  if (parsed.data.version > BACKUP_VERSION) {
+    throw new BackupError(
+      `Backup format v${parsed.data.version} is newer than this gateway supports (v${BACKUP_VERSION})`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Merges two lists of records by `id`.
+ * @param existing - Current records.
+ * @param incoming - Imported records.
+ * @param replace - Return the imported records only.
+ * @param preferIncoming - On conflict keep the imported record instead of the current one.
+ * @returns The merged list.
+ */
+function mergeById<T extends { id: string }>(
+  existing: T[],
+  incoming: T[],
+  replace: boolean,
+  preferIncoming = false,
+): T[] {
+  if (replace) {
+    if (!preferIncoming) return incoming;
+    const ids = new Set(incoming.map((r) => r.id));
+    return [...existing.filter((r) => !ids.has(r.id)), ...incoming];
+  }
+  const ids = new Set(existing.map((r) => r.id));
+  const added = incoming.filter((r) => !ids.has(r.id));
+  if (!preferIncoming) return [...existing, ...added];
+  return existing.map((r) => incoming.find((i) => i.id === r.id) ?? r).concat(added);
+}
@@ -0,0 +1,52 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Dreamer } from './dreamer.js';
+
+describe('Dreamer', () => {
+  const message = (content: string, workspaceId?: string) => ({
+    role: 'user',
+    content,
+    workspaceId,
+    createdAt: Date.now(),
+  });
+
+  it('stores nothing and keeps the last run when a workspace fails to extract', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'adytum-dreamer-'));
+    const memoryDb = {
+      getTokenUsageDaily: vi.fn().mockReturnValue([]),
+      getMeta: vi.fn().mockReturnValue('0'),
+      setMeta: vi.fn(),
+      getActionLogsSince: vi.fn().mockReturnValue([]),
+      getRecentMessages: vi
+        .fn()
+        .mockReturnValue([message('I use pnpm'), message('Deploy to fly.io', 'ws-1')]),
+    };
+    const memoryStore = { addBatch: vi.fn() };
+    const chatStructured = vi
+      .fn()
+      .mockResolvedValueOnce({
+        data: { memories: [{ content: 'User uses pnpm', category: 'user_fact', tags: [] }] },
+      })
+      .mockRejectedValueOnce(new Error('invalid structured output'));
+    const dreamer = new Dreamer(
+      { chatStructured } as any,
+      memoryDb as any,
+      memoryStore as any,
+      {} as any,
+      dir,
+      dir,
+    );
+
+    try {
+      await expect(dreamer.run()).rejects.toThrow('invalid structured output');
+      expect(chatStructured).toHaveBeenCalledTimes(2);
+      expect(memoryStore.addBatch).not.toHaveBeenCalled();
+      expect(memoryDb.setMeta).not.toHaveBeenCalled();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -5,12 +5,30 @@
 
 import { mkdirSync, writeFileSync, appendFileSync, readFileSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
+import { z } from 'zod';
 import { auditLogger } from '../../security/audit-logger.js';
 import type { ModelRouter } from '../../infrastructure/llm/model-router.js';
-import type { MemoryDB } from '../../infrastructure/repositories/memory-db.js';
-import { redactSecrets, type MemoryStore } from '../../infrastructure/repositories/memory-store.js';
+import type { MemoryDB, MessageRow } from '../../infrastructure/repositories/memory-db.js';
+import {
+  MEMORY_CATEGORIES,
+  redactSecrets,
+  type MemoryStore,
+} from '../../infrastructure/repositories/memory-store.js';
 
 import type { SoulEngine } from '../../domain/logic/soul-engine.js';
+import type { BudgetManager } from '../../domain/logic/budget-manager.js';
+
+const ExtractedMemoriesSchema = z.object({
+  memories: z.array(
+    z.object({
+      content: z.string(),
+      category: z.enum(MEMORY_CATEGORIES),
+      tags: z.array(z.string()).default([]),
+    }),
+  ),
+});
+
+type ExtractedMemory = z.infer<typeof ExtractedMemoriesSchema>['memories'][number];
 
 /**
  * Encapsulates dreamer behavior.
@@ -23,6 +41,7 @@ export class Dreamer {
     private soulEngine: SoulEngine,
     private dataPath: string,
     private workspacePath: string,
+    private budgetManager?: BudgetManager,
   ) {}
 
   /**
@@ -42,9 +61,12 @@ export class Dreamer {
     const dailyUsage = this.memoryDb.getTokenUsageDaily({ from: new Date().setHours(0, 0, 0, 0) });
     const totalCost = dailyUsage.reduce((acc, row) => acc + row.cost, 0);
 
-    // Hard limit: $2.00 per day for entire system (conservative)
+    // Configured daily/monthly budgets take over; without them keep the conservative $2.00 per day.
     // Dreamer usually runs at end of day, so if we burned budget, skipping is safer
-    if (totalCost > 2.0) {
+    const overBudget = this.budgetManager?.hasGlobalBudget()
+      ? this.budgetManager.check().exceeded.length > 0
+      : totalCost > 2.0;
+    if (overBudget) {
       auditLogger.log({
         traceId: crypto.randomUUID(),
         actionType: 'dreamer_run',
@@ -80,7 +102,81 @@ export class Dreamer {
       return;
     }
 
-    const convo = newMessages.map((m) => `${m.role}: ${m.content}`).join('\n');
+    // Each workspace is dreamt on separately so its facts stay in it. Activity logs carry no
+    // workspace and go with the global conversation.
+    const conversations = new Map<string | undefined, MessageRow[]>([[undefined, []]]);
+    for (const m of newMessages) {
+      const workspaceId = m.workspaceId || undefined;
+      conversations.set(workspaceId, [...(conversations.get(workspaceId) ?? []), m]);
+    }
+
+    // Extract every workspace before storing any of them: a failed extraction leaves the
+    // last-run mark untouched, so the next run must not find half of this one already stored.
+    const extractions: Array<{ workspaceId?: string; memories: ExtractedMemory[] }> = [];
+    for (const [workspaceId, conversation] of conversations) {
+      const activity = workspaceId ? [] : logs;
+      if (conversation.length === 0 && activity.length === 0) continue;
+      const memories = await this.extractMemories(conversation, activity);
+      extractions.push({ workspaceId, memories });
+    }
+
+    // 3. Store Memories
+    const extracted: { memories: ExtractedMemory[] } = { memories: [] };
+    for (const { workspaceId, memories } of extractions) {
+      if (memories.length > 0) {
+        await this.memoryStore.addBatch(
+          memories.map((m) => ({
+            content: m.content,
+            category: m.category,
+            tags: m.tags,
+            source: 'dreamer',
+            metadata: { confidence: 1.0, extractedAt: Date.now() },
+            workspaceId,
+          })),
+        );
+      }
+      extracted.memories.push(...memories);
+    }
+
+    // 4. Evolve Soul (Legacy support - keep updating EVOLUTION.md for debugging)
+    const summary = extracted.memories.map((m) => `- ${m.content}`).join('\n');
+    if (summary) {
+      const evolutionPath = join(this.workspacePath, 'EVOLUTION.md');
+      if (existsSync(evolutionPath)) {
+        appendFileSync(evolutionPath, `\n## ${new Date().toISOString()}\n${summary}\n`, 'utf-8');
+      } else {
+        writeFileSync(
+          evolutionPath,
+          `# Evolution of Soul\n\n## ${new Date().toISOString()}\n${summary}\n`,
+          'utf-8',
+        );
+      }
+    }
+
+    this.memoryDb.setMeta('dreamer_last_run', String(Date.now()));
+
+    auditLogger.log({
+      traceId: crypto.randomUUID(),
+      actionType: 'dreamer_run',
+      payload: {
+        status: 'complete',
+        memoriesExtracted: extracted.memories.length,
+      },
+      status: 'success',
+    });
+  }
+
+  /**
+   * Asks the fast model for the facts worth remembering from new activity.
+   * @param messages - New conversation messages.
+   * @param logs - New activity logs.
+   * @returns The extracted memories.
+   */
+  private async extractMemories(
+    messages: MessageRow[],
+    logs: Array<{ actionType: string; payload: Record<string, unknown>; createdAt: number }>,
+  ): Promise<ExtractedMemory[]> {
+    const convo = messages.map((m) => `${m.role}: ${m.content}`).join('\n');
     const logText = logs
       .map(
         (l) =>
@@ -114,70 +210,21 @@ Instructions:
 3. Output strictly a JSON object with this shape:
    {
      "memories": [
-       { "content": "Fact string", "category": "preference" | "fact" | "milestone", "tags": ["tag1", "tag2"] }
+       { "content": "Fact string", "category": "user_fact" | "general", "tags": ["tag1", "tag2"] }
      ]
    }
+   Use "user_fact" for facts about the user and their preferences, "general" for project context and milestones.
 4. If nothing worth remembering, return { "memories": [] }
 `;
 
-    const { message } = await this.modelRouter.chat('fast', [{ role: 'user', content: prompt }], {
-      temperature: 0.1,
-      response_format: { type: 'json_object' }, // Enforce JSON if supported, else prompt does it
-      fallbackRole: 'fast' as any,
-    });
-
-    let extracted: { memories: Array<{ content: string; category: string; tags: string[] }> } = {
-      memories: [],
-    };
-
-    try {
-      if (message.content) {
-        extracted = JSON.parse(message.content);
-      }
-    } catch (e) {
-      console.warn('[Dreamer] Failed to parse structured memory JSON', e);
-      // Fallback: simple text saving if JSON fails? No, better to skip than pollute DB.
-    }
-
-    // 3. Store Memories
-    if (extracted.memories && extracted.memories.length > 0) {
-      await this.memoryStore.addBatch(
-        extracted.memories.map((m) => ({
-          content: m.content,
-          category: m.category as any,
-          tags: m.tags,
-          source: 'dreamer',
-          metadata: { confidence: 1.0, extractedAt: Date.now() },
-        })),
-      );
-    }
-
-    // 4. Evolve Soul (Legacy support - keep updating EVOLUTION.md for debugging)
-    const summary = extracted.memories.map((m) => `- ${m.content}`).join('\n');
-    if (summary) {
-      const evolutionPath = join(this.workspacePath, 'EVOLUTION.md');
-      if (existsSync(evolutionPath)) {
-        appendFileSync(evolutionPath, `\n## ${new Date().toISOString()}\n${summary}\n`, 'utf-8');
-      } else {
-        writeFileSync(
-          evolutionPath,
-          `# Evolution of Soul\n\n## ${new Date().toISOString()}\n${summary}\n`,
-          'utf-8',
-        );
-      }
-    }
-
-    this.memoryDb.setMeta('dreamer_last_run', String(Date.now()));
-
-    auditLogger.log({
-      traceId: crypto.randomUUID(),
-      actionType: 'dreamer_run',
-      payload: {
-        status: 'complete',
-        memoriesExtracted: extracted.memories.length,
-      },
-      status: 'success',
-    });
+    // Answers that stay invalid after repair fail the cycle rather than pollute the DB
+    const { data } = await this.modelRouter.chatStructured(
+      'fast',
+      [{ role: 'user', content: prompt }],
+      ExtractedMemoriesSchema,
+      { name: 'memories', temperature: 0.1, fallbackRole: 'fast', cache: true },
+    );
+    return data.memories;
   }
 
   /**
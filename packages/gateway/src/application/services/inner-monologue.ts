@@ -58,6 +58,7 @@ export class InnerMonologue {
     const { message } = await this.modelRouter.chat('fast', [{ role: 'user', content: prompt }], {
       temperature: 0.4,
       fallbackRole: 'fast' as any,
+      cache: true,
     });
 
     const reflection = redactSecrets(message.content || '');
@@ -0,0 +1,167 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryDB } from '../../infrastructure/repositories/memory-db.js';
+import { MemoryStore } from '../../infrastructure/repositories/memory-store.js';
+import { memoryScore } from '../../domain/logic/memory-decay.js';
+import { MemoryLifecycle } from './memory-lifecycle.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function vector(...values: number[]): Buffer {
+  const v = new Float32Array(values);
+  const norm = Math.hypot(...v);
+  return Buffer.from(v.map((x) => x / norm).buffer);
+}
+
+describe('MemoryLifecycle', () => {
+  let dir: string;
+  let db: MemoryDB;
+  let store: MemoryStore;
+  let chat: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'adytum-lifecycle-'));
+    db = new MemoryDB(dir);
+    await db.ensureVectorIndex();
+    const embeddingService = {
+      embed: vi.fn().mockResolvedValue(new Float32Array([0, 0, 1])),
+      cosineSimilarity: vi.fn().mockReturnValue(0),
+      getModelName: () => 'test-model',
+    };
+    store = new MemoryStore(db, embeddingService as any);
+    chat = vi.fn().mockResolvedValue({ message: { content: '- User chose SQLite.' } });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lifecycle = (config = {}) =>
+    new MemoryLifecycle(db, store, { chat } as any, { retention: {}, ...config });
+
+  it('merges near-duplicates into the older copy and keeps pinned ones', () => {
+    const original = db.addMemory({
+      content: 'User prefers dark mode',
+      source: 'dreamer',
+      category: 'preference',
+      tags: ['ui'],
+      embedding: vector(1, 0, 0),
+    });
+    db.addMemory({
+      content: 'The user likes dark mode',
+      source: 'dreamer',
+      category: 'preference',
+      tags: ['theme'],
+      importance: 0.9,
+      embedding: vector(1, 0.01, 0),
+    });
+    const pinned = db.addMemory({
+      content: 'Dark mode, always',
+      source: 'user',
+      category: 'preference',
+      pinned: true,
+      embedding: vector(1, 0, 0.01),
+    });
+    const unrelated = db.addMemory({
+      content: 'Project uses pnpm',
+      source: 'dreamer',
+      category: 'preference',
+      embedding: vector(0, 1, 0),
+    });
+
+    expect(lifecycle().deduplicate()).toBe(2);
+
+    const remaining = db.findMemories({ categories: ['preference'] }).map((m) => m.id);
+    expect(remaining.sort()).toEqual([pinned.id, unrelated.id].sort());
+    const kept = db.getMemory(pinned.id)!;
+    expect(kept.tags?.sort()).toEqual(['theme', 'ui']);
+    expect(kept.importance).toBe(0.9);
+    expect(kept.metadata?.mergedCount).toBe(2);
+    expect(db.getMemory(original.id)).toBeNull();
+  });
+
+  it('pages memories created in the same millisecond by id', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const ids = ['a', 'b', 'c'].map(
+        (content) => db.addMemory({ content, source: 'user', category: 'fact' }).id,
+      );
+      const [first] = db.findMemories({ limit: 1 });
+      const next = db.findMemories({ after: { createdAt: first.createdAt, id: first.id } });
+      expect(next.map((m) => m.id)).toEqual(ids.filter((id) => id !== first.id).sort());
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('summarizes old episodic turns per session', async () => {
+    for (const sessionId of ['s1', 's1', 's2']) {
+      db.addMemory({
+        content: `[USER]: hi from ${sessionId}`,
+        source: 'system',
+        category: 'episodic_raw',
+        metadata: { sessionId },
+        workspaceId: 'ws',
+      });
+    }
+
+    const report = await lifecycle().consolidate(Date.now() + 2 * DAY);
+
+    expect(report).toEqual({ consolidated: 3, summaries: 2 });
+    expect(chat).toHaveBeenCalledTimes(2);
+    const summaries = db.findMemories({ categories: ['episodic_summary'] });
+    expect(summaries.map((m) => m.metadata?.sessionId).sort()).toEqual(['s1', 's2']);
+    expect(summaries[0].workspaceId).toBe('ws');
+    expect(db.countMemories(['episodic_raw'])).toBe(0);
+  });
+
+  it('summarizes a long session in chunks without dropping turns', async () => {
+    for (let i = 0; i < 12; i++) {
+      db.addMemory({
+        content: `[USER]: turn ${i} ${'x'.repeat(1500)}`,
+        source: 'system',
+        category: 'episodic_raw',
+        metadata: { sessionId: 's1' },
+      });
+    }
+
+    const report = await lifecycle().consolidate(Date.now() + 2 * DAY);
+
+    expect(report).toEqual({ consolidated: 12, summaries: 2 });
+    const prompts = chat.mock.calls.map(([, messages]) => messages[0].content as string);
+    for (let i = 0; i < 12; i++) {
+      expect(prompts.filter((p) => p.includes(`turn ${i} `))).toHaveLength(1);
+    }
+    const summaries = db.findMemories({ categories: ['episodic_summary'] });
+    expect(summaries.map((m) => m.metadata?.consolidatedFrom)).toEqual([7, 5]);
+  });
+
+  it('applies retention rules by idle age and decayed score, sparing pinned memories', () => {
+    const now = Date.now();
+    const add = (content: string, pinned = false) =>
+      db.addMemory({ content, source: 'system', category: 'monologue', pinned });
+    add('old thought');
+    add('pinned thought', true);
+    const recalled = add('recalled thought');
+    db.recordMemoryAccess([recalled.id]);
+
+    const removed = lifecycle({
+      retention: { monologue: { maxAgeDays: 10 } },
+    }).applyRetention(now + 11 * DAY);
+
+    expect(removed).toBe(2);
+    expect(db.findMemories({ categories: ['monologue'] }).map((m) => m.content)).toEqual([
+      'pinned thought',
+    ]);
+
+    const fresh = { category: 'monologue', createdAt: now };
+    const stale = { category: 'monologue', createdAt: now - 60 * DAY };
+    expect(memoryScore(stale, now)).toBeLessThan(memoryScore(fresh, now));
+    expect(memoryScore({ ...stale, category: 'doc_chunk' }, now)).toBe(
+      memoryScore({ ...fresh, category: 'doc_chunk' }, now),
+    );
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * @file packages/gateway/src/application/services/memory-lifecycle.ts
+ * @description Implements application-level service logic and coordination.
+ */
+
+import { MemoryLifecycleConfigSchema, type MemoryLifecycleConfig } from '@adytum/shared';
+import { auditLogger } from '../../security/audit-logger.js';
+import { logger } from '../../logger.js';
+import type { ModelRouter } from '../../infrastructure/llm/model-router.js';
+import type { MemoryDB, MemoryRow } from '../../infrastructure/repositories/memory-db.js';
+import { redactSecrets, type MemoryStore } from '../../infrastructure/repositories/memory-store.js';
+import type { BudgetManager } from '../../domain/logic/budget-manager.js';
+import { memoryIdleDays, memoryImportance, memoryScore } from '../../domain/logic/memory-decay.js';
+
+const DEDUP_CURSOR_KEY = 'memory_lifecycle_dedup_cursor';
+const DEDUP_BATCH = 2000;
+const DEDUP_NEIGHBOURS = 5;
+const CONSOLIDATION_BATCH = 1000;
+const TURN_CHARS = 1500;
+const GROUP_CHARS = 12000;
+
+/**
+ * @param turn - `episodic_raw` memory.
+ * @returns The turn as it appears in a summary transcript.
+ */
+function transcriptEntry(turn: MemoryRow): string {
+  return `${new Date(turn.createdAt).toISOString()}\n${turn.content.slice(0, TURN_CHARS)}\n\n`;
+}
+
+/**
+ * Splits a session's turns into runs whose transcript fits one summary prompt, so every turn
+ * that is deleted has made it into a summary.
+ * @param turns - Turns, oldest first.
+ * @returns Consecutive runs of turns.
+ */
+function chunkTurns(turns: MemoryRow[]): MemoryRow[][] {
+  const chunks: MemoryRow[][] = [];
+  let size = GROUP_CHARS;
+  for (const turn of turns) {
+    const length = transcriptEntry(turn).length;
+    if (size + length > GROUP_CHARS) {
+      chunks.push([]);
+      size = 0;
+    }
+    chunks[chunks.length - 1].push(turn);
+    size += length;
+  }
+  return chunks;
+}
+
+export interface MemoryLifecycleReport {
+  merged: number;
+  consolidated: number;
+  summaries: number;
+  expired: number;
+}
+
+/**
+ * Keeps the memory table from growing without bound: merges near-duplicates, summarizes old
+ * `episodic_raw` turns into `episodic_summary`, and applies per-category retention using
+ * decayed importance. Pinned memories are left alone.
+ */
+export class MemoryLifecycle {
+  private config: MemoryLifecycleConfig;
+  private running = false;
+
+  constructor(
+    private memoryDb: MemoryDB,
+    private memoryStore: MemoryStore,
+    private modelRouter: ModelRouter,
+    config?: Partial<MemoryLifecycleConfig>,
+    private budgetManager?: BudgetManager,
+  ) {
+    this.config = MemoryLifecycleConfigSchema.parse(config ?? {});
+  }
+
+  /**
+   * Runs one lifecycle pass. Overlapping calls return an empty report.
+   * @param now - Current time in ms.
+   * @returns Counts of merged, consolidated and expired memories.
+   */
+  async run(now: number = Date.now()): Promise<MemoryLifecycleReport> {
+    const report: MemoryLifecycleReport = { merged: 0, consolidated: 0, summaries: 0, expired: 0 };
+    if (this.running || !this.config.enabled) return report;
+    this.running = true;
+    try {
+      report.merged = this.deduplicate();
+      Object.assign(report, await this.consolidate(now));
+      report.expired = this.applyRetention(now);
+    } finally {
+      this.running = false;
+    }
+
+    auditLogger.log({
+      traceId: crypto.randomUUID(),
+      actionType: 'memory_lifecycle',
+      payload: { ...report },
+      status: 'success',
+    });
+    return report;
+  }
+
+  /**
+   * Merges memories whose embeddings are near-identical to an existing memory of the same
+   * category and workspace. The pinned, or else the oldest, copy survives and absorbs the
+   * others' tags and importance.
+   * @returns Number of memories merged away.
+   */
+  deduplicate(): number {
+    const { threshold, excludeCategories } = this.config.dedup;
+    // Without the index every lookup would scan all embeddings; wait for the background build
+    if (!this.memoryDb.hasVectorIndex()) return 0;
+    // Cursors saved before ids were part of them hold only a timestamp
+    const saved = JSON.parse(this.memoryDb.getMeta(DEDUP_CURSOR_KEY) || 'null');
+    const cursor = typeof saved === 'number' ? { createdAt: saved, id: '' } : saved;
+    const candidates = this.memoryDb.findMemories({
+      after: cursor ?? undefined,
+      excludeCategories,
+      withEmbedding: true,
+      limit: DEDUP_BATCH,
+    });
+
+    const removed = new Set<string>();
+    for (const memory of candidates) {
+      if (removed.has(memory.id) || !memory.embedding) continue;
+      const vector = new Float32Array(new Uint8Array(memory.embedding).buffer);
+      const duplicates = this.memoryDb
+        .searchVectors(vector, DEDUP_NEIGHBOURS, {
+          category: memory.category,
+          workspaceId: memory.workspaceId,
+        })
+        .filter(
+          (m) =>
+            m.id !== memory.id &&
+            !removed.has(m.id) &&
+            m.score >= threshold &&
+            (m.workspaceId ?? null) === (memory.workspaceId ?? null),
+        );
+      if (duplicates.length === 0) continue;
+
+      const group = [memory, ...duplicates].sort(
+        (a, b) => Number(!!b.pinned) - Number(!!a.pinned) || a.createdAt - b.createdAt,
+      );
+      const [keep, ...rest] = group;
+      const drop = rest.filter((m) => !m.pinned);
+      if (drop.length === 0) continue;
+
+      const merged = [keep, ...drop];
+      this.memoryDb.updateMemory(keep.id, {
+        tags: [...new Set(merged.flatMap((m) => m.tags ?? []))],
+        importance: Math.max(...merged.map(memoryImportance)),
+        metadata: {
+          ...keep.metadata,
+          mergedCount:
+            Number(keep.metadata?.mergedCount ?? 0) +
+            drop.reduce((sum, m) => sum + 1 + Number(m.metadata?.mergedCount ?? 0), 0),
+        },
+      });
+      this.memoryDb.deleteMemories(drop.map((m) => m.id));
+      drop.forEach((m) => removed.add(m.id));
+    }
+
+    const last = candidates[candidates.length - 1];
+    if (last) {
+      this.memoryDb.setMeta(
+        DEDUP_CURSOR_KEY,
+        JSON.stringify({ createdAt: last.createdAt, id: last.id }),
+      );
+    }
+    return removed.size;
+  }
+
+  /**
+   * Summarizes old `episodic_raw` turns of each session into one `episodic_summary` memory
+   * and deletes the turns. Skipped while the global budget is exhausted.
+   * @param now - Current time in ms.
+   * @returns Turns consolidated and summaries written.
+   */
+  async consolidate(now: number): Promise<{ consolidated: number; summaries: number }> {
+    const { afterHours, maxGroupsPerRun } = this.config.consolidation;
+    if (this.budgetManager?.hasGlobalBudget() && this.budgetManager.check().exceeded.length > 0) {
+      return { consolidated: 0, summaries: 0 };
+    }
+
+    const turns = this.memoryDb.findMemories({
+      categories: ['episodic_raw'],
+      createdBefore: now - afterHours * 60 * 60 * 1000,
+      pinned: false,
+      limit: CONSOLIDATION_BATCH,
+    });
+    const groups = new Map<string, MemoryRow[]>();
+    for (const turn of turns) {
+      const session =
+        typeof turn.metadata?.sessionId === 'string'
+          ? turn.metadata.sessionId
+          : new Date(turn.createdAt).toISOString().slice(0, 10);
+      const key = `${turn.workspaceId ?? ''}\u0000${session}`;
+      groups.set(key, [...(groups.get(key) ?? []), turn]);
+    }
+
+    let consolidated = 0;
+    let summaries = 0;
+    const chunks = [...groups.values()].flatMap(chunkTurns);
+    for (const group of chunks.slice(0, maxGroupsPerRun)) {
+      const summary = await this.summarize(group);
+      if (!summary) continue;
+      const first = group[0];
+      const last = group[group.length - 1];
+      await this.memoryStore.add(
+        summary,
+        'system',
+        ['episodic', 'summary'],
+        {
+          sessionId: first.metadata?.sessionId,
+          consolidatedFrom: group.length,
+          from: first.createdAt,
+          to: last.createdAt,
+        },
+        'episodic_summary',
+        first.workspaceId,
+      );
+      consolidated += this.memoryDb.deleteMemories(group.map((m) => m.id));
+      summaries++;
+    }
+    return { consolidated, summaries };
+  }
+
+  /**
+   * Removes unpinned memories that break their category's retention rule: idle longer than
+   * `maxAgeDays`, scored below `minScore`, or beyond `maxCount` (lowest scores go first).
+   * @param now - Current time in ms.
+   * @returns Number of memories removed.
+   */
+  applyRetention(now: number): number {
+    let expired = 0;
+    for (const [category, rule] of Object.entries(this.config.retention)) {
+      const memories = this.memoryDb
+        .findMemories({ categories: [category], pinned: false })
+        .map((m) => ({ memory: m, score: memoryScore(m, now, this.config.halfLifeDays) }));
+
+      const drop = new Set<string>();
+      for (const { memory, score } of memories) {
+        if (rule.maxAgeDays !== undefined && memoryIdleDays(memory, now) > rule.maxAgeDays) {
+          drop.add(memory.id);
+        } else if (rule.minScore !== undefined && score < rule.minScore) {
+          drop.add(memory.id);
+        }
+      }
+      if (rule.maxCount !== undefined) {
+        const kept = memories
+          .filter(({ memory }) => !drop.has(memory.id))
+          .sort((a, b) => b.score - a.score);
+        kept.slice(rule.maxCount).forEach(({ memory }) => drop.add(memory.id));
+      }
+      if (drop.size > 0) expired += this.memoryDb.deleteMemories([...drop]);
+    }
+    return expired;
+  }
+
+  /**
+   * Asks the fast model for a summary of a session's turns.
+   * @param turns - Turns, oldest first, short enough for one prompt (see `chunkTurns`).
+   * @returns The summary, or undefined when the model call fails.
+   */
+  private async summarize(turns: MemoryRow[]): Promise<string | undefined> {
+    const transcript = turns.map(transcriptEntry).join('');
+    const prompt = `
+Summarize these past conversation turns between the user and the assistant into one episodic memory.
+Keep decisions, facts learned about the user or project, tasks completed and open follow-ups.
+Drop pleasantries and tool noise. Write 3-8 short bullet points, nothing else.
+
+Turns:
+${redactSecrets(transcript)}
+`;
+    try {
+      const { message } = await this.modelRouter.chat('fast', [{ role: 'user', content: prompt }], {
+        temperature: 0.2,
+        cache: true,
+      });
+      return message.content?.trim() || undefined;
+    } catch (err) {
+      logger.warn({ err }, 'Memory consolidation summary failed');
+      return undefined;
+    }
+  }
+}
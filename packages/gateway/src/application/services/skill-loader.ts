@@ -372,7 +372,6 @@ export class SkillLoader {
         litellmPort: 4000,
         gatewayPort: 7431,
         dashboardPort: 7432,
-        contextSoftLimit: 40000,
         heartbeatIntervalMinutes: 30,
         dreamerIntervalMinutes: 30,
         monologueIntervalMinutes: 15,
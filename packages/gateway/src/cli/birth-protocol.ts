@@ -11,6 +11,7 @@ import { select, input, confirm } from '@inquirer/prompts';
 import { MODEL_ROLES, MODEL_ROLE_DESCRIPTIONS, ADYTUM_VERSION } from '@adytum/shared';
 import { SoulEngine } from '../domain/logic/soul-engine.js';
 import { ModelCatalog } from '../infrastructure/llm/model-catalog.js';
+import { TokenStore } from '../security/token-store.js';
 import { Logger } from '../logger.js';
 import { writeFileSync, mkdirSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
@@ -519,7 +520,6 @@ export async function runBirthProtocol(projectRoot: string): Promise<void> {
     ),
     gatewayPort: 7431,
     dashboardPort: 7432,
-    contextSoftLimit: 40000,
     heartbeatIntervalMinutes: 30,
     skills: {
       enabled: true,
@@ -531,6 +531,11 @@ export async function runBirthProtocol(projectRoot: string): Promise<void> {
   };
   writeFileSync(join(projectRoot, 'adytum.config.yaml'), stringifyYaml(yamlConfig), 'utf-8');
 
+  // Local admin token; replaces any token left over from a previous birth
+  const tokenStore = new TokenStore(dataPath);
+  tokenStore.revoke('admin');
+  const adminToken = tokenStore.ensureAdminToken();
+
   // ── Final Message ───────────────────────────────────────
   console.log();
   console.log(gradient.vice('─'.repeat(50)));
@@ -550,6 +555,13 @@ export async function runBirthProtocol(projectRoot: string): Promise<void> {
     chalk.green('✓ ') + chalk.white('Config saved to ') + chalk.cyan('adytum.config.yaml'),
   );
   console.log(chalk.green('✓ ') + chalk.white('Environment saved to ') + chalk.cyan('.env'));
+  console.log(
+    chalk.green('✓ ') + chalk.white('Admin token saved to ') + chalk.cyan('data/admin.token'),
+  );
+  if (adminToken) {
+    console.log(chalk.dim(`  ${adminToken}`));
+    console.log(chalk.dim('  Keep it secret. Create scoped tokens with `adytum token create`.'));
+  }
   console.log();
   console.log(
     chalk.yellow('Next: Run ') + chalk.bold.white('adytum start') + chalk.yellow(' to wake me up.'),
@@ -8,9 +8,9 @@
 import 'reflect-metadata';
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { ADYTUM_VERSION } from '@adytum/shared';
+import { ADYTUM_VERSION, EmbeddingConfigSchema } from '@adytum/shared';
 import { runBirthProtocol } from './birth-protocol.js';
-import { existsSync, rmSync } from 'node:fs';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { join, dirname, basename } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { confirm } from '@inquirer/prompts';
@@ -174,7 +174,11 @@ program
           console.log(
             chalk.dim(`\n   Opening dashboard at http://localhost:${config.dashboardPort}...`),
           );
-          await open(`http://localhost:${config.dashboardPort}`);
+          // Hand the local admin token to the dashboard, which keeps it in localStorage
+          const { TokenStore } = await import('../security/token-store.js');
+          const adminToken = new TokenStore(config.dataPath).readAdminToken();
+          const query = adminToken ? `?token=${encodeURIComponent(adminToken)}` : '';
+          await open(`http://localhost:${config.dashboardPort}${query}`);
         }, 3000);
       }
 
@@ -481,6 +485,272 @@ program
     }
   });
 
+// ─── adytum secrets ───────────────────────────────────────────
+program
+  .command('secrets')
+  .description('Manage the encrypted secrets vault')
+  .argument('[action]', 'list | set | rotate | export', 'list')
+  .argument('[name]', 'Secret name (e.g. skills/github/GITHUB_TOKEN)')
+  .argument('[value]', 'Secret value (prompted when omitted)')
+  .option('--passphrase', 'rotate (no name): protect the vault with a new passphrase')
+  .option('--restore <n>', 'rotate <name>: make an earlier version current again')
+  .option('-o, --out <file>', 'export: write to a file instead of stdout')
+  .action(async (action: string, name: string | undefined, value: string | undefined, options) => {
+    const { SecretsStore } = await import('../security/secrets-store.js');
+    const { loadConfig } = await import('../config.js');
+    const { password } = await import('@inquirer/prompts');
+    const config = loadConfig(findProjectRoot(process.cwd()));
+    // Opening the store imports a legacy plaintext secrets.json
+    const vault = new SecretsStore(config.dataPath).getVault();
+
+    if (action === 'list') {
+      const entries = vault.list(name ?? '');
+      if (entries.length === 0) {
+        console.log(chalk.dim('No secrets stored.'));
+        return;
+      }
+      const mode = vault.usesPassphrase() ? 'passphrase' : 'key file';
+      console.log(chalk.bold(`\nSecrets Vault (${mode}):\n`));
+      for (const e of entries) {
+        const updated = new Date(e.updatedAt).toLocaleString();
+        console.log(`  ${chalk.green('●')} ${chalk.white(e.name)} ${chalk.cyan(`v${e.version}`)}`);
+        console.log(`    ${chalk.dim(`versions ${e.versions.join(', ')}, updated ${updated}`)}`);
+      }
+    } else if (action === 'set') {
+      if (!name) {
+        console.error(chalk.red('Error: Secret name required. Usage: adytum secrets set <name>'));
+        process.exit(1);
+      }
+      const secret = value ?? (await password({ message: `Value for ${name}:`, mask: '*' }));
+      const version = vault.set(name, secret);
+      console.log(chalk.green(`✓ Stored ${name} (v${version})`));
+      console.log(chalk.dim('  Restart the gateway or reload skills to apply it.'));
+    } else if (action === 'rotate') {
+      if (name) {
+        if (vault.get(name) === undefined) {
+          console.error(chalk.red(`No secret named "${name}".`));
+          process.exit(1);
+        }
+        if (options.restore) {
+          const target = Number(options.restore);
+          if (!vault.restore(name, target)) {
+            console.error(chalk.red(`Error: ${name} has no version ${options.restore}.`));
+            process.exit(1);
+          }
+          console.log(chalk.green(`✓ ${name} now uses v${target}`));
+          return;
+        }
+        const secret = value ?? (await password({ message: `New value for ${name}:`, mask: '*' }));
+        const version = vault.set(name, secret);
+        console.log(chalk.green(`✓ Rotated ${name} to v${version}`));
+        return;
+      }
+      let passphrase: string | undefined;
+      if (options.passphrase) {
+        passphrase = await password({ message: 'New vault passphrase:', mask: '*' });
+        const again = await password({ message: 'Repeat passphrase:', mask: '*' });
+        if (!passphrase || passphrase !== again) {
+          console.error(chalk.red('Error: Passphrases do not match.'));
+          process.exit(1);
+        }
+      }
+      vault.rotateKey(passphrase);
+      console.log(chalk.green('✓ Rotated the vault master key'));
+      console.log(
+        chalk.dim(
+          passphrase
+            ? '  Start the gateway with ADYTUM_SECRETS_PASSPHRASE set to the new passphrase.'
+            : '  The new key file is in ~/.adytum/keyring; keep it out of data backups.',
+        ),
+      );
+    } else if (action === 'export') {
+      const json = JSON.stringify(vault.export(name ?? ''), null, 2);
+      if (options.out) {
+        writeFileSync(options.out, `${json}\n`, { encoding: 'utf-8', mode: 0o600 });
+        console.log(chalk.green(`✓ Exported decrypted secrets to ${options.out}`));
+        console.log(chalk.yellow('  This file holds plaintext secrets. Delete it when done.'));
+      } else {
+        console.log(json);
+      }
+    } else {
+      console.log(chalk.red(`Unknown action: ${action}`));
+    }
+  });
+
+// ─── adytum token ─────────────────────────────────────────────
+program
+  .command('token')
+  .description('Manage gateway API tokens')
+  .argument('[action]', 'create | list | revoke', 'list')
+  .argument('[name]', 'Token name (create) or id/name (revoke)')
+  .option('-s, --scope <scope>', 'read-only | chat | admin', 'read-only')
+  .option('--expires <days>', 'Expire the token after this many days')
+  .action(async (action: string, name: string | undefined, options) => {
+    const { TokenStore } = await import('../security/token-store.js');
+    const { loadConfig } = await import('../config.js');
+    const { ApiTokenScopeSchema } = await import('@adytum/shared');
+    const config = loadConfig(findProjectRoot(process.cwd()));
+    const store = new TokenStore(config.dataPath);
+
+    if (action === 'list') {
+      const tokens = store.list();
+      if (tokens.length === 0) {
+        console.log(chalk.dim('No tokens. Run `adytum token create <name>` to add one.'));
+        return;
+      }
+      console.log(chalk.bold('\nAPI Tokens:\n'));
+      for (const t of tokens) {
+        const expired = t.expiresAt !== undefined && t.expiresAt <= Date.now();
+        const marker = expired ? chalk.red('●') : chalk.green('●');
+        const lastUsed = t.lastUsedAt ? new Date(t.lastUsedAt).toLocaleString() : 'never';
+        const expires = t.expiresAt
+          ? `${expired ? 'expired' : 'expires'} ${new Date(t.expiresAt).toLocaleDateString()}`
+          : 'no expiry';
+        console.log(
+          `  ${marker} ${chalk.white(t.name)} ${chalk.dim(`(${t.id})`)} ${chalk.cyan(t.scope)}`,
+        );
+        console.log(`    ${chalk.dim(`last used ${lastUsed}, ${expires}`)}`);
+      }
+    } else if (action === 'create') {
+      if (!name) {
+        console.error(chalk.red('Error: Token name required. Usage: adytum token create <name>'));
+        process.exit(1);
+      }
+      const scope = ApiTokenScopeSchema.safeParse(options.scope);
+      if (!scope.success) {
+        console.error(chalk.red('Error: --scope must be one of read-only, chat, admin'));
+        process.exit(1);
+      }
+      const days = options.expires ? Number(options.expires) : undefined;
+      if (days !== undefined && !(days > 0)) {
+        console.error(chalk.red('Error: --expires must be a positive number of days'));
+        process.exit(1);
+      }
+      const expiresAt = days ? Date.now() + days * 24 * 60 * 60 * 1000 : undefined;
+      const { token, record } = store.create(name, scope.data, expiresAt);
+      console.log(chalk.green(`✓ Created ${record.scope} token ${record.name} (${record.id})`));
+      console.log(`\n  ${chalk.white(token)}\n`);
+      console.log(chalk.dim('  Copy it now; it cannot be shown again.'));
+      console.log(chalk.dim('  Send it as `Authorization: Bearer <token>`.'));
+    } else if (action === 'revoke') {
+      if (!name) {
+        console.error(chalk.red('Error: Token id or name required.'));
+        process.exit(1);
+      }
+      const revoked = store.revoke(name);
+      if (revoked.length === 0) {
+        console.error(chalk.red(`No token matches "${name}".`));
+        process.exit(1);
+      }
+      for (const t of revoked) {
+        console.log(chalk.green(`✓ Revoked ${t.name} (${t.id})`));
+      }
+    } else {
+      console.log(chalk.red(`Unknown action: ${action}`));
+    }
+  });
+
+// ─── adytum memory ────────────────────────────────────────────
+program
+  .command('memory')
+  .description('Inspect, reindex, back up or restore memory')
+  .argument('[action]', 'stats | reindex | export | import', 'stats')
+  .argument('[file]', 'Backup archive to write (export) or read (import)')
+  .option('-w, --workspace <id>', 'Only export or import this workspace')
+  .option('--into <id>', 'Import the workspace under another id')
+  .option('--replace', 'Replace existing data instead of merging')
+  .option('--no-embeddings', 'Leave embeddings out of the export')
+  .option('--reembed', 'Recompute embeddings on import')
+  .action(async (action: string, file: string | undefined, options) => {
+    const { MemoryDB } = await import('../infrastructure/repositories/memory-db.js');
+    const { loadConfig } = await import('../config.js');
+    const config = loadConfig(findProjectRoot(process.cwd()));
+    const { EmbeddingService } = await import('../infrastructure/llm/embedding-service.js');
+    const db = new MemoryDB(config.dataPath);
+    const embeddings = new EmbeddingService();
+    embeddings.configure(EmbeddingConfigSchema.parse(config.embeddings ?? {}));
+    db.setEmbeddingModel(embeddings.getModelName());
+    const backups = async () => {
+      const { BackupService } = await import('../application/services/backup-service.js');
+      return new BackupService(db, config.dataPath, config.workspacePath, embeddings);
+    };
+
+    if (action === 'stats') {
+      const stats = db.getVectorIndexStats();
+      if (!stats.built) {
+        console.log(chalk.dim('Vector index not built yet. Run `adytum memory reindex`.'));
+        return;
+      }
+      const total = stats.partitions.reduce((sum, p) => sum + p.count, 0);
+      console.log(chalk.bold(`\nVector index: ${total} vectors (${embeddings.getModelName()})\n`));
+      for (const p of stats.partitions) {
+        const scope = p.workspaceId ? `workspace ${p.workspaceId}` : 'global';
+        console.log(`  ${chalk.white(p.category)} ${chalk.dim(`(${scope})`)} ${p.count}`);
+      }
+      const stale = db.countStaleEmbeddings();
+      if (stale > 0) {
+        console.log(
+          chalk.yellow(
+            `\n  ${stale} memories were embedded with another model; the gateway re-embeds them on start.`,
+          ),
+        );
+      }
+    } else if (action === 'reindex') {
+      const started = Date.now();
+      const { count, partitions } = await db.rebuildVectorIndex((n) =>
+        process.stdout.write(chalk.dim(`\r  Indexed ${n} memories...`)),
+      );
+      process.stdout.write('\n');
+      console.log(
+        chalk.green(
+          `✓ Indexed ${count} memories in ${partitions} partitions (${((Date.now() - started) / 1000).toFixed(1)}s)`,
+        ),
+      );
+    } else if (action === 'export') {
+      const scope = options.workspace ? `-${options.workspace}` : '';
+      const target = file ?? `adytum-backup${scope}-${new Date().toISOString().slice(0, 10)}.zip`;
+      const archive = (await backups()).export({
+        workspaceId: options.workspace,
+        includeEmbeddings: options.embeddings,
+      });
+      writeFileSync(target, archive);
+      console.log(chalk.green(`✓ Wrote ${target} (${(archive.length / 1024).toFixed(0)} KB)`));
+    } else if (action === 'import') {
+      if (!file || !existsSync(file)) {
+        console.error(chalk.red('Error: Backup file required. Usage: adytum memory import <file>'));
+        process.exit(1);
+      }
+      try {
+        const report = await (
+          await backups()
+        ).import(readFileSync(file), {
+          mode: options.replace ? 'replace' : 'merge',
+          workspaceId: options.workspace,
+          targetWorkspaceId: options.into,
+          reembed: options.reembed,
+        });
+        db.flushVectorIndex();
+        console.log(
+          chalk.green(
+            `✓ Imported ${report.memories} memories, ${report.messages} messages, ${report.tokenUsage} usage records`,
+          ),
+        );
+        if (report.reembedded > 0) console.log(chalk.dim(`  Re-embedded ${report.reembedded}`));
+        for (const f of report.files) console.log(chalk.dim(`  Restored ${f}`));
+        if (report.restartRequired) {
+          console.log(
+            chalk.yellow('  Restart the gateway to load the restored agents and cron jobs.'),
+          );
+        }
+      } catch (err: any) {
+        console.error(chalk.red(`Error: ${err.message}`));
+        process.exit(1);
+      }
+    } else {
+      console.log(chalk.red(`Unknown action: ${action}`));
+    }
+  });
+
 program.parse();
 
 // Catch unhandled rejections so errors are never swallowed
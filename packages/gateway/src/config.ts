@@ -16,6 +16,9 @@ const DEFAULT_DATA_DIR = join(
   'data',
 );
 
+/** Written into every config by setup and skill installs before the limit came from the model. */
+const LEGACY_CONTEXT_SOFT_LIMIT = 40000;
+
 let cachedConfig: AdytumConfig | null = null;
 
 /**
@@ -169,7 +172,12 @@ export function loadConfig(projectRoot?: string): AdytumConfig {
     },
     gatewayPort: Number(fileConfig.gatewayPort || process.env.GATEWAY_PORT || 7431),
     dashboardPort: Number(fileConfig.dashboardPort || process.env.DASHBOARD_PORT || 7432),
-    contextSoftLimit: Number(fileConfig.contextSoftLimit || 40000),
+    // The old written-out default is treated as unset so the model-derived threshold applies
+    contextSoftLimit:
+      fileConfig.contextSoftLimit &&
+      Number(fileConfig.contextSoftLimit) !== LEGACY_CONTEXT_SOFT_LIMIT
+        ? Number(fileConfig.contextSoftLimit)
+        : undefined,
     heartbeatIntervalMinutes: Number(fileConfig.heartbeatIntervalMinutes || 30),
     dreamerIntervalMinutes: Number(fileConfig.dreamerIntervalMinutes || 30),
     monologueIntervalMinutes: Number(fileConfig.monologueIntervalMinutes || 15),
@@ -189,7 +197,14 @@ export function loadConfig(projectRoot?: string): AdytumConfig {
         typeof fileExecution.approvalBaseUrl === 'string'
           ? fileExecution.approvalBaseUrl
           : process.env.ADYTUM_PUBLIC_URL,
+      sandbox: isRecord(fileExecution.sandbox) ? fileExecution.sandbox : undefined,
     },
+    budgets: isRecord(fileConfig.budgets) ? fileConfig.budgets : undefined,
+    modelCache: isRecord(fileConfig.modelCache) ? fileConfig.modelCache : undefined,
+    auth: isRecord(fileConfig.auth) ? fileConfig.auth : undefined,
+    memoryLifecycle: isRecord(fileConfig.memoryLifecycle) ? fileConfig.memoryLifecycle : undefined,
+    embeddings: isRecord(fileConfig.embeddings) ? fileConfig.embeddings : undefined,
+    memorySharing: isRecord(fileConfig.memorySharing) ? fileConfig.memorySharing : undefined,
     routing: {
       maxRetries: Number((fileConfig as any)?.routing?.maxRetries ?? 5),
       fallbackOnRateLimit: (fileConfig as any)?.routing?.fallbackOnRateLimit ?? true,
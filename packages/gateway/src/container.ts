@@ -4,11 +4,14 @@
  */
 
 import 'reflect-metadata';
-import { container } from 'tsyringe';
+import { join } from 'node:path';
+import { container, instanceCachingFactory } from 'tsyringe';
 import { Logger } from './logger.js';
 import { ConfigService } from './infrastructure/config/config-service.js';
 import { SqliteMemoryRepository } from './infrastructure/repositories/sqlite-memory-repository.js';
 import { ModelCatalog } from './infrastructure/llm/model-catalog.js';
+import { SecretsVault } from './security/secrets-vault.js';
+import { loadConfig } from './config.js';
 import { AgentService } from './application/services/agent-service.js';
 import { SkillService } from './application/services/skill-service.js';
 import { ModelService } from './application/services/model-service.js';
@@ -33,6 +36,13 @@ export function setupContainer() {
   // Repositories
   container.register('MemoryRepository', { useClass: SqliteMemoryRepository });
 
+  // One vault per process; the gateway registers its own instance over this one at startup
+  container.register(SecretsVault, {
+    useFactory: instanceCachingFactory(
+      () => new SecretsVault(loadConfig().dataPath || join(process.cwd(), 'data')),
+    ),
+  });
+
   // Register ModelCatalog as a singleton first
   container.registerSingleton(ModelCatalog);
   // Then alias the interface token to the class token so they resolve to the SAME instance
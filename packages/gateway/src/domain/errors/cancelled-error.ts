@@ -0,0 +1,43 @@
+/**
+ * @file packages/gateway/src/domain/errors/cancelled-error.ts
+ * @description Error raised when work stops because its AbortSignal fired.
+ */
+
+import { AppError } from './app-error.js';
+
+export class CancelledError extends AppError {
+  constructor(message = 'Cancelled.') {
+    super(message, 499);
+  }
+}
+
+/**
+ * Settles with the promise, or rejects with `CancelledError` as soon as the signal aborts.
+ * The underlying work is not stopped; callers that can stop it should pass the signal on too.
+ * @param promise - Work to wait for.
+ * @param signal - Cancellation signal.
+ * @param message - Message of the rejection.
+ * @returns The promise result.
+ */
+export function untilAborted<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  message?: string,
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CancelledError(message));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError(message));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      },
+    );
+  });
+}
@@ -16,6 +16,8 @@ export interface MemoryEntity {
   category: string;
   tags?: string[];
   metadata?: Record<string, unknown>;
+  pinned?: boolean;
+  importance?: number;
   createdAt: number;
 }
 
@@ -26,7 +28,11 @@ export interface MemoryRepository {
 
   // Long-term Memory
   addMemory(memory: Omit<MemoryEntity, 'id' | 'createdAt'>): Promise<MemoryEntity>;
-  searchMemories(query: string, topK?: number): Promise<MemoryEntity[]>;
+  searchMemories(
+    query: string,
+    topK?: number,
+    workspaceId?: string | null,
+  ): Promise<MemoryEntity[]>;
   getMemoriesFiltered(
     categories?: string[],
     limit?: number,
@@ -0,0 +1,123 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import type { KnowledgeGraph } from '@adytum/shared';
+import { CodeSymbolLinker, extractFileSymbols } from './code-symbols.js';
+
+const FILES: Record<string, string> = {
+  'tsconfig.json': JSON.stringify({
+    compilerOptions: { baseUrl: '.', paths: { '@core/*': ['src/core/*'] } },
+  }),
+  'src/core/base.ts': `
+export abstract class Repository {
+  load(id: string) { return id; }
+}
+export interface Disposable { dispose(): void }
+`,
+  'src/core/store.ts': `
+import { Repository, type Disposable } from './base.js';
+export class Store extends Repository implements Disposable {
+  dispose() {}
+  find(id: string) { return this.load(id); }
+}
+`,
+  'src/core/index.ts': `export * from './store.js';\nexport { Repository as Base } from './base.js';`,
+  'src/app.ts': `
+import { Store } from '@core/index';
+import * as base from '@core/base';
+import lodash from 'lodash';
+
+export function main(store: Store) {
+  lodash.noop();
+  helper();
+  return store.find('a');
+}
+
+const helper = () => new Store().dispose();
+export default class App {
+  constructor(private readonly store: Store) {}
+  run() { return this.store.find('b') ?? base.Repository; }
+}
+`,
+};
+
+describe('extractFileSymbols', () => {
+  it('collects declarations with line numbers, imports and call sites', () => {
+    const symbols = extractFileSymbols('app.ts', FILES['src/app.ts']);
+    expect(symbols.symbols.map((s) => [s.qualifiedName, s.kind, s.line])).toEqual([
+      ['main', 'function', 6],
+      ['helper', 'function', 12],
+      ['App', 'class', 13],
+      ['App.run', 'method', 15],
+    ]);
+    expect(symbols.exports.get('default')).toBe('App');
+    expect(symbols.imports.map((i) => i.specifier)).toEqual([
+      '@core/index',
+      '@core/base',
+      'lodash',
+    ]);
+    expect(symbols.calls).toContainEqual(
+      expect.objectContaining({ from: 'App.run', object: 'this.store', objectType: 'Store' }),
+    );
+  });
+});
+
+describe('CodeSymbolLinker', () => {
+  let root: string;
+  let graph: KnowledgeGraph;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'adytum-symbols-'));
+    for (const [path, content] of Object.entries(FILES)) {
+      mkdirSync(join(root, dirname(path)), { recursive: true });
+      writeFileSync(join(root, path), content);
+    }
+    const files = Object.keys(FILES).filter((p) => p.endsWith('.ts'));
+    graph = {
+      nodes: files.map((p) => ({ id: p, type: 'file' as const, label: p, path: p })),
+      edges: [],
+      lastUpdated: 0,
+      version: '1',
+    };
+    new CodeSymbolLinker(root, graph).link(files);
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const edges = (type: string) =>
+    graph.edges.filter((e) => e.type === type).map((e) => `${e.source} -> ${e.target}`);
+
+  it('resolves imports through tsconfig paths and stops at package boundaries', () => {
+    expect(edges('imports')).toEqual(
+      expect.arrayContaining([
+        'src/app.ts -> src/core/index.ts',
+        'src/app.ts -> src/core/base.ts',
+        'src/core/store.ts -> src/core/base.ts',
+      ]),
+    );
+    expect(graph.nodes.some((n) => n.id.includes('lodash'))).toBe(false);
+  });
+
+  it('links heritage and calls across barrel files and inherited members', () => {
+    expect(edges('extends')).toEqual(['src/core/store.ts#Store -> src/core/base.ts#Repository']);
+    expect(edges('implements')).toEqual(['src/core/store.ts#Store -> src/core/base.ts#Disposable']);
+    expect(edges('calls')).toEqual(
+      expect.arrayContaining([
+        'src/core/store.ts#Store.find -> src/core/base.ts#Repository.load',
+        'src/app.ts#main -> src/app.ts#helper',
+        'src/app.ts#main -> src/core/store.ts#Store.find',
+        'src/app.ts#helper -> src/core/store.ts#Store',
+        'src/app.ts#helper -> src/core/store.ts#Store.dispose',
+        'src/app.ts#App.run -> src/core/store.ts#Store.find',
+      ]),
+    );
+    expect(graph.nodes.find((n) => n.id === 'src/core/store.ts#Store.find')).toMatchObject({
+      type: 'method',
+      line: 5,
+    });
+  });
+});
@@ -0,0 +1,920 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/code-symbols.ts
+ * @description Parser-based symbol and relationship extraction for TypeScript/JavaScript sources.
+ */
+
+import { readFileSync, existsSync, statSync } from 'node:fs';
+import { join, relative, dirname, extname, isAbsolute, sep } from 'node:path';
+import ts from 'typescript';
+import type {
+  KnowledgeGraph,
+  GraphNode,
+  GraphEdge,
+  GraphNodeType,
+  GraphEdgeType,
+} from '@adytum/shared';
+import { logger } from '../../logger.js';
+
+/** Node types produced for declarations inside a source file. */
+export const SYMBOL_NODE_TYPES: ReadonlySet<GraphNodeType> = new Set([
+  'class',
+  'interface',
+  'type',
+  'function',
+  'method',
+  'variable',
+  'constant',
+]);
+
+/** Extensions parsed with the TypeScript compiler. */
+export const TS_SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
+
+/** Files larger than this are most likely bundles or generated code. */
+const MAX_SOURCE_BYTES = 1024 * 1024;
+/** Maximum re-export hops followed when resolving a name through barrel files. */
+const MAX_EXPORT_DEPTH = 8;
+
+// ─── Extraction ───────────────────────────────────────────────
+
+export interface ExtractedSymbol {
+  /** Name within the file: `foo` for top-level declarations, `Class.method` for members. */
+  qualifiedName: string;
+  kind: GraphNodeType;
+  line: number;
+  exported: boolean;
+  /** Qualified name of the enclosing class or interface, for members. */
+  parent?: string;
+}
+
+export interface ExtractedImport {
+  specifier: string;
+  line: number;
+  typeOnly: boolean;
+  /** Local binding name mapped to the imported export name (`default`, `*` or a name). */
+  bindings: Array<{ local: string; imported: string }>;
+}
+
+export interface ExtractedReexport {
+  specifier: string;
+  /** Named re-exports; undefined for `export * from`. */
+  names?: Array<{ exported: string; imported: string }>;
+}
+
+export interface ExtractedReference {
+  /** Qualified name of the symbol the reference sits in; undefined at module scope. */
+  from?: string;
+  /** Receiver of a member access: an identifier, `this`, `this.<field>`, `new`, or undefined. */
+  object?: string;
+  /** Declared type name of the receiver, when an annotation or `new` expression gives it. */
+  objectType?: string;
+  name: string;
+  line: number;
+}
+
+export interface ExtractedHeritage extends ExtractedReference {
+  kind: 'extends' | 'implements';
+}
+
+export interface FileSymbols {
+  symbols: ExtractedSymbol[];
+  imports: ExtractedImport[];
+  reexports: ExtractedReexport[];
+  /** Exported name mapped to the local name it refers to. */
+  exports: Map<string, string>;
+  heritage: ExtractedHeritage[];
+  calls: ExtractedReference[];
+}
+
+/** JSON-safe form of `FileSymbols`, as kept in the index manifest. */
+export type SerializedFileSymbols = Omit<FileSymbols, 'exports'> & {
+  exports: Array<[string, string]>;
+};
+
+/**
+ * Converts file symbols to their JSON-safe form.
+ * @param symbols - File symbols.
+ * @returns Serialized symbols.
+ */
+export function serializeFileSymbols(symbols: FileSymbols): SerializedFileSymbols {
+  return { ...symbols, exports: [...symbols.exports] };
+}
+
+/**
+ * Restores file symbols from their JSON-safe form.
+ * @param symbols - Serialized symbols.
+ * @returns File symbols.
+ */
+export function deserializeFileSymbols(symbols: SerializedFileSymbols): FileSymbols {
+  return { ...symbols, exports: new Map(symbols.exports) };
+}
+
+/**
+ * Picks the script kind for a file name.
+ * @param fileName - File name.
+ * @returns The script kind.
+ */
+function scriptKindFor(fileName: string): ts.ScriptKind {
+  switch (extname(fileName).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * Whether a declaration carries the given modifier.
+ * @param node - Node.
+ * @param kind - Modifier kind.
+ * @returns True when present.
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+}
+
+/**
+ * Splits a callee or heritage expression into receiver and name.
+ * @param expr - Expression.
+ * @returns The reference parts, or undefined for dynamic expressions.
+ */
+function referenceParts(
+  expr: ts.Expression,
+): { object?: string; objectType?: string; name: string } | undefined {
+  if (ts.isIdentifier(expr)) return { name: expr.text };
+  if (ts.isPropertyAccessExpression(expr) && ts.isIdentifier(expr.name)) {
+    if (expr.expression.kind === ts.SyntaxKind.ThisKeyword) {
+      return { object: 'this', name: expr.name.text };
+    }
+    if (ts.isIdentifier(expr.expression)) {
+      return { object: expr.expression.text, name: expr.name.text };
+    }
+    const inner = expr.expression;
+    if (ts.isNewExpression(inner) && ts.isIdentifier(inner.expression)) {
+      return { object: 'new', objectType: inner.expression.text, name: expr.name.text };
+    }
+    if (
+      ts.isPropertyAccessExpression(inner) &&
+      inner.expression.kind === ts.SyntaxKind.ThisKeyword &&
+      ts.isIdentifier(inner.name)
+    ) {
+      return { object: `this.${inner.name.text}`, name: expr.name.text };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads a declared class or interface name from a type annotation or `new` initializer.
+ * @param type - Type annotation.
+ * @param init - Initializer.
+ * @returns The type name, if it is a plain identifier.
+ */
+function declaredTypeName(type?: ts.TypeNode, init?: ts.Expression): string | undefined {
+  let node = type;
+  if (node && ts.isUnionTypeNode(node)) node = node.types.find((t) => ts.isTypeReferenceNode(t));
+  if (node && ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    return node.typeName.text;
+  }
+  if (init && ts.isAwaitExpression(init)) init = init.expression;
+  if (init && ts.isNewExpression(init) && ts.isIdentifier(init.expression)) {
+    return init.expression.text;
+  }
+  return undefined;
+}
+
+/**
+ * Classifies a top-level variable declaration.
+ * @param decl - Declaration.
+ * @param isConst - Whether it is declared with `const`.
+ * @returns The node type.
+ */
+function variableKind(decl: ts.VariableDeclaration, isConst: boolean): GraphNodeType {
+  const init = decl.initializer;
+  if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) return 'function';
+  if (init && ts.isClassExpression(init)) return 'class';
+  if (isConst && ts.isIdentifier(decl.name) && /^[A-Z][A-Z0-9_]*$/.test(decl.name.text)) {
+    return 'constant';
+  }
+  return 'variable';
+}
+
+/**
+ * Parses a TypeScript or JavaScript source and collects declarations, imports, exports,
+ * heritage clauses and call sites. Only syntax is used; names are resolved by `CodeSymbolLinker`.
+ * @param fileName - File name, used to pick the script kind.
+ * @param content - Source text.
+ * @returns The extracted symbols.
+ */
+export function extractFileSymbols(fileName: string, content: string): FileSymbols {
+  const sf = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKindFor(fileName),
+  );
+  const result: FileSymbols = {
+    symbols: [],
+    imports: [],
+    reexports: [],
+    exports: new Map(),
+    heritage: [],
+    calls: [],
+  };
+  const lineOf = (node: ts.Node) => sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+
+  const addSymbol = (
+    qualifiedName: string,
+    kind: GraphNodeType,
+    node: ts.Node,
+    exported: boolean,
+    parent?: string,
+  ) => {
+    result.symbols.push({ qualifiedName, kind, line: lineOf(node), exported, parent });
+  };
+
+  const collectCalls = (node: ts.Node, from?: string, fieldTypes?: Map<string, string>) => {
+    // Parameters and locals are not scoped; a name reused with another type is rare enough
+    const types = new Map(fieldTypes);
+    const collectTypes = (child: ts.Node) => {
+      if (
+        (ts.isParameter(child) || ts.isVariableDeclaration(child)) &&
+        ts.isIdentifier(child.name)
+      ) {
+        const typeName = declaredTypeName(child.type, child.initializer);
+        if (typeName) types.set(child.name.text, typeName);
+      }
+      ts.forEachChild(child, collectTypes);
+    };
+    collectTypes(node);
+
+    const visit = (child: ts.Node) => {
+      if (ts.isCallExpression(child) || ts.isNewExpression(child)) {
+        const callee = child.expression;
+        const arg = child.arguments?.[0];
+        if (
+          ts.isCallExpression(child) &&
+          (callee.kind === ts.SyntaxKind.ImportKeyword ||
+            (ts.isIdentifier(callee) && callee.text === 'require')) &&
+          arg &&
+          ts.isStringLiteralLike(arg)
+        ) {
+          collectRequire(child, arg.text);
+        } else {
+          const parts = referenceParts(callee);
+          if (parts) {
+            const objectType = parts.objectType ?? (parts.object && types.get(parts.object));
+            result.calls.push({ from, ...parts, objectType, line: lineOf(child) });
+          }
+        }
+      }
+      ts.forEachChild(child, visit);
+    };
+    visit(node);
+  };
+
+  const collectRequire = (call: ts.CallExpression, specifier: string) => {
+    const bindings: ExtractedImport['bindings'] = [];
+    let parent: ts.Node = call.parent;
+    if (ts.isAwaitExpression(parent)) parent = parent.parent;
+    if (ts.isVariableDeclaration(parent)) {
+      if (ts.isIdentifier(parent.name)) {
+        bindings.push({ local: parent.name.text, imported: '*' });
+      } else if (ts.isObjectBindingPattern(parent.name)) {
+        for (const el of parent.name.elements) {
+          if (!ts.isIdentifier(el.name)) continue;
+          const imported =
+            el.propertyName && ts.isIdentifier(el.propertyName)
+              ? el.propertyName.text
+              : el.name.text;
+          bindings.push({ local: el.name.text, imported });
+        }
+      }
+    }
+    result.imports.push({ specifier, line: lineOf(call), typeOnly: false, bindings });
+  };
+
+  const collectHeritage = (
+    from: string,
+    clauses: ts.NodeArray<ts.HeritageClause> | undefined,
+    isInterface: boolean,
+  ) => {
+    for (const clause of clauses ?? []) {
+      const kind =
+        clause.token === ts.SyntaxKind.ExtendsKeyword || isInterface ? 'extends' : 'implements';
+      for (const type of clause.types) {
+        const parts = referenceParts(type.expression);
+        if (parts) result.heritage.push({ from, kind, ...parts, line: lineOf(type) });
+      }
+    }
+  };
+
+  const collectClass = (
+    name: string,
+    node: ts.ClassLikeDeclaration | ts.InterfaceDeclaration,
+    exported: boolean,
+  ) => {
+    const isInterface = ts.isInterfaceDeclaration(node);
+    addSymbol(name, isInterface ? 'interface' : 'class', node, exported);
+    collectHeritage(name, node.heritageClauses, isInterface);
+    if (isInterface) return;
+
+    for (const decorator of ts.canHaveDecorators(node) ? (ts.getDecorators(node) ?? []) : []) {
+      collectCalls(decorator, name);
+    }
+
+    // Field types let `this.store.load()` resolve to the declared class
+    const fieldTypes = new Map<string, string>();
+    for (const member of node.members) {
+      if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name)) {
+        const typeName = declaredTypeName(member.type, member.initializer);
+        if (typeName) fieldTypes.set(`this.${member.name.text}`, typeName);
+      } else if (ts.isConstructorDeclaration(member)) {
+        for (const param of member.parameters) {
+          if (!ts.isParameterPropertyDeclaration(param, member) || !ts.isIdentifier(param.name)) {
+            continue;
+          }
+          const typeName = declaredTypeName(param.type);
+          if (typeName) fieldTypes.set(`this.${param.name.text}`, typeName);
+        }
+      }
+    }
+
+    for (const member of node.members) {
+      const memberName =
+        member.name && (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name))
+          ? member.name.text
+          : undefined;
+      const isMethodLike =
+        ts.isMethodDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) ||
+        ts.isSetAccessorDeclaration(member) ||
+        (ts.isPropertyDeclaration(member) &&
+          !!member.initializer &&
+          (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer)));
+
+      if (memberName && isMethodLike) {
+        const qualified = `${name}.${memberName}`;
+        if (!result.symbols.some((s) => s.qualifiedName === qualified)) {
+          addSymbol(qualified, 'method', member, exported, name);
+        }
+        collectCalls(member, qualified, fieldTypes);
+      } else {
+        // Constructors and field initializers run as part of the class itself
+        collectCalls(member, name, fieldTypes);
+      }
+    }
+  };
+
+  for (const statement of sf.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+    const markExport = (name: string) => {
+      if (exported) result.exports.set(isDefault ? 'default' : name, name);
+    };
+
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      const bindings: ExtractedImport['bindings'] = [];
+      if (clause?.name) bindings.push({ local: clause.name.text, imported: 'default' });
+      const named = clause?.namedBindings;
+      if (named && ts.isNamespaceImport(named)) {
+        bindings.push({ local: named.name.text, imported: '*' });
+      } else if (named) {
+        for (const el of named.elements) {
+          bindings.push({ local: el.name.text, imported: (el.propertyName ?? el.name).text });
+        }
+      }
+      result.imports.push({
+        specifier: statement.moduleSpecifier.text,
+        line: lineOf(statement),
+        typeOnly: !!clause?.isTypeOnly,
+        bindings,
+      });
+    } else if (
+      ts.isImportEqualsDeclaration(statement) &&
+      ts.isExternalModuleReference(statement.moduleReference) &&
+      ts.isStringLiteral(statement.moduleReference.expression)
+    ) {
+      result.imports.push({
+        specifier: statement.moduleReference.expression.text,
+        line: lineOf(statement),
+        typeOnly: statement.isTypeOnly,
+        bindings: [{ local: statement.name.text, imported: '*' }],
+      });
+    } else if (ts.isExportDeclaration(statement)) {
+      const clause = statement.exportClause;
+      if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const specifier = statement.moduleSpecifier.text;
+        if (!clause) {
+          result.reexports.push({ specifier });
+        } else if (ts.isNamespaceExport(clause)) {
+          result.reexports.push({
+            specifier,
+            names: [{ exported: clause.name.text, imported: '*' }],
+          });
+        } else {
+          result.reexports.push({
+            specifier,
+            names: clause.elements.map((el) => ({
+              exported: el.name.text,
+              imported: (el.propertyName ?? el.name).text,
+            })),
+          });
+        }
+        result.imports.push({
+          specifier,
+          line: lineOf(statement),
+          typeOnly: statement.isTypeOnly,
+          bindings: [],
+        });
+      } else if (clause && ts.isNamedExports(clause)) {
+        for (const el of clause.elements) {
+          result.exports.set(el.name.text, (el.propertyName ?? el.name).text);
+        }
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      if (ts.isIdentifier(statement.expression)) {
+        result.exports.set('default', statement.expression.text);
+      } else {
+        collectCalls(statement.expression);
+      }
+    } else if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text ?? (isDefault ? 'default' : undefined);
+      if (!name) continue;
+      addSymbol(name, 'function', statement, exported);
+      markExport(name);
+      collectCalls(statement, name);
+    } else if (ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text ?? (isDefault ? 'default' : undefined);
+      if (!name) continue;
+      collectClass(name, statement, exported);
+      markExport(name);
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      collectClass(statement.name.text, statement, exported);
+      markExport(statement.name.text);
+    } else if (ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      addSymbol(statement.name.text, 'type', statement, exported);
+      markExport(statement.name.text);
+    } else if (ts.isVariableStatement(statement)) {
+      const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+      for (const decl of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(decl.name)) {
+          collectCalls(decl);
+          continue;
+        }
+        const name = decl.name.text;
+        const init = decl.initializer;
+        if (init && ts.isClassExpression(init)) {
+          collectClass(name, init, exported);
+        } else {
+          addSymbol(name, variableKind(decl, isConst), decl, exported);
+          if (init) collectCalls(init, name);
+        }
+        markExport(name);
+      }
+    } else {
+      collectCalls(statement);
+    }
+  }
+
+  return result;
+}
+
+// ─── Module Resolution ────────────────────────────────────────
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+};
+
+/** Directories that hold build output instead of sources. */
+const BUILD_DIRS = ['dist', 'build', 'lib', 'out'];
+
+/**
+ * Resolves import specifiers to workspace files with the TypeScript resolver, honouring the
+ * nearest tsconfig (`paths`, `baseUrl`, module resolution mode). Imports that leave the
+ * workspace or land in node_modules are package boundaries and resolve to nothing. Workspace
+ * packages that point at build output are mapped back to their `src/` files.
+ */
+export class TsModuleResolver {
+  private optionsByDir = new Map<string, ts.CompilerOptions>();
+  private optionsByConfig = new Map<string, ts.CompilerOptions>();
+  private resolved = new Map<string, string | undefined>();
+
+  constructor(private workspacePath: string) {}
+
+  /**
+   * Resolves a specifier imported from a file.
+   * @param specifier - Module specifier.
+   * @param fromFile - Absolute path of the importing file.
+   * @returns The absolute path of the target source file, or undefined.
+   */
+  resolve(specifier: string, fromFile: string): string | undefined {
+    const dir = dirname(fromFile);
+    const key = `${dir}\0${specifier}`;
+    if (this.resolved.has(key)) return this.resolved.get(key);
+
+    let target: string | undefined;
+    try {
+      const { resolvedModule } = ts.resolveModuleName(
+        specifier,
+        fromFile,
+        this.compilerOptions(dir),
+        ts.sys,
+      );
+      if (resolvedModule) target = this.toWorkspaceSource(resolvedModule.resolvedFileName);
+    } catch (err) {
+      logger.debug(`Module resolution failed for '${specifier}' in ${fromFile}: ${err}`);
+    }
+    this.resolved.set(key, target);
+    return target;
+  }
+
+  /**
+   * Returns compiler options from the nearest tsconfig/jsconfig above a directory.
+   * @param dir - Directory.
+   * @returns The compiler options.
+   */
+  private compilerOptions(dir: string): ts.CompilerOptions {
+    const cached = this.optionsByDir.get(dir);
+    if (cached) return cached;
+
+    const configPath =
+      ts.findConfigFile(dir, ts.sys.fileExists, 'tsconfig.json') ??
+      ts.findConfigFile(dir, ts.sys.fileExists, 'jsconfig.json');
+    let options = DEFAULT_COMPILER_OPTIONS;
+    if (configPath && this.isInside(configPath)) {
+      options = this.optionsByConfig.get(configPath) ?? this.parseConfig(configPath);
+      this.optionsByConfig.set(configPath, options);
+    }
+    this.optionsByDir.set(dir, options);
+    return options;
+  }
+
+  /**
+   * Parses a tsconfig including `extends`, without enumerating its input files.
+   * @param configPath - Config path.
+   * @returns The compiler options.
+   */
+  private parseConfig(configPath: string): ts.CompilerOptions {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error || !config) return DEFAULT_COMPILER_OPTIONS;
+    const host: ts.ParseConfigHost = {
+      useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+      readDirectory: () => [],
+      fileExists: ts.sys.fileExists,
+      readFile: ts.sys.readFile,
+    };
+    const parsed = ts.parseJsonConfigFileContent(config, host, dirname(configPath));
+    return { ...parsed.options, allowJs: true };
+  }
+
+  /**
+   * Maps a resolved file to a workspace source file.
+   * @param resolvedFile - File returned by the TypeScript resolver.
+   * @returns The source path, or undefined outside the workspace.
+   */
+  private toWorkspaceSource(resolvedFile: string): string | undefined {
+    if (!this.isInside(resolvedFile) || resolvedFile.split(/[\\/]/).includes('node_modules')) {
+      return undefined;
+    }
+    const isDeclaration = /\.d\.[mc]?ts$/.test(resolvedFile);
+    const parts = relative(this.workspacePath, resolvedFile).split(sep);
+    const buildIndex = parts.findIndex((p) => BUILD_DIRS.includes(p));
+    if (buildIndex === -1) return resolvedFile;
+
+    // packages/foo/dist/bar/index.d.ts -> packages/foo/src/bar/index.ts
+    const packageRoot = join(this.workspacePath, ...parts.slice(0, buildIndex));
+    const stem = parts
+      .slice(buildIndex + 1)
+      .join(sep)
+      .replace(/\.d\.([mc]?ts)$/, '')
+      .replace(/\.[mc]?js$/, '');
+    for (const ext of ['.ts', '.tsx', '.mts', '.js', '.jsx']) {
+      const candidate = join(packageRoot, 'src', stem + ext);
+      if (existsSync(candidate)) return candidate;
+    }
+    return isDeclaration ? undefined : resolvedFile;
+  }
+
+  /**
+   * Whether a path lies inside the workspace.
+   * @param path - Absolute path.
+   * @returns True when inside.
+   */
+  private isInside(path: string): boolean {
+    const rel = relative(this.workspacePath, path);
+    return !!rel && !rel.startsWith('..') && !isAbsolute(rel);
+  }
+}
+
+// ─── Linking ──────────────────────────────────────────────────
+
+interface ParsedFile {
+  symbols: FileSymbols;
+  /** Local binding name mapped to the import it came from. */
+  bindings: Map<string, { specifier: string; imported: string }>;
+  names: Set<string>;
+}
+
+/**
+ * Adds symbol nodes and `contains`, `imports`, `calls`, `extends` and `implements` edges for
+ * TypeScript/JavaScript files to a knowledge graph.
+ *
+ * Symbol node ids are `<file>#<name>` (`<file>#<Class>.<method>` for members). Calls are
+ * resolved by name through local declarations, imports, namespace imports, re-exports and
+ * `this`/static member access; calls on values of unknown type are left out.
+ */
+export class CodeSymbolLinker {
+  private resolver: TsModuleResolver;
+  private files = new Map<string, ParsedFile>();
+  private nodeIds = new Set<string>();
+  private edges = new Map<string, GraphEdge>();
+  private baseClass = new Map<string, string>();
+
+  constructor(
+    private workspacePath: string,
+    private graph: KnowledgeGraph,
+  ) {
+    this.resolver = new TsModuleResolver(workspacePath);
+    for (const node of graph.nodes) this.nodeIds.add(node.id);
+    for (const edge of graph.edges) this.edges.set(edge.id, edge);
+  }
+
+  /**
+   * Whether a file is parsed by this linker.
+   * @param relPath - Workspace-relative path.
+   * @returns True for TypeScript/JavaScript sources.
+   */
+  static handles(relPath: string): boolean {
+    return TS_SOURCE_EXTENSIONS.includes(extname(relPath).toLowerCase());
+  }
+
+  /**
+   * Parses the given files and links them into the graph.
+   * @param relPaths - Workspace-relative paths of file nodes already in the graph.
+   * @param cache - Symbols of unchanged files; files missing from it are parsed and added.
+   */
+  link(relPaths: string[], cache?: Map<string, FileSymbols>): void {
+    for (const relPath of relPaths) this.parse(relPath, cache);
+    for (const relPath of this.files.keys()) this.linkImports(relPath);
+    for (const relPath of this.files.keys()) this.linkHeritage(relPath);
+    for (const relPath of this.files.keys()) this.linkCalls(relPath);
+  }
+
+  /**
+   * Parses a file and adds its symbol nodes.
+   * @param relPath - Relative path.
+   * @param cache - Previously parsed symbols.
+   */
+  private parse(relPath: string, cache?: Map<string, FileSymbols>): void {
+    const fullPath = join(this.workspacePath, relPath);
+    try {
+      let symbols = cache?.get(relPath);
+      if (!symbols) {
+        if (statSync(fullPath).size > MAX_SOURCE_BYTES) return;
+        symbols = extractFileSymbols(relPath, readFileSync(fullPath, 'utf-8'));
+        cache?.set(relPath, symbols);
+      }
+      const bindings = new Map<string, { specifier: string; imported: string }>();
+      for (const imp of symbols.imports) {
+        for (const b of imp.bindings) {
+          bindings.set(b.local, { specifier: imp.specifier, imported: b.imported });
+        }
+      }
+      this.files.set(relPath, {
+        symbols,
+        bindings,
+        names: new Set(symbols.symbols.map((s) => s.qualifiedName)),
+      });
+
+      for (const symbol of symbols.symbols) {
+        const id = `${relPath}#${symbol.qualifiedName}`;
+        this.addNode({
+          id,
+          type: symbol.kind,
+          label: symbol.qualifiedName,
+          path: relPath,
+          line: symbol.line,
+          metadata: { exported: symbol.exported },
+        });
+        const parentId = symbol.parent ? `${relPath}#${symbol.parent}` : relPath;
+        this.addEdge(`symbol:${parentId}->${id}`, parentId, id, 'contains');
+      }
+    } catch (err) {
+      logger.warn(
+        `Failed to parse symbols from ${relPath}: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+  }
+
+  /**
+   * Adds file-level import edges.
+   * @param relPath - Relative path.
+   */
+  private linkImports(relPath: string): void {
+    const file = this.files.get(relPath)!;
+    for (const imp of file.symbols.imports) {
+      const target = this.resolveModule(relPath, imp.specifier);
+      if (!target || target === relPath) continue;
+      this.addEdge(`import:${relPath}->${target}`, relPath, target, 'imports', {
+        line: imp.line,
+        ...(imp.typeOnly ? { typeOnly: true } : {}),
+      });
+    }
+  }
+
+  /**
+   * Adds extends/implements edges.
+   * @param relPath - Relative path.
+   */
+  private linkHeritage(relPath: string): void {
+    const file = this.files.get(relPath)!;
+    for (const ref of file.symbols.heritage) {
+      const target = this.resolveReference(relPath, ref);
+      if (!target) continue;
+      const source = `${relPath}#${ref.from}`;
+      this.addEdge(`${ref.kind}:${source}->${target}`, source, target, ref.kind, {
+        line: ref.line,
+      });
+      if (ref.kind === 'extends') this.baseClass.set(source, target);
+    }
+  }
+
+  /**
+   * Adds call edges, one per caller/callee pair.
+   * @param relPath - Relative path.
+   */
+  private linkCalls(relPath: string): void {
+    const file = this.files.get(relPath)!;
+    for (const ref of file.symbols.calls) {
+      const target = this.resolveReference(relPath, ref);
+      const source = ref.from ? `${relPath}#${ref.from}` : relPath;
+      if (!target || target === source) continue;
+      const edgeId = `call:${source}->${target}`;
+      const existing = this.edges.get(edgeId);
+      if (existing?.metadata) {
+        existing.metadata.count = Number(existing.metadata.count ?? 1) + 1;
+        continue;
+      }
+      this.addEdge(edgeId, source, target, 'calls', { line: ref.line, count: 1 });
+    }
+  }
+
+  /**
+   * Resolves a referenced name to a symbol node id.
+   * @param relPath - File containing the reference.
+   * @param ref - Reference.
+   * @returns The node id, or undefined when unresolved.
+   */
+  private resolveReference(relPath: string, ref: ExtractedReference): string | undefined {
+    if (ref.objectType) {
+      const typeId = this.resolveLocal(relPath, ref.objectType, 0);
+      return typeId ? this.findMember(typeId, ref.name) : undefined;
+    }
+    if (ref.object === 'this') {
+      const owner = ref.from && this.ownerClass(relPath, ref.from);
+      return owner ? this.findMember(`${relPath}#${owner}`, ref.name) : undefined;
+    }
+    if (!ref.object) return this.resolveLocal(relPath, ref.name, 0);
+    if (ref.object.startsWith('this.')) return undefined;
+
+    const file = this.files.get(relPath)!;
+    const binding = file.bindings.get(ref.object);
+    if (binding?.imported === '*') {
+      const target = this.resolveModule(relPath, binding.specifier);
+      return target ? this.resolveExport(target, ref.name, 0) : undefined;
+    }
+    // Static member access such as `Foo.create()`
+    const owner = this.resolveLocal(relPath, ref.object, 0);
+    return owner ? this.findMember(owner, ref.name) : undefined;
+  }
+
+  /**
+   * Returns the class a member or class symbol belongs to.
+   * @param relPath - Relative path.
+   * @param qualifiedName - Qualified symbol name.
+   * @returns The class name, if any.
+   */
+  private ownerClass(relPath: string, qualifiedName: string): string | undefined {
+    const symbol = this.files
+      .get(relPath)
+      ?.symbols.symbols.find((s) => s.qualifiedName === qualifiedName);
+    if (!symbol) return undefined;
+    if (symbol.parent) return symbol.parent;
+    return symbol.kind === 'class' ? symbol.qualifiedName : undefined;
+  }
+
+  /**
+   * Finds a member on a class or its base classes.
+   * @param classId - Class node id.
+   * @param name - Member name.
+   * @returns The member node id, if any.
+   */
+  private findMember(classId: string, name: string): string | undefined {
+    const seen = new Set<string>();
+    let current: string | undefined = classId;
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const memberId = `${current}.${name}`;
+      if (this.nodeIds.has(memberId)) return memberId;
+      current = this.baseClass.get(current);
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves a name in a file's scope: local declarations first, then imports.
+   * @param relPath - Relative path.
+   * @param name - Name.
+   * @param depth - Current re-export depth.
+   * @returns The node id, if any.
+   */
+  private resolveLocal(relPath: string, name: string, depth: number): string | undefined {
+    const file = this.files.get(relPath);
+    if (!file) return undefined;
+    if (file.names.has(name)) return `${relPath}#${name}`;
+    const binding = file.bindings.get(name);
+    if (!binding || binding.imported === '*') return undefined;
+    const target = this.resolveModule(relPath, binding.specifier);
+    return target ? this.resolveExport(target, binding.imported, depth + 1) : undefined;
+  }
+
+  /**
+   * Resolves an exported name of a file, following re-exports through barrel files.
+   * @param relPath - Relative path of the exporting file.
+   * @param name - Export name.
+   * @param depth - Current re-export depth.
+   * @returns The node id, if any.
+   */
+  private resolveExport(relPath: string, name: string, depth: number): string | undefined {
+    if (depth > MAX_EXPORT_DEPTH) return undefined;
+    const file = this.files.get(relPath);
+    if (!file) return undefined;
+
+    const local = file.symbols.exports.get(name);
+    if (local) return this.resolveLocal(relPath, local, depth);
+
+    for (const reexport of file.symbols.reexports) {
+      const match = reexport.names?.find((n) => n.exported === name);
+      if (reexport.names && !match) continue;
+      if (!reexport.names && name === 'default') continue;
+      if (match?.imported === '*') return undefined;
+      const target = this.resolveModule(relPath, reexport.specifier);
+      const hit = target && this.resolveExport(target, match?.imported ?? name, depth + 1);
+      if (hit) return hit;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves a specifier to a file node in the graph.
+   * @param relPath - Importing file.
+   * @param specifier - Module specifier.
+   * @returns The target file's relative path, if it is part of the graph.
+   */
+  private resolveModule(relPath: string, specifier: string): string | undefined {
+    const resolved = this.resolver.resolve(specifier, join(this.workspacePath, relPath));
+    if (!resolved) return undefined;
+    const target = relative(this.workspacePath, resolved);
+    return this.nodeIds.has(target) ? target : undefined;
+  }
+
+  /**
+   * Adds a node unless one with the same id exists.
+   * @param node - Node.
+   */
+  private addNode(node: GraphNode): void {
+    if (this.nodeIds.has(node.id)) return;
+    this.nodeIds.add(node.id);
+    this.graph.nodes.push(node);
+  }
+
+  /**
+   * Adds an edge unless one with the same id exists.
+   * @param id - Edge id.
+   * @param source - Source node id.
+   * @param target - Target node id.
+   * @param type - Edge type.
+   * @param metadata - Optional metadata.
+   */
+  private addEdge(
+    id: string,
+    source: string,
+    target: string,
+    type: GraphEdgeType,
+    metadata?: Record<string, unknown>,
+  ): void {
+    if (this.edges.has(id)) return;
+    const edge: GraphEdge = { id, source, target, type, ...(metadata ? { metadata } : {}) };
+    this.edges.set(id, edge);
+    this.graph.edges.push(edge);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/archive-extractor.ts
+ * @description Reads the documents inside zip archives without unpacking them to disk.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+import AdmZip, { type IZipEntry } from 'adm-zip';
+import type {
+  DocumentExtractor,
+  DocumentSection,
+  ExtractedDocument,
+} from './document-extractor.interface.js';
+import type { DocumentExtractorRegistry } from './document-extractor-registry.js';
+import { logger } from '../../../logger.js';
+
+const MAX_ENTRIES = 1000;
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Decompresses a member without trusting the size its header declares.
+ * @param entry - Archive member.
+ * @param limit - Most bytes to decompress.
+ * @returns The member's bytes, or undefined when they exceed `limit`.
+ */
+function readEntry(entry: IZipEntry, limit: number): Buffer | undefined {
+  if (entry.header.flags & 1) throw new Error('encrypted members are not supported');
+  const raw = entry.getCompressedData();
+  if (entry.header.method === 0) return raw.length <= limit ? raw : undefined;
+  if (entry.header.method !== 8) {
+    throw new Error(`compression method ${entry.header.method} is not supported`);
+  }
+  try {
+    return inflateRawSync(raw, { maxOutputLength: limit });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Runs the registry's extractors on each member in a supported format. Sections keep the
+ * member path in `entry`. Nested archives, hidden files and oversized members are skipped,
+ * and reading stops once the archive has decompressed to `MAX_ARCHIVE_BYTES`.
+ */
+export class ArchiveDocumentExtractor implements DocumentExtractor {
+  id = 'archive';
+  extensions = ['.zip'];
+
+  constructor(private registry: DocumentExtractorRegistry) {}
+
+  async extract(data: Buffer, path: string): Promise<ExtractedDocument> {
+    const zip = new AdmZip(data);
+    const sections: DocumentSection[] = [];
+    const entries = zip
+      .getEntries()
+      .filter((entry) => !entry.isDirectory)
+      .filter((entry) => !entry.entryName.split('/').some((part) => part.startsWith('.')))
+      .filter((entry) => !entry.entryName.startsWith('__MACOSX/'))
+      .filter((entry) => this.registry.handles(entry.entryName, { nested: true }));
+
+    if (entries.length > MAX_ENTRIES) {
+      logger.warn(
+        `Archive ${path} has ${entries.length} documents; reading the first ${MAX_ENTRIES}.`,
+      );
+    }
+    let budget = MAX_ARCHIVE_BYTES;
+    for (const entry of entries.slice(0, MAX_ENTRIES)) {
+      if (entry.header.size > MAX_ENTRY_BYTES) continue;
+      const limit = Math.min(MAX_ENTRY_BYTES, budget);
+      if (limit <= 0) {
+        logger.warn(`Archive ${path} decompresses past ${MAX_ARCHIVE_BYTES} bytes; stopping.`);
+        break;
+      }
+      try {
+        const data = readEntry(entry, limit);
+        // A rejected member still cost up to `limit` bytes of inflating
+        budget -= data?.length ?? limit;
+        if (!data) continue;
+        const extracted = await this.registry.extract(entry.entryName, data);
+        for (const section of extracted.sections) {
+          sections.push({
+            ...section,
+            entry: section.entry ? `${entry.entryName}/${section.entry}` : entry.entryName,
+          });
+        }
+      } catch (err) {
+        logger.warn(
+          `Skipping ${entry.entryName} in ${path}: ${err instanceof Error ? err.message : err}`,
+        );
+      }
+    }
+    return { sections };
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/csv-extractor.ts
+ * @description Extracts CSV / TSV tables as `column: value` records.
+ */
+
+import { extname } from 'node:path';
+import type {
+  DocumentExtractor,
+  DocumentSection,
+  ExtractedDocument,
+} from './document-extractor.interface.js';
+
+const ROWS_PER_SECTION = 25;
+
+/**
+ * Each record becomes one line naming its columns, so a chunk stays readable without the
+ * header row. Sections hold a fixed number of records and carry their row range.
+ */
+export class CsvDocumentExtractor implements DocumentExtractor {
+  id = 'csv';
+  extensions = ['.csv', '.tsv'];
+
+  async extract(data: Buffer, path: string): Promise<ExtractedDocument> {
+    const text = data.toString('utf-8').replace(/^\uFEFF/, '');
+    const delimiter = extname(path).toLowerCase() === '.tsv' ? '\t' : detectDelimiter(text);
+    const [header = [], ...rows] = parseCsv(text, delimiter);
+    const columns = header.map((name, i) => name.trim() || `column ${i + 1}`);
+
+    const sections: DocumentSection[] = [];
+    for (let start = 0; start < rows.length; start += ROWS_PER_SECTION) {
+      const batch = rows.slice(start, start + ROWS_PER_SECTION);
+      const lines = batch
+        .map((row) =>
+          row
+            .map((value, i) =>
+              value.trim() ? `${columns[i] ?? `column ${i + 1}`}: ${value.trim()}` : '',
+            )
+            .filter(Boolean)
+            .join('; '),
+        )
+        .filter(Boolean);
+      if (lines.length === 0) continue;
+      // Row 1 is the header
+      sections.push({
+        text: lines.join('\n'),
+        location: `rows ${start + 2}-${start + batch.length + 1}`,
+      });
+    }
+    return { sections };
+  }
+}
+
+/**
+ * Picks the delimiter that splits the first line into the most fields.
+ * @param text - CSV text.
+ * @returns `,`, `;`, `\t` or `|`.
+ */
+function detectDelimiter(text: string): string {
+  const end = text.indexOf('\n');
+  const firstLine = end === -1 ? text : text.slice(0, end);
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of [',', ';', '\t', '|']) {
+    const count = firstLine.split(candidate).length;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain delimiters, `""` and line breaks.
+ * @param text - CSV text.
+ * @param delimiter - Field delimiter.
+ * @returns Rows of fields; blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value !== '')) rows.push(row);
+  return rows;
+}
@@ -0,0 +1,92 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/document-chunker.ts
+ * @description Splits extracted documents into embedding-sized chunks that keep their source location.
+ */
+
+import type { DocumentSection, ExtractedDocument } from './document-extractor.interface.js';
+
+export interface DocumentChunk extends Omit<DocumentSection, 'line'> {
+  /** Heading trail followed by the chunk body, as embedded and stored. */
+  content: string;
+  /** 1-based line span in the file, when the section has line numbers. */
+  startLine?: number;
+  endLine?: number;
+}
+
+/** A piece of section text with its 0-based first and last line in the section. */
+interface Piece {
+  text: string;
+  first: number;
+  last: number;
+}
+
+/**
+ * Chunks each section on its own, so a chunk never spans two headings, pages, archive
+ * members or messages. Lines are kept whole unless a single line exceeds `size`.
+ * @param document - Extracted document.
+ * @param size - Approximate maximum characters per chunk body.
+ * @returns Chunks in document order.
+ */
+export function chunkDocument(document: ExtractedDocument, size = 1000): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  for (const { line, ...section } of document.sections) {
+    const prefix = section.headings?.length ? `${section.headings.join(' > ')}\n\n` : '';
+    for (const piece of splitText(section.text, size)) {
+      chunks.push({
+        ...section,
+        text: piece.text,
+        content: prefix + piece.text,
+        ...(line !== undefined
+          ? { startLine: line + piece.first, endLine: line + piece.last }
+          : {}),
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Splits text at line breaks into pieces of at most `size` characters; longer lines are
+ * split at the last space before the limit. Blank lines at either end of a piece are dropped.
+ * @param text - Text.
+ * @param size - Maximum characters per piece.
+ * @returns Non-empty pieces.
+ */
+function splitText(text: string, size: number): Piece[] {
+  const pieces: Piece[] = [];
+  let lines: string[] = [];
+  let first = 0;
+  let length = 0;
+  const push = (next: number) => {
+    let start = 0;
+    let end = lines.length - 1;
+    while (start <= end && !lines[start].trim()) start++;
+    while (end >= start && !lines[end].trim()) end--;
+    if (start <= end) {
+      const piece = lines
+        .slice(start, end + 1)
+        .join('\n')
+        .trim();
+      pieces.push({ text: piece, first: first + start, last: first + end });
+    }
+    lines = [];
+    first = next;
+    length = 0;
+  };
+
+  for (const [i, raw] of text.split('\n').entries()) {
+    let line = raw;
+    while (line.length > size) {
+      push(i);
+      const cut = line.lastIndexOf(' ', size);
+      const end = cut > size / 2 ? cut : size;
+      pieces.push({ text: line.slice(0, end).trim(), first: i, last: i });
+      line = line.slice(end);
+    }
+    if (lines.length && length + line.length > size) push(i);
+    lines.push(line);
+    length += line.length + 1;
+  }
+  push(0);
+  return pieces;
+}
@@ -0,0 +1,176 @@
+import 'reflect-metadata';
+import { describe, it, expect } from 'vitest';
+import AdmZip from 'adm-zip';
+import { DocumentExtractorRegistry } from './document-extractor-registry.js';
+import { chunkDocument } from './document-chunker.js';
+
+/** Builds a minimal PDF with one text line per page. */
+function buildPdf(pages: string[]): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('DocumentExtractorRegistry', () => {
+  const registry = new DocumentExtractorRegistry();
+
+  it('extracts PDF pages and Word headings with page numbers', async () => {
+    const pdf = await registry.extract('report.pdf', buildPdf(['Quarterly revenue', 'Outlook']));
+    expect(pdf.sections).toEqual([
+      { text: 'Quarterly revenue', page: 1 },
+      { text: 'Outlook', page: 2 },
+    ]);
+
+    const docx = new AdmZip();
+    const p = (text: string, style?: string, pageBreak = false) =>
+      `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r>${pageBreak ? '<w:lastRenderedPageBreak/>' : ''}<w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+    docx.addFile(
+      'word/document.xml',
+      Buffer.from(
+        `<w:document><w:body>${p('Handbook', 'Title')}${p('Leave', 'Heading1')}${p('Ask &amp; wait.')}${p('Sick days', 'Heading2', true)}${p('Call in.')}</w:body></w:document>`,
+      ),
+    );
+    const word = await registry.extract('handbook.docx', docx.toBuffer());
+    expect(word.title).toBe('Handbook');
+    expect(word.sections).toEqual([
+      { text: 'Ask & wait.', headings: ['Handbook', 'Leave'], page: 1 },
+      { text: 'Call in.', headings: ['Handbook', 'Leave', 'Sick days'], page: 2 },
+    ]);
+  });
+
+  it('extracts HTML sections, CSV records and email with attachments', async () => {
+    const html = await registry.extract(
+      'page.html',
+      Buffer.from(
+        '<html><head><title>Docs</title><style>p{}</style></head><body><p>Intro</p><h1>Setup</h1><p>Run <b>npm</b> &gt; install</p><h2>Linux</h2><ul><li>apt</li><li>snap</li></ul></body></html>',
+      ),
+    );
+    expect(html).toEqual({
+      title: 'Docs',
+      sections: [
+        { text: 'Intro', headings: undefined },
+        { text: 'Run npm > install', headings: ['Setup'] },
+        { text: 'apt\nsnap', headings: ['Setup', 'Linux'] },
+      ],
+    });
+
+    const csv = await registry.extract(
+      'people.csv',
+      Buffer.from('name;note\nAda;"says ""hi""; twice"\n\nBob;\n'),
+    );
+    expect(csv.sections).toEqual([
+      { text: 'name: Ada; note: says "hi"; twice\nname: Bob', location: 'rows 2-3' },
+    ]);
+
+    const attachment = Buffer.from('sku,qty\nA1,3\n').toString('base64');
+    const eml = [
+      'From: Ada <ada@example.com>',
+      'To: ops@example.com',
+      'Subject: =?UTF-8?B?T3JkZXIg4pyU?=',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: multipart/alternative; boundary="b2"',
+      '',
+      '--b2',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Caf=C3=A9 order=',
+      ' attached.',
+      '--b2',
+      'Content-Type: text/html',
+      '',
+      '<p>ignored</p>',
+      '--b2--',
+      '--b1',
+      'Content-Type: text/csv; name="order.csv"',
+      'Content-Disposition: attachment; filename="order.csv"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      attachment,
+      '--b1--',
+      '',
+    ].join('\r\n');
+    const mail = await registry.extract('order.eml', Buffer.from(eml));
+    expect(mail.title).toBe('Order ✔');
+    expect(mail.sections).toEqual([
+      {
+        text: 'From: Ada <ada@example.com>\nTo: ops@example.com\nAttachments: order.csv\n\nCafé order attached.',
+        headings: ['Order ✔'],
+      },
+      { text: 'sku: A1; qty: 3', location: 'rows 2-2', headings: ['Order ✔'], entry: 'order.csv' },
+    ]);
+
+    const mbox = `From a@x Mon Jan 1 00:00:00 2024\nSubject: One\n\nFirst\n>From here\n\nFrom b@x Mon Jan 1 00:00:00 2024\nSubject: Two\n\nSecond\n`;
+    const box = await registry.extract('inbox.mbox', Buffer.from(mbox));
+    expect(box.sections.map((s) => [s.location, s.headings, s.text])).toEqual([
+      ['message 1', ['One'], 'First\nFrom here'],
+      ['message 2', ['Two'], 'Second'],
+    ]);
+  });
+
+  it('skips zip members that decompress past their limit whatever their header says', async () => {
+    const zip = new AdmZip();
+    zip.addFile('bomb.md', Buffer.alloc(60 * 1024 * 1024, 'a'));
+    zip.addFile('ok.md', Buffer.from('# Fine\n\nStill read.'));
+    const data = zip.toBuffer();
+    // Declare the bomb empty in both headers, which leaves adm-zip's own inflate unbounded
+    data.writeUInt32LE(0, 22);
+    data.writeUInt32LE(0, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+
+    const document = await registry.extract('bundle.zip', data);
+    expect(document.sections.map((s) => s.entry)).toEqual(['ok.md']);
+  });
+
+  it('reads zip members in place and chunks without crossing sections', async () => {
+    const zip = new AdmZip();
+    zip.addFile('notes/a.md', Buffer.from('# Guide\n\nIntro\n\n## Step\n\n' + 'word '.repeat(60)));
+    zip.addFile('notes/inner.zip', new AdmZip().toBuffer());
+    zip.addFile('__MACOSX/notes/._a.md', Buffer.from('junk'));
+    zip.addFile('image.png', Buffer.from([0x89, 0x50]));
+
+    const document = await registry.extract('bundle.zip', zip.toBuffer());
+    expect(document.sections.map((s) => [s.entry, s.headings])).toEqual([
+      ['notes/a.md', ['Guide']],
+      ['notes/a.md', ['Guide', 'Step']],
+    ]);
+    expect(registry.handles('inner.zip')).toBe(true);
+    expect(registry.handles('inner.zip', { nested: true })).toBe(false);
+
+    const chunks = chunkDocument(document, 100);
+    expect(chunks.map((c) => [c.entry, c.headings?.at(-1), c.text.length <= 100])).toEqual([
+      ['notes/a.md', 'Guide', true],
+      ['notes/a.md', 'Step', true],
+      ['notes/a.md', 'Step', true],
+      ['notes/a.md', 'Step', true],
+    ]);
+    expect(chunks[1].content.startsWith('Guide > Step\n\nword word')).toBe(true);
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [3, 3],
+      [7, 7],
+      [7, 7],
+      [7, 7],
+    ]);
+  });
+});
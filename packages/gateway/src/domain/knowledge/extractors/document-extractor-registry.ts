@@ -0,0 +1,82 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/document-extractor-registry.ts
+ * @description Maps file extensions to document extractors.
+ */
+
+import { singleton } from 'tsyringe';
+import { extname } from 'node:path';
+import { logger } from '../../../logger.js';
+import type { DocumentExtractor, ExtractedDocument } from './document-extractor.interface.js';
+import { ArchiveDocumentExtractor } from './archive-extractor.js';
+import { CsvDocumentExtractor } from './csv-extractor.js';
+import { DocxDocumentExtractor } from './docx-extractor.js';
+import { EmailDocumentExtractor } from './email-extractor.js';
+import { HtmlDocumentExtractor } from './html-extractor.js';
+import { PdfDocumentExtractor } from './pdf-extractor.js';
+import { TextDocumentExtractor } from './text-extractor.js';
+
+/**
+ * Holds the built-in extractors; skills can register more, or replace a built-in by claiming
+ * its extensions. Files without a registered extractor are read as plain UTF-8 text.
+ */
+@singleton()
+export class DocumentExtractorRegistry {
+  private byExtension = new Map<string, DocumentExtractor>();
+  private fallback = new TextDocumentExtractor();
+  private archives: DocumentExtractor;
+
+  constructor() {
+    this.archives = new ArchiveDocumentExtractor(this);
+    this.register(this.fallback);
+    this.register(new HtmlDocumentExtractor());
+    this.register(new CsvDocumentExtractor());
+    this.register(new PdfDocumentExtractor());
+    this.register(new DocxDocumentExtractor());
+    this.register(new EmailDocumentExtractor(this));
+    this.register(this.archives);
+  }
+
+  /**
+   * Registers an extractor for its extensions, replacing earlier ones.
+   * @param extractor - Extractor.
+   */
+  register(extractor: DocumentExtractor): void {
+    for (const extension of extractor.extensions) {
+      const previous = this.byExtension.get(extension.toLowerCase());
+      if (previous && previous.id !== extractor.id) {
+        logger.debug(`Document extractor ${extractor.id} replaces ${previous.id} for ${extension}`);
+      }
+      this.byExtension.set(extension.toLowerCase(), extractor);
+    }
+  }
+
+  /**
+   * Extensions with a registered extractor.
+   * @returns Lower-case extensions including the dot.
+   */
+  extensions(): string[] {
+    return [...this.byExtension.keys()];
+  }
+
+  /**
+   * Whether a registered extractor handles the file.
+   * @param path - File path or name.
+   * @param options - `nested` excludes archives, for files that are themselves in an archive.
+   * @returns True when the extension is registered.
+   */
+  handles(path: string, options: { nested?: boolean } = {}): boolean {
+    const extractor = this.byExtension.get(extname(path).toLowerCase());
+    return !!extractor && !(options.nested && extractor === this.archives);
+  }
+
+  /**
+   * Extracts a file's text sections.
+   * @param path - File path or name; its extension picks the extractor.
+   * @param data - File contents.
+   * @returns Extracted document.
+   */
+  extract(path: string, data: Buffer): Promise<ExtractedDocument> {
+    const extractor = this.byExtension.get(extname(path).toLowerCase()) ?? this.fallback;
+    return extractor.extract(data, path);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/document-extractor.interface.ts
+ * @description Contract for turning workspace files into text sections for chunking.
+ */
+
+/** A run of text that shares one heading trail and location. */
+export interface DocumentSection {
+  text: string;
+  /** Enclosing headings, outermost first. */
+  headings?: string[];
+  /** 1-based line the section's text starts on, for line-oriented formats. */
+  line?: number;
+  /** 1-based page number. */
+  page?: number;
+  /** Path inside the file: an archive member or an email attachment. */
+  entry?: string;
+  /** Other locator within the file, e.g. `rows 2-26` or `message 3`. */
+  location?: string;
+}
+
+export interface ExtractedDocument {
+  title?: string;
+  sections: DocumentSection[];
+}
+
+/**
+ * Extracts text from one family of file formats. Extractors run on raw bytes so archive
+ * members and attachments can be read without writing them to disk.
+ */
+export interface DocumentExtractor {
+  id: string;
+  /** Lower-case extensions including the dot. */
+  extensions: string[];
+  extract(data: Buffer, path: string): Promise<ExtractedDocument>;
+}
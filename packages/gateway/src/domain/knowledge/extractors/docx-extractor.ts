@@ -0,0 +1,94 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/docx-extractor.ts
+ * @description Extracts paragraphs, headings and page breaks from Word (.docx) documents.
+ */
+
+import AdmZip from 'adm-zip';
+import type {
+  DocumentExtractor,
+  DocumentSection,
+  ExtractedDocument,
+} from './document-extractor.interface.js';
+import { decodeEntities } from './html-extractor.js';
+
+/**
+ * Reads `word/document.xml` straight from the package. Paragraphs styled `Title` or
+ * `Heading1`-`Heading9` start new sections; page numbers follow the page breaks Word last
+ * rendered, so they match the document as it was saved.
+ */
+export class DocxDocumentExtractor implements DocumentExtractor {
+  id = 'docx';
+  extensions = ['.docx'];
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    const zip = new AdmZip(data);
+    const xml = zip.readAsText('word/document.xml');
+    if (!xml) throw new Error('Not a Word document: word/document.xml is missing');
+
+    const core = zip.readAsText('docProps/core.xml');
+    const titleMatch = core?.match(/<dc:title>([\s\S]*?)<\/dc:title>/);
+    let title = titleMatch ? decodeEntities(titleMatch[1]).trim() || undefined : undefined;
+
+    const sections: DocumentSection[] = [];
+    const trail: Array<{ level: number; text: string }> = [];
+    let lines: string[] = [];
+    let page = 1;
+    let sectionPage = 1;
+
+    const flush = () => {
+      const text = lines.join('\n').trim();
+      if (text) {
+        sections.push({
+          text,
+          headings: trail.length ? trail.map((h) => h.text) : undefined,
+          page: sectionPage,
+        });
+      }
+      lines = [];
+      sectionPage = page;
+    };
+
+    for (const [paragraph] of xml.matchAll(/<w:p\b[^>]*?(?:\/>|>[\s\S]*?<\/w:p>)/g)) {
+      const breaks = paragraph.match(/<w:lastRenderedPageBreak\/>|<w:br\b[^>]*w:type="page"/g);
+      if (breaks) {
+        // A page boundary inside the current section starts a new one
+        if (lines.length) flush();
+        page += breaks.length;
+        sectionPage = page;
+      }
+
+      const text = paragraphText(paragraph);
+      const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1];
+      const level = style === 'Title' ? 0 : Number(style?.match(/^Heading(\d)$/i)?.[1] ?? NaN);
+      if (Number.isNaN(level) || !text.trim()) {
+        lines.push(text);
+        continue;
+      }
+
+      flush();
+      if (level === 0) title ??= text.trim();
+      while (trail.length && trail[trail.length - 1].level >= level) trail.pop();
+      trail.push({ level, text: text.trim() });
+    }
+    flush();
+
+    return { title, sections };
+  }
+}
+
+/**
+ * Concatenates the text runs of one `<w:p>` element.
+ * @param paragraph - Paragraph XML.
+ * @returns Paragraph text.
+ */
+function paragraphText(paragraph: string): string {
+  let text = '';
+  for (const [, tag, content] of paragraph.matchAll(
+    /<w:(t|tab|br|cr)\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:t>)/g,
+  )) {
+    if (tag === 't') text += decodeEntities(content ?? '');
+    else if (tag === 'tab') text += '\t';
+    else text += '\n';
+  }
+  return text;
+}
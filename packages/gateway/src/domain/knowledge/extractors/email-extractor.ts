@@ -0,0 +1,256 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/email-extractor.ts
+ * @description Extracts messages from .eml files and mbox mailboxes, including attachments.
+ */
+
+import { extname } from 'node:path';
+import type {
+  DocumentExtractor,
+  DocumentSection,
+  ExtractedDocument,
+} from './document-extractor.interface.js';
+import type { DocumentExtractorRegistry } from './document-extractor-registry.js';
+import { htmlToText } from './html-extractor.js';
+
+/** Decoded content of one message, collected while walking its MIME tree. */
+interface MessageContent {
+  plain: string[];
+  html: string[];
+  attachments: Array<{ name: string; data: Buffer }>;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  /** Raw body, one character per byte. */
+  body: string;
+}
+
+/**
+ * Each message becomes a section under its subject, starting with its From / To / Date
+ * lines. Text bodies are preferred over HTML. Attachments in a format the registry handles
+ * are extracted in memory and appended as sections of their own.
+ */
+export class EmailDocumentExtractor implements DocumentExtractor {
+  id = 'email';
+  extensions = ['.eml', '.mbox'];
+
+  constructor(private registry?: DocumentExtractorRegistry) {}
+
+  async extract(data: Buffer, path: string): Promise<ExtractedDocument> {
+    const raw = data.toString('latin1');
+    if (extname(path).toLowerCase() !== '.mbox') {
+      const message = parsePart(raw);
+      return {
+        title: decodeWords(message.headers.get('subject') ?? '') || undefined,
+        sections: await this.messageSections(message),
+      };
+    }
+
+    const sections: DocumentSection[] = [];
+    const messages = raw.split(/\r?\n(?=From )/).filter((m) => m.startsWith('From '));
+    for (const [i, mboxMessage] of messages.entries()) {
+      // Drop the mbox separator line and undo ">From " quoting
+      const body = mboxMessage.slice(mboxMessage.indexOf('\n') + 1).replace(/^>(>*From )/gm, '$1');
+      const location = `message ${i + 1}`;
+      for (const section of await this.messageSections(parsePart(body))) {
+        sections.push({ ...section, location });
+      }
+    }
+    return { sections };
+  }
+
+  private async messageSections(message: MimePart): Promise<DocumentSection[]> {
+    const content: MessageContent = { plain: [], html: [], attachments: [] };
+    collect(message, content);
+
+    const subject = decodeWords(message.headers.get('subject') ?? '') || '(no subject)';
+    const lines = ['from', 'to', 'cc', 'date']
+      .filter((name) => message.headers.has(name))
+      .map(
+        (name) =>
+          `${name[0].toUpperCase()}${name.slice(1)}: ${decodeWords(message.headers.get(name)!)}`,
+      );
+    if (content.attachments.length) {
+      lines.push(`Attachments: ${content.attachments.map((a) => a.name).join(', ')}`);
+    }
+    const body = content.plain.length
+      ? content.plain.join('\n\n')
+      : content.html.map((html) => htmlToText(html)).join('\n\n');
+
+    const sections: DocumentSection[] = [
+      { text: `${lines.join('\n')}\n\n${body.trim()}`.trim(), headings: [subject] },
+    ];
+    for (const attachment of content.attachments) {
+      if (!this.registry?.handles(attachment.name)) continue;
+      try {
+        const extracted = await this.registry.extract(attachment.name, attachment.data);
+        for (const section of extracted.sections) {
+          sections.push({
+            ...section,
+            headings: [subject, ...(section.headings ?? [])],
+            entry: section.entry ? `${attachment.name}/${section.entry}` : attachment.name,
+          });
+        }
+      } catch {
+        // An unreadable attachment leaves the message itself indexed
+      }
+    }
+    return sections;
+  }
+}
+
+/**
+ * Splits a MIME entity into unfolded, lower-cased headers and its body.
+ * @param raw - Entity text, one character per byte.
+ * @returns Headers and body.
+ */
+function parsePart(raw: string): MimePart {
+  const match = raw.match(/\r?\n\r?\n/);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+/**
+ * Splits a header such as `Content-Type` into its value and parameters.
+ * @param header - Header value.
+ * @returns Lower-cased value and parameters keyed by lower-cased name.
+ */
+function parseParams(header: string): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    const name = param.slice(0, eq).trim().toLowerCase().replace(/\*$/, '');
+    let paramValue = param
+      .slice(eq + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+    // RFC 2231 extended value: charset'language'percent-encoded
+    const extended = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+    if (extended && param.slice(0, eq).trim().endsWith('*')) {
+      paramValue = decodeCharset(
+        Buffer.from(decodeURIComponentBytes(extended[2]), 'latin1'),
+        extended[1],
+      );
+    }
+    params[name] = paramValue;
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+/**
+ * Walks a MIME tree, sorting text bodies and attachments into `content`.
+ * @param part - MIME entity.
+ * @param content - Collected content.
+ */
+function collect(part: MimePart, content: MessageContent): void {
+  const type = parseParams(part.headers.get('content-type') ?? 'text/plain');
+  const disposition = parseParams(part.headers.get('content-disposition') ?? 'inline');
+  const filename = disposition.params.filename ?? type.params.name;
+
+  if (type.value.startsWith('multipart/') && type.params.boundary) {
+    const delimiter = `--${type.params.boundary}`;
+    const pieces = part.body.split(delimiter).slice(1);
+    for (const piece of pieces) {
+      if (piece.startsWith('--')) break;
+      collect(parsePart(piece.replace(/^[ \t]*\r?\n/, '')), content);
+    }
+    return;
+  }
+  if (type.value === 'message/rfc822' && !filename) {
+    collect(parsePart(part.body), content);
+    return;
+  }
+
+  const data = decodeTransfer(part.body, part.headers.get('content-transfer-encoding'));
+  if (disposition.value === 'attachment' || (filename && !type.value.startsWith('text/'))) {
+    content.attachments.push({ name: decodeWords(filename ?? 'attachment'), data });
+  } else if (type.value === 'text/html') {
+    content.html.push(decodeCharset(data, type.params.charset));
+  } else if (type.value.startsWith('text/')) {
+    content.plain.push(decodeCharset(data, type.params.charset));
+  }
+}
+
+/**
+ * Undoes a Content-Transfer-Encoding.
+ * @param body - Encoded body, one character per byte.
+ * @param encoding - Encoding name.
+ * @returns Decoded bytes.
+ */
+function decodeTransfer(body: string, encoding = '7bit'): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16)),
+          ),
+        'latin1',
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * Decodes bytes in a named charset, falling back to UTF-8 for unknown ones.
+ * @param data - Bytes.
+ * @param charset - Charset label.
+ * @returns Text.
+ */
+function decodeCharset(data: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(data);
+  } catch {
+    return new TextDecoder('utf-8').decode(data);
+  }
+}
+
+/**
+ * Decodes RFC 2047 encoded words (`=?UTF-8?B?...?=`) in a header.
+ * @param header - Header value.
+ * @returns Decoded value.
+ */
+function decodeWords(header: string): string {
+  // Headers are read one character per byte; unencoded non-ASCII is almost always UTF-8
+  const text = /[\u0080-\u00ff]/.test(header)
+    ? Buffer.from(header, 'latin1').toString('utf-8')
+    : header;
+  return text
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_, charset: string, mode: string, text: string) => {
+        const data =
+          mode.toUpperCase() === 'B'
+            ? Buffer.from(text, 'base64')
+            : decodeTransfer(text.replace(/_/g, ' '), 'quoted-printable');
+        return decodeCharset(data, charset);
+      },
+    )
+    .trim();
+}
+
+/**
+ * Percent-decodes to one character per byte, leaving invalid escapes as they are.
+ * @param text - Percent-encoded text.
+ * @returns Decoded bytes as a latin1 string.
+ */
+function decodeURIComponentBytes(text: string): string {
+  return text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16)),
+  );
+}
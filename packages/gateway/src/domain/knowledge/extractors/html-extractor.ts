@@ -0,0 +1,119 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/html-extractor.ts
+ * @description Extracts readable text from HTML, one section per heading.
+ */
+
+import type {
+  DocumentExtractor,
+  DocumentSection,
+  ExtractedDocument,
+} from './document-extractor.interface.js';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+};
+
+const BLOCK_TAGS =
+  /<\/?(?:p|div|section|article|header|footer|main|aside|nav|ul|ol|li|table|thead|tbody|tr|blockquote|pre|dl|dt|dd|figure|figcaption|form|fieldset|hr|br)\b[^>]*>/gi;
+
+/**
+ * Decodes named and numeric HTML / XML character references.
+ * @param text - Encoded text.
+ * @returns Decoded text.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code =
+        ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : Number(ref.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Converts an HTML fragment to text, keeping block boundaries as line breaks.
+ * @param html - HTML fragment.
+ * @returns Plain text.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(BLOCK_TAGS, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Parses a whole HTML page into sections split at `<h1>`-`<h6>`.
+ * @param html - HTML document.
+ * @returns Title and sections.
+ */
+export function splitHtml(html: string): ExtractedDocument {
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const bodyMatch = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+  const body = bodyMatch ? bodyMatch[1] : html.replace(/<head\b[\s\S]*?<\/head>/i, '');
+
+  const sections: DocumentSection[] = [];
+  const trail: Array<{ level: number; text: string }> = [];
+  const push = (fragment: string) => {
+    const text = htmlToText(fragment);
+    if (text) {
+      sections.push({ text, headings: trail.length ? trail.map((h) => h.text) : undefined });
+    }
+  };
+
+  const headingRegex = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+  let last = 0;
+  let match;
+  while ((match = headingRegex.exec(body)) !== null) {
+    push(body.slice(last, match.index));
+    last = match.index + match[0].length;
+    const level = Number(match[1]);
+    const text = htmlToText(match[2]).replace(/\s+/g, ' ');
+    if (!text) continue;
+    while (trail.length && trail[trail.length - 1].level >= level) trail.pop();
+    trail.push({ level, text });
+  }
+  push(body.slice(last));
+
+  const title = titleMatch ? htmlToText(titleMatch[1]) : undefined;
+  return { title: title || undefined, sections };
+}
+
+export class HtmlDocumentExtractor implements DocumentExtractor {
+  id = 'html';
+  extensions = ['.html', '.htm', '.xhtml'];
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    return splitHtml(data.toString('utf-8'));
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/pdf-extractor.ts
+ * @description Extracts the text layer of PDF files page by page.
+ */
+
+import type { DocumentExtractor, ExtractedDocument } from './document-extractor.interface.js';
+
+/**
+ * One section per page, numbered from 1. Scanned PDFs without a text layer yield no sections.
+ */
+export class PdfDocumentExtractor implements DocumentExtractor {
+  id = 'pdf';
+  extensions = ['.pdf'];
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    // pdf.js is large; load it only once a PDF is actually indexed
+    const { extractText, getDocumentProxy, getMeta } = await import('unpdf');
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    try {
+      const { text } = await extractText(pdf, { mergePages: false });
+      const { info } = await getMeta(pdf).catch(() => ({ info: {} as Record<string, unknown> }));
+      const title =
+        typeof info.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined;
+      return {
+        title,
+        sections: text
+          .map((pageText, i) => ({ text: pageText.trim(), page: i + 1 }))
+          .filter((section) => section.text),
+      };
+    } finally {
+      await pdf.loadingTask.destroy();
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/extractors/text-extractor.ts
+ * @description Extracts plain text and Markdown, splitting Markdown at its headings.
+ */
+
+import { extname } from 'node:path';
+import type {
+  DocumentExtractor,
+  DocumentSection,
+  ExtractedDocument,
+} from './document-extractor.interface.js';
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.mdx'];
+
+/**
+ * Reads files as UTF-8. Markdown gets one section per ATX heading; anything else is a single
+ * section. Also the registry's fallback for source code and unknown text formats.
+ */
+export class TextDocumentExtractor implements DocumentExtractor {
+  id = 'text';
+  extensions = [...MARKDOWN_EXTENSIONS, '.txt', '.text', '.rst', '.json', '.yaml', '.yml'];
+
+  async extract(data: Buffer, path: string): Promise<ExtractedDocument> {
+    const text = data.toString('utf-8');
+    if (!MARKDOWN_EXTENSIONS.includes(extname(path).toLowerCase())) {
+      return { sections: [{ text, line: 1 }] };
+    }
+    return splitMarkdown(text);
+  }
+}
+
+/**
+ * Splits Markdown into sections at ATX headings, ignoring `#` lines inside fenced code.
+ * @param text - Markdown source.
+ * @returns Sections with their heading trail; the first level-1 heading becomes the title.
+ */
+export function splitMarkdown(text: string): ExtractedDocument {
+  const sections: DocumentSection[] = [];
+  const trail: Array<{ level: number; text: string }> = [];
+  let title: string | undefined;
+  let lines: string[] = [];
+  /** 1-based line number of `lines[0]`. */
+  let start = 1;
+  let fence: string | undefined;
+
+  const flush = (next: number) => {
+    const body = lines.join('\n').trim();
+    if (body) {
+      sections.push({
+        text: body,
+        headings: trail.length ? trail.map((h) => h.text) : undefined,
+        line: start + lines.findIndex((l) => l.trim()),
+      });
+    }
+    lines = [];
+    start = next;
+  };
+
+  for (const [i, line] of text.split('\n').entries()) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = undefined;
+    }
+    const heading = fence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (!heading) {
+      lines.push(line);
+      continue;
+    }
+    flush(i + 2);
+    const level = heading[1].length;
+    while (trail.length && trail[trail.length - 1].level >= level) trail.pop();
+    trail.push({ level, text: heading[2] });
+    if (level === 1 && !title) title = heading[2];
+  }
+  flush(0);
+  return { title, sections };
+}
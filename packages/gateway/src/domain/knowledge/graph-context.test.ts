@@ -0,0 +1,70 @@
+import 'reflect-metadata';
+import { describe, it, expect } from 'vitest';
+import type { KnowledgeGraph } from '@adytum/shared';
+import type { MemoryStore } from '../../infrastructure/repositories/memory-store.js';
+import type { GraphStore } from './graph-store.js';
+import { GraphContext } from './graph-context.js';
+
+const graph: KnowledgeGraph = {
+  version: '1.0.0',
+  lastUpdated: 0,
+  nodes: [
+    { id: 'docs', type: 'directory', label: 'docs', path: 'docs' },
+    {
+      id: 'src/refunds.ts#refund',
+      type: 'function',
+      label: 'refund',
+      path: 'src/refunds.ts',
+      line: 12,
+    },
+  ],
+  edges: [],
+};
+
+describe('GraphContext', () => {
+  it('numbers chunk and node sources and returns them as citations', async () => {
+    const store = { load: () => graph } as unknown as GraphStore;
+    const memories = {
+      searchHybrid: async () => [
+        {
+          id: 'm1',
+          content: 'Policy > Refunds\n\nRefunds are paid within 14 days.',
+          source: 'docs/policy.pdf',
+          category: 'doc_chunk',
+          metadata: { path: 'docs/policy.pdf', headings: ['Policy', 'Refunds'], page: 3 },
+          createdAt: 0,
+          score: 0.8,
+        },
+      ],
+    } as unknown as MemoryStore;
+
+    const related = await new GraphContext(store, memories).getRelatedContext('refund', 'ws1');
+
+    expect(related.citations).toEqual([
+      {
+        index: 1,
+        kind: 'chunk',
+        path: 'docs/policy.pdf',
+        workspaceId: 'ws1',
+        memoryId: 'm1',
+        page: 3,
+        heading: 'Refunds',
+        score: 0.8,
+        snippet: 'Refunds are paid within 14 days.',
+      },
+      {
+        index: 2,
+        kind: 'node',
+        path: 'src/refunds.ts',
+        workspaceId: 'ws1',
+        nodeId: 'src/refunds.ts#refund',
+        startLine: 12,
+        endLine: 12,
+        score: 1,
+        snippet: 'function refund',
+      },
+    ]);
+    expect(related.text).toContain('### [1] docs/policy.pdf, p. 3 (Refunds)');
+    expect(related.text).toContain('- [2] FUNCTION: refund (src/refunds.ts:12)');
+  });
+});
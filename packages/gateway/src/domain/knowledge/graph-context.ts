@@ -3,10 +3,19 @@
  * @description Provides utilities to inject relevant knowledge graph data into the agent's context.
  */
 
-import { GraphNode } from '@adytum/shared';
-import { MemoryStore } from '../../infrastructure/repositories/memory-store.js';
+import type { Citation, GraphNode } from '@adytum/shared';
+import { MemoryStore, type MemoryRecord } from '../../infrastructure/repositories/memory-store.js';
 import { GraphStore } from './graph-store.js';
 
+const SNIPPET_LENGTH = 240;
+
+/** Retrieved context for the model and the sources it was built from. */
+export interface RelatedContext {
+  /** Markdown for the model; each source is marked with its citation number, e.g. `[2]`. */
+  text: string;
+  citations: Citation[];
+}
+
 export class GraphContext {
   constructor(
     private store: GraphStore,
@@ -14,16 +23,19 @@ export class GraphContext {
   ) {}
 
   /**
-   * Retrieves relevant nodes and edges for a given query or symbol.
+   * Retrieves relevant document chunks, nodes and edges for a given query or symbol.
+   * @param query - User message or symbol.
+   * @param workspaceId - Workspace to search.
+   * @returns Context text with numbered sources, and a citation for each source.
    */
-  async getRelatedContext(query: string, workspaceId?: string): Promise<string> {
+  async getRelatedContext(query: string, workspaceId?: string): Promise<RelatedContext> {
     const graph = this.store.load(workspaceId);
-    if (!graph) return this.getArchitectureOverview(workspaceId);
+    if (!graph) return { text: this.getArchitectureOverview(workspaceId), citations: [] };
 
     const queryLower = query.toLowerCase();
 
     // 1. Semantic/Hybrid Search from Memory (superior to simple graph filter)
-    let hybridMemories: any[] = [];
+    let hybridMemories: Array<MemoryRecord & { score: number }> = [];
     try {
       hybridMemories = await this.memoryStore.searchHybrid(query, 5, {
         category: 'doc_chunk',
@@ -42,15 +54,22 @@ export class GraphContext {
     );
 
     if (hybridMemories.length === 0 && relevantNodes.length === 0) {
-      return this.getArchitectureOverview(workspaceId);
+      return { text: this.getArchitectureOverview(workspaceId), citations: [] };
     }
 
-    let context = `[Knowledge Context for "${query}" in Workspace "${workspaceId || 'default'}"]\n\n`;
+    const citations: Citation[] = [];
+    let context = `[Knowledge Context for "${query}" in Workspace "${workspaceId || 'default'}"]\n`;
+    context += `Sources are numbered; cite them inline as [n] when you rely on them.\n\n`;
 
     if (hybridMemories.length > 0) {
       context += `## Relevant Documentation & Code Chunks:\n`;
       hybridMemories.forEach((m) => {
-        context += `### ${m.source} (${m.category})\n${m.content}\n---\n`;
+        const citation = this.chunkCitation(m, citations.length + 1, workspaceId);
+        if (citation) citations.push(citation);
+        const heading = citation
+          ? `[${citation.index}] ${formatCitationSource(citation)}`
+          : `${m.source} (${m.category})`;
+        context += `### ${heading}\n${m.content}\n---\n`;
       });
     }
 
@@ -58,7 +77,11 @@ export class GraphContext {
       context += `\n## Structural Reference (Code Graph):\n`;
       // Limit to top 5 relevant nodes to avoid context overflow
       relevantNodes.slice(0, 5).forEach((node: GraphNode) => {
-        context += `- ${node.type.toUpperCase()}: ${node.label} (${node.path || node.id})\n`;
+        const citation = this.nodeCitation(node, queryLower, citations.length + 1, workspaceId);
+        if (citation) citations.push(citation);
+        const marker = citation ? `[${citation.index}] ` : '';
+        const location = node.line ? `${node.path}:${node.line}` : node.path || node.id;
+        context += `- ${marker}${node.type.toUpperCase()}: ${node.label} (${location})\n`;
         if (node.description) context += `  Description: ${node.description}\n`;
 
         // Find immediate connections (1-hop)
@@ -78,7 +101,7 @@ export class GraphContext {
       });
     }
 
-    return context;
+    return { text: context, citations };
   }
 
   /**
@@ -102,4 +125,99 @@ export class GraphContext {
 
     return overview;
   }
+
+  /**
+   * Builds the citation for a document chunk from the location stored with it at indexing.
+   * @param memory - `doc_chunk` memory.
+   * @param index - Citation number.
+   * @param workspaceId - Workspace id.
+   * @returns The citation, or undefined for chunks without a file path.
+   */
+  private chunkCitation(
+    memory: MemoryRecord & { score: number },
+    index: number,
+    workspaceId?: string,
+  ): Citation | undefined {
+    const meta = (memory.metadata ?? {}) as Record<string, unknown>;
+    if (typeof meta.path !== 'string') return undefined;
+    const headings = Array.isArray(meta.headings) ? (meta.headings as string[]) : [];
+    const prefix = headings.length ? `${headings.join(' > ')}\n\n` : '';
+    const body = memory.content.startsWith(prefix)
+      ? memory.content.slice(prefix.length)
+      : memory.content;
+    return {
+      index,
+      kind: 'chunk',
+      path: meta.path,
+      workspaceId,
+      memoryId: memory.id,
+      startLine: numberOrUndefined(meta.startLine),
+      endLine: numberOrUndefined(meta.endLine),
+      page: numberOrUndefined(meta.page),
+      entry: typeof meta.entry === 'string' ? meta.entry : undefined,
+      location: typeof meta.location === 'string' ? meta.location : undefined,
+      heading: headings.length ? headings[headings.length - 1] : undefined,
+      score: memory.score,
+      snippet: snippet(body),
+    };
+  }
+
+  /**
+   * Builds the citation for a graph node matched by name. Directories are not cited.
+   * @param node - Node.
+   * @param queryLower - Lower-cased query, to score the match.
+   * @param index - Citation number.
+   * @param workspaceId - Workspace id.
+   * @returns The citation, or undefined for nodes without a file.
+   */
+  private nodeCitation(
+    node: GraphNode,
+    queryLower: string,
+    index: number,
+    workspaceId?: string,
+  ): Citation | undefined {
+    if (!node.path || node.type === 'directory') return undefined;
+    const label = node.label.toLowerCase();
+    const score = label === queryLower ? 1 : label.includes(queryLower) ? 0.75 : 0.5;
+    return {
+      index,
+      kind: 'node',
+      path: node.path,
+      workspaceId,
+      nodeId: node.id,
+      startLine: node.line,
+      endLine: node.line,
+      score,
+      snippet: snippet(node.description || `${node.type} ${node.label}`),
+    };
+  }
+}
+
+/**
+ * Describes where a citation points, e.g. `docs/guide.pdf, p. 3` or `src/a.ts:10-24`.
+ * @param citation - Citation.
+ * @returns Human-readable source.
+ */
+export function formatCitationSource(citation: Citation): string {
+  let source = citation.entry ? `${citation.path} › ${citation.entry}` : citation.path;
+  if (citation.startLine !== undefined) {
+    const span =
+      citation.endLine !== undefined && citation.endLine !== citation.startLine
+        ? `${citation.startLine}-${citation.endLine}`
+        : `${citation.startLine}`;
+    source += `:${span}`;
+  }
+  if (citation.page !== undefined) source += `, p. ${citation.page}`;
+  if (citation.location) source += `, ${citation.location}`;
+  if (citation.heading) source += ` (${citation.heading})`;
+  return source;
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function snippet(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SNIPPET_LENGTH ? `${flat.slice(0, SNIPPET_LENGTH - 1)}…` : flat;
 }
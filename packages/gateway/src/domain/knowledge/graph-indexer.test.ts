@@ -0,0 +1,96 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, renameSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GraphEvents } from '@adytum/shared';
+import { GraphIndexer } from './graph-indexer.js';
+import { GraphStore } from './graph-store.js';
+
+describe('GraphIndexer', () => {
+  let root: string;
+  let workspace: string;
+  let store: GraphStore;
+  let semantic: {
+    removeDocument: ReturnType<typeof vi.fn>;
+    renameDocument: ReturnType<typeof vi.fn>;
+  };
+  let indexer: GraphIndexer;
+  let events: Array<{ type: string; payload: any }>;
+
+  const write = (relPath: string, content: string) => {
+    mkdirSync(join(workspace, relPath, '..'), { recursive: true });
+    writeFileSync(join(workspace, relPath), content);
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'adytum-indexer-'));
+    workspace = join(root, 'workspace');
+    store = new GraphStore(join(root, 'data'));
+    semantic = { removeDocument: vi.fn(), renameDocument: vi.fn() };
+    indexer = new GraphIndexer(workspace, store, semantic as any);
+    events = [];
+    indexer.setEventBus({
+      publish: (type: string, payload: unknown) => events.push({ type, payload }),
+    } as any);
+
+    write('src/a.ts', `import { b } from './b.js';\nexport function a() { return b(); }\n`);
+    write('src/b.ts', `export function b() { return 1; }\n`);
+    write('docs/guide.md', 'See [[README]].');
+    write('README.md', '# Readme');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('re-parses only changed files and keeps links to unchanged ones', async () => {
+    await indexer.update();
+    const first = store.loadManifest(workspace).files;
+    expect(first['src/b.ts'].symbols).toBeDefined();
+
+    write('src/a.ts', `import { b } from './b.js';\nexport function a2() { return b(); }\n`);
+    events = [];
+    const graph = await indexer.update(undefined, undefined, { mode: 'fast', paths: ['src/a.ts'] });
+
+    const ids = graph.nodes.map((n) => n.id);
+    expect(ids).toContain('src/a.ts#a2');
+    expect(ids).not.toContain('src/a.ts#a');
+    expect(graph.edges.map((e) => e.id)).toContain('call:src/a.ts#a2->src/b.ts#b');
+    expect(graph.edges.map((e) => e.id)).toContain('md:docs/guide.md->README.md');
+    const progress = events.filter((e) => e.type === GraphEvents.INDEXING_PROGRESS);
+    expect(progress.find((e) => e.payload.phase === 'scan')?.payload).toMatchObject({
+      total: 1,
+      changed: 1,
+    });
+    expect(semantic.removeDocument).toHaveBeenCalledWith('src/a.ts', undefined);
+  });
+
+  it('detects renames and removes nodes of deleted files', async () => {
+    await indexer.update(undefined, 'ws');
+    renameSync(join(workspace, 'README.md'), join(workspace, 'INTRO.md'));
+    unlinkSync(join(workspace, 'src/b.ts'));
+
+    const graph = await indexer.update(undefined, 'ws');
+
+    const ids = graph.nodes.map((n) => n.id);
+    expect(ids).toContain('INTRO.md');
+    expect(ids).not.toContain('README.md');
+    expect(ids.filter((id) => id.startsWith('src/b.ts'))).toEqual([]);
+    expect(semantic.renameDocument).toHaveBeenCalledWith('README.md', 'INTRO.md', 'ws');
+    expect(semantic.removeDocument).toHaveBeenCalledWith('src/b.ts', 'ws');
+    expect(semantic.removeDocument).not.toHaveBeenCalledWith('README.md', 'ws');
+    expect(Object.keys(store.loadManifest(workspace, 'ws').files).sort()).toEqual([
+      'INTRO.md',
+      'docs/guide.md',
+      'src/a.ts',
+    ]);
+  });
+
+  it('reports documents read by extractors as supported', () => {
+    for (const path of ['src/a.ts', 'docs/spec.pdf', 'mail/inbox.mbox', 'export.zip', 'data.csv']) {
+      expect(indexer.isSupported(path)).toBe(true);
+    }
+    expect(indexer.isSupported('image.png')).toBe(false);
+  });
+});
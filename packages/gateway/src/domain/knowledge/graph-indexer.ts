@@ -3,34 +3,75 @@
  * @description Logic for crawling files and performing incremental updates to the knowledge graph.
  */
 
-import { readdirSync, statSync, readFileSync, existsSync } from 'node:fs';
-import { join, relative, extname, basename, resolve } from 'node:path';
+import { readdirSync, statSync, readFileSync } from 'node:fs';
+import { join, relative, extname, basename, resolve, isAbsolute, sep } from 'node:path';
 import { createHash } from 'node:crypto';
 import {
   type KnowledgeGraph,
   type GraphNode,
   type GraphEdge,
   type GraphNodeType,
+  type GraphIndexingProgress,
   GraphEvents,
 } from '@adytum/shared';
-import { GraphStore } from './graph-store.js';
+import { GraphStore, type FileLink, type IndexedFile } from './graph-store.js';
 import { logger } from '../../logger.js';
-import { SemanticProcessor } from './semantic-processor.js';
+import { DOCUMENT_NODE_TYPES, SemanticProcessor } from './semantic-processor.js';
+import { DocumentExtractorRegistry } from './extractors/document-extractor-registry.js';
+import {
+  CodeSymbolLinker,
+  SYMBOL_NODE_TYPES,
+  deserializeFileSymbols,
+  serializeFileSymbols,
+  type FileSymbols,
+} from './code-symbols.js';
 
 import { EventBusService } from '../../infrastructure/events/event-bus.js';
 
-// ...
+const PROGRESS_INTERVAL_MS = 250;
+
+export interface IndexOptions {
+  mode: 'fast' | 'deep';
+  skipLLM?: boolean;
+  /**
+   * Files or directories known to have changed (absolute or workspace-relative). Only these
+   * are checked; everything else is taken from the manifest. Ignored on the first pass.
+   */
+  paths?: string[];
+}
+
+/** Outcome of comparing the workspace with the manifest. */
+interface ScanResult {
+  files: Map<string, IndexedFile>;
+  /** Added or modified files. */
+  changed: Set<string>;
+  removed: string[];
+  /** New path mapped to the path the file was moved from. */
+  renamed: Map<string, string>;
+  /** Number of files stat'ed. */
+  checked: number;
+}
+
+/** Nodes and edges being assembled, with id sets for constant-time dedup. */
+interface GraphDraft {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+}
 
 export class GraphIndexer {
   // ... (properties)
   private eventBus?: EventBusService;
   private ignoredDirs = ['node_modules', '.git', 'dist', 'coverage', '.next', 'out', 'build'];
   private supportedExtensions = ['.ts', '.tsx', '.js', '.jsx', '.md', '.json', '.txt'];
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(
     private workspacePath: string,
     private store: GraphStore,
     private semanticProcessor?: SemanticProcessor,
+    private extractors: DocumentExtractorRegistry = new DocumentExtractorRegistry(),
   ) {}
 
   setEventBus(eventBus: EventBusService) {
@@ -38,15 +79,29 @@ export class GraphIndexer {
   }
 
   /**
-   * Performs an incremental update of the knowledge graph.
-   * @param options - Indexing options including custom path and mode.
+   * Performs an incremental update of the knowledge graph. Files whose size and mtime match
+   * the manifest are not read; files whose content hash is unchanged are not re-parsed.
+   * Passes run one at a time.
+   * @param customPath - Directory to index instead of the default workspace.
+   * @param workspaceId - Workspace the graph belongs to.
+   * @param options - Indexing options including mode and changed paths.
    */
-  async update(
+  update(
     customPath?: string,
     workspaceId?: string,
-    options: { mode: 'fast' | 'deep'; skipLLM?: boolean } = { mode: 'fast', skipLLM: true },
+    options: IndexOptions = { mode: 'fast', skipLLM: true },
   ): Promise<KnowledgeGraph> {
-    const path = customPath || this.workspacePath;
+    const run = this.queue.then(() => this.index(customPath, workspaceId, options));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async index(
+    customPath: string | undefined,
+    workspaceId: string | undefined,
+    options: IndexOptions,
+  ): Promise<KnowledgeGraph> {
+    const path = resolve(customPath || this.workspacePath);
 
     // Safety Net: Force skipLLM to true if undefined, to prevent accidental costs.
     if (options.skipLLM === undefined) options.skipLLM = true;
@@ -54,102 +109,145 @@ export class GraphIndexer {
     if (this.eventBus) {
       this.eventBus.publish(
         GraphEvents.INDEXING_STARTED,
-        { path, mode: options.mode },
+        { path, mode: options.mode, workspaceId },
         'GraphIndexer',
       );
     }
 
+    const startTime = Date.now();
     const graph = this.store.load(workspaceId);
-    const existingNodeMap = new Map<string, GraphNode>(graph.nodes.map((n) => [n.path || n.id, n]));
+    const manifest = this.store.loadManifest(path, workspaceId);
+    // Symbol nodes share their file's path and are rebuilt on every pass
+    const existingNodeMap = new Map<string, GraphNode>(
+      graph.nodes.filter((n) => !SYMBOL_NODE_TYPES.has(n.type)).map((n) => [n.path || n.id, n]),
+    );
 
-    const startTime = Date.now();
-    const currentFiles = this.getAllFiles(path);
-    const updatedNodes: GraphNode[] = [];
+    const report = this.progressReporter(workspaceId);
+    const scan = this.scan(path, manifest.files, existingNodeMap, options.paths, report);
+    report.counts(scan);
+    report.publish('scan', scan.checked, scan.checked, true);
 
-    // 0. Ensure root node exists
-    if (!existingNodeMap.has('.')) {
-      const rootNode = {
+    // 1. File and directory nodes
+    const draft: GraphDraft = { nodes: [], edges: [], nodeIds: new Set(), edgeIds: new Set() };
+    this.addNode(
+      draft,
+      existingNodeMap.get('.') ?? {
         id: '.',
-        type: 'directory' as const,
+        type: 'directory',
         label: basename(path) || 'Project Root',
         path: '.',
-      };
-      updatedNodes.push(rootNode);
-    }
-
-    const updatedEdges: GraphEdge[] = []; // Re-extract all edges for simplicity/consistency
-
-    // 1. Process Files
-    for (const filePath of currentFiles) {
-      const relPath = relative(path, filePath);
-
-      try {
-        const hash = this.getFileHash(filePath);
-
-        const existingNode = existingNodeMap.get(relPath);
-        let currentNode: GraphNode;
-
-        if (!existingNode || existingNode.metadata?.hash !== hash) {
-          logger.debug(`Processing changed file: ${relPath}`);
-          currentNode = this.createFileNode(relPath, filePath, hash);
-
-          if (this.eventBus) {
-            this.eventBus.publish(GraphEvents.NODE_UPDATED, currentNode, 'GraphIndexer');
-          }
-        } else {
-          currentNode = existingNode;
+      },
+    );
+    for (const [relPath, entry] of scan.files) {
+      const movedFrom = scan.renamed.get(relPath);
+      const previous = existingNodeMap.get(movedFrom ?? relPath);
+      let node: GraphNode;
+      if (movedFrom && previous) {
+        const moved = this.createFileNode(relPath, entry);
+        node = { ...previous, ...moved, metadata: { ...previous.metadata, ...moved.metadata } };
+      } else if (previous && !scan.changed.has(relPath)) {
+        node = previous;
+      } else {
+        logger.debug(`Processing changed file: ${relPath}`);
+        node = this.createFileNode(relPath, entry);
+        if (this.eventBus) {
+          this.eventBus.publish(GraphEvents.NODE_UPDATED, node, 'GraphIndexer');
         }
-        updatedNodes.push(currentNode);
-
-        // 2. Extract Relationships (Hierarchy)
-        this.ensureDirectoryNodes(relPath, updatedNodes, updatedEdges, path);
-      } catch (err: any) {
-        logger.warn(`Skipping file due to access error: ${relPath} - ${err.message}`);
-        continue;
+      }
+      this.addNode(draft, node);
+      this.ensureDirectoryNodes(relPath, draft, path);
+    }
+    for (const relPath of [...scan.removed, ...scan.renamed.values()]) {
+      if (this.eventBus && existingNodeMap.has(relPath)) {
+        this.eventBus.publish(
+          GraphEvents.NODE_REMOVED,
+          { id: relPath, path: relPath },
+          'GraphIndexer',
+        );
       }
     }
 
-    // 3. Extract Code Relationships (Imports)
-    graph.nodes = updatedNodes;
-    graph.edges = updatedEdges;
-
-    for (const node of updatedNodes) {
-      if (node.type === 'file' || node.type === 'doc') {
-        const fullPath = join(path, node.path!);
-        if (extname(fullPath) === '.md') {
-          this.extractMarkdownRelationships(fullPath, node, graph, path);
-        } else {
-          this.extractCodeRelationships(fullPath, node, graph, path);
+    // 2. Code Relationships (Symbols, Imports, Calls, Heritage) and Markdown Links
+    graph.nodes = draft.nodes;
+    graph.edges = draft.edges;
+
+    const sourceFiles: string[] = [];
+    const symbolCache = new Map<string, FileSymbols>();
+    for (const node of [...draft.nodes]) {
+      if (node.type !== 'file' && node.type !== 'doc') continue;
+      const entry = scan.files.get(node.path!)!;
+      const fullPath = join(path, node.path!);
+      if (extname(fullPath) === '.md') {
+        entry.links ??= this.extractMarkdownLinks(fullPath);
+        for (const link of entry.links) {
+          this.addMarkdownEdge(node, link.target, graph, fullPath, path, link.kind);
+        }
+      } else if (CodeSymbolLinker.handles(node.path!)) {
+        sourceFiles.push(node.path!);
+        if (entry.symbols) symbolCache.set(node.path!, deserializeFileSymbols(entry.symbols));
+      } else {
+        entry.links ??= this.extractImportLinks(fullPath);
+        for (const link of entry.links) {
+          this.addImportEdge(node, link.target, graph, fullPath, path);
         }
       }
     }
+    const parsing = sourceFiles.filter((f) => !symbolCache.has(f)).length;
+    report.publish('parse', 0, parsing, true);
+    new CodeSymbolLinker(path, graph).link(sourceFiles, symbolCache);
+    report.publish('parse', parsing, parsing, true);
+    for (const relPath of sourceFiles) {
+      const symbols = symbolCache.get(relPath);
+      if (symbols) scan.files.get(relPath)!.symbols = serializeFileSymbols(symbols);
+    }
+    report.publish('link', sourceFiles.length, sourceFiles.length, true);
 
     graph.lastUpdated = Date.now();
 
+    // 3. Document Chunks of Removed, Moved and Modified Files
+    if (this.semanticProcessor) {
+      for (const relPath of scan.removed) {
+        this.semanticProcessor.removeDocument(relPath, workspaceId);
+      }
+      for (const [to, from] of scan.renamed) {
+        this.semanticProcessor.renameDocument(from, to, workspaceId);
+      }
+      for (const relPath of scan.changed) {
+        if (existingNodeMap.has(relPath))
+          this.semanticProcessor.removeDocument(relPath, workspaceId);
+      }
+    }
+
     // 4. Handle Deep Indexing (Semantic Analysis)
     if (options.mode === 'deep' && this.semanticProcessor) {
       logger.debug(`Performing deep semantic analysis (skipLLM: ${options.skipLLM === true})...`);
 
-      // Only process nodes that were updated or are missing semantic metadata
+      // Only process nodes that changed or were never processed
       const nodesToProcess = graph.nodes.filter((n) => {
-        if (n.type !== 'file' && n.type !== 'doc') return false;
-
-        const existing = existingNodeMap.get(n.path || n.id);
-        const isChanged = !existing || existing.metadata?.hash !== n.metadata?.hash;
-        const reflectsNeeds = !n.description || !n.metadata?.lastProcessed;
-
-        return isChanged || reflectsNeeds;
+        if (!DOCUMENT_NODE_TYPES.has(n.type)) return false;
+        return (
+          scan.changed.has(n.path!) ||
+          !n.metadata?.lastProcessed ||
+          (!options.skipLLM && !n.description)
+        );
       });
 
       if (nodesToProcess.length > 0) {
         logger.debug(`Processing ${nodesToProcess.length} pending/changed nodes...`);
-        await this.semanticProcessor.process(nodesToProcess, { skipLLM: options.skipLLM });
+        report.publish('semantic', 0, nodesToProcess.length, true);
+        await this.semanticProcessor.process(nodesToProcess, {
+          skipLLM: options.skipLLM,
+          root: path,
+          workspaceId,
+        });
+        report.publish('semantic', nodesToProcess.length, nodesToProcess.length, true);
       } else {
         logger.debug('All nodes are already up to date semantically.');
       }
     }
 
     this.store.save(graph, workspaceId);
+    this.store.saveManifest({ ...manifest, files: Object.fromEntries(scan.files) }, workspaceId);
 
     const duration = Date.now() - startTime;
     logger.debug(
@@ -163,6 +261,10 @@ export class GraphIndexer {
           nodes: graph.nodes.length,
           edges: graph.edges.length,
           duration,
+          workspaceId,
+          changed: scan.changed.size,
+          removed: scan.removed.length,
+          renamed: scan.renamed.size,
         },
         'GraphIndexer',
       );
@@ -171,12 +273,146 @@ export class GraphIndexer {
     return graph;
   }
 
-  private ensureDirectoryNodes(
-    relPath: string,
-    nodes: GraphNode[],
-    edges: GraphEdge[],
-    workspacePath: string,
-  ): void {
+  /**
+   * Compares the workspace with the manifest. Unchanged size and mtime skip hashing; a new
+   * file with the same hash as a removed one is treated as a rename.
+   * @param root - Absolute workspace root.
+   * @param previous - Manifest entries from the last pass.
+   * @param existingNodes - File nodes of the current graph, for hashes missing from the manifest.
+   * @param paths - Changed paths to check instead of walking the whole tree.
+   * @param report - Progress reporter.
+   * @returns Current files and what changed.
+   */
+  private scan(
+    root: string,
+    previous: Record<string, IndexedFile>,
+    existingNodes: Map<string, GraphNode>,
+    paths: string[] | undefined,
+    report: ReturnType<GraphIndexer['progressReporter']>,
+  ): ScanResult {
+    const files = new Map<string, IndexedFile>();
+    const changed = new Set<string>();
+    const known = Object.keys(previous);
+    let candidates: string[];
+
+    if (paths && known.length > 0) {
+      for (const relPath of known) files.set(relPath, previous[relPath]);
+      const targets = new Set<string>();
+      for (const p of paths) {
+        const relPath = relative(root, resolve(root, p));
+        if (relPath.startsWith('..') || isAbsolute(relPath)) continue;
+        const fullPath = join(root, relPath);
+        const stat = statSync(fullPath, { throwIfNoEntry: false });
+        if (stat?.isDirectory()) {
+          this.getAllFiles(fullPath).forEach((f) => targets.add(relative(root, f)));
+        } else if (stat?.isFile() && this.isIndexable(relPath)) {
+          targets.add(relPath);
+        }
+        // Entries under a path that is gone or no longer a file are dropped below
+        for (const existing of known) {
+          if (existing === relPath || existing.startsWith(relPath + sep) || relPath === '') {
+            if (!targets.has(existing)) files.delete(existing);
+          }
+        }
+      }
+      candidates = [...targets];
+    } else {
+      candidates = this.getAllFiles(root).map((f) => relative(root, f));
+    }
+
+    candidates.forEach((relPath, i) => {
+      const fullPath = join(root, relPath);
+      try {
+        const stat = statSync(fullPath);
+        const entry = previous[relPath];
+        if (entry && entry.mtimeMs === stat.mtimeMs && entry.size === stat.size) {
+          files.set(relPath, entry);
+        } else {
+          const hash = this.getFileHash(fullPath);
+          const knownHash = entry?.hash ?? existingNodes.get(relPath)?.metadata?.hash;
+          if (hash === knownHash) {
+            files.set(relPath, { ...entry, hash, mtimeMs: stat.mtimeMs, size: stat.size });
+          } else {
+            files.set(relPath, { hash, mtimeMs: stat.mtimeMs, size: stat.size });
+            changed.add(relPath);
+          }
+        }
+      } catch (err: any) {
+        files.delete(relPath);
+        logger.warn(`Skipping file due to access error: ${relPath} - ${err.message}`);
+      }
+      if (i + 1 < candidates.length) report.publish('scan', i + 1, candidates.length);
+    });
+    const removed = known.filter((relPath) => !files.has(relPath));
+    const renamed = new Map<string, string>();
+    const removedByHash = new Map<string, string[]>();
+    for (const relPath of removed) {
+      const hash = previous[relPath].hash;
+      removedByHash.set(hash, [...(removedByHash.get(hash) ?? []), relPath]);
+    }
+    for (const relPath of changed) {
+      if (previous[relPath] || existingNodes.has(relPath)) continue;
+      const from = removedByHash.get(files.get(relPath)!.hash)?.shift();
+      if (!from) continue;
+      renamed.set(relPath, from);
+      changed.delete(relPath);
+      // The parsed symbols and links do not depend on the file's location
+      const { symbols, links } = previous[from];
+      files.set(relPath, { ...files.get(relPath)!, symbols, links });
+    }
+    const moved = new Set(renamed.values());
+    return {
+      files,
+      changed,
+      removed: removed.filter((p) => !moved.has(p)),
+      renamed,
+      checked: candidates.length,
+    };
+  }
+
+  /**
+   * Creates a throttled publisher of `graph:indexing_progress` events.
+   * @param workspaceId - Workspace being indexed.
+   * @returns Reporter used through one pass.
+   */
+  private progressReporter(workspaceId?: string) {
+    let last = 0;
+    const totals = { changed: 0, removed: 0, renamed: 0 };
+    return {
+      counts: (scan: ScanResult) => {
+        totals.changed = scan.changed.size;
+        totals.removed = scan.removed.length;
+        totals.renamed = scan.renamed.size;
+      },
+      publish: (
+        phase: GraphIndexingProgress['phase'],
+        processed: number,
+        total: number,
+        force = false,
+      ) => {
+        if (!this.eventBus) return;
+        const now = Date.now();
+        if (!force && processed < total && now - last < PROGRESS_INTERVAL_MS) return;
+        last = now;
+        const payload: GraphIndexingProgress = { workspaceId, phase, processed, total, ...totals };
+        this.eventBus.publish(GraphEvents.INDEXING_PROGRESS, payload, 'GraphIndexer');
+      },
+    };
+  }
+
+  private addNode(draft: GraphDraft, node: GraphNode): void {
+    if (draft.nodeIds.has(node.id)) return;
+    draft.nodeIds.add(node.id);
+    draft.nodes.push(node);
+  }
+
+  private addEdge(draft: GraphDraft, edge: GraphEdge): void {
+    if (draft.edgeIds.has(edge.id)) return;
+    draft.edgeIds.add(edge.id);
+    draft.edges.push(edge);
+  }
+
+  private ensureDirectoryNodes(relPath: string, draft: GraphDraft, workspacePath: string): void {
     const parts = relPath.split(/[\\/]/);
     let currentPath = '';
 
@@ -185,61 +421,45 @@ export class GraphIndexer {
       currentPath = currentPath ? join(currentPath, parts[i]) : parts[i];
 
       // Ensure directory node exists
-      if (!nodes.find((n) => n.id === currentPath)) {
-        nodes.push({
-          id: currentPath,
-          type: 'directory',
-          label: parts[i],
-          path: currentPath,
-        });
-      }
+      this.addNode(draft, {
+        id: currentPath,
+        type: 'directory',
+        label: parts[i],
+        path: currentPath,
+      });
 
       // Create "contains" edge from parent to this dir, or root to this dir
-      const source = parentPath || '.'; // '.' represents workspace root if needed, but we can just use empty or special ID
+      const source = parentPath || '.';
       if (source !== currentPath) {
-        const edgeId = `hierarchy:${source}->${currentPath}`;
-        if (!edges.find((e) => e.id === edgeId)) {
-          edges.push({
-            id: edgeId,
-            source,
-            target: currentPath,
-            type: 'contains',
-          });
-        }
+        this.addEdge(draft, {
+          id: `hierarchy:${source}->${currentPath}`,
+          source,
+          target: currentPath,
+          type: 'contains',
+        });
       }
     }
 
     // Final link to the file itself
     const fileDir = parts.slice(0, -1).join('/') || '.';
-    const fileId = relPath;
-    const finalEdgeId = `hierarchy:${fileDir}->${fileId}`;
-
-    // Ensure fileDir node exists if it's '.'
-    if (fileDir === '.' && !nodes.find((n) => n.id === '.')) {
-      nodes.push({
+    if (fileDir === '.') {
+      this.addNode(draft, {
         id: '.',
         type: 'directory',
         label: basename(workspacePath) || 'Project Root',
         path: '.',
       });
     }
-
-    if (!edges.find((e) => e.id === finalEdgeId)) {
-      edges.push({
-        id: finalEdgeId,
-        source: fileDir,
-        target: fileId,
-        type: 'contains',
-      });
-    }
+    this.addEdge(draft, {
+      id: `hierarchy:${fileDir}->${relPath}`,
+      source: fileDir,
+      target: relPath,
+      type: 'contains',
+    });
   }
 
-  private extractMarkdownRelationships(
-    filePath: string,
-    node: GraphNode,
-    graph: KnowledgeGraph,
-    workspacePath: string,
-  ): void {
+  private extractMarkdownLinks(filePath: string): FileLink[] {
+    const links: FileLink[] = [];
     try {
       const content = readFileSync(filePath, 'utf-8');
 
@@ -247,8 +467,7 @@ export class GraphIndexer {
       const wikiRegex = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
       let match;
       while ((match = wikiRegex.exec(content)) !== null) {
-        const target = match[1].trim();
-        this.addMarkdownEdge(node, target, graph, filePath, workspacePath, 'wikilink');
+        links.push({ target: match[1].trim(), kind: 'wikilink' });
       }
 
       // 2. Standard links [Label](path)
@@ -256,11 +475,12 @@ export class GraphIndexer {
       while ((match = stdRegex.exec(content)) !== null) {
         const target = match[1].trim();
         if (target.startsWith('http')) continue;
-        this.addMarkdownEdge(node, target, graph, filePath, workspacePath, 'link');
+        links.push({ target, kind: 'link' });
       }
     } catch (err) {
       logger.warn(`Failed to extract markdown relationships from ${filePath}: ${err}`);
     }
+    return links;
   }
 
   private addMarkdownEdge(
@@ -308,42 +528,33 @@ export class GraphIndexer {
     }
   }
 
-  private extractCodeRelationships(
-    filePath: string,
-    node: GraphNode,
-    graph: KnowledgeGraph,
-    workspacePath: string,
-  ): void {
+  private extractImportLinks(filePath: string): FileLink[] {
+    // TypeScript/JavaScript sources are handled by CodeSymbolLinker
     const ext = extname(filePath);
-    const codeExts = ['.ts', '.js', '.tsx', '.jsx', '.py', '.dart'];
-    if (!codeExts.includes(ext)) return;
+    const codeExts = ['.py', '.dart'];
+    if (!codeExts.includes(ext)) return [];
 
+    const links: FileLink[] = [];
     try {
       const content = readFileSync(filePath, 'utf-8');
 
-      if (['.ts', '.js', '.tsx', '.jsx', '.dart'].includes(ext)) {
-        const regex =
-          ext === '.dart'
-            ? /^(?:import|export)\s+['"]([^'"]+)['"]/gm
-            : /(?:import|from)\s+['"]([^'"]+)['"]/g;
+      if (ext === '.dart') {
+        const regex = /^(?:import|export)\s+['"]([^'"]+)['"]/gm;
 
         let match;
         while ((match = regex.exec(content)) !== null) {
           let target = match[1];
-          if (ext === '.dart') {
-            if (target.startsWith('dart:')) continue;
-            if (target.startsWith('package:')) {
-              target = target.split('/').pop()?.replace('.dart', '') || target;
-            }
+          if (target.startsWith('dart:')) continue;
+          if (target.startsWith('package:')) {
+            target = target.split('/').pop()?.replace('.dart', '') || target;
           }
-          this.addImportEdge(node, target, graph, filePath, workspacePath);
+          links.push({ target, kind: 'import' });
         }
       } else if (ext === '.py') {
         const pyImportRegex = /^(?:from|import)\s+([a-zA-Z0-9_.]+)/gm;
         let match;
         while ((match = pyImportRegex.exec(content)) !== null) {
-          const target = match[1].replace(/\./g, '/');
-          this.addImportEdge(node, target, graph, filePath, workspacePath);
+          links.push({ target: match[1].replace(/\./g, '/'), kind: 'import' });
         }
       }
     } catch (err) {
@@ -351,6 +562,7 @@ export class GraphIndexer {
         `Failed to extract relationships from ${filePath}: ${err instanceof Error ? err.message : err}`,
       );
     }
+    return links;
   }
 
   private addImportEdge(
@@ -368,7 +580,7 @@ export class GraphIndexer {
       resolvedTarget = relative(workspacePath, absoluteTarget);
 
       // Try adding extensions if not present
-      const possibleExts = ['.ts', '.js', '.tsx', '.jsx', '/index.ts', '/index.js', '.dart'];
+      const possibleExts = ['.dart', '.py', '/__init__.py'];
       for (const ext of possibleExts) {
         const pathWithExt = resolvedTarget + ext;
         if (graph.nodes.find((n) => n.path === pathWithExt)) {
@@ -404,7 +616,7 @@ export class GraphIndexer {
         if (entry.isDirectory()) {
           this.getAllFiles(name, fileList);
         } else if (entry.isFile()) {
-          if (this.supportedExtensions.includes(extname(entry.name))) {
+          if (this.isSupported(entry.name)) {
             fileList.push(name);
           }
         }
@@ -420,29 +632,59 @@ export class GraphIndexer {
     return createHash('md5').update(buffer).digest('hex');
   }
 
-  private createFileNode(relPath: string, fullPath: string, hash: string): GraphNode {
+  private isIndexable(relPath: string): boolean {
+    const parts = relPath.split(/[\\/]/);
+    if (parts.some((p) => this.ignoredDirs.includes(p) || p.startsWith('.'))) return false;
+    return this.isSupported(relPath);
+  }
+
+  /**
+   * Whether files at this path are indexed: code and text files, plus anything a document
+   * extractor reads (PDF, Office, HTML, CSV, mail, archives).
+   * @param path - File path.
+   * @returns True when the indexer handles the file type.
+   */
+  isSupported(path: string): boolean {
+    return this.supportedExtensions.includes(extname(path)) || this.extractors.handles(path);
+  }
+
+  private createFileNode(relPath: string, file: IndexedFile): GraphNode {
     const ext = extname(relPath).toLowerCase();
     let type: GraphNodeType = 'file';
 
     // Group extensions by type
-    const docExts = ['.md', '.txt', '.yaml', '.yml', '.json', '.pdf'];
+    const docExts = [
+      '.md',
+      '.txt',
+      '.yaml',
+      '.yml',
+      '.json',
+      '.pdf',
+      '.docx',
+      '.html',
+      '.htm',
+      '.csv',
+      '.tsv',
+    ];
+    const emailExts = ['.eml', '.mbox'];
     const imageExts = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
     const archiveExts = ['.zip', '.tar', '.gz', '.rar'];
 
     if (docExts.includes(ext)) type = 'doc';
+    else if (emailExts.includes(ext)) type = 'email';
     else if (imageExts.includes(ext)) type = 'image';
     else if (archiveExts.includes(ext)) type = 'archive';
 
+    // `lastProcessed` is set by the semantic processor once the file's chunks are indexed
     return {
       id: relPath, // Use relative path as ID for files
       type,
       label: basename(relPath),
       path: relPath,
       metadata: {
-        hash,
-        size: existsSync(fullPath) ? statSync(fullPath).size : 0,
+        hash: file.hash,
+        size: file.size,
         extension: ext,
-        lastProcessed: Date.now(),
       },
     };
   }
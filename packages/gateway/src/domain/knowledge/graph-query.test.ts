@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { GraphEdge, GraphNode, KnowledgeGraph } from '@adytum/shared';
+import { GraphQueryEngine, globToRegExp } from './graph-query.js';
+
+const node = (id: string, type: GraphNode['type'], extra: Partial<GraphNode> = {}): GraphNode => ({
+  id,
+  type,
+  label: id.includes('#') ? id.split('#')[1] : id.split('/').pop()!,
+  path: id.split('#')[0],
+  ...extra,
+});
+const edge = (source: string, type: GraphEdge['type'], target: string): GraphEdge => ({
+  id: `${type}:${source}->${target}`,
+  source,
+  target,
+  type,
+});
+
+const ROUTER = 'packages/gateway/src/llm/model-router.ts';
+const PLANNER = 'packages/gateway/src/planner.ts';
+const TOOLS = 'packages/gateway/src/tools.ts';
+const DASH = 'packages/dashboard/src/api.ts';
+
+const graph: KnowledgeGraph = {
+  version: '1.0.0',
+  lastUpdated: 0,
+  nodes: [
+    node(ROUTER, 'file'),
+    node(`${ROUTER}#ModelRouter`, 'class'),
+    node(PLANNER, 'file'),
+    node(`${PLANNER}#Planner`, 'interface', { metadata: { exported: true } }),
+    node(`${PLANNER}#Draft`, 'interface', { metadata: { exported: false } }),
+    node(`${PLANNER}#TaskPlanner`, 'class'),
+    node(`${PLANNER}#TaskPlanner.plan`, 'method'),
+    node(TOOLS, 'file'),
+    node(`${TOOLS}#Tool`, 'interface'),
+    node(`${TOOLS}#ShellTool`, 'class'),
+    node(DASH, 'file'),
+    node(`${DASH}#Client`, 'interface'),
+    node(`${DASH}#HttpClient`, 'class'),
+    node(`${DASH}#main`, 'function'),
+  ],
+  edges: [
+    edge(ROUTER, 'contains', `${ROUTER}#ModelRouter`),
+    edge(PLANNER, 'imports', ROUTER),
+    edge(PLANNER, 'contains', `${PLANNER}#Planner`),
+    edge(PLANNER, 'contains', `${PLANNER}#Draft`),
+    edge(PLANNER, 'contains', `${PLANNER}#TaskPlanner`),
+    edge(`${PLANNER}#TaskPlanner`, 'contains', `${PLANNER}#TaskPlanner.plan`),
+    edge(`${PLANNER}#TaskPlanner`, 'implements', `${PLANNER}#Planner`),
+    edge(TOOLS, 'contains', `${TOOLS}#Tool`),
+    edge(TOOLS, 'contains', `${TOOLS}#ShellTool`),
+    edge(`${TOOLS}#ShellTool`, 'implements', `${TOOLS}#Tool`),
+    edge(DASH, 'imports', ROUTER),
+    edge(DASH, 'contains', `${DASH}#Client`),
+    edge(DASH, 'contains', `${DASH}#HttpClient`),
+    edge(`${DASH}#HttpClient`, 'implements', `${DASH}#Client`),
+    edge(`${DASH}#main`, 'calls', `${PLANNER}#TaskPlanner.plan`),
+  ],
+};
+
+describe('GraphQueryEngine', () => {
+  const engine = new GraphQueryEngine(graph);
+
+  it('finds implemented interfaces in a package whose file imports ModelRouter', () => {
+    const result = engine.run({
+      match: {
+        type: 'interface',
+        path: 'packages/gateway/**',
+        where: [
+          { edge: 'implements', direction: 'in' },
+          {
+            edge: 'contains',
+            direction: 'in',
+            node: {
+              type: 'file',
+              where: [
+                {
+                  edge: 'imports',
+                  node: { where: [{ edge: 'contains', node: { label: 'ModelRouter' } }] },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    });
+
+    expect(result.results).toEqual([`${PLANNER}#Planner`]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('traverses variable depth and returns the connecting subgraph', () => {
+    const result = engine.run({
+      match: { type: 'file', path: '**/planner.ts' },
+      traverse: [
+        {
+          edge: ['contains', 'calls'],
+          direction: 'both',
+          minDepth: 2,
+          maxDepth: 3,
+          node: { type: 'function' },
+        },
+      ],
+    });
+
+    expect(result.results).toEqual([`${DASH}#main`]);
+    expect(result.edges.map((e) => e.id)).toEqual([
+      `calls:${DASH}#main->${PLANNER}#TaskPlanner.plan`,
+      `contains:${PLANNER}#TaskPlanner->${PLANNER}#TaskPlanner.plan`,
+      `contains:${PLANNER}->${PLANNER}#TaskPlanner`,
+    ]);
+    expect(result.nodes.map((n) => n.id)).toContain(PLANNER);
+  });
+
+  it('filters by metadata, label globs and absent patterns, and honours limit', () => {
+    const ids = (query: Parameters<GraphQueryEngine['run']>[0]) => engine.run(query).results;
+
+    expect(ids({ match: { type: 'interface', metadata: { exported: false } } })).toEqual([
+      `${PLANNER}#Draft`,
+    ]);
+    expect(ids({ match: { label: '*client' } }).sort()).toEqual([
+      `${DASH}#Client`,
+      `${DASH}#HttpClient`,
+    ]);
+    expect(ids({ match: { type: 'class', whereNot: [{ edge: 'implements' }] } })).toEqual([
+      `${ROUTER}#ModelRouter`,
+    ]);
+    expect(engine.run({ match: { type: 'interface' }, limit: 2 })).toMatchObject({
+      truncated: true,
+      results: [expect.any(String), expect.any(String)],
+    });
+  });
+
+  it('converts globs', () => {
+    expect(globToRegExp('packages/**/*.ts').test('packages/a/b/c.ts')).toBe(true);
+    expect(globToRegExp('packages/**/*.ts').test('packages/c.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/b.ts')).toBe(false);
+  });
+});
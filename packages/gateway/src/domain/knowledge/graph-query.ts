@@ -0,0 +1,231 @@
+/**
+ * @file packages/gateway/src/domain/knowledge/graph-query.ts
+ * @description Evaluates structured queries (filters, variable-depth traversal) on a knowledge graph.
+ */
+
+import type {
+  GraphEdge,
+  GraphNode,
+  GraphNodeFilter,
+  GraphQuery,
+  GraphQueryResult,
+  GraphQueryStep,
+  KnowledgeGraph,
+} from '@adytum/shared';
+
+const DEFAULT_LIMIT = 100;
+
+/** A node reached during a traversal, linked back to where the step started. */
+interface Hop {
+  id: string;
+  depth: number;
+  edge?: GraphEdge;
+  parent?: Hop;
+}
+
+/**
+ * Converts a glob to a regular expression. `**` crosses `/`, `*` and `?` do not.
+ * @param glob - Glob pattern.
+ * @param flags - Regular expression flags.
+ * @returns The anchored expression.
+ */
+export function globToRegExp(glob: string, flags = ''): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Runs `GraphQuery`s against one loaded graph. Build one engine per graph snapshot; it indexes
+ * edges by endpoint and caches pattern checks.
+ */
+export class GraphQueryEngine {
+  private nodes = new Map<string, GraphNode>();
+  private outgoing = new Map<string, GraphEdge[]>();
+  private incoming = new Map<string, GraphEdge[]>();
+  private patterns = new Map<string, RegExp>();
+  private reachable = new WeakMap<GraphQueryStep, Map<string, boolean>>();
+
+  constructor(graph: KnowledgeGraph) {
+    for (const node of graph.nodes) this.nodes.set(node.id, node);
+    for (const edge of graph.edges) {
+      if (!this.outgoing.has(edge.source)) this.outgoing.set(edge.source, []);
+      if (!this.incoming.has(edge.target)) this.incoming.set(edge.target, []);
+      this.outgoing.get(edge.source)!.push(edge);
+      this.incoming.get(edge.target)!.push(edge);
+    }
+  }
+
+  /**
+   * Runs a query.
+   * @param query - Query.
+   * @returns Result nodes and the subgraph connecting them to the start nodes.
+   */
+  run(query: GraphQuery): GraphQueryResult {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const start = [...this.nodes.values()].filter((n) => this.matches(n, query.match));
+    const steps = query.traverse ?? [];
+
+    // One map per step: node reached → the hop chain leading to it from the step's frontier
+    const trail: Array<Map<string, Hop>> = [];
+    let frontier = start.map((n) => n.id);
+    for (const step of steps) {
+      const reached = this.expand(frontier, step);
+      trail.push(reached);
+      frontier = [...reached.keys()];
+    }
+
+    const results = frontier.slice(0, limit);
+    const nodeIds = new Set<string>(results);
+    const edges = new Map<string, GraphEdge>();
+    for (const id of results) {
+      let current = id;
+      for (let i = trail.length - 1; i >= 0; i--) {
+        let hop: Hop | undefined = trail[i].get(current);
+        while (hop?.edge) {
+          edges.set(hop.edge.id, hop.edge);
+          nodeIds.add(hop.id);
+          hop = hop.parent;
+        }
+        if (!hop) break;
+        nodeIds.add(hop.id);
+        current = hop.id;
+      }
+    }
+    if (steps.length === 0) {
+      // Plain matches: keep the edges between them so the result reads as a subgraph
+      for (const id of results) {
+        for (const edge of this.outgoing.get(id) ?? []) {
+          if (nodeIds.has(edge.target)) edges.set(edge.id, edge);
+        }
+      }
+    }
+
+    const ordered = [...nodeIds].map((id) => this.nodes.get(id)).filter((n): n is GraphNode => !!n);
+    return {
+      nodes: ordered,
+      edges: [...edges.values()],
+      results,
+      truncated: frontier.length > limit,
+    };
+  }
+
+  /**
+   * Checks a node against a filter, including its `where` / `whereNot` patterns.
+   * @param node - Node.
+   * @param filter - Filter.
+   * @returns True when the node matches.
+   */
+  private matches(node: GraphNode, filter: GraphNodeFilter | undefined): boolean {
+    if (!filter) return true;
+    if (filter.type) {
+      const types = Array.isArray(filter.type) ? filter.type : [filter.type];
+      if (!types.includes(node.type)) return false;
+    }
+    if (filter.id !== undefined && node.id !== filter.id) return false;
+    if (filter.label !== undefined && !this.pattern(filter.label, 'i').test(node.label)) {
+      return false;
+    }
+    if (filter.path !== undefined && !(node.path && this.pattern(filter.path).test(node.path))) {
+      return false;
+    }
+    for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+      if ((node.metadata?.[key] ?? null) !== value) return false;
+    }
+    if (filter.where?.some((step) => !this.reaches(node.id, step))) return false;
+    if (filter.whereNot?.some((step) => this.reaches(node.id, step))) return false;
+    return true;
+  }
+
+  /**
+   * Whether a step matches at least one node from a start node.
+   * @param id - Start node id.
+   * @param step - Step pattern.
+   * @returns True when the pattern has a match.
+   */
+  private reaches(id: string, step: GraphQueryStep): boolean {
+    let cache = this.reachable.get(step);
+    if (!cache) {
+      cache = new Map();
+      this.reachable.set(step, cache);
+    }
+    let found = cache.get(id);
+    if (found === undefined) {
+      found = this.expand([id], step, true).size > 0;
+      cache.set(id, found);
+    }
+    return found;
+  }
+
+  /**
+   * Follows a step breadth-first from a set of nodes.
+   * @param frontier - Node ids the step starts from.
+   * @param step - Step.
+   * @param firstOnly - Stop at the first match.
+   * @returns Matching nodes mapped to the shortest hop chain reaching them.
+   */
+  private expand(frontier: string[], step: GraphQueryStep, firstOnly = false): Map<string, Hop> {
+    const direction = step.direction ?? 'out';
+    const minDepth = step.minDepth ?? 1;
+    const maxDepth = Math.max(step.maxDepth ?? minDepth, minDepth);
+    const edgeTypes = step.edge ? (Array.isArray(step.edge) ? step.edge : [step.edge]) : undefined;
+
+    const reached = new Map<string, Hop>();
+    // A node may need revisiting at a greater depth to satisfy minDepth, so track (node, depth)
+    const seen = new Set<string>();
+    let level: Hop[] = frontier.map((id) => ({ id, depth: 0 }));
+    for (let depth = 1; depth <= maxDepth && level.length > 0; depth++) {
+      const next: Hop[] = [];
+      for (const hop of level) {
+        for (const [edge, neighbor] of this.neighbors(hop.id, direction)) {
+          if (edgeTypes && !edgeTypes.includes(edge.type)) continue;
+          const key = depth >= minDepth ? `${neighbor}` : `${neighbor}@${depth}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          const nextHop: Hop = { id: neighbor, depth, edge, parent: hop };
+          next.push(nextHop);
+          if (depth < minDepth || reached.has(neighbor)) continue;
+          const node = this.nodes.get(neighbor);
+          if (node && this.matches(node, step.node)) {
+            reached.set(neighbor, nextHop);
+            if (firstOnly) return reached;
+          }
+        }
+      }
+      level = next;
+    }
+    return reached;
+  }
+
+  private *neighbors(id: string, direction: 'in' | 'out' | 'both'): Generator<[GraphEdge, string]> {
+    if (direction !== 'in') {
+      for (const edge of this.outgoing.get(id) ?? []) yield [edge, edge.target];
+    }
+    if (direction !== 'out') {
+      for (const edge of this.incoming.get(id) ?? []) yield [edge, edge.source];
+    }
+  }
+
+  private pattern(glob: string, flags = ''): RegExp {
+    const key = `${flags}:${glob}`;
+    let regex = this.patterns.get(key);
+    if (!regex) {
+      regex = globToRegExp(glob, flags);
+      this.patterns.set(key, regex);
+    }
+    return regex;
+  }
+}
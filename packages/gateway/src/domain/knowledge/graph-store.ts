@@ -3,19 +3,48 @@
  * @description Manages the persistence of nodes and edges in the knowledge graph.
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, renameSync } from 'node:fs';
 import { join } from 'node:path';
 import { KnowledgeGraph, KnowledgeGraphSchema, Workspace, WorkspaceSchema } from '@adytum/shared';
 import { logger } from '../../logger.js';
 import { randomUUID } from 'node:crypto';
+import type { SerializedFileSymbols } from './code-symbols.js';
+
+const MANIFEST_VERSION = 1;
+
+/** A link or import found in a non-TypeScript file, resolved against the graph on each pass. */
+export interface FileLink {
+  target: string;
+  kind: 'wikilink' | 'link' | 'import';
+}
+
+/** What the indexer knows about a file from its last pass. */
+export interface IndexedFile {
+  hash: string;
+  mtimeMs: number;
+  size: number;
+  /** Parsed TypeScript/JavaScript symbols, reused until the file changes. */
+  symbols?: SerializedFileSymbols;
+  /** Links of markdown files and imports of Python/Dart files. */
+  links?: FileLink[];
+}
+
+/** Per-workspace record of indexed files, keyed by workspace-relative path. */
+export interface IndexManifest {
+  version: number;
+  root: string;
+  files: Record<string, IndexedFile>;
+}
 
 export class GraphStore {
   private workspacesPath: string;
   private graphsDir: string;
+  private manifestsDir: string;
 
   constructor(private dataPath: string) {
     this.workspacesPath = join(this.dataPath, 'knowledge', 'workspaces.json');
     this.graphsDir = join(this.dataPath, 'knowledge', 'graphs');
+    this.manifestsDir = join(this.dataPath, 'knowledge', 'manifests');
     this.ensureDirectories();
   }
 
@@ -23,6 +52,7 @@ export class GraphStore {
     const knowledgeDir = join(this.dataPath, 'knowledge');
     if (!existsSync(knowledgeDir)) mkdirSync(knowledgeDir, { recursive: true });
     if (!existsSync(this.graphsDir)) mkdirSync(this.graphsDir, { recursive: true });
+    if (!existsSync(this.manifestsDir)) mkdirSync(this.manifestsDir, { recursive: true });
   }
 
   /**
@@ -109,6 +139,38 @@ export class GraphStore {
     }
   }
 
+  /**
+   * Loads the index manifest of a workspace. A manifest written for another root is discarded.
+   * @param root - Absolute path the workspace is indexed from.
+   * @param workspaceId - Workspace id.
+   * @returns The manifest, empty when missing or stale.
+   */
+  loadManifest(root: string, workspaceId?: string): IndexManifest {
+    const empty: IndexManifest = { version: MANIFEST_VERSION, root, files: {} };
+    const manifestPath = join(this.manifestsDir, `manifest_${workspaceId || 'default'}.json`);
+    if (!existsSync(manifestPath)) return empty;
+    try {
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as IndexManifest;
+      if (manifest.version !== MANIFEST_VERSION || manifest.root !== root) return empty;
+      return manifest;
+    } catch (err) {
+      logger.warn({ err, workspaceId }, 'Failed to load index manifest; rescanning.');
+      return empty;
+    }
+  }
+
+  /**
+   * Persists the index manifest of a workspace.
+   * @param manifest - Manifest.
+   * @param workspaceId - Workspace id.
+   */
+  saveManifest(manifest: IndexManifest, workspaceId?: string): void {
+    const manifestPath = join(this.manifestsDir, `manifest_${workspaceId || 'default'}.json`);
+    const tmpPath = `${manifestPath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(manifest), 'utf-8');
+    renameSync(tmpPath, manifestPath);
+  }
+
   deleteWorkspace(id: string): void {
     const workspaces = this.listWorkspaces().filter((w) => w.id !== id);
     this.saveWorkspaces(workspaces);
@@ -1,6 +1,24 @@
 import { singleton, inject } from 'tsyringe';
 import { GraphStore } from './graph-store.js';
-import { GraphNode, GraphEdge } from '@adytum/shared';
+import { GraphNode, GraphEdge, GraphEdgeType, GraphQuery, GraphQueryResult } from '@adytum/shared';
+import { GraphQueryEngine } from './graph-query.js';
+
+export interface TraversalFilter {
+  /** Only follow edges of these types. */
+  edgeTypes?: GraphEdgeType[];
+  /** `out` follows edges from source to target, `in` the reverse (e.g. callers). */
+  direction?: 'in' | 'out' | 'both';
+}
+
+/**
+ * Checks whether an edge may be followed.
+ * @param edge - Edge.
+ * @param filter - Traversal filter.
+ * @returns True when the edge type is allowed.
+ */
+function allowsEdge(edge: GraphEdge, filter: TraversalFilter): boolean {
+  return !filter.edgeTypes?.length || filter.edgeTypes.includes(edge.type);
+}
 
 @singleton()
 export class GraphTraversalService {
@@ -11,9 +29,16 @@ export class GraphTraversalService {
    * @param nodeId The ID of the starting node.
    * @param workspaceId The workspace context.
    * @param depth How many hops to traverse (default 1).
+   * @param filter Optional edge type and direction restrictions.
    * @returns A list of unique nodes found within the depth.
    */
-  getNeighbors(nodeId: string, workspaceId: string, depth: number = 1): GraphNode[] {
+  getNeighbors(
+    nodeId: string,
+    workspaceId: string,
+    depth: number = 1,
+    filter: TraversalFilter = {},
+  ): GraphNode[] {
+    const direction = filter.direction ?? 'both';
     const graph = this.graphStore.load(workspaceId);
     const visited = new Set<string>();
     const result: GraphNode[] = [];
@@ -26,7 +51,10 @@ export class GraphTraversalService {
       if (currentDepth >= depth) continue;
 
       // Find outbound edges
-      const outbound = graph.edges.filter((e) => e.source === id);
+      const outbound =
+        direction === 'in'
+          ? []
+          : graph.edges.filter((e) => e.source === id && allowsEdge(e, filter));
       for (const edge of outbound) {
         if (!visited.has(edge.target)) {
           visited.add(edge.target);
@@ -39,7 +67,10 @@ export class GraphTraversalService {
       }
 
       // Find inbound edges (optional, but good for full context)
-      const inbound = graph.edges.filter((e) => e.target === id);
+      const inbound =
+        direction === 'out'
+          ? []
+          : graph.edges.filter((e) => e.target === id && allowsEdge(e, filter));
       for (const edge of inbound) {
         if (!visited.has(edge.source)) {
           visited.add(edge.source);
@@ -88,8 +119,16 @@ export class GraphTraversalService {
 
   /**
    * Finds connections between two nodes (simple BFS for shortest path).
+   * With a directed filter, e.g. `{ edgeTypes: ['calls'], direction: 'out' }`, the path is a
+   * call chain from the start node to the end node.
    */
-  findPath(startNodeId: string, endNodeId: string, workspaceId: string): string[] | null {
+  findPath(
+    startNodeId: string,
+    endNodeId: string,
+    workspaceId: string,
+    filter: TraversalFilter = {},
+  ): string[] | null {
+    const direction = filter.direction ?? 'both';
     const graph = this.graphStore.load(workspaceId);
     const queue: { id: string; path: string[] }[] = [{ id: startNodeId, path: [startNodeId] }];
     const visited = new Set<string>([startNodeId]);
@@ -99,8 +138,11 @@ export class GraphTraversalService {
       if (id === endNodeId) return path;
 
       const neighbors: string[] = [];
-      graph.edges.filter((e) => e.source === id).forEach((e) => neighbors.push(e.target));
-      graph.edges.filter((e) => e.target === id).forEach((e) => neighbors.push(e.source));
+      for (const e of graph.edges) {
+        if (!allowsEdge(e, filter)) continue;
+        if (direction !== 'in' && e.source === id) neighbors.push(e.target);
+        if (direction !== 'out' && e.target === id) neighbors.push(e.source);
+      }
 
       for (const next of neighbors) {
         if (!visited.has(next)) {
@@ -112,6 +154,16 @@ export class GraphTraversalService {
     return null;
   }
 
+  /**
+   * Runs a structured graph query.
+   * @param query - Query with node filters and traversal steps.
+   * @param workspaceId - Workspace context.
+   * @returns Result nodes and the subgraph connecting them.
+   */
+  query(query: GraphQuery, workspaceId: string): GraphQueryResult {
+    return new GraphQueryEngine(this.graphStore.load(workspaceId)).run(query);
+  }
+
   /**
    * Searches for nodes by query (filtering by label or path).
    */
@@ -1,5 +1,5 @@
-import { watch, existsSync, statSync } from 'node:fs';
-import { resolve, join, extname } from 'node:path';
+import { watch, existsSync } from 'node:fs';
+import { resolve, extname } from 'node:path';
 import { singleton, inject } from 'tsyringe';
 import { GraphIndexer } from './graph-indexer.js';
 import { logger } from '../../logger.js';
@@ -35,9 +35,8 @@ export class KnowledgeWatcher implements Sensor {
     try {
       this.watcher = watch(this.workspacePath, { recursive: true }, (event, filename) => {
         if (!filename) return;
-        const ext = extname(filename).toLowerCase();
-        const supported = ['.md', '.ts', '.js', '.tsx', '.jsx', '.py', '.dart', '.txt', '.json'];
-        if (!supported.includes(ext)) return;
+        // Extensionless names may be directories that were moved or deleted
+        if (extname(filename) && !this.indexer.isSupported(filename)) return;
 
         // Debounce and trigger re-index
         this.handleFileChange(filename, event);
@@ -49,11 +48,15 @@ export class KnowledgeWatcher implements Sensor {
     }
   }
 
-  private debounceTimers = new Map<string, NodeJS.Timeout>();
+  private pending = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
 
+  /**
+   * Queues a changed path; changes arriving within the debounce window are indexed together.
+   * @param filename - Path relative to the workspace.
+   * @param eventType - `rename` or `change` from fs.watch.
+   */
   private handleFileChange(filename: string, eventType: string): void {
-    const fullPath = resolve(this.workspacePath, filename);
-
     // Ignore common output/dependency directories to prevent infinite loops (e.g. graph updates in /data)
     if (
       filename.includes('node_modules') ||
@@ -64,45 +67,41 @@ export class KnowledgeWatcher implements Sensor {
       return;
     }
 
-    if (this.debounceTimers.has(filename)) {
-      clearTimeout(this.debounceTimers.get(filename)!);
-    }
-
-    const timer = setTimeout(async () => {
-      try {
-        logger.debug(`Re-indexing changed file: ${filename}`);
-
-        // Emit event to bus
-        // We use 'rename' event from fs.watch for creation/deletion, 'change' for modification
-        // But node:fs.watch is tricky. For now, we assume modification if file exists.
-        const exists = existsSync(fullPath);
-        const type = exists ? FileEvents.MODIFIED : FileEvents.DELETED;
-
-        this.eventBus.publish(
-          type,
-          {
-            path: filename,
-            fullPath,
-            workspaceId: 'default',
-          },
-          'knowledge-watcher',
-        );
+    this.pending.add(filename);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => void this.flush(), 1000); // 1s debounce
+  }
 
-        // We call update() on the indexer.
-        // In a more optimized version we could add a method to index a single file.
-        // For now, indexer.update() handles incremental logic via hashing.
-        // CRITICAL: Ensure we skip LLM summaries to avoid costs during auto-indexing.
-        if (exists) {
-          await this.indexer.update(undefined, undefined, { mode: 'fast', skipLLM: true });
-        }
-      } catch (err) {
-        logger.error({ err, filename }, 'Failed to re-index file');
-      } finally {
-        this.debounceTimers.delete(filename);
-      }
-    }, 1000); // 1s debounce
+  /**
+   * Publishes file events for the queued paths and re-indexes only those paths.
+   */
+  private async flush(): Promise<void> {
+    this.debounceTimer = null;
+    const paths = [...this.pending];
+    this.pending.clear();
+
+    for (const path of paths) {
+      // fs.watch reports creation, deletion and renames alike as 'rename', so go by existence
+      const fullPath = resolve(this.workspacePath, path);
+      const type = existsSync(fullPath) ? FileEvents.MODIFIED : FileEvents.DELETED;
+      this.eventBus.publish(
+        type,
+        {
+          path,
+          fullPath,
+          workspaceId: 'default',
+        },
+        'knowledge-watcher',
+      );
+    }
 
-    this.debounceTimers.set(filename, timer);
+    try {
+      logger.debug(`Re-indexing ${paths.length} changed path(s)`);
+      // CRITICAL: Ensure we skip LLM summaries to avoid costs during auto-indexing.
+      await this.indexer.update(undefined, undefined, { mode: 'fast', skipLLM: true, paths });
+    } catch (err) {
+      logger.error({ err, paths }, 'Failed to re-index changed files');
+    }
   }
 
   async stop(): Promise<void> {
@@ -110,10 +109,9 @@ export class KnowledgeWatcher implements Sensor {
       this.watcher.close();
       this.watcher = null;
     }
-    for (const timer of this.debounceTimers.values()) {
-      clearTimeout(timer);
-    }
-    this.debounceTimers.clear();
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    this.pending.clear();
     this.status = 'inactive';
   }
 }
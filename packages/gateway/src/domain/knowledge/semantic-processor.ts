@@ -3,25 +3,48 @@
  * @description Uses LLM to extract semantic meaning and summaries from files during index.
  */
 
-import { KnowledgeGraph, GraphNode } from '@adytum/shared';
+import { KnowledgeGraph, GraphNode, type GraphNodeType } from '@adytum/shared';
 import { ModelRouter } from '../../infrastructure/llm/model-router.js';
 import { logger } from '../../logger.js';
 import { readFileSync, existsSync } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
 import { MemoryStore } from '../../infrastructure/repositories/memory-store.js';
 import { inject, singleton } from 'tsyringe';
+import { DocumentExtractorRegistry } from './extractors/document-extractor-registry.js';
+import type { ExtractedDocument } from './extractors/document-extractor.interface.js';
+import { chunkDocument } from './extractors/document-chunker.js';
+import { z } from 'zod';
+
+const FileSummarySchema = z.object({
+  summary: z.string().describe('Purpose of the file in 1-2 sentences.'),
+  concepts: z.array(z.string()).describe('3-5 key technical concepts or entities defined in it.'),
+});
+
+/** Node types whose files are extracted and chunked into `doc_chunk` memories. */
+export const DOCUMENT_NODE_TYPES = new Set<GraphNodeType>(['file', 'doc', 'email', 'archive']);
+
+export interface SemanticProcessOptions {
+  skipLLM?: boolean;
+  /** Directory node paths are relative to. */
+  root?: string;
+  /** Workspace the document chunks belong to. */
+  workspaceId?: string;
+}
 
 @singleton()
 export class SemanticProcessor {
   constructor(
     @inject(ModelRouter) private modelRouter: ModelRouter,
     @inject(MemoryStore) private memoryStore: MemoryStore,
+    @inject(DocumentExtractorRegistry)
+    private extractors: DocumentExtractorRegistry = new DocumentExtractorRegistry(),
   ) {}
 
   /**
    * Performs deep semantic analysis on a set of nodes.
    * Injects summaries and extracts key concepts (entities/tags).
    */
-  async process(nodes: GraphNode[], options: { skipLLM?: boolean } = {}): Promise<GraphNode[]> {
+  async process(nodes: GraphNode[], options: SemanticProcessOptions = {}): Promise<GraphNode[]> {
     logger.debug(
       `Starting semantic analysis on ${nodes.length} nodes (skipLLM: ${options.skipLLM})...`,
     );
@@ -42,64 +65,57 @@ export class SemanticProcessor {
     return results;
   }
 
+  /**
+   * Deletes the document chunks of a file that no longer exists.
+   * @param path - Workspace-relative path.
+   * @param workspaceId - Workspace id.
+   */
+  removeDocument(path: string, workspaceId?: string): void {
+    this.memoryStore.removeDocument(path, workspaceId);
+  }
+
+  /**
+   * Moves the document chunks of a renamed file to its new path.
+   * @param from - Previous workspace-relative path.
+   * @param to - New workspace-relative path.
+   * @param workspaceId - Workspace id.
+   */
+  renameDocument(from: string, to: string, workspaceId?: string): void {
+    this.memoryStore.renameDocument(from, to, workspaceId);
+  }
+
   private async processNode(
     node: GraphNode,
-    options: { skipLLM?: boolean } = {},
+    options: SemanticProcessOptions = {},
   ): Promise<GraphNode> {
-    if (node.type !== 'file' && node.type !== 'doc') return node;
-    if (!node.path || !existsSync(node.path)) return node;
+    if (!DOCUMENT_NODE_TYPES.has(node.type)) return node;
+    if (!node.path) return node;
+    const fullPath =
+      options.root && !isAbsolute(node.path) ? join(options.root, node.path) : node.path;
+    if (!existsSync(fullPath)) return node;
 
     try {
-      const content = readFileSync(node.path, 'utf-8');
-      if (content.length < 50) return node; // Skip tiny files
-
-      // NOTE: We are skipping the semantic analysis for now.
-      // 1. Generate Summary & Concepts (only if not skipped)
-      //       if (!options.skipLLM) {
-      //         const prompt = `
-      // Analyze the following file content and provide:
-      // 1. A concise 1-2 sentence summary of its purpose.
-      // 2. A list of 3-5 key technical concepts or entities defined in it.
-
-      // File: ${node.path}
-      // Content:
-      // ${content.slice(0, 4000)} // Truncate to avoid context limit
-
-      // Format:
-      // Summary: [text]
-      // Concepts: [comma separated list]
-      // `;
-
-      //         const { message } = await this.modelRouter.chat('fast', [
-      //           { role: 'system', content: 'You are a technical documentation assistant.' },
-      //           { role: 'user', content: prompt },
-      //         ]);
-
-      //         if (message.content) {
-      //           const summaryMatch = message.content.match(/Summary:\s*(.*)/i);
-      //           const conceptsMatch = message.content.match(/Concepts:\s*(.*)/i);
-
-      //           if (summaryMatch) {
-      //             node.description = summaryMatch[1].trim();
-      //           }
-      //           if (conceptsMatch) {
-      //             node.metadata = {
-      //               ...node.metadata,
-      //               concepts: conceptsMatch[1].split(',').map((c) => c.trim()),
-      //             };
-      //           }
-      //         }
-      //       }
+      const document = await this.extractors.extract(node.path, readFileSync(fullPath));
+      const length = document.sections.reduce((sum, s) => sum + s.text.length, 0);
+      if (length < 50) return node; // Skip tiny files
+
+      // 1. Summary & Concepts (only if not skipped)
+      if (!options.skipLLM) await this.summarizeNode(node, document);
 
       // 2. Vector Indexing (Chunking)
       const concepts = Array.isArray(node.metadata?.concepts)
         ? (node.metadata.concepts as string[])
         : [];
-      await this.indexDocumentChunks(node.path, content, concepts);
+      // Replace chunks from an earlier version of the file
+      this.memoryStore.removeDocument(node.path, options.workspaceId);
+      await this.indexDocumentChunks(node.path, document, concepts, options.workspaceId);
 
       // 3. Mark as processed
+      const pages = document.sections.reduce((max, s) => Math.max(max, s.page ?? 0), 0);
       node.metadata = {
         ...node.metadata,
+        ...(document.title ? { title: document.title } : {}),
+        ...(pages ? { pages } : {}),
         lastProcessed: Date.now(),
       };
 
@@ -110,36 +126,64 @@ export class SemanticProcessor {
     }
   }
 
-  private async indexDocumentChunks(path: string, content: string, tags: string[]): Promise<void> {
-    // Simple chunking by paragraph or fixed size
-    const chunks = this.chunkText(content, 1000); // 1000 chars approx
-
-    for (const chunk of chunks) {
-      await this.memoryStore.add(
-        chunk,
-        'file_system',
-        tags,
-        { path },
-        'doc_chunk', // Category for semantic search tool
+  /**
+   * Adds a summary (`description`) and key concepts (`metadata.concepts`) to a node.
+   * A failed call leaves the node as it was.
+   * @param node - File node.
+   * @param document - Extracted document.
+   */
+  private async summarizeNode(node: GraphNode, document: ExtractedDocument): Promise<void> {
+    const content = document.sections
+      .map((s) => s.text)
+      .join('\n')
+      .slice(0, 4000); // Truncate to avoid context limit
+    try {
+      const { data } = await this.modelRouter.chatStructured(
+        'fast',
+        [
+          { role: 'system', content: 'You are a technical documentation assistant.' },
+          {
+            role: 'user',
+            content: `Summarize the purpose of this file and list its key technical concepts.\n\nFile: ${node.path}\nContent:\n${content}`,
+          },
+        ],
+        FileSummarySchema,
+        { name: 'file_summary', temperature: 0.2, cache: true },
       );
-      // Small pause between chunks to keep event loop alive
-      await new Promise((resolve) => setTimeout(resolve, 20));
+      node.description = data.summary;
+      node.metadata = { ...node.metadata, concepts: data.concepts };
+    } catch (err) {
+      logger.warn({ err, path: node.path }, 'Failed to summarize node.');
     }
   }
 
-  private chunkText(text: string, size: number): string[] {
-    const chunks: string[] = [];
-    let current = '';
-    const lines = text.split('\n');
-
-    for (const line of lines) {
-      if (current.length + line.length > size) {
-        chunks.push(current);
-        current = '';
-      }
-      current += line + '\n';
-    }
-    if (current) chunks.push(current);
-    return chunks;
+  /**
+   * Stores a document as `doc_chunk` memories. Each chunk records where it came from
+   * (headings, line span, page, archive entry or attachment, other location) in its metadata.
+   * @param path - Workspace-relative path.
+   * @param document - Extracted document.
+   * @param tags - Tags for every chunk.
+   * @param workspaceId - Workspace id.
+   */
+  async indexDocumentChunks(
+    path: string,
+    document: ExtractedDocument,
+    tags: string[],
+    workspaceId?: string,
+  ): Promise<void> {
+    // Embedded in batches rather than one request per chunk
+    await this.memoryStore.addBatch(
+      chunkDocument(document, 1000).map((chunk) => {
+        const { headings, startLine, endLine, page, entry, location } = chunk;
+        return {
+          content: chunk.content,
+          source: 'file_system',
+          tags,
+          metadata: { path, headings, startLine, endLine, page, entry, location },
+          category: 'doc_chunk', // Category for semantic search tool
+          workspaceId,
+        };
+      }),
+    );
   }
 }
@@ -19,7 +19,7 @@ const baseUsage = {
 };
 
 function createRuntime(chatMock: any, toolRegistry: ToolRegistry): AgentRuntime {
-  const modelRouter = { chat: chatMock } as any;
+  const modelRouter = { chat: chatMock, resolveActiveModel: async () => undefined } as any;
   const soulEngine = {
     getSoulPrompt: () => 'You are test runtime.',
     getArchitectPreamble: () => 'Architect preamble',
@@ -29,6 +29,12 @@ function createRuntime(chatMock: any, toolRegistry: ToolRegistry): AgentRuntime
   const compactor = {
     guardLargeMessage: async (res: any) => res,
     applyCompaction: async (ctx: any) => ctx.getMessages(),
+    contextBudget: () => ({
+      contextWindow: 32000,
+      outputReserve: 4096,
+      toolTokens: 0,
+      compactAt: 10000,
+    }),
   } as any;
   const modelCatalog = { get: async () => ({ contextWindow: 32000 }) } as any;
   const dispatchService = { resolve: () => null } as any;
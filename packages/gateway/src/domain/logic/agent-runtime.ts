@@ -6,9 +6,15 @@
 import { singleton, inject } from 'tsyringe';
 import { v4 as uuid } from 'uuid';
 import type OpenAI from 'openai';
-import { type ModelRole, type ToolCall, type Trace, AgentEvents } from '@adytum/shared';
+import {
+  type Citation,
+  type ModelRole,
+  type ToolCall,
+  type Trace,
+  AgentEvents,
+} from '@adytum/shared';
 import { ContextManager } from './context-manager.js';
-import { ModelRouter } from '../../infrastructure/llm/model-router.js';
+import { ModelRouter, type ActiveModel } from '../../infrastructure/llm/model-router.js';
 import { SoulEngine } from './soul-engine.js';
 import { SkillLoader } from '../../application/services/skill-loader.js';
 import { ToolRegistry } from '../../tools/registry.js';
@@ -18,16 +24,23 @@ import { EventEmitter } from 'node:events';
 import { EventBusService } from '../../infrastructure/events/event-bus.js';
 import { GraphContext } from '../knowledge/graph-context.js';
 import { MemoryStore } from '../../infrastructure/repositories/memory-store.js';
-import { MemoryDB } from '../../infrastructure/repositories/memory-db.js';
+import {
+  MemoryDB,
+  type TurnCheckpointRow,
+  type TurnCheckpointStatus,
+} from '../../infrastructure/repositories/memory-db.js';
 import { GraphStore } from '../knowledge/graph-store.js';
 import { RuntimeRegistry } from '../agents/runtime-registry.js';
 import { ToolErrorHandler } from './tool-error-handler.js';
+import { formatToolResultForContext } from '../../tools/result-envelope.js';
 
 // ...
 
 import { SwarmManager } from './swarm-manager.js';
 import { SwarmMessenger } from './swarm-messenger.js';
-import { Compactor } from './compactor.js';
+import { Compactor, type ContextBudget } from './compactor.js';
+import { ResponseStreamer } from './response-streamer.js';
+import { CancelledError, untilAborted } from '../errors/cancelled-error.js';
 import { ModelCatalog } from '../../infrastructure/llm/model-catalog.js';
 
 // ...
@@ -68,8 +81,40 @@ export interface AgentTurnResult {
   response: string;
   trace: Trace;
   toolCalls: ToolCall[];
+  /** Sources retrieved into the context for this turn, numbered as the model saw them. */
+  citations: Citation[];
 }
 
+export interface AgentRunOverrides {
+  modelRole?: string;
+  modelId?: string;
+  workspaceId?: string;
+  agentId?: string;
+  agentMode?: 'reactive' | 'daemon' | 'scheduled';
+  /** Session that delegated this run; aborting its hierarchy aborts this run too. */
+  parentSessionId?: string;
+}
+
+/** Mutable state of a single ReAct turn; mirrored to `turn_checkpoints` after every step. */
+interface TurnState {
+  trace: Trace;
+  sessionId: string;
+  userMessage: string;
+  overrides?: AgentRunOverrides;
+  context: ContextManager;
+  isBackgroundSession: boolean;
+  memoryContext: string | null;
+  signal: AbortSignal;
+  toolCalls: ToolCall[];
+  pendingToolCalls: OpenAI.ChatCompletionMessageToolCall[];
+  citations: Citation[];
+  iterations: number;
+  autonomyNudges: number;
+  completionNudges: number;
+}
+
+const RESUMABLE_STATUSES: TurnCheckpointStatus[] = ['running', 'failed', 'cancelled'];
+
 /**
  * The core ReAct Agent Runtime that orchestrates the agent's thought process.
  */
@@ -114,6 +159,15 @@ export class AgentRuntime extends EventEmitter {
     }
   }
 
+  /**
+   * Determines whether a turn is currently executing for a session.
+   * @param sessionId - Session id.
+   * @returns True when the session has an active turn.
+   */
+  isTurnActive(sessionId: string): boolean {
+    return this.abortControllers.has(sessionId);
+  }
+
   /**
    * Retrieves or creates an isolated context for a given session and workspace.
    * Scoped by sessionId and workspaceId to ensure strict privacy boundaries.
@@ -136,7 +190,7 @@ export class AgentRuntime extends EventEmitter {
       if (this.config.memoryDb) {
         const history = this.config.memoryDb.getRecentMessages(40, {
           sessionId,
-          workspaceId: workspaceId || undefined, // undefined means all, null means exactly null
+          workspaceId: workspaceId || null, // null keeps workspace history out of global chats
         });
         for (const m of history) {
           context.addMessage({ role: m.role as any, content: m.content });
@@ -164,6 +218,23 @@ export class AgentRuntime extends EventEmitter {
     }
   }
 
+  /**
+   * Seeds a session's context with prior turns supplied by the caller.
+   * @param sessionId - Session id.
+   * @param messages - Prior turns, oldest first.
+   * @param overrides - Workspace and agent the session runs under.
+   */
+  seedSession(
+    sessionId: string,
+    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+    overrides?: Pick<AgentRunOverrides, 'workspaceId' | 'agentId'>,
+  ): void {
+    const context = this.getOrCreateContext(sessionId, overrides?.workspaceId, overrides?.agentId);
+    for (const m of messages) {
+      context.addMessage({ role: m.role, content: m.content });
+    }
+  }
+
   /**
    * Executes a full agent turn based on a user message.
    * This involves the ReAct loop: Think -> Act -> Observe -> Repeat.
@@ -176,13 +247,7 @@ export class AgentRuntime extends EventEmitter {
   async run(
     userMessage: string,
     sessionId: string,
-    overrides?: {
-      modelRole?: string;
-      modelId?: string;
-      workspaceId?: string;
-      agentId?: string;
-      agentMode?: 'reactive' | 'daemon' | 'scheduled';
-    },
+    overrides?: AgentRunOverrides,
   ): Promise<AgentTurnResult> {
     // Check for slash command dispatch
     const dispatch = this.config.dispatchService.resolve(userMessage);
@@ -209,6 +274,7 @@ export class AgentRuntime extends EventEmitter {
         sessionId,
         agentId: overrides?.agentId || this.config.agentId,
         workspaceId: overrides?.workspaceId || this.config.workspacePath,
+        memoryWorkspaceId: overrides?.workspaceId ?? null,
         agentMode: overrides?.agentMode || this.config.agentMode,
       });
 
@@ -233,6 +299,7 @@ export class AgentRuntime extends EventEmitter {
           outcome: response.slice(0, 200),
         },
         toolCalls: [toolCall],
+        citations: [],
       };
     }
 
@@ -266,18 +333,20 @@ export class AgentRuntime extends EventEmitter {
     }
 
     // Inject workspace-specific graph context if available
+    let citations: Citation[] = [];
     if (overrides?.workspaceId && this.config.graphContext) {
       const knowledge = await this.config.graphContext.getRelatedContext(
         userMessage,
         overrides.workspaceId,
       );
-      if (knowledge) {
+      if (knowledge.text) {
+        citations = knowledge.citations;
         context.addMessage({
           role: 'system',
           content: `## Workspace Neural Network Map
 The following nodes/edges from the workspace are currently active in your attention:
 
-${knowledge}`,
+${knowledge.text}`,
         });
       }
     }
@@ -293,15 +362,12 @@ ${knowledge}`,
 
     this.emit('trace_start', trace);
 
-    // Register session with RuntimeRegistry
-    // We assume overrides.parentSessionId might be passed in future, but for now we register basic session
-    // SubAgentSpawner handles the parent-child registration explicitly
-    this.config.runtimeRegistry.register(sessionId, this);
+    // Register session with RuntimeRegistry, under the delegating session when there is one
+    this.config.runtimeRegistry.register(sessionId, this, overrides?.parentSessionId);
 
     // Create AbortController for this session
     const abortController = new AbortController();
     this.abortControllers.set(sessionId, abortController);
-    const signal = abortController.signal;
 
     // Add user message to context
     context.addMessage({ role: 'user', content: userMessage });
@@ -323,19 +389,161 @@ ${knowledge}`,
     }
 
     // Prepare memory context for this turn
-    const memoryContext = await this.buildMemoryContext(userMessage);
+    const memoryContext = await this.buildMemoryContext(userMessage, overrides?.workspaceId);
+
+    const turn: TurnState = {
+      trace,
+      sessionId,
+      userMessage,
+      overrides,
+      context,
+      isBackgroundSession,
+      memoryContext,
+      signal: abortController.signal,
+      toolCalls: [],
+      pendingToolCalls: [],
+      citations,
+      iterations: 0,
+      autonomyNudges: 0,
+      completionNudges: 0,
+    };
+    // Resuming an older turn would replace this turn's history with its own
+    this.discardResumableTurns(sessionId);
+    this.saveCheckpoint(turn, 'running');
+
+    return this.executeTurn(turn);
+  }
+
+  /**
+   * Resumes an interrupted turn from its last checkpointed step.
+   * Restores the conversation history captured after the last completed model response or
+   * tool result, re-runs any tool calls that had not produced a result yet, and continues
+   * the ReAct loop with the original overrides.
+   *
+   * @param sessionId - Session whose turn should be resumed.
+   * @param traceId - Optional trace to resume; defaults to the session's latest resumable turn.
+   * @returns A Promise resolving to the result of the resumed turn.
+   */
+  async resume(sessionId: string, traceId?: string): Promise<AgentTurnResult> {
+    if (!this.config.memoryDb) {
+      throw new Error('Turn checkpointing requires MemoryDB.');
+    }
+    if (this.isTurnActive(sessionId)) {
+      throw new Error(`Session ${sessionId} already has a turn in progress.`);
+    }
+
+    const checkpoint = traceId
+      ? this.config.memoryDb.getTurnCheckpoint(traceId)
+      : this.getResumableTurns(sessionId)[0];
+    if (!checkpoint || checkpoint.sessionId !== sessionId) {
+      throw new Error(`No resumable turn found for session ${sessionId}.`);
+    }
+    if (!RESUMABLE_STATUSES.includes(checkpoint.status)) {
+      throw new Error(`Turn ${checkpoint.traceId} is ${checkpoint.status} and cannot be resumed.`);
+    }
+
+    const overrides = checkpoint.overrides as AgentRunOverrides | undefined;
+    const isBackgroundSession = this.isBackgroundSession(sessionId);
+    const context = isBackgroundSession
+      ? this.createIsolatedContext(overrides?.agentId)
+      : this.getOrCreateContext(sessionId, overrides?.workspaceId, overrides?.agentId);
+    if (overrides) {
+      const effectiveAgentId = overrides.agentId || this.config.agentId || 'prometheus';
+      context.setSystemPrompt(
+        this.buildWorkspaceSystemPrompt(overrides.workspaceId, effectiveAgentId),
+      );
+    }
+    context.setMessages(checkpoint.messages as OpenAI.ChatCompletionMessageParam[]);
+
+    const trace: Trace = {
+      id: checkpoint.traceId,
+      sessionId,
+      startTime: Date.now(),
+      initialGoal: checkpoint.userMessage,
+      status: 'running',
+    };
 
-    const allToolCalls: ToolCall[] = [];
+    this.emit('trace_start', trace);
+    this.emit('stream', {
+      traceId: trace.id,
+      sessionId,
+      streamType: 'status',
+      delta: `Resuming interrupted turn from iteration ${checkpoint.iteration}...`,
+    });
+    auditLogger.logSystemEvent('turn_resumed', {
+      sessionId,
+      traceId: trace.id,
+      iteration: checkpoint.iteration,
+    });
+
+    this.config.runtimeRegistry.register(sessionId, this, overrides?.parentSessionId);
+    const abortController = new AbortController();
+    this.abortControllers.set(sessionId, abortController);
+
+    const turn: TurnState = {
+      trace,
+      sessionId,
+      userMessage: checkpoint.userMessage,
+      overrides,
+      context,
+      isBackgroundSession,
+      memoryContext: await this.buildMemoryContext(checkpoint.userMessage, overrides?.workspaceId),
+      signal: abortController.signal,
+      toolCalls: checkpoint.toolCalls as ToolCall[],
+      pendingToolCalls: checkpoint.pendingToolCalls as OpenAI.ChatCompletionMessageToolCall[],
+      citations: checkpoint.citations as Citation[],
+      iterations: checkpoint.iteration,
+      autonomyNudges: 0,
+      completionNudges: 0,
+    };
+    this.saveCheckpoint(turn, 'running');
+
+    return this.executeTurn(turn);
+  }
+
+  /**
+   * Lists turns that were interrupted (or failed) and can be resumed.
+   * Turns still running in this process are excluded.
+   * @param sessionId - Optional session filter.
+   * @returns Checkpoints ordered by most recent activity.
+   */
+  getResumableTurns(sessionId?: string): TurnCheckpointRow[] {
+    if (!this.config.memoryDb) return [];
+    return this.config.memoryDb
+      .listTurnCheckpoints({ sessionId, statuses: RESUMABLE_STATUSES })
+      .filter((checkpoint) => !this.isTurnActive(checkpoint.sessionId));
+  }
+
+  /**
+   * Drives the ReAct loop for a prepared turn until a final response, an error or the
+   * iteration limit. Every completed step is checkpointed so the turn can be resumed.
+   * @param turn - Turn state.
+   * @returns The turn result.
+   */
+  private async executeTurn(turn: TurnState): Promise<AgentTurnResult> {
+    const { trace, sessionId, userMessage, overrides, context, isBackgroundSession, signal } = turn;
+    const traceId = trace.id;
     let finalResponse = '';
-    let iterations = 0;
     let lastMessage: any = null;
-    let autonomyNudges = 0;
-    let completionNudges = 0;
 
     try {
-      while (iterations < this.config.maxIterations) {
+      while (turn.iterations < this.config.maxIterations || turn.pendingToolCalls.length > 0) {
         if (signal.aborted) {
-          throw new Error('Session aborted by user or system.');
+          throw new CancelledError('Session aborted by user or system.');
+        }
+
+        // Tool calls requested by the previous model response (or restored from a checkpoint)
+        if (turn.pendingToolCalls.length > 0) {
+          const { model, budget } = await this.getContextBudget(overrides);
+          while (turn.pendingToolCalls.length > 0) {
+            if (signal.aborted) throw new CancelledError('Session aborted.');
+            await this.executeToolCall(turn.pendingToolCalls[0], turn, budget.contextWindow, model);
+            turn.pendingToolCalls.shift();
+            this.saveCheckpoint(turn, 'running');
+          }
+
+          // Continue the loop — model will process tool results
+          continue;
         }
 
         // Update activity for Swarm Registry on each iteration
@@ -343,18 +551,19 @@ ${knowledge}`,
           this.config.swarmManager.updateActivity(overrides.agentId);
         }
 
-        iterations++;
+        turn.iterations++;
 
         // Check for compaction with model-aware limits
         const roleToUse = overrides?.modelRole || this.config.defaultModelRole;
-        const currentModelId = overrides?.modelId || roleToUse;
-        const modelEntry = await this.config.modelCatalog.get(currentModelId);
-        // Use a safe default limit (32k) or 80% of model's context window
-        const windowLimit = modelEntry?.contextWindow || 32000;
-        const softLimit = Math.floor(windowLimit * 0.82);
-
-        if (context.needsCompaction(softLimit)) {
-          await this.compactContext(context, traceId, sessionId);
+        const tools = this.config.toolRegistry.toOpenAITools();
+        const { model: activeModel, budget } = await this.getContextBudget(overrides, tools);
+        context.setTokenizerModel(activeModel);
+        const memoryTokens = turn.memoryContext
+          ? this.config.compactor.estimateTokens(turn.memoryContext, activeModel)
+          : 0;
+
+        if (context.needsCompaction(budget.compactAt - memoryTokens)) {
+          await this.compactContext(context, traceId, sessionId, overrides?.workspaceId);
         }
 
         // Call the model
@@ -375,29 +584,38 @@ ${knowledge}`,
           traceId,
           sessionId,
           streamType: 'status',
-          delta: `Thinking... (iteration ${iterations})`,
+          delta: `Thinking... (iteration ${turn.iterations})`,
         });
 
         const baseMessages = context.getMessages();
-        const modelMessages = memoryContext
+        const modelMessages = turn.memoryContext
           ? [
               baseMessages[0],
-              { role: 'system', content: memoryContext } as OpenAI.ChatCompletionMessageParam,
+              { role: 'system', content: turn.memoryContext } as OpenAI.ChatCompletionMessageParam,
               ...baseMessages.slice(1),
             ]
           : baseMessages;
 
+        // Answer text reaches the dashboard as it is generated
+        const streamer = new ResponseStreamer((delta, metadata) =>
+          this.emit('stream', { traceId, sessionId, streamType: 'response', delta, metadata }),
+        );
         const { message, usage } = await this.config.modelRouter.chat(
           overrides?.modelId || roleToUse,
           modelMessages,
           {
-            tools: this.config.toolRegistry.toOpenAITools(),
+            tools,
             temperature: 0.7,
             fallbackRole: roleToUse as any,
+            sessionId,
+            agentId: overrides?.agentId || this.config.agentId,
+            onDelta: streamer.push,
+            signal,
           },
         );
+        streamer.flush();
 
-        if (signal.aborted) throw new Error('Session aborted.');
+        if (signal.aborted) throw new CancelledError('Session aborted.');
         lastMessage = message;
 
         // Publish Thought Event
@@ -433,6 +651,7 @@ ${knowledge}`,
 
         // Check for tool calls
         if (message.tool_calls && message.tool_calls.length > 0) {
+          streamer.reset();
           // Add assistant message with tool calls to context
           // Ensure content is never null (some providers like Google Gemini reject it)
           const sanitizedMessage = {
@@ -441,173 +660,9 @@ ${knowledge}`,
           };
           context.addMessage(sanitizedMessage as OpenAI.ChatCompletionMessageParam);
 
-          // Execute each tool call
-          for (const tc of message.tool_calls) {
-            const toolCall: ToolCall = {
-              id: tc.id,
-              name: tc.function.name,
-              arguments: {
-                ...JSON.parse(tc.function.arguments),
-                sessionId,
-                workspaceId: overrides?.workspaceId,
-              },
-            };
-
-            allToolCalls.push(toolCall);
-
-            if (this.config.eventBus) {
-              this.config.eventBus.publish(
-                AgentEvents.TOOL_CALL,
-                {
-                  sessionId,
-                  tool: toolCall.name,
-                  args: toolCall.arguments,
-                  traceId,
-                },
-                'AgentRuntime',
-              );
-            }
-
-            // Emit tool call event for live console
-            this.emit('stream', {
-              traceId,
-              sessionId,
-              streamType: 'tool_call',
-              delta: `Calling tool: ${toolCall.name}`,
-              metadata: { tool: toolCall.name, args: toolCall.arguments },
-            });
-
-            auditLogger.logToolCall(traceId, toolCall.name, toolCall.arguments);
-            if (this.config.memoryDb) {
-              this.config.memoryDb.addActionLog(
-                traceId,
-                'tool_call',
-                {
-                  tool: toolCall.name,
-                  arguments: toolCall.arguments,
-                },
-                'success',
-              );
-            }
-
-            // Check if tool requires approval
-            const toolDef = this.config.toolRegistry.get(toolCall.name);
-            const isAutonomous = (overrides?.agentMode || this.config.agentMode) === 'scheduled';
-            const bypassWhitelist = [
-              'spawn_swarm_agent',
-              'delegate_task',
-              'send_message',
-              'list_agents',
-              'check_inbox',
-            ];
-
-            const needsApproval =
-              toolDef?.requiresApproval &&
-              (!isAutonomous || !bypassWhitelist.includes(toolCall.name));
-
-            if (needsApproval && this.config.onApprovalRequired) {
-              const approved = await this.config.onApprovalRequired(
-                `Tool "${toolCall.name}" wants to execute: ${JSON.stringify(toolCall.arguments)}`,
-                { sessionId, workspaceId: overrides?.workspaceId },
-              );
-              if (!approved) {
-                context.addMessage({
-                  role: 'tool',
-                  tool_call_id: tc.id,
-                  content: 'Action rejected by user.',
-                });
-                continue;
-              }
-            }
-
-            // Execute the tool
-            const result = await this.config.toolRegistry.execute(toolCall, {
-              sessionId,
-              agentId: overrides?.agentId || this.config.agentId, // Pass correct agentId to tools
-              workspaceId: overrides?.workspaceId || this.config.workspacePath,
-              agentMode: this.config.agentMode,
-            });
-
-            // Phase 2.2: Error Recovery
-            if (result.isError && this.config.toolErrorHandler) {
-              const analysis = this.config.toolErrorHandler.analyze(
-                result.result,
-                toolCall.name,
-                1,
-              );
-              // Append analysis to the result so the model sees it
-              if (typeof result.result === 'string') {
-                const recoveryMsg = this.config.toolErrorHandler.formatErrorForContext(
-                  { message: result.result },
-                  analysis,
-                );
-                result.result += recoveryMsg;
-
-                // Emit recovery event for dashboard
-                this.emit('stream', {
-                  traceId,
-                  sessionId,
-                  streamType: 'recovery',
-                  delta: `Self-Correction: ${analysis.strategy.replace('_', ' ')} suggested.`,
-                });
-              }
-            }
-
-            if (this.config.eventBus) {
-              this.config.eventBus.publish(
-                AgentEvents.TOOL_RESULT,
-                {
-                  sessionId,
-                  tool: toolCall.name,
-                  result: result.result,
-                  isError: result.isError,
-                  traceId,
-                },
-                'AgentRuntime',
-              );
-            }
-
-            auditLogger.logToolResult(traceId, toolCall.name, result.result, result.isError);
-            if (this.config.memoryDb) {
-              this.config.memoryDb.addActionLog(
-                traceId,
-                'tool_result',
-                {
-                  tool: toolCall.name,
-                  result: result.result,
-                  isError: result.isError,
-                },
-                result.isError ? 'error' : 'success',
-              );
-            }
-
-            this.emit('stream', {
-              traceId,
-              sessionId,
-              streamType: 'tool_result',
-              delta: `Tool ${toolCall.name}: ${result.isError ? 'ERROR' : 'OK'}`,
-              metadata: { result: result.result },
-            });
-
-            // Add tool result to context with Oversized Message Guard
-            let finalResult =
-              typeof result.result === 'string' ? result.result : JSON.stringify(result.result);
-
-            // Guard against massive tool outputs
-            finalResult = await this.config.compactor.guardLargeMessage(
-              finalResult,
-              windowLimit,
-              sessionId,
-            );
-
-            context.addMessage({
-              role: 'tool',
-              tool_call_id: tc.id,
-              content: finalResult,
-            });
-          }
-
-          // Continue the loop — model will process tool results
+          // Queue the tool calls; they run (and are checkpointed one by one) on the next pass
+          turn.pendingToolCalls = [...message.tool_calls];
+          this.saveCheckpoint(turn, 'running');
           continue;
         }
 
@@ -617,15 +672,17 @@ ${knowledge}`,
           const autonomyNudge = this.getAutonomyContinuationNudge(
             userMessage,
             assistantMessage,
-            allToolCalls,
-            autonomyNudges,
+            turn.toolCalls,
+            turn.autonomyNudges,
           );
           if (autonomyNudge) {
-            autonomyNudges++;
+            streamer.reset();
+            turn.autonomyNudges++;
             if (assistantMessage) {
               context.addMessage({ role: 'assistant', content: assistantMessage });
             }
             context.addMessage({ role: 'system', content: autonomyNudge });
+            this.saveCheckpoint(turn, 'running');
             this.emit('stream', {
               traceId,
               sessionId,
@@ -638,15 +695,17 @@ ${knowledge}`,
           const completionNudge = this.getCompletionContinuationNudge(
             userMessage,
             assistantMessage,
-            allToolCalls,
-            completionNudges,
+            turn.toolCalls,
+            turn.completionNudges,
           );
           if (completionNudge) {
-            completionNudges++;
+            streamer.reset();
+            turn.completionNudges++;
             if (assistantMessage) {
               context.addMessage({ role: 'assistant', content: assistantMessage });
             }
             context.addMessage({ role: 'system', content: completionNudge });
+            this.saveCheckpoint(turn, 'running');
             this.emit('stream', {
               traceId,
               sessionId,
@@ -660,18 +719,20 @@ ${knowledge}`,
         // No tool calls — this is the final response
         finalResponse = assistantMessage;
 
-        // Stream the response
+        // Stream the response, unless the provider already streamed it
         if (message.content) {
           const sanitizedThought = message.content
             .replace(/\[Historical context:.*?\]/gs, '')
             .trim();
           auditLogger.logThinking(traceId, sanitizedThought);
-          this.emit('stream', {
-            traceId,
-            sessionId,
-            streamType: 'response',
-            delta: sanitizedThought,
-          });
+          if (!streamer.text) {
+            this.emit('stream', {
+              traceId,
+              sessionId,
+              streamType: 'response',
+              delta: sanitizedThought,
+            });
+          }
         }
 
         // Add assistant response to context
@@ -723,14 +784,21 @@ ${knowledge}`,
       trace.endTime = Date.now();
       trace.outcome = finalResponse.slice(0, 200);
       trace.status = 'completed';
+
+      // The turn finished; its recovery state is no longer needed
+      this.config.memoryDb?.deleteTurnCheckpoint(traceId);
     } catch (error: any) {
+      const cancelled = signal.aborted || error instanceof CancelledError;
       trace.endTime = Date.now();
-      trace.status = 'failed';
+      trace.status = cancelled ? 'cancelled' : 'failed';
       trace.outcome = error.message;
+      this.config.memoryDb?.setTurnCheckpointStatus(traceId, cancelled ? 'cancelled' : 'failed');
 
       // Provide a user-friendly error instead of raw stack trace
       const msg = error.message || String(error);
-      if (msg.includes('All models failed')) {
+      if (cancelled) {
+        finalResponse = 'The request was cancelled.';
+      } else if (msg.includes('All models failed')) {
         finalResponse = `I encountered an error: ${msg}`;
       } else if (msg.includes('No API key')) {
         finalResponse = `I can't respond because: ${msg}`;
@@ -752,7 +820,7 @@ ${knowledge}`,
     this.emit('trace_end', trace);
 
     // Index the turn into episodic memory
-    if (this.config.memoryStore && finalResponse) {
+    if (this.config.memoryStore && finalResponse && trace.status !== 'cancelled') {
       this.config.memoryStore
         .add(
           `[USER]: ${userMessage}\n[ASSISTANT]: ${finalResponse}`,
@@ -772,19 +840,266 @@ ${knowledge}`,
     return {
       response: finalResponse,
       trace,
-      toolCalls: allToolCalls,
+      toolCalls: turn.toolCalls,
+      citations: turn.citations,
+    };
+  }
+
+  /**
+   * Executes a single tool call requested by the model and appends its result to the context.
+   * @param tc - Tool call from the model response.
+   * @param turn - Turn state.
+   * @param windowLimit - Context window of the active model, used to guard oversized results.
+   * @param model - Active model, whose tokenizer measures the result.
+   */
+  private async executeToolCall(
+    tc: OpenAI.ChatCompletionMessageToolCall,
+    turn: TurnState,
+    windowLimit: number,
+    model?: ActiveModel,
+  ): Promise<void> {
+    const { sessionId, overrides, context } = turn;
+    const traceId = turn.trace.id;
+    const toolCall: ToolCall = {
+      id: tc.id,
+      name: tc.function.name,
+      arguments: {
+        ...JSON.parse(tc.function.arguments),
+        sessionId,
+        workspaceId: overrides?.workspaceId,
+      },
     };
+
+    turn.toolCalls.push(toolCall);
+
+    if (this.config.eventBus) {
+      this.config.eventBus.publish(
+        AgentEvents.TOOL_CALL,
+        {
+          sessionId,
+          tool: toolCall.name,
+          args: toolCall.arguments,
+          traceId,
+        },
+        'AgentRuntime',
+      );
+    }
+
+    // Emit tool call event for live console
+    this.emit('stream', {
+      traceId,
+      sessionId,
+      streamType: 'tool_call',
+      delta: `Calling tool: ${toolCall.name}`,
+      metadata: { tool: toolCall.name, args: toolCall.arguments },
+    });
+
+    auditLogger.logToolCall(traceId, toolCall.name, toolCall.arguments);
+    if (this.config.memoryDb) {
+      this.config.memoryDb.addActionLog(
+        traceId,
+        'tool_call',
+        {
+          tool: toolCall.name,
+          arguments: toolCall.arguments,
+        },
+        'success',
+      );
+    }
+
+    // Check if tool requires approval
+    const toolDef = this.config.toolRegistry.get(toolCall.name);
+    const isAutonomous = (overrides?.agentMode || this.config.agentMode) === 'scheduled';
+    const bypassWhitelist = [
+      'spawn_swarm_agent',
+      'delegate_task',
+      'send_message',
+      'list_agents',
+      'check_inbox',
+    ];
+
+    const needsApproval =
+      toolDef?.requiresApproval && (!isAutonomous || !bypassWhitelist.includes(toolCall.name));
+
+    if (needsApproval && this.config.onApprovalRequired) {
+      const approved = await untilAborted(
+        this.config.onApprovalRequired(
+          `Tool "${toolCall.name}" wants to execute: ${JSON.stringify(toolCall.arguments)}`,
+          { sessionId, workspaceId: overrides?.workspaceId },
+        ),
+        turn.signal,
+        'Session aborted.',
+      );
+      if (!approved) {
+        context.addMessage({
+          role: 'tool',
+          tool_call_id: tc.id,
+          content: 'Action rejected by user.',
+        });
+        return;
+      }
+    }
+
+    // Execute the tool
+    const result = await this.config.toolRegistry.execute(toolCall, {
+      sessionId,
+      agentId: overrides?.agentId || this.config.agentId, // Pass correct agentId to tools
+      workspaceId: overrides?.workspaceId || this.config.workspacePath,
+      memoryWorkspaceId: overrides?.workspaceId ?? null,
+      agentMode: this.config.agentMode,
+      traceId,
+      signal: turn.signal,
+    });
+
+    // Phase 2.2: Error Recovery
+    if (result.isError && this.config.toolErrorHandler) {
+      const analysis = this.config.toolErrorHandler.analyze(result.result, toolCall.name, 1);
+      // Append analysis to the result so the model sees it
+      if (typeof result.result === 'string') {
+        const recoveryMsg = this.config.toolErrorHandler.formatErrorForContext(
+          { message: result.result },
+          analysis,
+        );
+        result.result += recoveryMsg;
+        if (result.envelope) result.envelope.text = result.result as string;
+
+        // Emit recovery event for dashboard
+        this.emit('stream', {
+          traceId,
+          sessionId,
+          streamType: 'recovery',
+          delta: `Self-Correction: ${analysis.strategy.replace('_', ' ')} suggested.`,
+        });
+      }
+    }
+
+    if (this.config.eventBus) {
+      this.config.eventBus.publish(
+        AgentEvents.TOOL_RESULT,
+        {
+          sessionId,
+          tool: toolCall.name,
+          result: result.result,
+          isError: result.isError,
+          traceId,
+        },
+        'AgentRuntime',
+      );
+    }
+
+    auditLogger.logToolResult(traceId, toolCall.name, result.result, result.isError);
+    if (this.config.memoryDb) {
+      this.config.memoryDb.addActionLog(
+        traceId,
+        'tool_result',
+        {
+          tool: toolCall.name,
+          result: result.result,
+          isError: result.isError,
+        },
+        result.isError ? 'error' : 'success',
+      );
+    }
+
+    this.emit('stream', {
+      traceId,
+      sessionId,
+      streamType: 'tool_result',
+      delta: `Tool ${toolCall.name}: ${result.isError ? 'ERROR' : 'OK'}`,
+      metadata: { result: result.result },
+    });
+
+    // Add tool result to context with Oversized Message Guard
+    // (oversized outputs are already spilled to artifacts by the registry)
+    let finalResult = formatToolResultForContext(result);
+
+    // Guard against massive tool outputs
+    finalResult = await this.config.compactor.guardLargeMessage(
+      finalResult,
+      windowLimit,
+      sessionId,
+      model,
+    );
+
+    context.addMessage({
+      role: 'tool',
+      tool_call_id: tc.id,
+      content: finalResult,
+    });
+  }
+
+  /**
+   * Resolves the model the turn is using and the share of its window the history may fill.
+   * @param overrides - Run overrides.
+   * @param tools - Tool schemas sent with every call.
+   * @returns The active model (undefined when none is configured) and its context budget.
+   */
+  private async getContextBudget(
+    overrides?: AgentRunOverrides,
+    tools?: OpenAI.ChatCompletionTool[],
+  ): Promise<{ model?: ActiveModel; budget: ContextBudget }> {
+    const roleToUse = overrides?.modelRole || this.config.defaultModelRole;
+    const model = await this.config.modelRouter.resolveActiveModel(overrides?.modelId || roleToUse);
+    const budget = this.config.compactor.contextBudget(model, tools, this.config.contextSoftLimit);
+    return { model, budget };
+  }
+
+  /**
+   * Persists the current turn state so it can be resumed after a restart.
+   * @param turn - Turn state.
+   * @param status - Checkpoint status.
+   */
+  private saveCheckpoint(turn: TurnState, status: TurnCheckpointStatus): void {
+    if (!this.config.memoryDb) return;
+    try {
+      this.config.memoryDb.saveTurnCheckpoint({
+        traceId: turn.trace.id,
+        sessionId: turn.sessionId,
+        workspaceId: turn.overrides?.workspaceId,
+        agentId: turn.overrides?.agentId,
+        status,
+        userMessage: turn.userMessage,
+        overrides: turn.overrides,
+        messages: turn.context.getMessages().slice(1),
+        toolCalls: turn.toolCalls,
+        pendingToolCalls: turn.pendingToolCalls,
+        citations: turn.citations,
+        iteration: turn.iterations,
+      });
+    } catch (err) {
+      console.error('[Runtime] Failed to checkpoint turn:', err);
+    }
+  }
+
+  /**
+   * Drops the session's resumable checkpoints once a newer turn starts.
+   * @param sessionId - Session id.
+   */
+  private discardResumableTurns(sessionId: string): void {
+    if (!this.config.memoryDb) return;
+    try {
+      for (const checkpoint of this.config.memoryDb.listTurnCheckpoints({
+        sessionId,
+        statuses: RESUMABLE_STATUSES,
+      })) {
+        this.config.memoryDb.deleteTurnCheckpoint(checkpoint.traceId);
+      }
+    } catch (err) {
+      console.error('[Runtime] Failed to discard stale checkpoints:', err);
+    }
   }
 
   /**
    * Executes compact context.
    * @param traceId - Trace id.
    * @param sessionId - Session id.
+   * @param workspaceId - Workspace the summary belongs to.
    */
   private async compactContext(
     context: ContextManager,
     traceId: string,
     sessionId: string,
+    workspaceId?: string,
   ): Promise<void> {
     this.emit('stream', {
       traceId,
@@ -814,6 +1129,7 @@ ${knowledge}`,
           sessionId,
         },
         'episodic_summary',
+        workspaceId,
       );
     }
   }
@@ -821,12 +1137,15 @@ ${knowledge}`,
   /**
    * Executes build memory context.
    * @param query - Query.
+   * @param workspaceId - Workspace of the turn; global memories only when omitted.
    * @returns The build memory context result.
    */
-  private async buildMemoryContext(query: string): Promise<string | null> {
+  private async buildMemoryContext(query: string, workspaceId?: string): Promise<string | null> {
     if (!this.config.memoryStore) return null;
     const topK = this.config.memoryTopK ?? 3;
-    const memories = await this.config.memoryStore.searchHybrid(query, topK);
+    const memories = await this.config.memoryStore.searchHybrid(query, topK, {
+      workspaceId: workspaceId ?? null,
+    });
     if (memories.length === 0) return null;
 
     const lines = memories.map((m) => `- ${m.content}`);
@@ -873,6 +1192,8 @@ ${knowledge}`,
       completionTokens: number;
       totalTokens: number;
       estimatedCost?: number;
+      agentId?: string;
+      tier?: number;
     },
     sessionId: string,
   ): void {
@@ -899,6 +1220,8 @@ ${knowledge}`,
       completionTokens: usage.completionTokens,
       totalTokens: usage.totalTokens,
       cost: usage.estimatedCost ?? 0,
+      agentId: usage.agentId,
+      tier: usage.tier,
     });
   }
 
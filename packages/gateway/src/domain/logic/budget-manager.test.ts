@@ -0,0 +1,83 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BudgetConfigSchema, type BudgetConfig } from '@adytum/shared';
+import { MemoryDB } from '../../infrastructure/repositories/memory-db.js';
+import { BudgetManager } from './budget-manager.js';
+import { tokenTracker } from './token-tracker.js';
+
+describe('BudgetManager', () => {
+  let dataPath: string;
+  let memoryDb: MemoryDB;
+  let settings: BudgetConfig;
+
+  const spend = (cost: number, extra: { sessionId?: string; tier?: number } = {}) =>
+    memoryDb.addTokenUsage({
+      sessionId: extra.sessionId ?? 's1',
+      provider: 'openai',
+      model: 'gpt-4o',
+      modelId: 'openai/gpt-4o',
+      role: 'thinking',
+      promptTokens: 100,
+      completionTokens: 100,
+      totalTokens: 200,
+      cost,
+      tier: extra.tier,
+    });
+
+  beforeEach(() => {
+    dataPath = mkdtempSync(join(tmpdir(), 'adytum-budget-'));
+    memoryDb = new MemoryDB(dataPath);
+    settings = BudgetConfigSchema.parse({
+      daily: { maxCost: 10 },
+      session: { maxCost: 1 },
+      tiers: { '3': { maxCost: 2 } },
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dataPath, { recursive: true, force: true });
+  });
+
+  it('reports session, tier and daily budgets from token usage rows', () => {
+    const manager = new BudgetManager(
+      memoryDb,
+      () => settings,
+      (id) => (id === 'worker' ? 3 : undefined),
+    );
+    spend(0.85, { sessionId: 's1' });
+    spend(2.5, { sessionId: 's2', tier: 3 });
+
+    const forWorker = manager.check({ sessionId: 's1', agentId: 'worker' });
+    expect(forWorker.tier).toBe(3);
+    expect(forWorker.exceeded.map((b) => b.scope)).toEqual(['tier']);
+    expect(forWorker.warnings.map((b) => b.scope)).toEqual(['session']);
+
+    const forOther = manager.check({ sessionId: 's3' });
+    expect(forOther.exceeded).toEqual([]);
+    expect(forOther.warnings).toEqual([]);
+  });
+
+  it('sends each budget warning once per period', () => {
+    const manager = new BudgetManager(memoryDb, () => settings);
+    const listener = vi.fn();
+    tokenTracker.on('token_update', listener);
+
+    const status = {
+      scope: 'daily' as const,
+      status: 'exceeded' as const,
+      spentCost: 12,
+      spentTokens: 0,
+      limit: { maxCost: 10 },
+      action: 'refused' as const,
+    };
+    manager.notify(status, { sessionId: 's1' });
+    manager.notify(status, { sessionId: 's2' });
+    tokenTracker.off('token_update', listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({ sessionId: 's1', budget: status });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @file packages/gateway/src/domain/logic/budget-manager.ts
+ * @description Contains domain logic and core business behavior.
+ */
+
+import type {
+  AgentTier,
+  BudgetConfig,
+  BudgetLimit,
+  BudgetScope,
+  BudgetStatus,
+  ModelRole,
+} from '@adytum/shared';
+import type { MemoryDB, TokenUsageFilter } from '../../infrastructure/repositories/memory-db.js';
+import { tokenTracker } from './token-tracker.js';
+import { AppError } from '../errors/app-error.js';
+
+export interface BudgetContext {
+  sessionId?: string;
+  agentId?: string;
+  tier?: AgentTier;
+}
+
+export interface BudgetCheck {
+  /** Budgets over their limit, most specific scope first. */
+  exceeded: Array<Omit<BudgetStatus, 'action' | 'role'>>;
+  /** Budgets past the warning threshold but still under their limit. */
+  warnings: Array<Omit<BudgetStatus, 'action' | 'role'>>;
+  onExceeded: BudgetConfig['onExceeded'];
+  downgradeRoles: ModelRole[];
+  tier?: AgentTier;
+}
+
+/** Thrown when a budget is spent and the call may not be downgraded. */
+export class BudgetExceededError extends AppError {
+  constructor(public readonly budget: Omit<BudgetStatus, 'action' | 'role'>) {
+    const spent = budget.limit.maxCost
+      ? `$${budget.spentCost.toFixed(2)} of $${budget.limit.maxCost.toFixed(2)}`
+      : `${budget.spentTokens} of ${budget.limit.maxTokens} tokens`;
+    super(`The ${budget.scope} budget is exhausted (${spent}).`, 402);
+  }
+}
+
+/**
+ * Enforces daily, monthly, per-session and per-tier spending limits from `budgets` in the
+ * config, using the `token_usage` rows in MemoryDB. Warnings and hits are pushed to the
+ * dashboard as `token_update` frames, once per budget period.
+ */
+export class BudgetManager {
+  private notified = new Set<string>();
+
+  constructor(
+    private memoryDb: MemoryDB,
+    private getSettings: () => BudgetConfig | undefined,
+    private resolveTier?: (agentId: string) => AgentTier | undefined,
+  ) {}
+
+  /**
+   * Whether a daily or monthly budget is configured.
+   * @returns True when system-wide spending is limited.
+   */
+  hasGlobalBudget(): boolean {
+    const settings = this.getSettings();
+    return Boolean(settings?.daily || settings?.monthly);
+  }
+
+  /**
+   * Checks every budget that applies to a call.
+   * @param context - Session and agent making the call.
+   * @returns The budgets over or near their limits.
+   */
+  check(context: BudgetContext = {}): BudgetCheck {
+    const settings = this.getSettings();
+    const tier =
+      context.tier ?? (context.agentId ? this.resolveTier?.(context.agentId) : undefined);
+    const result: BudgetCheck = {
+      exceeded: [],
+      warnings: [],
+      onExceeded: settings?.onExceeded ?? 'downgrade',
+      downgradeRoles: settings?.downgradeRoles ?? ['fast', 'local'],
+      tier,
+    };
+    if (!settings) return result;
+
+    const now = new Date();
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+    const budgets: Array<{ scope: BudgetScope; limit?: BudgetLimit; filter: TokenUsageFilter }> = [
+      {
+        scope: 'session',
+        limit: context.sessionId ? settings.session : undefined,
+        filter: { sessionIds: [context.sessionId!] },
+      },
+      {
+        scope: 'tier',
+        limit: tier ? settings.tiers[String(tier) as '1' | '2' | '3'] : undefined,
+        filter: { from: startOfDay, tiers: [tier!] },
+      },
+      { scope: 'daily', limit: settings.daily, filter: { from: startOfDay } },
+      { scope: 'monthly', limit: settings.monthly, filter: { from: startOfMonth } },
+    ];
+
+    for (const { scope, limit, filter } of budgets) {
+      if (!limit || (limit.maxCost === undefined && limit.maxTokens === undefined)) continue;
+      const totals = this.memoryDb.getTokenUsageTotals(filter);
+      const usage = {
+        scope,
+        spentCost: totals.cost,
+        spentTokens: totals.tokens,
+        limit,
+      };
+      const ratio = Math.max(
+        limit.maxCost ? totals.cost / limit.maxCost : 0,
+        limit.maxTokens ? totals.tokens / limit.maxTokens : 0,
+      );
+      if (ratio >= 1) result.exceeded.push({ ...usage, status: 'exceeded' });
+      else if (ratio >= settings.warnAt) result.warnings.push({ ...usage, status: 'warning' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Sends a budget status to the dashboard as a `token_update` frame, once per budget period.
+   * @param status - Budget status.
+   * @param context - Session and agent making the call.
+   */
+  notify(status: BudgetStatus, context: BudgetContext = {}): void {
+    const period =
+      status.scope === 'session'
+        ? context.sessionId
+        : status.scope === 'monthly'
+          ? new Date().toISOString().slice(0, 7)
+          : new Date().toISOString().slice(0, 10);
+    const key = `${status.scope}:${status.scope === 'tier' ? context.tier : ''}:${period}:${status.action}`;
+    if (this.notified.has(key)) return;
+    this.notified.add(key);
+    tokenTracker.warnBudget(status, context.sessionId);
+  }
+}
@@ -28,10 +28,11 @@ describe('Compactor', () => {
   });
 
   describe('estimateTokens', () => {
-    it('should estimate tokens based on word count', () => {
-      const text = 'Hello world from Adytum'; // 4 words
-      // 4 * 1.35 = 5.4 -> ceil = 6 + 5 = 11
-      expect(compactor.estimateTokens(text)).toBe(11);
+    it("should count tokens with the model's tokenizer", () => {
+      const gpt = { provider: 'openai', model: 'gpt-4o' };
+      expect(compactor.estimateTokens('Hello world', gpt)).toBe(2);
+      // A word count sees one "word" here; o200k splits it into 16 tokens
+      expect(compactor.estimateTokens('我们希望按模型家族使用基于分词器的计数。', gpt)).toBe(16);
     });
 
     it('should return 0 for empty content', () => {
@@ -40,6 +41,32 @@ describe('Compactor', () => {
     });
   });
 
+  describe('contextBudget', () => {
+    it("should derive the compaction threshold from the model's window", () => {
+      const model = {
+        provider: 'anthropic',
+        model: 'claude-sonnet-4',
+        contextWindow: 200000,
+        maxTokens: 8192,
+      };
+      const tools: OpenAI.ChatCompletionTool[] = [
+        {
+          type: 'function',
+          function: { name: 'file_read', description: 'Read a file', parameters: {} },
+        },
+      ];
+
+      const budget = compactor.contextBudget(model);
+      expect(budget.compactAt).toBe(Math.floor((200000 - 8192) * 0.85));
+      expect(compactor.contextBudget(model, tools).compactAt).toBeLessThan(budget.compactAt);
+      // An explicit soft limit lowers the threshold but never raises it
+      expect(compactor.contextBudget(model, [], 40000).compactAt).toBe(40000);
+      expect(compactor.contextBudget(model, [], 500000).compactAt).toBe(budget.compactAt);
+      // Unknown models get a 32k window
+      expect(compactor.contextBudget(undefined).contextWindow).toBe(32000);
+    });
+  });
+
   describe('findSafeCutPoint', () => {
     it("should find a safe cut point that doesn't orphan tool calls", () => {
       const messages: OpenAI.ChatCompletionMessageParam[] = [
@@ -5,11 +5,31 @@
 
 import { singleton, inject } from 'tsyringe';
 import type OpenAI from 'openai';
-import { ModelRouter } from '../../infrastructure/llm/model-router.js';
+import { ModelRouter, type ActiveModel } from '../../infrastructure/llm/model-router.js';
+import {
+  countContentTokens,
+  countMessageTokens,
+  countToolTokens,
+  type TokenizerModel,
+} from '../../infrastructure/llm/tokenizer.js';
 import { Logger } from '../../logger.js';
 
 const DEFAULT_BUFFER_MESSAGES = 8;
-const WORD_TO_TOKEN_RATIO = 1.35; // Conservative estimate for GPT-style models
+const DEFAULT_CONTEXT_WINDOW = 32000;
+const DEFAULT_OUTPUT_RESERVE = 4096;
+const MAX_OUTPUT_RESERVE_SHARE = 0.25; // Never reserve more than this share of the window for output
+const COMPACTION_THRESHOLD = 0.85; // Compact once history fills this share of the usable window
+
+/** How much of a model's context window the conversation history may fill. */
+export interface ContextBudget {
+  contextWindow: number;
+  /** Tokens kept free for the reply. */
+  outputReserve: number;
+  /** Tokens taken by the tool schemas sent with every call. */
+  toolTokens: number;
+  /** History size (in tokens) at which compaction runs. */
+  compactAt: number;
+}
 
 @singleton()
 export class Compactor {
@@ -19,20 +39,52 @@ export class Compactor {
   ) {}
 
   /**
-   * Estimates tokens naively but conservatively based on word count.
+   * Counts tokens with the tokenizer of the model's family.
+   * @param content - Message content.
+   * @param model - Model the content is sent to; a generic profile is used without one.
    */
-  public estimateTokens(content: string | any[] | null | undefined): number {
-    if (!content) return 0;
-    const text = typeof content === 'string' ? content : JSON.stringify(content);
-    const words = text.trim().split(/\s+/).length;
-    return Math.ceil(words * WORD_TO_TOKEN_RATIO) + 5; // +5 for message overhead
+  public estimateTokens(
+    content: string | any[] | null | undefined,
+    model?: TokenizerModel,
+  ): number {
+    return countContentTokens(content, model);
   }
 
   /**
-   * Estimates tokens for a full message array.
+   * Counts tokens for a full request: messages, including their overhead, and tool schemas.
    */
-  public estimateContextTokens(messages: OpenAI.ChatCompletionMessageParam[]): number {
-    return messages.reduce((acc, m) => acc + this.estimateTokens(m.content), 0);
+  public estimateContextTokens(
+    messages: OpenAI.ChatCompletionMessageParam[],
+    tools?: OpenAI.ChatCompletionTool[],
+    model?: TokenizerModel,
+  ): number {
+    return countMessageTokens(messages, model) + countToolTokens(tools, model);
+  }
+
+  /**
+   * Derives the compaction threshold from the active model's window: the window minus the
+   * reply reserve and the tool schemas. An explicit `contextSoftLimit` can only lower it.
+   *
+   * @param model - Active model; unknown models get a 32k window.
+   * @param tools - Tool schemas sent with every call.
+   * @param softLimit - `contextSoftLimit` when set in the config.
+   */
+  public contextBudget(
+    model: ActiveModel | undefined,
+    tools?: OpenAI.ChatCompletionTool[],
+    softLimit?: number,
+  ): ContextBudget {
+    const contextWindow = model?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    const outputReserve = Math.min(
+      model?.maxTokens || DEFAULT_OUTPUT_RESERVE,
+      Math.floor(contextWindow * MAX_OUTPUT_RESERVE_SHARE),
+    );
+    const toolTokens = countToolTokens(tools, model);
+    let compactAt = Math.floor(
+      Math.max(0, contextWindow - outputReserve - toolTokens) * COMPACTION_THRESHOLD,
+    );
+    if (softLimit && softLimit > 0) compactAt = Math.min(compactAt, softLimit);
+    return { contextWindow, outputReserve, toolTokens, compactAt };
   }
 
   /**
@@ -95,6 +147,7 @@ ${text.slice(0, 50000)} ${text.length > 50000 ? '... [TRUNCATED]' : ''}`;
     try {
       const { message } = await this.modelRouter.chat('fast', [{ role: 'user', content: prompt }], {
         temperature: 0.3,
+        cache: true,
       });
 
       return message.content || '[Summarization Failed]';
@@ -146,8 +199,9 @@ ${text.slice(0, 50000)} ${text.length > 50000 ? '... [TRUNCATED]' : ''}`;
     content: string,
     limit: number,
     sessionId?: string,
+    model?: TokenizerModel,
   ): Promise<string> {
-    const estimatedTokens = this.estimateTokens(content);
+    const estimatedTokens = this.estimateTokens(content, model);
     if (estimatedTokens < limit * 0.5) return content;
 
     this.logger.warn(
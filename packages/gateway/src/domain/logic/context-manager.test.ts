@@ -30,18 +30,25 @@ describe('ContextManager', () => {
   });
 
   it('should estimate token count correctly', () => {
+    contextManager.setTokenizerModel({ provider: 'openai', model: 'gpt-4o' });
     contextManager.setSystemPrompt('You are helpful.');
     contextManager.addMessage({ role: 'user', content: 'Hi' });
-    // 'You are helpful.' (16) + 'Hi' (2) = 18 chars.
-    // 18 / 4 = 4.5 -> ceil = 5.
-    expect(contextManager.estimateTokenCount()).toBe(5);
+    // 'You are helpful.' (4) + 'Hi' (1), 5 per message for role and delimiters, 3 to prime the reply
+    expect(contextManager.estimateTokenCount()).toBe(18);
+  });
+
+  it('should reuse the system message until the prompt changes', () => {
+    contextManager.setSystemPrompt('You are helpful.');
+    const system = contextManager.getMessages()[0];
+    contextManager.addMessage({ role: 'user', content: 'Hi' });
+    expect(contextManager.getMessages()[0]).toBe(system);
+    contextManager.setSystemPrompt('You are terse.');
+    expect(contextManager.getMessages()[0]).toEqual({ role: 'system', content: 'You are terse.' });
   });
 
   it('should trigger compaction when limit exceeded', () => {
     // limit = 100.
-    // Let's add enough text to exceed 400 chars (100 tokens * 4 chars).
-    const longText = 'a'.repeat(401);
-    contextManager.addMessage({ role: 'user', content: longText });
+    contextManager.addMessage({ role: 'user', content: 'word '.repeat(100) });
     expect(contextManager.needsCompaction()).toBe(true);
   });
 
@@ -4,6 +4,7 @@
  */
 
 import type OpenAI from 'openai';
+import { countMessageTokens, type TokenizerModel } from '../../infrastructure/llm/tokenizer.js';
 
 /**
  * Manages the conversation context for an agent session.
@@ -11,8 +12,10 @@ import type OpenAI from 'openai';
  */
 export class ContextManager {
   private messages: OpenAI.ChatCompletionMessageParam[] = [];
-  private systemPrompt: string = '';
+  // Replaced only by setSystemPrompt, so the tokenizer's per-message memo counts it once
+  private systemMessage: OpenAI.ChatCompletionSystemMessageParam = { role: 'system', content: '' };
   private softLimit: number;
+  private tokenizerModel?: TokenizerModel;
 
   /**
    * Creates a new ContextManager instance.
@@ -28,7 +31,16 @@ export class ContextManager {
    * @param prompt - The system prompt string.
    */
   setSystemPrompt(prompt: string): void {
-    this.systemPrompt = prompt;
+    if (prompt === this.systemMessage.content) return;
+    this.systemMessage = { role: 'system', content: prompt };
+  }
+
+  /**
+   * Sets the model whose tokenizer counts this context.
+   * @param model - Active model, or undefined for the generic profile.
+   */
+  setTokenizerModel(model: TokenizerModel | undefined): void {
+    this.tokenizerModel = model;
   }
 
   /**
@@ -41,27 +53,20 @@ export class ContextManager {
 
   /**
    * Retrieves the full array of messages including the system prompt.
-   * Constructed dynamically on each call.
+   * The array is built on each call; the system message object is reused until the prompt changes.
    * @returns An array of chat completion messages starting with the system prompt.
    */
   getMessages(): OpenAI.ChatCompletionMessageParam[] {
-    return [{ role: 'system', content: this.systemPrompt }, ...this.messages];
+    return [this.systemMessage, ...this.messages];
   }
 
   /**
-   * Estimates the token count of the current context.
-   * Note: This is a placeholder for external estimation if needed,
-   * but usually AgentRuntime will use the Compactor service.
-   * @returns The estimated number of tokens (naive character-based).
+   * Counts the tokens of the current context, system prompt included, with the tokenizer of
+   * the model set by `setTokenizerModel`.
+   * @returns The number of tokens.
    */
   estimateTokenCount(): number {
-    const text = this.messages
-      .map((m) => {
-        if (typeof m.content === 'string') return m.content;
-        return JSON.stringify(m.content);
-      })
-      .join(' ');
-    return Math.ceil((text.length + this.systemPrompt.length) / 4);
+    return countMessageTokens(this.getMessages(), this.tokenizerModel);
   }
 
   /**
@@ -0,0 +1,76 @@
+/**
+ * @file packages/gateway/src/domain/logic/memory-decay.ts
+ * @description Importance and recency scoring used to rank, retain and expire memories.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HALF_LIFE_DAYS = 30;
+
+/** Importance of a memory without an explicit value, by category. */
+export const CATEGORY_IMPORTANCE: Record<string, number> = {
+  user_fact: 0.8,
+  preference: 0.8,
+  fact: 0.7,
+  milestone: 0.7,
+  episodic_summary: 0.6,
+  general: 0.5,
+  doc_chunk: 0.5,
+  dream: 0.4,
+  curiosity: 0.4,
+  monologue: 0.3,
+  episodic_raw: 0.2,
+};
+
+/** Categories that describe documents rather than experiences, so age does not matter. */
+const DECAY_EXEMPT = new Set(['doc_chunk']);
+
+export interface ScoredMemory {
+  category: string;
+  createdAt?: number;
+  pinned?: boolean;
+  importance?: number | null;
+  accessCount?: number;
+  lastAccessedAt?: number | null;
+}
+
+/**
+ * Returns a memory's importance, falling back to its category default.
+ * @param memory - Memory.
+ * @returns Importance between 0 and 1.
+ */
+export function memoryImportance(memory: ScoredMemory): number {
+  return memory.importance ?? CATEGORY_IMPORTANCE[memory.category] ?? 0.5;
+}
+
+/**
+ * Scores a memory by importance, decayed by the time since it was created or last recalled,
+ * plus a small bonus for being recalled often. Pinned memories always score 1.
+ * @param memory - Memory.
+ * @param now - Current time in ms.
+ * @param halfLifeDays - Days after which the recency weight halves.
+ * @returns Score between 0 and 1.
+ */
+export function memoryScore(
+  memory: ScoredMemory,
+  now: number = Date.now(),
+  halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS,
+): number {
+  if (memory.pinned) return 1;
+  const lastSeen = Math.max(memory.createdAt ?? now, memory.lastAccessedAt ?? 0);
+  const ageDays = Math.max(0, now - lastSeen) / DAY_MS;
+  const recency = DECAY_EXEMPT.has(memory.category) ? 1 : 0.5 ** (ageDays / halfLifeDays);
+  const reinforcement = Math.min(1, Math.log2(1 + (memory.accessCount ?? 0)) / 5);
+  return Math.min(1, memoryImportance(memory) * recency + 0.2 * reinforcement);
+}
+
+/**
+ * Days since a memory was created or last recalled.
+ * @param memory - Memory.
+ * @param now - Current time in ms.
+ * @returns Idle days.
+ */
+export function memoryIdleDays(memory: ScoredMemory, now: number = Date.now()): number {
+  const lastSeen = Math.max(memory.createdAt ?? now, memory.lastAccessedAt ?? 0);
+  return Math.max(0, now - lastSeen) / DAY_MS;
+}
@@ -0,0 +1,126 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Plan } from '@adytum/shared';
+import { ParallelExecutor } from './parallel-executor.js';
+import { ToolErrorHandler } from './tool-error-handler.js';
+
+describe('ParallelExecutor', () => {
+  let executor: ParallelExecutor;
+  let mockToolRegistry: any;
+  let handlers: Record<string, (args: any, context: any) => Promise<unknown>>;
+
+  beforeEach(() => {
+    handlers = {};
+    mockToolRegistry = {
+      get: vi.fn((name: string) => (handlers[name] ? { name } : undefined)),
+      execute: vi.fn(async (call: any, context: any) => {
+        try {
+          const result = await handlers[call.name](call.arguments, context);
+          return { toolCallId: call.id, name: call.name, result, isError: false };
+        } catch (err: any) {
+          return { toolCallId: call.id, name: call.name, result: err.message, isError: true };
+        }
+      }),
+    };
+    executor = new ParallelExecutor(mockToolRegistry, new ToolErrorHandler());
+  });
+
+  const step = (id: string, tool: string, dependencies: string[] = []) => ({
+    id,
+    description: id,
+    tool,
+    args: { id },
+    dependencies,
+  });
+
+  it('runs independent steps concurrently and respects the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    handlers.work = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      active--;
+      return 'ok';
+    };
+    const plan: Plan = {
+      goal: 'parallel',
+      steps: [step('a', 'work'), step('b', 'work'), step('c', 'work'), step('d', 'work', ['a'])],
+    };
+
+    const results = await executor.execute(plan, { concurrency: 2 });
+
+    expect(Object.values(results).every((r) => r.status === 'completed')).toBe(true);
+    expect(peak).toBe(2);
+  });
+
+  it('retries recoverable errors and skips dependents of failed steps', async () => {
+    let calls = 0;
+    handlers.flaky = async () => {
+      calls++;
+      if (calls === 1) throw new Error('Request timed out');
+      return 'recovered';
+    };
+    handlers.broken = async () => {
+      throw new Error('Access denied');
+    };
+    handlers.work = async () => 'ok';
+    const plan: Plan = {
+      goal: 'failures',
+      steps: [
+        step('flaky', 'flaky'),
+        step('broken', 'broken'),
+        step('after_broken', 'work', ['broken']),
+        step('after_flaky', 'work', ['flaky']),
+      ],
+    };
+
+    const results = await executor.execute(plan, { retryDelayMs: 0 });
+
+    expect(results.flaky).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(results.broken).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(results.after_broken.status).toBe('skipped');
+    expect(results.after_flaky.status).toBe('completed');
+  });
+
+  it('cancels remaining steps on fail-fast and reports cycles instead of hanging', async () => {
+    handlers.broken = async () => {
+      throw new Error('Access denied');
+    };
+    handlers.slow = (_args, context) =>
+      new Promise((resolve) => context.signal.addEventListener('abort', () => resolve('late')));
+    const plan: Plan = {
+      goal: 'fail fast',
+      steps: [
+        step('broken', 'broken'),
+        step('slow', 'slow'),
+        step('x', 'slow', ['y']),
+        step('y', 'slow', ['x']),
+      ],
+    };
+
+    const frames: any[] = [];
+    executor.on('stream', (frame) => frames.push(frame));
+    const results = await executor.execute(plan, { failurePolicy: 'fail_fast' });
+
+    expect(results.broken.status).toBe('failed');
+    expect(results.slow.status).toBe('cancelled');
+    expect(results.x.status).toBe('failed');
+    expect(results.y.status).toBe('failed');
+    expect(frames.every((f) => f.streamType === 'plan_step')).toBe(true);
+    expect(frames.at(-1).metadata.plan.steps).toHaveLength(4);
+  });
+
+  it('stops when the session signal aborts', async () => {
+    handlers.slow = () => new Promise(() => {});
+    const controller = new AbortController();
+    const plan: Plan = { goal: 'abort', steps: [step('a', 'slow'), step('b', 'slow', ['a'])] };
+
+    const pending = executor.execute(plan, { signal: controller.signal });
+    controller.abort();
+    const results = await pending;
+
+    expect(results.a.status).toBe('cancelled');
+    expect(results.b.status).toBe('cancelled');
+  });
+});
@@ -1,111 +1,362 @@
 import { singleton, inject } from 'tsyringe';
+import { EventEmitter } from 'node:events';
+import { v4 as uuid } from 'uuid';
 import { Plan, PlanStep } from '@adytum/shared';
 import { ToolRegistry } from '../../tools/registry.js';
+import { CancelledError, untilAborted } from '../errors/cancelled-error.js';
 import { logger } from '../../logger.js';
 
-import { ToolErrorHandler } from './tool-error-handler.js';
+import { ToolErrorHandler, type ErrorAnalysis } from './tool-error-handler.js';
 
+export type PlanStepStatus = NonNullable<PlanStep['status']>;
+
+/**
+ * What happens to the rest of the plan when a step fails for good.
+ * - `skip`: dependents of the failed step are skipped, independent branches keep running.
+ * - `fail_fast`: every step that has not finished yet is cancelled.
+ */
+export type PlanFailurePolicy = 'skip' | 'fail_fast';
+
+export interface PlanExecutionOptions {
+  /** Maximum number of steps running at the same time. */
+  concurrency?: number;
+  /** Maximum retries per step; only errors `ToolErrorHandler` marks as retryable are retried. */
+  maxRetries?: number;
+  /** Base delay between retries, multiplied by the attempt number. */
+  retryDelayMs?: number;
+  failurePolicy?: PlanFailurePolicy;
+  /** Session signal; aborting it cancels pending and running steps. */
+  signal?: AbortSignal;
+  /** Used to route `plan_step` stream frames to the right dashboard session. */
+  sessionId?: string;
+  traceId?: string;
+  /** Tool execution context forwarded to every step (agentId, workspaceId, ...). */
+  toolContext?: Record<string, unknown>;
+}
+
+export interface PlanStepResult {
+  status: PlanStepStatus;
+  result?: unknown;
+  error?: string;
+  details?: string;
+  analysis?: ErrorAnalysis;
+  attempts: number;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/**
+ * Executes plan steps as a DAG: a step starts as soon as its dependencies complete, up to a
+ * concurrency limit. Every status change is emitted as a `plan_step` stream event.
+ */
 @singleton()
-export class ParallelExecutor {
+export class ParallelExecutor extends EventEmitter {
   constructor(
     @inject(ToolRegistry) private toolRegistry: ToolRegistry,
     @inject(ToolErrorHandler) private toolErrorHandler: ToolErrorHandler,
-  ) {}
+  ) {
+    super();
+  }
 
-  async execute(plan: Plan, context: any = {}): Promise<Record<string, any>> {
+  async execute(
+    plan: Plan,
+    options: PlanExecutionOptions = {},
+  ): Promise<Record<string, PlanStepResult>> {
     logger.debug({ goal: plan.goal }, 'ParallelExecutor: Starting execution');
 
-    const results: Record<string, any> = {};
-    const pending = new Set<PlanStep>(plan.steps);
-    const completed = new Set<string>();
-    const processing = new Set<string>();
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    const failurePolicy = options.failurePolicy ?? 'skip';
+    const planId = options.traceId || uuid();
 
-    // Basic loop for now - strictly waits for dependencies.
-    // In a real DAG engine, we'd use a more event-driven approach or Promise.allSettled on batches.
+    // Internal controller: aborted by the session signal or by a fail-fast failure
+    const controller = new AbortController();
+    const onExternalAbort = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', onExternalAbort, { once: true });
 
-    while (pending.size > 0) {
-      const canExecute: PlanStep[] = [];
+    const steps = new Map<string, PlanStep>();
+    for (const step of plan.steps) {
+      steps.set(step.id, { ...step, status: 'pending' });
+    }
+    const results: Record<string, PlanStepResult> = {};
+    const dependents = new Map<string, string[]>();
+    const remainingDeps = new Map<string, number>();
+    const ready: string[] = [];
+    const running = new Set<string>();
 
-      for (const step of pending) {
-        if (processing.has(step.id)) continue;
+    const update = (stepId: string, result: PlanStepResult) => {
+      const step = steps.get(stepId)!;
+      results[stepId] = result;
+      step.status = result.status;
+      step.attempts = result.attempts;
+      step.error = result.error;
+      step.result =
+        result.result === undefined
+          ? undefined
+          : typeof result.result === 'string'
+            ? result.result
+            : JSON.stringify(result.result);
+      this.emitStepUpdate(planId, plan.goal, step, Array.from(steps.values()), options);
+    };
 
-        const depsMet = step.dependencies.every((depId: string) => completed.has(depId));
-        if (depsMet) {
-          canExecute.push(step);
-        }
+    // Build the graph; unknown dependencies and cycles fail the affected steps up front
+    for (const step of steps.values()) {
+      const missing = step.dependencies.filter((depId) => !steps.has(depId));
+      if (missing.length > 0) {
+        update(step.id, {
+          status: 'failed',
+          error: `Unknown dependencies: ${missing.join(', ')}`,
+          attempts: 0,
+        });
+        continue;
+      }
+      remainingDeps.set(step.id, step.dependencies.length);
+      for (const depId of step.dependencies) {
+        dependents.set(depId, [...(dependents.get(depId) || []), step.id]);
       }
+    }
+    for (const stepId of this.findCycle(steps)) {
+      if (results[stepId]) continue;
+      update(stepId, {
+        status: 'failed',
+        error: 'Step is part of (or depends on) a dependency cycle.',
+        attempts: 0,
+      });
+    }
 
-      if (canExecute.length === 0 && processing.size === 0) {
-        // Deadlock or circular dependency
-        throw new Error('Plan execution gridlock: dependencies cannot be resolved.');
+    /** Marks every transitive dependent of a step as skipped. */
+    const skipDependents = (stepId: string) => {
+      for (const depId of dependents.get(stepId) || []) {
+        if (results[depId]) continue;
+        update(depId, {
+          status: 'skipped',
+          error: `Dependency ${stepId} did not complete.`,
+          attempts: 0,
+        });
+        skipDependents(depId);
       }
+    };
 
-      if (canExecute.length === 0) {
-        // Wait for currently processing tasks
-        await new Promise((resolve) => setTimeout(resolve, 100));
-        continue;
+    for (const stepId of remainingDeps.keys()) {
+      if (results[stepId]) continue;
+      const blockedBy = steps.get(stepId)!.dependencies.find((depId) => results[depId]);
+      if (blockedBy) {
+        // A dependency failed during validation
+        update(stepId, {
+          status: 'skipped',
+          error: `Dependency ${blockedBy} did not complete.`,
+          attempts: 0,
+        });
+        skipDependents(stepId);
+      } else if (remainingDeps.get(stepId) === 0) {
+        ready.push(stepId);
       }
+    }
+
+    await new Promise<void>((resolve) => {
+      const finishIfIdle = () => {
+        if (running.size > 0) return;
+        if (ready.length > 0 && !controller.signal.aborted) return;
 
-      // Execute batch in parallel
-      const promises = canExecute.map(async (step) => {
-        pending.delete(step);
-        processing.add(step.id);
-
-        try {
-          logger.debug({ stepId: step.id }, 'Executing step');
-          const result = await this.executeStep(step, context, results);
-          results[step.id] = result;
-          completed.add(step.id);
-        } catch (err: any) {
-          logger.error({ err, stepId: step.id }, 'Step execution failed');
-
-          // Enhance error with recovery suggestions
-          const errorMsg = err.message || String(err);
-          const analysis = this.toolErrorHandler.analyze(errorMsg, step.tool || 'unknown', 1);
-          const enhancedMsg = this.toolErrorHandler.formatErrorForContext(
-            { message: errorMsg },
-            analysis,
-          );
-
-          results[step.id] = {
-            error: errorMsg,
-            details: enhancedMsg,
-            analysis,
-          };
-
-          // For now, we continue best-effort, or we could strict fail.
-          // Marking as completed so dependents don't hang forever (though they might fail too).
-          completed.add(step.id);
-        } finally {
-          processing.delete(step.id);
+        // Nothing is running and nothing can start: whatever is left never will
+        for (const step of steps.values()) {
+          if (results[step.id]) continue;
+          update(step.id, {
+            status: controller.signal.aborted ? 'cancelled' : 'skipped',
+            error: controller.signal.aborted ? 'Plan execution was cancelled.' : undefined,
+            attempts: 0,
+          });
         }
-      });
+        resolve();
+      };
 
-      await Promise.all(promises);
-    }
+      const pump = () => {
+        while (!controller.signal.aborted && running.size < concurrency && ready.length > 0) {
+          const stepId = ready.shift()!;
+          running.add(stepId);
+          update(stepId, { status: 'running', attempts: 0 });
+
+          this.runStep(steps.get(stepId)!, options, controller.signal, (attempt) => {
+            update(stepId, { status: 'running', attempts: attempt });
+          })
+            .then((result) => {
+              running.delete(stepId);
+              update(stepId, result);
+
+              if (result.status === 'completed') {
+                for (const depId of dependents.get(stepId) || []) {
+                  if (results[depId]) continue;
+                  const left = (remainingDeps.get(depId) || 1) - 1;
+                  remainingDeps.set(depId, left);
+                  if (left === 0) ready.push(depId);
+                }
+              } else if (result.status === 'failed') {
+                if (failurePolicy === 'fail_fast') {
+                  controller.abort();
+                } else {
+                  skipDependents(stepId);
+                }
+              }
+
+              pump();
+              finishIfIdle();
+            })
+            .catch((err) => {
+              // runStep never rejects; this guards against bugs in the bookkeeping above
+              logger.error({ err, stepId }, 'ParallelExecutor: scheduler error');
+              running.delete(stepId);
+              finishIfIdle();
+            });
+        }
+      };
 
+      controller.signal.addEventListener('abort', finishIfIdle, { once: true });
+      pump();
+      finishIfIdle();
+    });
+
+    options.signal?.removeEventListener('abort', onExternalAbort);
     return results;
   }
 
+  /**
+   * Runs a single step, retrying while `ToolErrorHandler` considers the error recoverable.
+   * @param step - Step to run.
+   * @param options - Execution options.
+   * @param signal - Plan-wide cancellation signal.
+   * @param onRetry - Called before every retry with the upcoming attempt number.
+   * @returns The step outcome; never rejects.
+   */
+  private async runStep(
+    step: PlanStep,
+    options: PlanExecutionOptions,
+    signal: AbortSignal,
+    onRetry: (attempt: number) => void,
+  ): Promise<PlanStepResult> {
+    const maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+    const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    let attempt = 0;
+
+    while (true) {
+      attempt++;
+      try {
+        logger.debug({ stepId: step.id, attempt }, 'Executing step');
+        const result = await untilAborted(this.executeStep(step, options, signal), signal);
+        return { status: 'completed', result, attempts: attempt };
+      } catch (err: any) {
+        if (err instanceof CancelledError || signal.aborted) {
+          return { status: 'cancelled', error: 'Step was cancelled.', attempts: attempt };
+        }
+
+        // Enhance error with recovery suggestions
+        const errorMsg = err.message || String(err);
+        const analysis = this.toolErrorHandler.analyze(errorMsg, step.tool || 'unknown', attempt);
+
+        if (analysis.strategy === 'retry' && attempt <= maxRetries) {
+          logger.warn({ stepId: step.id, attempt, err: errorMsg }, 'Step failed, retrying');
+          onRetry(attempt + 1);
+          try {
+            await untilAborted(
+              new Promise((resolve) => setTimeout(resolve, retryDelayMs * attempt)),
+              signal,
+            );
+          } catch {
+            return { status: 'cancelled', error: 'Step was cancelled.', attempts: attempt };
+          }
+          continue;
+        }
+
+        logger.error({ err, stepId: step.id }, 'Step execution failed');
+        return {
+          status: 'failed',
+          error: errorMsg,
+          details: this.toolErrorHandler.formatErrorForContext({ message: errorMsg }, analysis),
+          analysis,
+          attempts: attempt,
+        };
+      }
+    }
+  }
+
   private async executeStep(
     step: PlanStep,
-    context: any,
-    priorResults: Record<string, any>,
-  ): Promise<any> {
+    options: PlanExecutionOptions,
+    signal: AbortSignal,
+  ): Promise<unknown> {
     if (!step.tool) {
       // If no tool, maybe it's just a thinking step or manual note.
       return { status: 'skipped', reason: 'no_tool_specified' };
     }
 
-    const toolDef = this.toolRegistry.get(step.tool);
-    if (!toolDef) {
+    if (!this.toolRegistry.get(step.tool)) {
       throw new Error(`Tool '${step.tool}' not found.`);
     }
 
     // TODO: Resolve arguments that reference prior results (e.g. "$step_1.output")
     // For now, assume args are static or injected by caller context.
-    const args = step.args || {};
+    const result = await this.toolRegistry.execute(
+      { id: `${step.id}-${uuid()}`, name: step.tool, arguments: step.args || {} },
+      { ...options.toolContext, sessionId: options.sessionId, signal },
+    );
 
-    return toolDef.execute(args);
+    if (result.isError) {
+      throw new Error(
+        typeof result.result === 'string' ? result.result : JSON.stringify(result.result),
+      );
+    }
+    return result.result;
+  }
+
+  /**
+   * Finds steps that sit on a dependency cycle.
+   * @param steps - Steps keyed by id.
+   * @returns Ids of steps that can never become ready.
+   */
+  private findCycle(steps: Map<string, PlanStep>): string[] {
+    const inDegree = new Map<string, number>();
+    for (const step of steps.values()) {
+      inDegree.set(step.id, step.dependencies.filter((depId) => steps.has(depId)).length);
+    }
+
+    // Kahn's algorithm: whatever cannot be peeled off is on (or behind) a cycle
+    const queue = [...inDegree.entries()].filter(([, n]) => n === 0).map(([id]) => id);
+    const visited = new Set<string>();
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      visited.add(id);
+      for (const step of steps.values()) {
+        if (!step.dependencies.includes(id)) continue;
+        const left = inDegree.get(step.id)! - 1;
+        inDegree.set(step.id, left);
+        if (left === 0) queue.push(step.id);
+      }
+    }
+
+    return [...steps.keys()].filter((id) => !visited.has(id));
+  }
+
+  private emitStepUpdate(
+    planId: string,
+    goal: string,
+    step: PlanStep,
+    steps: PlanStep[],
+    options: PlanExecutionOptions,
+  ): void {
+    this.emit('stream', {
+      traceId: planId,
+      sessionId: options.sessionId || 'system',
+      streamType: 'plan_step',
+      delta: `Step ${step.id}: ${step.status}`,
+      metadata: {
+        planId,
+        stepId: step.id,
+        status: step.status,
+        attempts: step.attempts,
+        error: step.error,
+        plan: { goal, steps: steps.map((s) => ({ ...s })) },
+      },
+    });
   }
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseStreamer } from './response-streamer.js';
+
+describe('ResponseStreamer', () => {
+  it('strips historical-context notes split across deltas', () => {
+    const frames: string[] = [];
+    const streamer = new ResponseStreamer((delta) => frames.push(delta), 0);
+
+    for (const delta of [
+      '[Histor',
+      'ical context: switched from',
+      ' gpt-4o]\n\nHello',
+      ' [1] world',
+    ]) {
+      streamer.push({ delta, done: false });
+    }
+    streamer.flush();
+
+    expect(frames.join('')).toBe('Hello [1] world');
+    expect(streamer.text).toBe('Hello [1] world');
+  });
+
+  it('batches deltas and withdraws them on reset', () => {
+    const frames: Array<[string, unknown]> = [];
+    const streamer = new ResponseStreamer((delta, metadata) => frames.push([delta, metadata]));
+
+    streamer.push({ delta: 'Let me ', done: false });
+    streamer.push({ delta: 'check', done: false });
+    streamer.push({ delta: '.', done: false });
+    streamer.flush();
+    streamer.push({ delta: '', restart: true, done: false });
+
+    expect(frames).toEqual([
+      ['Let me ', undefined],
+      ['check.', undefined],
+      ['', { reset: true }],
+    ]);
+    expect(streamer.text).toBe('');
+  });
+});
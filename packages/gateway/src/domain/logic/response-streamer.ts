@@ -0,0 +1,85 @@
+/**
+ * @file packages/gateway/src/domain/logic/response-streamer.ts
+ * @description Forwards a streamed model answer as `response` stream frames, batched by time.
+ */
+
+import type { ChatStreamChunk } from '../../infrastructure/llm/model-router.js';
+
+/** Notes pi-ai injects when a conversation moves between models; never shown to users. */
+const HISTORICAL_CONTEXT = /\[Historical context:.*?\]/gs;
+const MARKER = '[Historical context:';
+
+/**
+ * Length of the tail of `text` that may be the start of a historical-context note not yet
+ * closed, and must wait for more deltas.
+ * @param text - Buffered text, complete notes already removed.
+ * @returns Number of trailing characters to hold back.
+ */
+function pendingMarkerLength(text: string): number {
+  const start = text.lastIndexOf('[');
+  if (start === -1) return 0;
+  const tail = text.slice(start);
+  const open = tail.startsWith(MARKER) || MARKER.startsWith(tail);
+  return open ? tail.length : 0;
+}
+
+/**
+ * Batches text deltas so a long answer becomes a few frames per second rather than one per
+ * token. A frame with `metadata.reset` tells consumers to drop the text streamed so far.
+ * Historical-context notes are stripped, as they are from the final answer.
+ */
+export class ResponseStreamer {
+  private buffer = '';
+  private lastEmit = 0;
+  private emitted = '';
+
+  constructor(
+    private emit: (delta: string, metadata?: Record<string, unknown>) => void,
+    private intervalMs = 200,
+  ) {}
+
+  /** Text sent since the last reset. */
+  get text(): string {
+    return this.emitted;
+  }
+
+  /**
+   * Takes a chunk from `ModelRouter.chat`'s `onDelta`.
+   * @param chunk - Stream chunk.
+   */
+  push = (chunk: ChatStreamChunk): void => {
+    if (chunk.restart) return this.reset();
+    if (!chunk.delta) return;
+    this.buffer += chunk.delta;
+    if (Date.now() - this.lastEmit >= this.intervalMs) this.send(false);
+  };
+
+  /** Sends the buffered text; call once the model stream has ended. */
+  flush(): void {
+    this.send(true);
+  }
+
+  /**
+   * @param final - Whether the stream has ended, so a half-received note is sent as is.
+   */
+  private send(final: boolean): void {
+    let text = this.buffer.replace(HISTORICAL_CONTEXT, '');
+    const held = final ? 0 : pendingMarkerLength(text);
+    this.buffer = text.slice(text.length - held);
+    text = text.slice(0, text.length - held);
+    // The final answer is trimmed, so streamed text starts where it does
+    if (!this.emitted) text = text.trimStart();
+    if (!text) return;
+    this.emit(text);
+    this.emitted += text;
+    this.lastEmit = Date.now();
+  }
+
+  /** Withdraws the streamed text, e.g. when the answer turned out to precede tool calls. */
+  reset(): void {
+    this.buffer = '';
+    if (!this.emitted) return;
+    this.emitted = '';
+    this.emit('', { reset: true });
+  }
+}
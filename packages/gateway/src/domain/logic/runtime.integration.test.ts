@@ -11,6 +11,10 @@ import { ToolRegistry } from '../../tools/registry.js';
 import { SoulEngine } from './soul-engine.js';
 import { SkillLoader } from '../../application/services/skill-loader.js';
 import { ContextManager } from './context-manager.js';
+import { MemoryDB } from '../../infrastructure/repositories/memory-db.js';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Mock dependencies
 vi.mock('../../infrastructure/llm/model-router.js');
@@ -53,6 +57,12 @@ describe('AgentRuntime Integration', () => {
       compactContext: vi.fn(),
       guardLargeMessage: vi.fn((m) => m),
       estimateTokens: vi.fn((m) => 10),
+      contextBudget: vi.fn(() => ({
+        contextWindow: 32000,
+        outputReserve: 4096,
+        toolTokens: 0,
+        compactAt: 26000,
+      })),
     };
 
     mockModelCatalog = {
@@ -168,4 +178,96 @@ describe('AgentRuntime Integration', () => {
     expect(mockModelRouter.chat).toHaveBeenCalledTimes(2);
     expect(mockToolRegistry.execute).toHaveBeenCalledTimes(1);
   });
+
+  it('should resume an interrupted turn from its checkpoint', async () => {
+    const dataPath = mkdtempSync(join(tmpdir(), 'adytum-checkpoint-'));
+    const memoryDb = new MemoryDB(dataPath);
+    (runtime as any).config.memoryDb = memoryDb;
+
+    try {
+      mockModelRouter.chat
+        .mockResolvedValueOnce({
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'test_tool', arguments: '{"arg":"val"}' },
+              },
+            ],
+          },
+          usage: { promptTokens: 5, completionTokens: 5, totalTokens: 10, estimatedCost: 0 },
+        })
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: 'Resumed and done.' },
+          usage: { promptTokens: 5, completionTokens: 5, totalTokens: 10, estimatedCost: 0 },
+        });
+
+      // The tool blows up mid-turn, leaving the call pending in the checkpoint
+      mockToolRegistry.execute.mockRejectedValueOnce(new Error('process crashed'));
+      const failed = await runtime.run('Do something', 'session-1');
+      expect(failed.trace.status).toBe('failed');
+
+      const [checkpoint] = runtime.getResumableTurns('session-1');
+      expect(checkpoint.status).toBe('failed');
+      expect(checkpoint.pendingToolCalls).toHaveLength(1);
+
+      mockToolRegistry.execute.mockResolvedValueOnce({ result: 'Success', isError: false });
+      const result = await runtime.resume('session-1');
+
+      expect(result.response).toBe('Resumed and done.');
+      expect(result.trace.id).toBe(checkpoint.traceId);
+      expect(mockToolRegistry.execute).toHaveBeenCalledTimes(2);
+      // The model is not asked again for the tool call it already made
+      expect(mockModelRouter.chat).toHaveBeenCalledTimes(2);
+      expect(memoryDb.getTurnCheckpoint(checkpoint.traceId)).toBeNull();
+    } finally {
+      rmSync(dataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should not resume a failed turn once a newer turn has run', async () => {
+    const dataPath = mkdtempSync(join(tmpdir(), 'adytum-checkpoint-'));
+    const memoryDb = new MemoryDB(dataPath);
+    (runtime as any).config.memoryDb = memoryDb;
+
+    try {
+      mockModelRouter.chat
+        .mockResolvedValueOnce({
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'test_tool', arguments: '{"arg":"val"}' },
+              },
+            ],
+          },
+          usage: { promptTokens: 5, completionTokens: 5, totalTokens: 10, estimatedCost: 0 },
+        })
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: 'Second turn done.' },
+          usage: { promptTokens: 5, completionTokens: 5, totalTokens: 10, estimatedCost: 0 },
+        });
+
+      mockToolRegistry.execute.mockRejectedValueOnce(new Error('process crashed'));
+      const failed = await runtime.run('Do something', 'session-1');
+      expect(failed.trace.status).toBe('failed');
+      expect(runtime.getResumableTurns('session-1')).toHaveLength(1);
+
+      const next = await runtime.run('Something else', 'session-1');
+      expect(next.response).toBe('Second turn done.');
+
+      // Its history would overwrite the newer turn, so the failed turn is no longer offered
+      expect(runtime.getResumableTurns('session-1')).toHaveLength(0);
+      expect(memoryDb.getTurnCheckpoint(failed.trace.id)).toBeNull();
+      await expect(runtime.resume('session-1')).rejects.toThrow();
+    } finally {
+      rmSync(dataPath, { recursive: true, force: true });
+    }
+  });
 });
@@ -2,6 +2,7 @@ import { singleton, inject } from 'tsyringe';
 import { ModelRouter } from '../../infrastructure/llm/model-router.js';
 import { z } from 'zod';
 import { logger } from '../../logger.js';
+import { CancelledError } from '../errors/cancelled-error.js';
 
 import { Plan, PlanSchema, PlanStepSchema } from '@adytum/shared';
 
@@ -11,7 +12,7 @@ import { Plan, PlanSchema, PlanStepSchema } from '@adytum/shared';
 export class TaskPlanner {
   constructor(@inject(ModelRouter) private modelRouter: ModelRouter) {}
 
-  async plan(goal: string, context: string = ''): Promise<Plan> {
+  async plan(goal: string, context: string = '', signal?: AbortSignal): Promise<Plan> {
     logger.debug({ goal }, 'TaskPlanner: Generating plan');
 
     const prompt = `
@@ -44,20 +45,15 @@ Return ONLY JSON. No markdown blocking.
     `;
 
     try {
-      const result = await this.modelRouter.chat('thinking', [{ role: 'user', content: prompt }], {
-        temperature: 0.2,
-      });
-      const response = result.message;
-
-      const content = result.message.content;
-      if (!content) {
-        throw new Error('Model returned empty plan.');
-      }
-
-      const cleanJson = content.replace(/```json|```/g, '').trim();
-      const parsed = JSON.parse(cleanJson);
-      return PlanSchema.parse(parsed);
+      const { data } = await this.modelRouter.chatStructured(
+        'thinking',
+        [{ role: 'user', content: prompt }],
+        PlanSchema,
+        { name: 'plan', temperature: 0.2, signal, cache: true },
+      );
+      return data;
     } catch (error: any) {
+      if (error instanceof CancelledError) throw error;
       logger.error({ err: error }, 'TaskPlanner failed to generate plan');
       throw new Error(`Failed to generate plan: ${error.message}`);
     }
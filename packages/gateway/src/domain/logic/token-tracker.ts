@@ -3,7 +3,7 @@
  * @description Contains domain logic and core business behavior.
  */
 
-import type { TokenUsage, ModelRole } from '@adytum/shared';
+import type { TokenUsage, ModelRole, BudgetStatus } from '@adytum/shared';
 import { EventEmitter } from 'node:events';
 
 export interface TokenRecord {
@@ -80,6 +80,27 @@ export class TokenTracker extends EventEmitter {
     });
   }
 
+  /**
+   * Emits a budget warning as a `token_update` event without recording usage.
+   * @param budget - Budget status.
+   * @param sessionId - Session the call belonged to.
+   */
+  warnBudget(budget: BudgetStatus, sessionId: string = 'system'): void {
+    this.emit('token_update', {
+      sessionId,
+      model: '',
+      role: budget.role ?? '',
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+      timestamp: Date.now(),
+      cumulativeTokens: this.grandTotal.tokens,
+      cumulativeCost: this.grandTotal.cost,
+      budget,
+    });
+  }
+
   /**
    * Retrieves session usage.
    * @param sessionId - Session id.
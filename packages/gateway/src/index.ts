@@ -19,6 +19,7 @@ import { SwarmMessenger } from './domain/logic/swarm-messenger.js';
 import { DispatchService } from './application/services/dispatch-service.js';
 import { createSwarmTools } from './tools/swarm-tools.js';
 import { ModelRouter } from './infrastructure/llm/model-router.js';
+import { ResponseCache } from './infrastructure/llm/response-cache.js';
 import { ModelCatalog } from './infrastructure/llm/model-catalog.js';
 import { SwarmSweeper } from './domain/logic/swarm-sweeper.js';
 import { Compactor } from './domain/logic/compactor.js';
@@ -26,15 +27,32 @@ import { Compactor } from './domain/logic/compactor.js';
 import { setupContainer, container } from './container.js';
 import { SoulEngine } from './domain/logic/soul-engine.js';
 import { SemanticProcessor } from './domain/knowledge/semantic-processor.js';
+import { DocumentExtractorRegistry } from './domain/knowledge/extractors/document-extractor-registry.js';
 import { SkillLoader } from './application/services/skill-loader.js';
 import { ToolRegistry } from './tools/registry.js';
 import { createShellTool, createShellToolWithApproval } from './tools/shell.js';
 import { createFileSystemTools } from './tools/filesystem.js';
 import { createWebFetchTool } from './tools/web-fetch.js';
+import { createArtifactTools } from './tools/artifacts.js';
+import { ArtifactStore } from './infrastructure/repositories/artifact-store.js';
 import { createMemoryTools } from './tools/memory.js';
 import { createPersonalityTools } from './tools/personality.js';
 import { PermissionManager } from './security/permission-manager.js';
+import { ToolPolicyEngine } from './security/tool-policy.js';
+import { BudgetManager } from './domain/logic/budget-manager.js';
 import { SecretsStore } from './security/secrets-store.js';
+import { SecretsVault } from './security/secrets-vault.js';
+import { TokenStore } from './security/token-store.js';
+import { ShellBackendResolver } from './infrastructure/shell/shell-backend-resolver.js';
+import {
+  AuthConfigSchema,
+  EmbeddingConfigSchema,
+  MemoryLifecycleConfigSchema,
+  MemorySharingConfigSchema,
+  ModelCacheConfigSchema,
+  ShellSandboxConfigSchema,
+  type AgentTier,
+} from '@adytum/shared';
 import { tokenTracker } from './domain/logic/token-tracker.js';
 import { autoProvisionStorage } from './storage/provision.js';
 import { MemoryStore } from './infrastructure/repositories/memory-store.js';
@@ -42,6 +60,8 @@ import { MemoryDB } from './infrastructure/repositories/memory-db.js';
 import { EmbeddingService } from './infrastructure/llm/embedding-service.js';
 import { Dreamer } from './application/services/dreamer.js';
 import { InnerMonologue } from './application/services/inner-monologue.js';
+import { MemoryLifecycle } from './application/services/memory-lifecycle.js';
+import { BackupService } from './application/services/backup-service.js';
 import { HeartbeatManager } from './application/services/heartbeat-manager.js';
 import { CronManager } from './application/services/cron-manager.js';
 import { createCronTools } from './tools/cron.js';
@@ -99,16 +119,56 @@ export const startGateway = async (rootPath?: string) => {
   const dbResult = await autoProvisionStorage(config);
   console.log(chalk.green('  ✓ ') + chalk.white(`Storage: ${dbResult.type}`));
 
-  const secretsStore = new SecretsStore(config.dataPath);
+  const secretsVault = new SecretsVault(config.dataPath);
+  container.register(SecretsVault, { useValue: secretsVault });
+  const secretsStore = new SecretsStore(config.dataPath, secretsVault);
+
+  // API tokens for every route and the Socket.IO handshake
+  const tokenStore = new TokenStore(config.dataPath);
+  container.register(TokenStore, { useValue: tokenStore });
+  const getAuthSettings = () => AuthConfigSchema.parse(loadConfig(projectRoot).auth ?? {});
+  if (getAuthSettings().enabled && tokenStore.ensureAdminToken()) {
+    console.log(
+      chalk.yellow('  ! ') + chalk.white('Created local admin token in data/admin.token'),
+    );
+  }
+  socketIOService.setAuthenticator((token) =>
+    getAuthSettings().enabled ? (token ? tokenStore.verify(token)?.scope : undefined) : 'admin',
+  );
   const memoryDb = new MemoryDB(config.dataPath);
+  // What workspaces may read besides their own memories (config `memorySharing`)
+  memoryDb.setSharingRules(MemorySharingConfigSchema.parse(config.memorySharing ?? {}));
   container.register('MemoryDB', { useValue: memoryDb });
 
-  // Vector Embeddings Support
+  // Vector Embeddings Support (config `embeddings`)
+  const embeddingConfig = EmbeddingConfigSchema.parse(config.embeddings ?? {});
   const embeddingService = container.resolve(EmbeddingService);
+  embeddingService.configure(embeddingConfig);
+  memoryDb.setEmbeddingModel(embeddingService.getModelName());
 
   const memoryStore = new MemoryStore(memoryDb, embeddingService);
   memoryStore.setEventBus(eventBus);
+  const vectorIndexBuilt = memoryDb
+    .ensureVectorIndex()
+    ?.then(({ count, partitions }) =>
+      logger.info(`Vector index built: ${count} memories in ${partitions} partitions`),
+    )
+    .catch((err) => logger.error({ err }, 'Vector index build failed'));
+  // Vectors of a previously configured model are not searched until re-embedded
+  const staleEmbeddings = memoryDb.countStaleEmbeddings();
+  if (embeddingConfig.reembed && staleEmbeddings > 0) {
+    logger.info(
+      `Re-embedding ${staleEmbeddings} memories with ${embeddingService.getModelName()} in the background`,
+    );
+    void Promise.resolve(vectorIndexBuilt)
+      .then(() => memoryStore.reembedStale(embeddingConfig.batchSize))
+      .then((count) => logger.info(`Re-embedded ${count} memories`))
+      .catch((err) => logger.error({ err }, 'Re-embedding memories failed'));
+  }
   container.register(MemoryStore, { useValue: memoryStore });
+  container.register(BackupService, {
+    useValue: new BackupService(memoryDb, config.dataPath, config.workspacePath, embeddingService),
+  });
   const graphStore = new GraphStore(config.dataPath);
   container.register(GraphStore, { useValue: graphStore });
 
@@ -121,26 +181,62 @@ export const startGateway = async (rootPath?: string) => {
   permissionManager.startWatching();
   container.register(PermissionManager, { useValue: permissionManager });
 
+  const resolveAgentTier = (agentId: string): AgentTier | undefined =>
+    agentRegistry?.get(agentId)?.tier ?? swarmManager?.getAgent(agentId)?.metadata?.tier;
+
+  // Declarative allow/ask/deny rules for every tool call (hot-reloaded tool-policy.json)
+  const toolPolicyEngine = new ToolPolicyEngine(config.dataPath, resolveAgentTier);
+  toolPolicyEngine.startWatching();
+  container.register(ToolPolicyEngine, { useValue: toolPolicyEngine });
+
   // ── Tool Registry ─────────────────────────────────────────
   const toolRegistry = new ToolRegistry();
+  toolRegistry.setPolicyEngine(toolPolicyEngine, async (description, context) => {
+    // Note: 'server' will be defined later, so we use a wrapper that references it
+    if (!(global as any).adytumServer) return false;
+    return (global as any).adytumServer.requestApproval({
+      kind: 'tool_policy',
+      description,
+      sessionId: context?.sessionId,
+      workspaceId: context?.workspaceId,
+    });
+  });
   container.register(ToolRegistry, { useValue: toolRegistry });
 
+  // Oversized tool outputs are spilled to data/artifacts and paged back with read_artifact
+  const artifactStore = new ArtifactStore(config.dataPath);
+  artifactStore.prune(7 * 24 * 60 * 60 * 1000);
+  container.register(ArtifactStore, { useValue: artifactStore });
+  toolRegistry.setArtifactStore(artifactStore);
+
   // ─── Native Tools ──────────────────────────────────────────
   for (const fsTool of createFileSystemTools(permissionManager)) {
     toolRegistry.register(fsTool);
   }
 
+  // Host or sandboxed shell execution, per workspace and agent tier (execution.sandbox)
+  const shellBackends = new ShellBackendResolver(
+    config.workspacePath,
+    () => ShellSandboxConfigSchema.parse(loadConfig(projectRoot).execution?.sandbox ?? {}),
+    resolveAgentTier,
+  );
+  const resolveWorkspacePath = permissionManager.resolveWorkspacePath.bind(permissionManager);
+
   // Shell tool with approval logic (re-wired later if needed, but set up here)
-  const shellTool = createShellTool(async (command, context) => {
-    // Note: 'server' will be defined later, so we use a wrapper that references it
-    return await (global as any).adytumServer.requestApproval({
-      kind: 'shell_execute',
-      description: `Execute: ${command}`,
-      meta: { command },
-      sessionId: context?.sessionId,
-      workspaceId: context?.workspaceId,
-    });
-  }, permissionManager.resolveWorkspacePath.bind(permissionManager));
+  const shellTool = createShellTool(
+    async (command, context) => {
+      // Note: 'server' will be defined later, so we use a wrapper that references it
+      return await (global as any).adytumServer.requestApproval({
+        kind: 'shell_execute',
+        description: `Execute: ${command}`,
+        meta: { command },
+        sessionId: context?.sessionId,
+        workspaceId: context?.workspaceId,
+      });
+    },
+    resolveWorkspacePath,
+    shellBackends,
+  );
   toolRegistry.register(shellTool);
 
   for (const mTool of createMemoryTools(memoryStore)) {
@@ -149,6 +245,10 @@ export const startGateway = async (rootPath?: string) => {
 
   toolRegistry.register(createWebFetchTool());
 
+  for (const aTool of createArtifactTools(artifactStore)) {
+    toolRegistry.register(aTool);
+  }
+
   for (const pTool of createPersonalityTools(memoryDb)) {
     toolRegistry.register(pTool);
   }
@@ -168,15 +268,46 @@ export const startGateway = async (rootPath?: string) => {
   });
   container.register(ModelRouter, { useValue: modelRouter });
 
-  const semanticProcessor = new SemanticProcessor(modelRouter, memoryStore);
+  // Daily, monthly, per-session and per-tier spending limits (config `budgets`)
+  const budgetManager = new BudgetManager(
+    memoryDb,
+    () => loadConfig(projectRoot).budgets,
+    resolveAgentTier,
+  );
+  modelRouter.setBudgetManager(budgetManager);
+  container.register(BudgetManager, { useValue: budgetManager });
+
+  // Response cache and provider prompt caching (config `modelCache`)
+  const modelCacheConfig = ModelCacheConfigSchema.parse(config.modelCache ?? {});
+  modelRouter.setCaching({
+    responseCache: modelCacheConfig.responses
+      ? new ResponseCache(memoryDb, modelCacheConfig)
+      : undefined,
+    promptCaching: modelCacheConfig.promptCaching,
+    observability: modelCatalog.getObservability(),
+  });
+
+  const documentExtractors = container.resolve(DocumentExtractorRegistry);
+  const semanticProcessor = new SemanticProcessor(modelRouter, memoryStore, documentExtractors);
   container.register(SemanticProcessor, { useValue: semanticProcessor });
-  const graphIndexer = new GraphIndexer(config.workspacePath, graphStore, semanticProcessor);
+  const graphIndexer = new GraphIndexer(
+    config.workspacePath,
+    graphStore,
+    semanticProcessor,
+    documentExtractors,
+  );
   container.register(GraphIndexer, { useValue: graphIndexer });
   graphIndexer.setEventBus(eventBus);
   const graphContext = new GraphContext(graphStore, memoryStore);
   container.register(GraphContext, { useValue: graphContext });
 
-  for (const kTool of createKnowledgeTools(traversalService, graphIndexer, memoryStore)) {
+  const knowledgeTools = createKnowledgeTools(
+    traversalService,
+    graphIndexer,
+    graphStore,
+    memoryStore,
+  );
+  for (const kTool of knowledgeTools) {
     toolRegistry.register(kTool);
   }
 
@@ -425,8 +556,16 @@ export const startGateway = async (rootPath?: string) => {
     soulEngine,
     config.dataPath,
     config.workspacePath,
+    budgetManager,
   );
   const monologue = new InnerMonologue(modelRouter, memoryDb, memoryStore);
+  const memoryLifecycle = new MemoryLifecycle(
+    memoryDb,
+    memoryStore,
+    modelRouter,
+    config.memoryLifecycle,
+    budgetManager,
+  );
   const heartbeatManager = new HeartbeatManager(agent, config.workspacePath);
 
   // Managed cron tasks for dreamer and monologue (restartable)
@@ -472,6 +611,22 @@ export const startGateway = async (rootPath?: string) => {
   scheduleDreamer(config.dreamerIntervalMinutes);
   scheduleMonologue(config.monologueIntervalMinutes);
 
+  // Memory lifecycle: dedup, consolidation and retention (config `memoryLifecycle`)
+  const lifecycleConfig = MemoryLifecycleConfigSchema.parse(config.memoryLifecycle ?? {});
+  memoryStore.setHalfLifeDays(lifecycleConfig.halfLifeDays);
+  if (lifecycleConfig.enabled) {
+    const minutes = Math.max(1, Math.floor(lifecycleConfig.intervalMinutes));
+    const expr = minutes < 60 ? `*/${minutes} * * * *` : `0 */${Math.floor(minutes / 60)} * * *`;
+    cron.schedule(expr, async () => {
+      try {
+        const report = await memoryLifecycle.run();
+        logger.info(report, 'Memory lifecycle pass complete');
+      } catch (err) {
+        logger.error({ err }, 'Memory lifecycle task failed');
+      }
+    });
+  }
+
   // LogbookService moved up
   const cronManager = new CronManager(agent, config.dataPath, runtimeRegistry, logbookService);
   swarmManager.setCronManager(cronManager);
@@ -493,6 +648,16 @@ export const startGateway = async (rootPath?: string) => {
 
   console.log(chalk.green('  ✓ ') + chalk.white(`Agent: ${config.agentName} loaded`));
 
+  const interruptedTurns = agent.getResumableTurns();
+  if (interruptedTurns.length > 0) {
+    console.log(
+      chalk.yellow('  ⚠ ') +
+        chalk.white(
+          `${interruptedTurns.length} interrupted turn(s) can be resumed via POST /api/sessions/:id/resume`,
+        ),
+    );
+  }
+
   // ── Dependency Injection Wiring ───────────────────────────
   // Register the live instances we just created into the container
   // so that Controllers can resolve them.
@@ -590,6 +755,8 @@ export const startGateway = async (rootPath?: string) => {
     toolRegistry,
     memoryDb,
     secretsStore,
+    tokenStore,
+    getAuthSettings,
     onScheduleUpdate: (type, intervalMinutes) => {
       if (type === 'dreamer') scheduleDreamer(intervalMinutes);
       else if (type === 'monologue') scheduleMonologue(intervalMinutes);
@@ -621,7 +788,11 @@ export const startGateway = async (rootPath?: string) => {
         type: 'message',
         sessionId,
         content: result.response,
+        citations: result.citations.length ? result.citations : undefined,
       });
+    } else if (frame.type === 'control' && frame.action === 'cancel') {
+      // Stops the turn and any sub-agents it delegated to, mid-call
+      runtimeRegistry.abortHierarchy(sessionId);
     }
   });
 
@@ -633,6 +804,13 @@ export const startGateway = async (rootPath?: string) => {
     });
   });
 
+  parallelExecutor.on('stream', (event) => {
+    server.broadcast({
+      type: 'stream',
+      ...event,
+    });
+  });
+
   // Register Swarm Tools (Phase 4)
   const swarmTools = createSwarmTools(swarmManager, agent);
   swarmTools.forEach((t) => toolRegistry.register(t));
@@ -676,11 +854,13 @@ export const startGateway = async (rootPath?: string) => {
 
     try {
       permissionManager.stopWatching();
+      toolPolicyEngine.stopWatching();
       await knowledgeWatcher.stop();
       await skillLoader.stop();
       const sweeper = container.resolve(SwarmSweeper);
       sweeper.stop();
       await server.stop();
+      memoryDb.flushVectorIndex();
       logger.info('Shutdown complete.');
       process.exit(0);
     } catch (err) {
@@ -814,6 +994,8 @@ export const startGateway = async (rootPath?: string) => {
         message: 'Command cancelled by user request. You may try again if necessary.',
       };
     },
+    resolveWorkspacePath,
+    shellBackends,
   );
 
   // Re-wire the agent's approval callback too (used by tools marked requiresApproval)
@@ -839,6 +1021,7 @@ export const startGateway = async (rootPath?: string) => {
     if (input.toLowerCase() === 'exit') {
       console.log(chalk.dim(`\n  ${config.agentName} is resting. Goodbye.\n`));
       permissionManager.stopWatching();
+      toolPolicyEngine.stopWatching();
       await skillLoader.stop();
       await server.stop();
       process.exit(0);
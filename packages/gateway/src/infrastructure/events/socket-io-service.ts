@@ -4,16 +4,26 @@ import { Server, Socket } from 'socket.io';
 import { singleton, inject } from 'tsyringe';
 import { EventBusService } from './event-bus.js';
 import { logger } from '../../logger.js';
-import { AdytumEvent } from '@adytum/shared';
+import { AdytumEvent, type ApiTokenScope } from '@adytum/shared';
 
 @singleton()
 export class SocketIOService extends EventEmitter {
   private io: Server | null = null;
+  private authenticate?: (token: string | undefined) => ApiTokenScope | undefined;
 
   constructor(@inject(EventBusService) private eventBus: EventBusService) {
     super();
   }
 
+  /**
+   * Sets the handshake check. Connections are refused when it returns no scope, and
+   * incoming messages need the `chat` scope.
+   * @param authenticate - Resolves a handshake token to its scope.
+   */
+  setAuthenticator(authenticate: (token: string | undefined) => ApiTokenScope | undefined) {
+    this.authenticate = authenticate;
+  }
+
   initialize(httpServer: HttpServer) {
     this.io = new Server(httpServer, {
       cors: {
@@ -23,10 +33,25 @@ export class SocketIOService extends EventEmitter {
       path: '/socket.io',
     });
 
+    this.io.use((socket, next) => {
+      if (!this.authenticate) return next();
+      const { auth, headers, query } = socket.handshake;
+      const bearer = headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+      const token = (auth?.token as string | undefined) || bearer || (query.token as string);
+      const scope = this.authenticate(token || undefined);
+      if (!scope) return next(new Error('Authentication required'));
+      socket.data.scope = scope;
+      next();
+    });
+
     this.io.on('connection', (socket: Socket) => {
       logger.debug(`Client connected: ${socket.id}`);
 
       socket.on('message', (data: any) => {
+        if (this.authenticate && socket.data.scope === 'read-only') {
+          socket.emit('error', { message: 'Token scope "read-only" cannot send messages' });
+          return;
+        }
         // Forward to subscribers (GatewayServer)
         this.emit('message', data);
       });
@@ -13,6 +13,7 @@
 
 import type { ModelProviderAuthMode } from '@adytum/shared';
 import { AuthStore, type AuthCredential } from './auth-store.js';
+import type { SecretsVault } from '../../security/secrets-vault.js';
 import { resolveEnvApiKey, resolveApiKeyValue } from './provider-env-resolver.js';
 import type { ProviderBuilderId } from './provider-builders.js';
 
@@ -32,11 +33,13 @@ export interface ResolvedAuth {
 }
 
 export interface AuthResolverOptions {
-  /** Workspace path for auth store location */
+  /** Workspace path of the legacy auth store, migrated into the vault */
   workspacePath: string;
+  /** Vault holding the auth profiles */
+  vault: SecretsVault;
   /** Active auth profile label (default: "default") */
   activeProfile?: string;
-  /** Auth store passphrase override */
+  /** Passphrase of the legacy auth store */
   passphrase?: string;
 }
 
@@ -48,7 +51,7 @@ export class AuthResolver {
   private cache = new Map<string, ResolvedAuth>();
 
   constructor(options: AuthResolverOptions) {
-    this.store = new AuthStore(options.workspacePath, options.passphrase);
+    this.store = new AuthStore(options.workspacePath, options.vault, options.passphrase);
     this.activeProfile = options.activeProfile ?? 'default';
     this.store.load();
   }
@@ -2,7 +2,7 @@
  * @file packages/gateway/src/infrastructure/llm/auth-store.ts
  * @description Persistent auth profile store for model provider credentials.
  *
- * Profiles are stored encrypted at rest (AES-256-GCM) and identified by a
+ * Profiles are stored in the encrypted `SecretsVault` as `auth/<label>` and identified by a
  * human-readable label. Each profile can hold credentials for one or more
  * providers, with automatic rotation and expiry tracking.
  *
@@ -10,9 +10,10 @@
  */
 
 import { join } from 'node:path';
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { existsSync, readFileSync, rmSync } from 'node:fs';
+import { createDecipheriv, scryptSync } from 'node:crypto';
 import type { ModelProviderAuthMode } from '@adytum/shared';
+import type { SecretsVault } from '../../security/secrets-vault.js';
 
 // ─── Types ────────────────────────────────────────────────────
 
@@ -46,6 +47,7 @@ export interface AuthProfile {
   credentials: Record<string, AuthCredential>;
 }
 
+/** Legacy profiles.enc format, read once for migration into the vault. */
 interface EncryptedStore {
   version: 1;
   /** Salt for key derivation */
@@ -62,32 +64,12 @@ interface EncryptedStore {
 
 const ALGORITHM = 'aes-256-gcm';
 const KEY_LENGTH = 32;
-const IV_LENGTH = 16;
-const SALT_LENGTH = 32;
+const PROFILE_PREFIX = 'auth/';
 
 function deriveKey(passphrase: string, salt: Buffer): Buffer {
   return scryptSync(passphrase, salt, KEY_LENGTH);
 }
 
-function encrypt(plaintext: string, passphrase: string): EncryptedStore {
-  const salt = randomBytes(SALT_LENGTH);
-  const key = deriveKey(passphrase, salt);
-  const iv = randomBytes(IV_LENGTH);
-  const cipher = createCipheriv(ALGORITHM, key, iv);
-
-  let encrypted = cipher.update(plaintext, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  const tag = cipher.getAuthTag();
-
-  return {
-    version: 1,
-    salt: salt.toString('hex'),
-    iv: iv.toString('hex'),
-    tag: tag.toString('hex'),
-    data: encrypted,
-  };
-}
-
 function decrypt(store: EncryptedStore, passphrase: string): string {
   const salt = Buffer.from(store.salt, 'hex');
   const key = deriveKey(passphrase, salt);
@@ -105,70 +87,82 @@ function decrypt(store: EncryptedStore, passphrase: string): string {
 // ─── Auth Store ───────────────────────────────────────────────
 
 /**
- * Manages encrypted credential profiles on disk.
+ * Manages credential profiles in the secrets vault.
  *
- * The store passphrase defaults to the `ADYTUM_AUTH_SECRET` env var.
- * If not set, credentials are stored in plaintext (development mode).
+ * A legacy `.adytum/auth/profiles.enc` in the workspace is imported on first load, using the
+ * passphrase (default `ADYTUM_AUTH_SECRET`) when it is encrypted, and then removed.
  */
 export class AuthStore {
   private profiles: Map<string, AuthProfile> = new Map();
-  private storePath: string;
+  private legacyPath: string;
   private passphrase: string | null;
   private loaded = false;
 
-  constructor(workspacePath: string, passphrase?: string) {
-    const authDir = join(workspacePath, '.adytum', 'auth');
-    if (!existsSync(authDir)) {
-      mkdirSync(authDir, { recursive: true });
-    }
-    this.storePath = join(authDir, 'profiles.enc');
+  constructor(
+    workspacePath: string,
+    private vault: SecretsVault,
+    passphrase?: string,
+  ) {
+    this.legacyPath = join(workspacePath, '.adytum', 'auth', 'profiles.enc');
     this.passphrase = passphrase ?? process.env.ADYTUM_AUTH_SECRET ?? null;
   }
 
   /**
-   * Load profiles from disk.
+   * Load profiles from the vault.
    */
   load(): void {
-    if (!existsSync(this.storePath)) {
-      this.loaded = true;
-      return;
-    }
-
+    this.migrateLegacyFile();
     try {
-      const raw = readFileSync(this.storePath, 'utf8');
-
-      if (this.passphrase) {
-        // Encrypted store
-        const store = JSON.parse(raw) as EncryptedStore;
-        const decrypted = decrypt(store, this.passphrase);
-        const data = JSON.parse(decrypted) as Record<string, AuthProfile>;
-        this.profiles = new Map(Object.entries(data));
-      } else {
-        // Plaintext fallback (dev mode)
-        const data = JSON.parse(raw) as Record<string, AuthProfile>;
-        this.profiles = new Map(Object.entries(data));
-      }
-
-      this.loaded = true;
+      const stored = this.vault.export(PROFILE_PREFIX);
+      this.profiles = new Map(
+        Object.entries(stored).map(([name, json]) => [
+          name.slice(PROFILE_PREFIX.length),
+          JSON.parse(json) as AuthProfile,
+        ]),
+      );
     } catch {
-      // Corrupted or wrong passphrase — start fresh
+      // Locked vault or corrupted entry — start fresh
       this.profiles = new Map();
-      this.loaded = true;
     }
+    this.loaded = true;
   }
 
   /**
-   * Save profiles to disk.
+   * Save profiles to the vault. Unchanged profiles do not create new versions.
    */
   save(): void {
-    const data = Object.fromEntries(this.profiles);
-    const json = JSON.stringify(data, null, 2);
+    const values: Record<string, string> = {};
+    for (const [label, profile] of this.profiles) {
+      values[`${PROFILE_PREFIX}${label}`] = JSON.stringify(profile);
+    }
+    this.vault.setMany(values);
+  }
 
-    if (this.passphrase) {
-      const encrypted = encrypt(json, this.passphrase);
-      writeFileSync(this.storePath, JSON.stringify(encrypted), 'utf8');
-    } else {
-      writeFileSync(this.storePath, json, 'utf8');
+  /**
+   * Imports the legacy profiles file into the vault, then deletes it.
+   */
+  private migrateLegacyFile(): void {
+    if (!existsSync(this.legacyPath)) return;
+    try {
+      const raw = readFileSync(this.legacyPath, 'utf8');
+      const parsed = JSON.parse(raw) as EncryptedStore | Record<string, AuthProfile>;
+      const isEncrypted = 'salt' in parsed && 'data' in parsed;
+      if (isEncrypted && !this.passphrase) return;
+      const data = isEncrypted
+        ? (JSON.parse(decrypt(parsed as EncryptedStore, this.passphrase!)) as Record<
+            string,
+            AuthProfile
+          >)
+        : (parsed as Record<string, AuthProfile>);
+
+      const values: Record<string, string> = {};
+      for (const [label, profile] of Object.entries(data)) {
+        values[`${PROFILE_PREFIX}${label}`] = JSON.stringify(profile);
+      }
+      this.vault.setMany(values);
+      rmSync(this.legacyPath, { force: true });
+    } catch {
+      // Corrupted or wrong passphrase — leave the legacy file in place
     }
   }
 
@@ -236,7 +230,7 @@ export class AuthStore {
   deleteProfile(label: string): boolean {
     if (!this.loaded) this.load();
     const deleted = this.profiles.delete(label);
-    if (deleted) this.save();
+    if (deleted) this.vault.delete(`${PROFILE_PREFIX}${label}`);
     return deleted;
   }
 
@@ -0,0 +1,49 @@
+import 'reflect-metadata';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { EmbeddingConfigSchema } from '@adytum/shared';
+import { createEmbeddingProvider } from './embedding-providers.js';
+
+describe('createEmbeddingProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('names vectors by backend and batches OpenAI-compatible requests', async () => {
+    const config = (input: object) => EmbeddingConfigSchema.parse(input);
+    expect(createEmbeddingProvider(config({})).model).toBe('Xenova/all-MiniLM-L6-v2');
+    expect(createEmbeddingProvider(config({ provider: 'ollama', model: 'bge-m3' })).model).toBe(
+      'ollama:bge-m3',
+    );
+    expect(() => createEmbeddingProvider(config({ provider: 'openai-compatible' }))).toThrow(
+      /baseUrl or embeddings.providerId/,
+    );
+
+    vi.stubEnv('MISTRAL_API_KEY', 'sk-test');
+    const fetch = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          data: [
+            { index: 1, embedding: [0, 2] },
+            { index: 0, embedding: [3, 4] },
+          ],
+        }),
+      ),
+    );
+    vi.stubGlobal('fetch', fetch);
+    const provider = createEmbeddingProvider(
+      config({ provider: 'openai-compatible', providerId: 'mistral', model: 'mistral-embed' }),
+    );
+
+    expect(provider.model).toBe('mistral:mistral-embed');
+    const vectors = await provider.embed(['a', 'b']);
+    expect(vectors.map((v) => [...v].map((x) => Math.round(x * 100) / 100))).toEqual([
+      [0.6, 0.8],
+      [0, 1],
+    ]);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.mistral.ai/v1/embeddings');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body)).toEqual({ model: 'mistral-embed', input: ['a', 'b'] });
+  });
+});
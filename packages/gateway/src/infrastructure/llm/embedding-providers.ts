@@ -0,0 +1,195 @@
+/**
+ * @file packages/gateway/src/infrastructure/llm/embedding-providers.ts
+ * @description Embedding backends: a local transformers.js model, Ollama, and any
+ *              OpenAI-compatible `/embeddings` endpoint.
+ */
+
+import type { EmbeddingConfig } from '@adytum/shared';
+import { logger } from '../../logger.js';
+import { PROVIDER_BUILDERS, type ProviderBuilderId } from './provider-builders.js';
+import { resolveApiKeyValue, resolveEnvApiKey } from './provider-env-resolver.js';
+
+// ─── Types ────────────────────────────────────────────────────
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space; stored with every vector so mixed models can be detected. */
+  readonly model: string;
+  /**
+   * Embeds texts in one request.
+   * @param texts - Texts to embed.
+   * @returns One normalized vector per text, in order.
+   */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const DEFAULT_OLLAMA_MODEL = 'nomic-embed-text';
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const REQUEST_TIMEOUT = 60_000;
+
+// ─── Local (transformers.js) ──────────────────────────────────
+
+/**
+ * Runs a transformers.js feature-extraction model in process. The model id doubles as the
+ * stored model name, so vectors written before providers were configurable stay valid.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private extractor?: Promise<any>;
+
+  constructor(model = DEFAULT_LOCAL_EMBEDDING_MODEL) {
+    this.model = model;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const extractor = await this.load();
+    // Normalize and pool to get a single vector per input
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const dim = output.dims[output.dims.length - 1] as number;
+    const data = output.data as Float32Array;
+    return texts.map((_, i) => data.slice(i * dim, (i + 1) * dim));
+  }
+
+  private load(): Promise<any> {
+    this.extractor ??= (async () => {
+      logger.debug(`[EmbeddingService] Loading local model: ${this.model}...`);
+      const { pipeline } = await import('@xenova/transformers');
+      const extractor = await pipeline('feature-extraction', this.model);
+      logger.debug('[EmbeddingService] Model loaded successfully.');
+      return extractor;
+    })().catch((err) => {
+      this.extractor = undefined;
+      throw err;
+    });
+    return this.extractor;
+  }
+}
+
+// ─── Ollama ───────────────────────────────────────────────────
+
+/**
+ * Calls Ollama's native `/api/embed`, which accepts a batch of inputs.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private apiBase: string;
+
+  constructor(
+    private name = DEFAULT_OLLAMA_MODEL,
+    baseUrl = 'http://localhost:11434',
+  ) {
+    this.model = `ollama:${name}`;
+    this.apiBase = baseUrl.replace(/\/+$/, '').replace(/\/v1$/i, '');
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const data = await postJson<{ embeddings?: number[][] }>(`${this.apiBase}/api/embed`, {
+      model: this.name,
+      input: texts,
+    });
+    if (data.embeddings?.length !== texts.length) {
+      throw new Error(
+        `Ollama returned ${data.embeddings?.length ?? 0} of ${texts.length} embeddings`,
+      );
+    }
+    return data.embeddings.map(normalize);
+  }
+}
+
+// ─── OpenAI-compatible ────────────────────────────────────────
+
+/**
+ * Calls an OpenAI-compatible `/embeddings` endpoint (OpenAI, Mistral, Together, LM Studio,
+ * vLLM and the like).
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(
+    private name: string,
+    baseUrl: string,
+    private apiKey?: string,
+    label = new URL(baseUrl).host,
+  ) {
+    this.model = `${label}:${name}`;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const data = await postJson<{ data?: Array<{ embedding: number[]; index: number }> }>(
+      `${this.baseUrl}/embeddings`,
+      { model: this.name, input: texts },
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+    );
+    if (data.data?.length !== texts.length) {
+      throw new Error(`Embeddings endpoint returned ${data.data?.length ?? 0} of ${texts.length}`);
+    }
+    return [...data.data].sort((a, b) => a.index - b.index).map((d) => normalize(d.embedding));
+  }
+}
+
+// ─── Factory ──────────────────────────────────────────────────
+
+/**
+ * Builds the provider selected by the `embeddings` config.
+ * @param config - Parsed embeddings config.
+ * @returns The provider.
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config.model, config.baseUrl);
+    case 'openai-compatible': {
+      const providerId = config.providerId as ProviderBuilderId | undefined;
+      if (providerId && !PROVIDER_BUILDERS[providerId]) {
+        throw new Error(`Unknown embeddings providerId "${providerId}"`);
+      }
+      const baseUrl = config.baseUrl ?? (providerId && PROVIDER_BUILDERS[providerId]().baseUrl);
+      if (!baseUrl) {
+        throw new Error('embeddings.baseUrl or embeddings.providerId is required');
+      }
+      const apiKey =
+        resolveApiKeyValue(config.apiKey) ??
+        (providerId ? resolveEnvApiKey(providerId)?.value : undefined);
+      return new OpenAICompatibleEmbeddingProvider(
+        config.model ?? DEFAULT_OPENAI_MODEL,
+        baseUrl,
+        apiKey,
+        providerId,
+      );
+    }
+    default:
+      return new LocalEmbeddingProvider(config.model);
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+async function postJson<T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw new Error(`Embedding request failed (${res.status}): ${detail.slice(0, 200)}`);
+  }
+  return (await res.json()) as T;
+}
+
+/** Scales a vector to unit length, since similarity is computed as a plain dot product. */
+function normalize(values: number[]): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
@@ -1,36 +1,52 @@
-import { logger } from '../../logger.js';
-import { pipeline } from '@xenova/transformers';
+import type { EmbeddingConfig } from '@adytum/shared';
 import { singleton } from 'tsyringe';
+import {
+  createEmbeddingProvider,
+  LocalEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embedding-providers.js';
 
 export type EmbeddingVector = Float32Array;
 
 @singleton()
 export class EmbeddingService {
-  private extractor: any = null;
-  private modelName = 'Xenova/all-MiniLM-L6-v2';
+  private provider: EmbeddingProvider = new LocalEmbeddingProvider();
+  private batchSize = 32;
 
   constructor() {}
 
-  async initialize(): Promise<void> {
-    if (this.extractor) return;
-    try {
-      logger.debug(`[EmbeddingService] Loading local model: ${this.modelName}...`);
-      this.extractor = await pipeline('feature-extraction', this.modelName);
-      logger.debug('[EmbeddingService] Model loaded successfully.');
-    } catch (error) {
-      console.error('[EmbeddingService] Failed to load embedding model:', error);
-      throw error;
-    }
+  /**
+   * Switches to the backend selected by the `embeddings` config.
+   * @param config - Parsed embeddings config.
+   */
+  configure(config: EmbeddingConfig): void {
+    this.provider = createEmbeddingProvider(config);
+    this.batchSize = config.batchSize;
   }
 
-  async embed(text: string): Promise<Float32Array> {
-    if (!this.extractor) await this.initialize();
+  /**
+   * Name of the model producing the embeddings, as stored with each vector.
+   */
+  getModelName(): string {
+    return this.provider.model;
+  }
 
-    // Normalize and pool to get a single vector per input
-    const output = await this.extractor(text, { pooling: 'mean', normalize: true });
+  async embed(text: string): Promise<Float32Array> {
+    const [vector] = await this.provider.embed([text]);
+    return vector;
+  }
 
-    // output.data is the Float32Array vector
-    return output.data;
+  /**
+   * Embeds many texts, `batchSize` per provider request.
+   * @param texts - Texts to embed.
+   * @returns One vector per text, in order.
+   */
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...(await this.provider.embed(texts.slice(i, i + this.batchSize))));
+    }
+    return vectors;
   }
 
   /**
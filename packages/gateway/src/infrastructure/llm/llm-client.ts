@@ -15,15 +15,36 @@
 import type OpenAI from 'openai';
 import type { ModelConfig } from '@adytum/shared';
 import { type ModelCatalog } from './model-catalog.js';
+import { toStrictJsonSchema, type JsonSchema } from '../../tools/json-schema.js';
+import { CancelledError } from '../../domain/errors/cancelled-error.js';
 
 // ─── Types ────────────────────────────────────────────────────
 
+/** JSON the answer must be: sent as a native response schema or as a forced tool call. */
+export interface StructuredOutput {
+  name: string;
+  schema: JsonSchema;
+}
+
 export interface LLMChatOptions {
   messages: OpenAI.ChatCompletionMessageParam[];
   tools?: OpenAI.ChatCompletionTool[];
   temperature?: number;
   maxTokens?: number;
   response_format?: { type: 'text' | 'json_object' };
+  /** Aborts the provider request; the call then rejects with `CancelledError`. */
+  signal?: AbortSignal;
+  /**
+   * Provider prompt caching. On Anthropic the system prompt and the conversation so far are
+   * marked with `cache_control`; other providers cache long prefixes automatically.
+   */
+  promptCaching?: 'none' | 'short' | 'long';
+  /**
+   * Constrains the answer to a JSON Schema. OpenAI APIs get a native `json_schema` response
+   * format; Anthropic, Google and Bedrock get a forced tool call whose arguments become the
+   * message content. Other APIs get the request unchanged.
+   */
+  structuredOutput?: StructuredOutput;
 }
 
 export interface LLMChatResult {
@@ -32,11 +53,19 @@ export interface LLMChatResult {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Input tokens read from the provider's prompt cache. */
+    cachedTokens?: number;
   };
   model: string;
   finishReason?: string;
 }
 
+/** One event of a streamed completion; `done` carries the assembled result. */
+export type LLMStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; toolCall: OpenAI.ChatCompletionChunk.Choice.Delta.ToolCall }
+  | { type: 'done'; result: LLMChatResult };
+
 // ─── API Type Resolution ──────────────────────────────────────
 
 /**
@@ -89,8 +118,88 @@ export class LLMClient {
    * Send a chat completion request using pi-ai.
    */
   async chat(modelConfig: ModelConfig, options: LLMChatOptions): Promise<LLMChatResult> {
-    const start = Date.now();
+    const { pi, piModel, context, piOptions, forcedTool } = await this.prepare(
+      modelConfig,
+      options,
+    );
+    try {
+      const result = await pi.complete(piModel, context, piOptions);
+      if (result.errorMessage || result.stopReason === 'aborted') {
+        throw new Error(result.errorMessage || 'Request aborted');
+      }
+      return toChatResult(result, modelConfig, forcedTool);
+    } catch (e: any) {
+      if (options.signal?.aborted) throw cancelled(modelConfig);
+      // Enhance error message
+      throw new Error(`LLM Error (${piModel.provider}/${modelConfig.model}): ${e.message || e}`);
+    }
+  }
+
+  /**
+   * Streams a chat completion. Text and tool-call argument deltas are yielded as the provider
+   * sends them; the last event carries the assembled message and the usage.
+   * @param modelConfig - Model to call.
+   * @param options - Request options.
+   * @returns Stream events, ending with `done`.
+   */
+  async *chatStream(
+    modelConfig: ModelConfig,
+    options: LLMChatOptions,
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { pi, piModel, context, piOptions, forcedTool } = await this.prepare(
+      modelConfig,
+      options,
+    );
+    // pi-ai numbers content blocks; OpenAI deltas number tool calls
+    const toolIndexes = new Map<number, number>();
+    try {
+      for await (const event of pi.stream(piModel, context, piOptions)) {
+        switch (event.type) {
+          case 'text_delta':
+            if (event.delta) yield { type: 'text', delta: event.delta };
+            break;
+          case 'toolcall_start': {
+            const block = event.partial.content[event.contentIndex] as any;
+            const index = toolIndexes.size;
+            toolIndexes.set(event.contentIndex, index);
+            yield {
+              type: 'tool_call',
+              toolCall: {
+                index,
+                id: block?.id,
+                type: 'function',
+                function: { name: block?.name, arguments: '' },
+              },
+            };
+            break;
+          }
+          case 'toolcall_delta':
+            yield {
+              type: 'tool_call',
+              toolCall: {
+                index: toolIndexes.get(event.contentIndex) ?? 0,
+                function: { arguments: event.delta },
+              },
+            };
+            break;
+          case 'done':
+            yield { type: 'done', result: toChatResult(event.message, modelConfig, forcedTool) };
+            return;
+          case 'error':
+            throw new Error(event.error.errorMessage || `Stream ${event.reason}`);
+        }
+      }
+      throw new Error('Stream ended without a result');
+    } catch (e: any) {
+      if (options.signal?.aborted) throw cancelled(modelConfig);
+      throw new Error(`LLM Error (${piModel.provider}/${modelConfig.model}): ${e.message || e}`);
+    }
+  }
 
+  /**
+   * Builds the pi-ai model, context and options for a request.
+   */
+  private async prepare(modelConfig: ModelConfig, options: LLMChatOptions) {
     // 1. Resolve model object compatible with pi-ai
     const provider = modelConfig.provider.toLowerCase();
     const modelId = `${provider}/${modelConfig.model}`;
@@ -144,6 +253,8 @@ export class LLMClient {
       maxTokens: options.maxTokens,
       temperature: options.temperature,
       response_format: options.response_format,
+      signal: options.signal,
+      cacheRetention: options.promptCaching,
     };
 
     // Tools mapping
@@ -155,11 +266,73 @@ export class LLMClient {
     const pi = await import('@mariozechner/pi-ai');
 
     // Tools mapping: pi-ai expects Tool[] in context
-    const piTools = options.tools?.map((t) => ({
-      name: t.function.name,
-      description: t.function.description || '',
-      parameters: t.function.parameters as any,
-    }));
+    // Strict mode applies per tool; schemas that cannot be expressed strictly stay as they are
+    const strictTools = new Set<string>();
+    let piTools = options.tools?.map((t) => {
+      const strictParameters =
+        modelConfig.strictTools && piModel.api === 'openai-completions'
+          ? toStrictJsonSchema(t.function.parameters ?? {})
+          : undefined;
+      if (strictParameters) strictTools.add(t.function.name);
+      return {
+        name: t.function.name,
+        description: t.function.description || '',
+        parameters: (strictParameters ?? t.function.parameters) as any,
+      };
+    });
+    const payloadPatches: Array<(payload: any) => void> = [];
+    if (strictTools.size > 0) {
+      // pi-ai always sends `strict: false`; flip it on the outgoing request
+      payloadPatches.push((payload) => {
+        for (const tool of payload?.tools ?? []) {
+          if (strictTools.has(tool.function?.name)) tool.function.strict = true;
+        }
+      });
+    }
+
+    // Structured output: a native response schema where the API has one, else a forced tool
+    let forcedTool: string | undefined;
+    const structured = options.structuredOutput;
+    if (structured) {
+      const strictSchema = toStrictJsonSchema(structured.schema);
+      const format = {
+        name: structured.name,
+        schema: strictSchema ?? structured.schema,
+        strict: strictSchema !== undefined,
+      };
+      switch (piModel.api) {
+        case 'openai-completions':
+          payloadPatches.push((payload) => {
+            payload.response_format = { type: 'json_schema', json_schema: format };
+          });
+          break;
+        case 'openai-responses':
+        case 'azure-openai-responses':
+          payloadPatches.push((payload) => {
+            payload.text = { ...payload.text, format: { type: 'json_schema', ...format } };
+          });
+          break;
+        case 'anthropic-messages':
+        case 'bedrock-converse-stream':
+        case 'google-generative-ai':
+        case 'google-vertex': {
+          forcedTool = structured.name;
+          const tool = {
+            name: structured.name,
+            description: 'Return the answer as the arguments of this call.',
+            parameters: structured.schema as any,
+          };
+          // Google can only force "some tool", so the structured tool is the only one offered
+          const google = piModel.api.startsWith('google');
+          piTools = google ? [tool] : [...(piTools ?? []), tool];
+          piOptions.toolChoice = google ? 'any' : { type: 'tool', name: structured.name };
+          break;
+        }
+      }
+    }
+    if (payloadPatches.length > 0) {
+      piOptions.onPayload = (payload: any) => payloadPatches.forEach((patch) => patch(payload));
+    }
 
     // Convert messages slightly if needed? pi.complete takes standard {role, content}
     // We sanitize nulls just in case
@@ -266,74 +439,75 @@ export class LLMClient {
       })
       .filter(Boolean) as any[]; // Cast to any to satisfy Message[] for now
 
-    try {
-      // Fix: complete takes (model, context, options)
-      const result = await pi.complete(
-        piModel,
-        {
-          messages: contextMessages,
-          systemPrompt,
-          tools: piTools,
-        },
-        piOptions,
-      );
-
-      if (result.errorMessage) {
-        throw new Error(result.errorMessage);
-      }
+    return {
+      pi,
+      piModel,
+      context: { messages: contextMessages, systemPrompt, tools: piTools },
+      piOptions,
+      forcedTool,
+    };
+  }
 
-      // Map result to LLMChatResult (OpenAI style)
-      const choice: OpenAI.ChatCompletionMessage = {
-        role: 'assistant',
-        content:
-          typeof result.content === 'string' ? sanitizeHistoricalContext(result.content) : '',
-        refusal: null,
-      };
+  // Helper methods removed (chatAnthropic, chatOpenAICompatible, etc)
+}
 
-      // Handle content blocks if array
-      if (Array.isArray(result.content)) {
-        // pi-ai content blocks: { type: 'text', text: '...' } or { type: 'tool_use', ... }
-        // We need to join text and enable tool calls
-        const text = result.content
-          .filter((c: any) => c.type === 'text')
-          .map((c: any) => c.text)
-          .join('');
-        choice.content = sanitizeHistoricalContext(text);
-
-        const toolCalls = result.content
-          .filter((c: any) => c.type === 'toolCall')
-          .map((c: any) => ({
-            id: c.id,
-            type: 'function' as const,
-            function: {
-              name: c.name,
-              arguments:
-                typeof c.arguments === 'string' ? c.arguments : JSON.stringify(c.arguments),
-            },
-          }));
+function cancelled(modelConfig: ModelConfig): CancelledError {
+  return new CancelledError(`Call to ${modelConfig.provider}/${modelConfig.model} was cancelled.`);
+}
 
-        if (toolCalls.length > 0) {
-          choice.tool_calls = toolCalls;
-        }
-      }
+/**
+ * Maps a pi-ai assistant message to an OpenAI-style chat result.
+ * @param result - pi-ai assistant message.
+ * @param modelConfig - Model that produced it.
+ * @param forcedTool - Tool that carries structured output; its arguments become the content.
+ * @returns The chat result.
+ */
+function toChatResult(result: any, modelConfig: ModelConfig, forcedTool?: string): LLMChatResult {
+  const choice: OpenAI.ChatCompletionMessage = {
+    role: 'assistant',
+    content: typeof result.content === 'string' ? sanitizeHistoricalContext(result.content) : '',
+    refusal: null,
+  };
 
-      return {
-        message: choice,
-        usage: {
-          promptTokens: result.usage?.input || 0,
-          completionTokens: result.usage?.output || 0,
-          totalTokens: result.usage?.totalTokens || 0,
+  // Handle content blocks if array
+  if (Array.isArray(result.content)) {
+    // pi-ai content blocks: { type: 'text', text: '...' } or { type: 'toolCall', ... }
+    const text = result.content
+      .filter((c: any) => c.type === 'text')
+      .map((c: any) => c.text)
+      .join('');
+    choice.content = sanitizeHistoricalContext(text);
+
+    const toolCalls = result.content
+      .filter((c: any) => c.type === 'toolCall')
+      .map((c: any) => ({
+        id: c.id,
+        type: 'function' as const,
+        function: {
+          name: c.name,
+          arguments: typeof c.arguments === 'string' ? c.arguments : JSON.stringify(c.arguments),
         },
-        model: result.model || modelConfig.model,
-        finishReason: result.stopReason,
-      };
-    } catch (e: any) {
-      // Enhance error message
-      throw new Error(`LLM Error (${provider}/${modelConfig.model}): ${e.message || e}`);
+      }));
+
+    const structured = forcedTool && toolCalls.find((tc: any) => tc.function.name === forcedTool);
+    if (structured) {
+      choice.content = structured.function.arguments;
+    } else if (toolCalls.length > 0) {
+      choice.tool_calls = toolCalls;
     }
   }
 
-  // Helper methods removed (chatAnthropic, chatOpenAICompatible, etc)
+  return {
+    message: choice,
+    usage: {
+      promptTokens: result.usage?.input || 0,
+      completionTokens: result.usage?.output || 0,
+      totalTokens: result.usage?.totalTokens || 0,
+      cachedTokens: result.usage?.cacheRead || 0,
+    },
+    model: result.model || modelConfig.model,
+    finishReason: result.stopReason,
+  };
 }
 
 /**
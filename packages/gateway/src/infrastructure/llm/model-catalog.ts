@@ -17,6 +17,7 @@ import { resolveAllProviders } from './provider-merge.js';
 import { resolveApiKeyValue } from './provider-env-resolver.js';
 import { discoverLocalModels } from './provider-discovery.js';
 import { AuthResolver } from './auth-resolver.js';
+import { SecretsVault } from '../../security/secrets-vault.js';
 import { ModelSelector } from './model-selection.js';
 import { FallbackManager } from './model-fallback.js';
 import { ObservabilityManager } from './model-observability.js';
@@ -48,7 +49,10 @@ export class ModelCatalog implements ModelRepository {
   private fallbackManager: FallbackManager | null = null;
   private observability: ObservabilityManager = new ObservabilityManager();
 
-  constructor(@inject(Logger) private logger: Logger) {
+  constructor(
+    @inject(Logger) private logger: Logger,
+    @inject(SecretsVault) private vault: SecretsVault,
+  ) {
     this.config = loadConfig();
     this.catalogPath = join(this.config.workspacePath || process.cwd(), 'models.json');
     this.logger.debug('ModelCatalog initialized');
@@ -71,6 +75,7 @@ export class ModelCatalog implements ModelRepository {
     // Initialize auth resolver
     this.authResolver = new AuthResolver({
       workspacePath: config.workspacePath || process.cwd(),
+      vault: this.vault,
     });
 
     // Load resolved providers into catalog
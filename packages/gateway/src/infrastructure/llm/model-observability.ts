@@ -5,6 +5,7 @@
  *   - Per-request cost tracking with running totals
  *   - Provider health status aggregation
  *   - Usage analytics (requests, tokens, latency by provider/model)
+ *   - Response cache hits and prompt caching savings
  *
  * Designed to be consumed by the dashboard API and logging system.
  */
@@ -127,6 +128,34 @@ export interface UsageSummary {
   >;
 }
 
+// ─── Caching ──────────────────────────────────────────────────
+
+export interface CacheHit {
+  modelId: string;
+  /** Tokens the request would have used. */
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated USD cost avoided. */
+  savedCost: number;
+  timestamp: number;
+}
+
+export interface CacheSummary {
+  /** Requests answered from the response cache */
+  hits: number;
+  /** Cacheable requests sent to a provider */
+  misses: number;
+  /** hits / (hits + misses), 0 when there were none */
+  hitRate: number;
+  /** Tokens and USD saved by response cache hits */
+  savedTokens: number;
+  savedCost: number;
+  /** Input tokens the provider served from its prompt cache */
+  promptCachedTokens: number;
+  /** USD saved by provider prompt caching */
+  promptCacheSavings: number;
+}
+
 // ─── Observability Manager ────────────────────────────────────
 
 const DEFAULT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
@@ -135,6 +164,8 @@ const MAX_RECORDS = 10_000;
 export class ObservabilityManager {
   private usageRecords: UsageRecord[] = [];
   private costRecords: RequestCost[] = [];
+  private cacheHits: CacheHit[] = [];
+  private cacheMisses: number[] = [];
   private providerErrors = new Map<string, { count: number; lastMsg?: string; lastAt?: number }>();
   private providerSuccesses = new Map<string, { count: number; lastAt?: number }>();
 
@@ -332,6 +363,44 @@ export class ObservabilityManager {
     return summary;
   }
 
+  // ── Caching ─────────────────────────────────────────────
+
+  /**
+   * Record a request answered from the response cache.
+   */
+  recordCacheHit(hit: Omit<CacheHit, 'timestamp'>): void {
+    this.cacheHits.push({ ...hit, timestamp: Date.now() });
+    this.trimRecords();
+  }
+
+  /**
+   * Record a cacheable request that had to go to the provider.
+   */
+  recordCacheMiss(): void {
+    this.cacheMisses.push(Date.now());
+    this.trimRecords();
+  }
+
+  /**
+   * Get response cache and prompt caching figures for a time window.
+   */
+  getCacheSummary(windowMs = DEFAULT_WINDOW_MS): CacheSummary {
+    const cutoff = Date.now() - windowMs;
+    const hits = this.cacheHits.filter((h) => h.timestamp >= cutoff);
+    const misses = this.cacheMisses.filter((t) => t >= cutoff).length;
+    const costs = this.getCostSummary(windowMs);
+
+    return {
+      hits: hits.length,
+      misses,
+      hitRate: hits.length + misses > 0 ? hits.length / (hits.length + misses) : 0,
+      savedTokens: hits.reduce((sum, h) => sum + h.inputTokens + h.outputTokens, 0),
+      savedCost: hits.reduce((sum, h) => sum + h.savedCost, 0),
+      promptCachedTokens: costs.totalCachedTokens,
+      promptCacheSavings: costs.totalCacheSavings,
+    };
+  }
+
   // ── Provider Health ─────────────────────────────────────
 
   /**
@@ -405,6 +474,12 @@ export class ObservabilityManager {
     if (this.costRecords.length > MAX_RECORDS) {
       this.costRecords = this.costRecords.slice(-MAX_RECORDS);
     }
+    if (this.cacheHits.length > MAX_RECORDS) {
+      this.cacheHits = this.cacheHits.slice(-MAX_RECORDS);
+    }
+    if (this.cacheMisses.length > MAX_RECORDS) {
+      this.cacheMisses = this.cacheMisses.slice(-MAX_RECORDS);
+    }
   }
 
   /**
@@ -413,6 +488,8 @@ export class ObservabilityManager {
   reset(): void {
     this.usageRecords = [];
     this.costRecords = [];
+    this.cacheHits = [];
+    this.cacheMisses = [];
     this.providerErrors.clear();
     this.providerSuccesses.clear();
   }
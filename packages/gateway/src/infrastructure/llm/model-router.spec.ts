@@ -4,6 +4,8 @@ import { ModelRouter } from './model-router.js';
 import { LLMClient } from './llm-client.js';
 import type { ModelRepository } from '../../domain/interfaces/model-repository.interface.js';
 import type { ModelConfig } from '@adytum/shared';
+import { z } from 'zod';
+import { CancelledError } from '../../domain/errors/cancelled-error.js';
 
 vi.mock('./llm-client.js');
 
@@ -38,6 +40,7 @@ describe('ModelRouter', () => {
 
     mockLLMClient = {
       chat: vi.fn(),
+      chatStream: vi.fn(),
     };
     (LLMClient as any).mockImplementation(() => mockLLMClient);
 
@@ -84,6 +87,61 @@ describe('ModelRouter', () => {
       expect(mockLLMClient.chat).toHaveBeenCalledTimes(2);
     });
 
+    it('answers a repeated request from the response cache', async () => {
+      const store = new Map<string, any>();
+      const responseCache = {
+        keyFor: (_model: ModelConfig, request: any) => JSON.stringify(request.messages),
+        get: (key: string) => store.get(key),
+        set: (key: string, _model: ModelConfig, result: any) => store.set(key, result),
+      };
+      modelRouter.setCaching({ responseCache: responseCache as any, promptCaching: 'short' });
+      mockLLMClient.chat.mockResolvedValueOnce({
+        message: { content: 'All quiet.' },
+        usage: { promptTokens: 10, completionTokens: 3, totalTokens: 13 },
+      });
+
+      const messages = [{ role: 'user' as const, content: 'heartbeat' }];
+      await modelRouter.chat('thinking', messages, { cache: true });
+      const second = await modelRouter.chat('thinking', messages, { cache: true });
+
+      expect(mockLLMClient.chat).toHaveBeenCalledTimes(1);
+      expect(mockLLMClient.chat.mock.calls[0][1].promptCaching).toBe('short');
+      expect(second.message.content).toBe('All quiet.');
+      expect(second.usage).toMatchObject({ cached: true, totalTokens: 0 });
+
+      // Calls that do not opt in, like interactive turns, always reach the provider
+      mockLLMClient.chat.mockResolvedValueOnce({
+        message: { content: 'Fresh answer.' },
+        usage: { promptTokens: 10, completionTokens: 3, totalTokens: 13 },
+      });
+      const fresh = await modelRouter.chat('thinking', messages);
+      expect(fresh.message.content).toBe('Fresh answer.');
+      expect(mockLLMClient.chat).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops without retrying or falling back once the signal aborts', async () => {
+      modelRouter.updateRouting({
+        maxRetries: 3,
+        fallbackOnRateLimit: true,
+        fallbackOnError: true,
+      });
+      const controller = new AbortController();
+      mockLLMClient.chat.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new Error('timeout');
+      });
+      const critical = vi.fn();
+      modelRouter.on('critical_failure', critical);
+
+      await expect(
+        modelRouter.chat('fast', [{ role: 'user', content: 'hi' }], { signal: controller.signal }),
+      ).rejects.toBeInstanceOf(CancelledError);
+
+      expect(mockLLMClient.chat).toHaveBeenCalledTimes(1);
+      expect(mockLLMClient.chat.mock.calls[0][1].signal).toBe(controller.signal);
+      expect(critical).not.toHaveBeenCalled();
+    });
+
     it('should fallback to next model on rate limit when fallbackOnRateLimit is true', async () => {
       modelRouter.updateRouting({
         maxRetries: 1,
@@ -148,33 +206,253 @@ describe('ModelRouter', () => {
     });
   });
 
+  describe('chatStructured', () => {
+    const PlanSchema = z.object({ goal: z.string(), steps: z.array(z.string()) });
+    const reply = (content: string) => ({
+      message: { role: 'assistant', content },
+      usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 },
+    });
+
+    it('sends invalid output back for repair', async () => {
+      mockLLMClient.chat
+        .mockResolvedValueOnce(reply('Here you go: {"goal":"ship"}'))
+        .mockResolvedValueOnce(reply('{"goal":"ship","steps":["build","release"]}'));
+
+      const result = await modelRouter.chatStructured(
+        'thinking',
+        [{ role: 'user', content: 'plan' }],
+        PlanSchema,
+        { name: 'plan' },
+      );
+
+      expect(result.data).toEqual({ goal: 'ship', steps: ['build', 'release'] });
+      expect(result.usage.totalTokens).toBe(40);
+      const [, first] = mockLLMClient.chat.mock.calls[0];
+      expect(first.structuredOutput).toMatchObject({ name: 'plan', schema: { type: 'object' } });
+      const [, repair] = mockLLMClient.chat.mock.calls[1];
+      expect(repair.messages.at(-1).content).toMatch(/steps: Required/);
+    });
+
+    it('falls back to the next model when repairs fail, even with fallbackOnError off', async () => {
+      mockLLMClient.chat
+        .mockResolvedValueOnce(reply('I cannot do that.'))
+        .mockResolvedValueOnce(reply('Still no.'))
+        .mockResolvedValueOnce(reply('{"goal":"ship","steps":[]}'));
+
+      const result = await modelRouter.chatStructured(
+        'fast',
+        [{ role: 'user', content: 'plan' }],
+        PlanSchema,
+      );
+
+      expect(result.data.goal).toBe('ship');
+      expect(mockLLMClient.chat).toHaveBeenCalledTimes(3);
+      expect(mockLLMClient.chat.mock.calls[2][0].model).toBe('gpt-4o-mini');
+    });
+
+    it('caches only answers that pass validation', async () => {
+      const store = new Map<string, any>();
+      const responseCache = {
+        keyFor: (_model: ModelConfig, request: any) => JSON.stringify(request.messages),
+        get: (key: string) => store.get(key),
+        set: (key: string, _model: ModelConfig, result: any) => store.set(key, result),
+      };
+      modelRouter.setCaching({ responseCache: responseCache as any, promptCaching: 'short' });
+      mockLLMClient.chat
+        .mockResolvedValueOnce(reply('{"goal":"ship"}'))
+        .mockResolvedValueOnce(reply('{"goal":"ship","steps":["build"]}'))
+        .mockResolvedValueOnce(reply('{"goal":"ship","steps":["release"]}'));
+      const plan = () =>
+        modelRouter.chatStructured('thinking', [{ role: 'user', content: 'plan' }], PlanSchema, {
+          cache: true,
+        });
+
+      expect((await plan()).data.steps).toEqual(['build']);
+      // The invalid first answer was not stored, so the request goes to the model again
+      expect((await plan()).data.steps).toEqual(['release']);
+      expect(mockLLMClient.chat).toHaveBeenCalledTimes(3);
+
+      const cached = await plan();
+      expect(cached.data.steps).toEqual(['release']);
+      expect(cached.usage).toMatchObject({ cached: true });
+      expect(mockLLMClient.chat).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('resolveActiveModel', () => {
+    it('returns the first model of the chain with its catalog limits', async () => {
+      (mockModelCatalog.get as any).mockImplementation(async (id: string) =>
+        id === 'anthropic/claude-3-sonnet'
+          ? { ...mockModels[0], contextWindow: 200000, maxTokens: 8192 }
+          : null,
+      );
+
+      expect(await modelRouter.resolveActiveModel('thinking')).toEqual({
+        provider: 'anthropic',
+        model: 'claude-3-sonnet',
+        contextWindow: 200000,
+        maxTokens: 8192,
+      });
+      expect(await modelRouter.resolveActiveModel('fast')).toMatchObject({ model: 'gpt-4o' });
+    });
+  });
+
   describe('chatStream', () => {
-    it('should NOT fallback on error when fallbackOnError is false', async () => {
+    /** Streams text deltas, then fails or completes. */
+    const streamOf = (deltas: string[], end: Error | string) =>
+      async function* () {
+        for (const delta of deltas) yield { type: 'text', delta };
+        if (end instanceof Error) throw end;
+        yield {
+          type: 'done',
+          result: {
+            message: { role: 'assistant', content: end },
+            usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+          },
+        };
+      };
+
+    const collect = async (stream: AsyncGenerator<any>) => {
+      const chunks: any[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      return chunks;
+    };
+
+    it('yields deltas as they arrive and ends with the assembled message and usage', async () => {
+      mockLLMClient.chatStream.mockImplementationOnce(streamOf(['Hel', 'lo'], 'Hello'));
+
+      const chunks = await collect(
+        modelRouter.chatStream('thinking', [{ role: 'user', content: 'hi' }]),
+      );
+
+      expect(chunks.map((c) => [c.delta, c.done])).toEqual([
+        ['Hel', false],
+        ['lo', false],
+        ['', true],
+      ]);
+      expect(chunks[2].message.content).toBe('Hello');
+      expect(chunks[2].usage).toMatchObject({
+        model: 'anthropic/claude-3-sonnet',
+        promptTokens: 10,
+        completionTokens: 4,
+      });
+      expect(mockLLMClient.chat).not.toHaveBeenCalled();
+    });
+
+    it('restarts on the next model when one fails mid-stream', async () => {
       modelRouter.updateRouting({
         maxRetries: 1,
         fallbackOnRateLimit: true,
         fallbackOnError: false,
       });
+      mockLLMClient.chatStream
+        .mockImplementationOnce(streamOf(['Partial'], new Error('429 rate limit')))
+        .mockImplementationOnce(streamOf(['Full answer'], 'Full answer'));
 
-      mockLLMClient.chat.mockRejectedValueOnce(new Error('generic failure')).mockResolvedValueOnce({
-        message: { content: 'unexpected fallback' },
-        usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 },
+      const chunks = await collect(
+        modelRouter.chatStream('fast', [{ role: 'user', content: 'hi' }]),
+      );
+
+      expect(chunks.map((c) => [c.delta, !!c.restart, c.done])).toEqual([
+        ['Partial', false, false],
+        ['', true, false],
+        ['Full answer', false, false],
+        ['', false, true],
+      ]);
+      expect(mockLLMClient.chatStream).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ model: 'gpt-4o-mini' }),
+        expect.any(Object),
+      );
+    });
+
+    it('should NOT fallback on error when fallbackOnError is false', async () => {
+      modelRouter.updateRouting({
+        maxRetries: 1,
+        fallbackOnRateLimit: true,
+        fallbackOnError: false,
       });
 
+      mockLLMClient.chatStream
+        .mockImplementationOnce(streamOf([], new Error('generic failure')))
+        .mockImplementationOnce(streamOf([], 'unexpected fallback'));
+
       const stream = modelRouter.chatStream('fast', [{ role: 'user', content: 'hi' }]);
 
-      /**
-       * Executes iterate stream.
-       */
-      const iterateStream = async () => {
-        for await (const _ of stream) {
-          // ...
-        }
-      };
+      await expect(collect(stream)).rejects.toThrow(/fallback is disabled/);
 
-      await expect(iterateStream()).rejects.toThrow(/fallback is disabled/);
+      expect(mockLLMClient.chatStream).toHaveBeenCalledTimes(1);
+    });
+  });
+});
 
-      expect(mockLLMClient.chat).toHaveBeenCalledTimes(1);
+describe('ModelRouter budgets', () => {
+  const models: ModelConfig[] = [
+    { provider: 'anthropic', model: 'claude-3-sonnet', role: 'thinking' } as any,
+    { provider: 'openai', model: 'gpt-4o-mini', role: 'fast' } as any,
+  ];
+  let router: ModelRouter;
+  let llm: any;
+
+  const exceeded = (onExceeded: 'downgrade' | 'refuse') => ({
+    check: vi.fn().mockReturnValue({
+      exceeded: [
+        {
+          scope: 'session',
+          status: 'exceeded',
+          spentCost: 1.2,
+          spentTokens: 0,
+          limit: { maxCost: 1 },
+        },
+      ],
+      warnings: [],
+      onExceeded,
+      downgradeRoles: ['fast', 'local'],
+    }),
+    notify: vi.fn(),
+  });
+
+  beforeEach(() => {
+    llm = {
+      chat: vi.fn().mockResolvedValue({
+        message: { content: 'ok' },
+        usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+      }),
+    };
+    (LLMClient as any).mockImplementation(() => llm);
+    router = new ModelRouter({
+      models,
+      modelChains: { thinking: ['anthropic/claude-3-sonnet'], fast: ['openai/gpt-4o-mini'] },
+      taskOverrides: {},
+      modelCatalog: {
+        get: vi.fn(async (id: string) => models.find((m) => `${m.provider}/${m.model}` === id)),
+      },
+      routing: { maxRetries: 1, fallbackOnRateLimit: true, fallbackOnError: false },
     });
   });
+
+  it('downgrades thinking calls to the fast chain once a budget is spent', async () => {
+    const budgets = exceeded('downgrade');
+    router.setBudgetManager(budgets as any);
+
+    await router.chat('thinking', [{ role: 'user', content: 'hi' }], { sessionId: 's1' });
+
+    expect(llm.chat).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'gpt-4o-mini' }),
+      expect.any(Object),
+    );
+    expect(budgets.notify).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: 'session', action: 'downgraded', role: 'fast' }),
+      expect.objectContaining({ sessionId: 's1' }),
+    );
+  });
+
+  it('refuses calls when the policy is refuse', async () => {
+    router.setBudgetManager(exceeded('refuse') as any);
+
+    await expect(router.chat('thinking', [{ role: 'user', content: 'hi' }])).rejects.toThrow(
+      /session budget is exhausted/,
+    );
+    expect(llm.chat).not.toHaveBeenCalled();
+  });
 });
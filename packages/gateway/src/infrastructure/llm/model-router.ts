@@ -7,10 +7,29 @@ import { logger } from '../../logger.js';
 import { singleton, inject } from 'tsyringe';
 import { EventEmitter } from 'node:events';
 import OpenAI from 'openai';
-import type { ModelRole, TokenUsage, AdytumConfig, ModelConfig } from '@adytum/shared';
-import { LLMClient } from './llm-client.js';
+import type { z } from 'zod';
+import type {
+  ModelRole,
+  TokenUsage,
+  AdytumConfig,
+  ModelConfig,
+  AgentTier,
+  ModelCacheConfig,
+} from '@adytum/shared';
+import {
+  LLMClient,
+  type LLMChatOptions,
+  type LLMChatResult,
+  type StructuredOutput,
+} from './llm-client.js';
 import { auditLogger } from '../../security/audit-logger.js';
 import type { ModelRepository } from '../../domain/interfaces/model-repository.interface.js';
+import { BudgetExceededError, type BudgetManager } from '../../domain/logic/budget-manager.js';
+import { CancelledError } from '../../domain/errors/cancelled-error.js';
+import type { ResponseCache } from './response-cache.js';
+import type { CacheSummary, ObservabilityManager } from './model-observability.js';
+import { zodToJsonSchema } from '../../tools/json-schema.js';
+import { parseStructuredOutput, repairPrompt, StructuredOutputError } from './structured-output.js';
 
 // Helper type for OpenAI response format compatibility
 type OpenAIResponseFormat = { type: 'text' | 'json_object' };
@@ -23,6 +42,67 @@ interface ModelRouterConfig {
   routing: AdytumConfig['routing'];
 }
 
+/** A piece of a streamed answer. */
+export type ChatStreamChunk = {
+  delta: string;
+  toolCalls?: OpenAI.ChatCompletionChunk.Choice.Delta.ToolCall[];
+  /** A model failed after it started answering; drop what was streamed so far. */
+  restart?: boolean;
+  done: boolean;
+  /** Set on the final chunk. */
+  message?: OpenAI.ChatCompletionMessage;
+  usage?: TokenUsage;
+};
+
+export type ChatOptions = {
+  tools?: OpenAI.ChatCompletionTool[];
+  temperature?: number;
+  maxTokens?: number;
+  stream?: boolean;
+  fallbackRole?: ModelRole;
+  response_format?: OpenAIResponseFormat;
+  tier?: 1 | 2 | 3;
+  /** Session and agent the call is made for; used for budgets. */
+  sessionId?: string;
+  agentId?: string;
+  /** Streams the answer from the provider, passing each delta here as it arrives. */
+  onDelta?: (chunk: ChatStreamChunk) => void;
+  /** Aborts the call; it then rejects with `CancelledError` without retries or fallbacks. */
+  signal?: AbortSignal;
+  /**
+   * Answer from the response cache when an identical request was made before. Meant for
+   * background calls that repeat verbatim; interactive turns always go to the provider.
+   */
+  cache?: boolean;
+  /** Set by `chatStructured`: the answer each model must produce. */
+  structured?: StructuredRequest;
+};
+
+/** Expected answer of a structured call. */
+type StructuredRequest = {
+  output: StructuredOutput;
+  schema: z.ZodTypeAny;
+  repairAttempts: number;
+};
+
+export type StructuredChatOptions = Omit<
+  ChatOptions,
+  'tools' | 'response_format' | 'stream' | 'onDelta' | 'structured'
+> & {
+  /** Name of the answer, sent as the schema or tool name. Defaults to "response". */
+  name?: string;
+  /** Follow-ups per model that send validation errors back for a fix. Defaults to 1. */
+  repairAttempts?: number;
+};
+
+/** The model a role currently routes to, with the limits that size its context. */
+export type ActiveModel = {
+  provider: string;
+  model: string;
+  contextWindow?: number;
+  maxTokens?: number;
+};
+
 export type ModelRuntimeStatus = {
   state: 'rate_limited' | 'quota_exceeded';
   cooldownUntil: number;
@@ -56,6 +136,10 @@ export class ModelRouter extends EventEmitter {
   private cooldowns = new Map<string, number>(); // modelId -> timestamp until which it is cooled down
   private modelRuntimeStatus = new Map<string, ModelRuntimeStatus>();
   private routing: AdytumConfig['routing'];
+  private budgetManager?: BudgetManager;
+  private responseCache?: ResponseCache;
+  private promptCaching: ModelCacheConfig['promptCaching'] = 'short';
+  private observability?: ObservabilityManager;
 
   constructor(@inject('RouterConfig') config: any) {
     super();
@@ -102,6 +186,46 @@ export class ModelRouter extends EventEmitter {
     };
   }
 
+  /**
+   * Enforces budgets on every `chat` and `chatStream` call.
+   * @param manager - Budget manager.
+   */
+  setBudgetManager(manager: BudgetManager): void {
+    this.budgetManager = manager;
+  }
+
+  /**
+   * Configures the response cache and provider prompt caching. Cache hits, misses and prompt
+   * caching savings are recorded in `observability`.
+   * @param options - Response cache (omit to disable), prompt caching mode and recorder.
+   */
+  setCaching(options: {
+    responseCache?: ResponseCache;
+    promptCaching: ModelCacheConfig['promptCaching'];
+    observability?: ObservabilityManager;
+  }): void {
+    this.responseCache = options.responseCache;
+    this.promptCaching = options.promptCaching;
+    this.observability = options.observability;
+  }
+
+  /**
+   * Response cache and prompt caching figures for the last hour.
+   * @returns The summary, with the number of stored responses.
+   */
+  getCacheStats(): CacheSummary & { entries: number } {
+    const summary = this.observability?.getCacheSummary() ?? {
+      hits: 0,
+      misses: 0,
+      hitRate: 0,
+      savedTokens: 0,
+      savedCost: 0,
+      promptCachedTokens: 0,
+      promptCacheSavings: 0,
+    };
+    return { ...summary, entries: this.responseCache?.size() ?? 0 };
+  }
+
   /**
    * Initialize.
    * Returns a status message for startup logging.
@@ -451,23 +575,18 @@ export class ModelRouter extends EventEmitter {
   async chat(
     roleOrTask: string,
     messages: OpenAI.ChatCompletionMessageParam[],
-    options: {
-      tools?: OpenAI.ChatCompletionTool[];
-      temperature?: number;
-      maxTokens?: number;
-      stream?: boolean;
-      fallbackRole?: ModelRole;
-      response_format?: OpenAIResponseFormat;
-      tier?: 1 | 2 | 3;
-    } = {},
+    options: ChatOptions = {},
   ): Promise<{
     message: OpenAI.ChatCompletionMessage;
     usage: TokenUsage;
   }> {
     if (!this.initialized) await this.initialize();
+    const budget = await this.applyBudget(roleOrTask, options);
+    roleOrTask = budget.roleOrTask;
     const errors: Error[] = [];
     const directModel = await this.resolveDirectModel(roleOrTask);
-    const fallbackRole = options.fallbackRole;
+    // A downgraded call must not fall back to the expensive role it came from
+    const fallbackRole = budget.downgraded ? undefined : options.fallbackRole;
     let chain = directModel ? [directModel] : await this.resolveChain(roleOrTask);
     if (directModel && this.routing.fallbackOnRateLimit && fallbackRole) {
       const fallbackChain = await this.resolveChain(fallbackRole);
@@ -505,16 +624,37 @@ export class ModelRouter extends EventEmitter {
       let attempt = 0;
       while (attempt < maxRetries) {
         attempt++;
+        if (options.signal?.aborted)
+          throw new CancelledError(`Call for "${roleOrTask}" was cancelled.`);
         try {
           logger.debug(
             `[ModelRouter] Trying ${modelConfig.model} (role ${roleOrTask}) attempt ${attempt}/${maxRetries}...`,
           );
           this.markModelHealthy(modelId);
-          return await this.chatDirect(modelConfig, roleOrTask as ModelRole, messages, options);
+          const result = options.structured
+            ? await this.chatDirectStructured(
+                modelConfig,
+                roleOrTask as ModelRole,
+                messages,
+                options,
+                options.structured,
+              )
+            : await this.chatDirect(modelConfig, roleOrTask as ModelRole, messages, options);
+          return {
+            ...result,
+            usage: { ...result.usage, agentId: options.agentId, tier: budget.tier },
+          };
         } catch (error: any) {
-          const isRateLimited = this.isRateLimitError(error);
+          if (options.signal?.aborted) {
+            throw error instanceof CancelledError
+              ? error
+              : new CancelledError(`Call for "${roleOrTask}" was cancelled.`);
+          }
+          // A model that cannot produce the structured answer hands over to the next one
+          const invalidOutput = error instanceof StructuredOutputError;
+          const isRateLimited = !invalidOutput && this.isRateLimitError(error);
           if (isRateLimited) this.setRateLimited(modelId, this.buildRateLimitState(error));
-          const retriable = isRateLimited || this.isRetriableError(error);
+          const retriable = isRateLimited || (!invalidOutput && this.isRetriableError(error));
           const canRetry = retriable && attempt < maxRetries;
           const errorMsg = `[${modelConfig.model}] ${error.message}`;
           console.warn(
@@ -522,9 +662,9 @@ export class ModelRouter extends EventEmitter {
           );
           if (canRetry) continue;
           errors.push(new Error(errorMsg));
-          const shouldFallback = isRateLimited
-            ? this.routing.fallbackOnRateLimit
-            : this.routing.fallbackOnError;
+          const shouldFallback =
+            invalidOutput ||
+            (isRateLimited ? this.routing.fallbackOnRateLimit : this.routing.fallbackOnError);
           if (!shouldFallback) {
             const errorDetails = errors.map((e) => `  • ${e.message}`).join('\n');
             const triedModels = chain.map((m) => `${m.provider}/${m.model}`).join(', ');
@@ -561,19 +701,43 @@ export class ModelRouter extends EventEmitter {
       temperature?: number;
       maxTokens?: number;
       response_format?: OpenAIResponseFormat;
+      onDelta?: (chunk: ChatStreamChunk) => void;
+      signal?: AbortSignal;
+      cache?: boolean;
+      /** Answers that fail this check are not written to the response cache. */
+      cacheIf?: (message: OpenAI.ChatCompletionMessage) => boolean;
+      structuredOutput?: StructuredOutput;
     },
   ): Promise<{ message: OpenAI.ChatCompletionMessage; usage: TokenUsage }> {
-    const result = await this.llmClient.chat(modelConfig, {
+    const request: LLMChatOptions = {
       messages,
       tools: options.tools,
       temperature: options.temperature ?? 0.7,
       maxTokens: options.maxTokens,
       response_format: options.response_format,
-    });
+      signal: options.signal,
+      promptCaching: this.promptCaching,
+      structuredOutput: options.structuredOutput,
+    };
+    const cacheKey =
+      this.responseCache && options.cache
+        ? this.responseCache.keyFor(modelConfig, request)
+        : undefined;
+    const cached = cacheKey ? this.responseCache!.get(cacheKey) : undefined;
+    if (cached) return this.fromCache(modelConfig, role, cached, options.onDelta);
+    if (cacheKey) this.observability?.recordCacheMiss();
+
+    const result = options.onDelta
+      ? await this.streamDirect(modelConfig, request, options.onDelta)
+      : await this.llmClient.chat(modelConfig, request);
     const hasContent = (result.message.content || '').trim().length > 0;
     const hasTools = (result.message.tool_calls || []).length > 0;
     if (!hasContent && !hasTools)
       throw new Error(`[${modelConfig.model}] Empty response from model (no content, no tools)`);
+    if (cacheKey && (options.cacheIf?.(result.message) ?? true)) {
+      this.responseCache!.set(cacheKey, modelConfig, result);
+    }
+    await this.recordPromptCaching(modelConfig, result);
     const usage: TokenUsage = {
       model: `${modelConfig.provider}/${modelConfig.model}`,
       role,
@@ -589,68 +753,302 @@ export class ModelRouter extends EventEmitter {
     return { message: result.message, usage };
   }
 
-  async *chatStream(
+  /**
+   * Calls one model for a structured answer. An answer that fails validation goes back to the
+   * model with the errors until it complies or the repair attempts run out.
+   * @param modelConfig - Model to call.
+   * @param role - Role of the request.
+   * @param messages - Chat messages.
+   * @param options - Call options.
+   * @param structured - Expected answer.
+   * @returns The result with the validated answer as `data`; usage covers all attempts.
+   * @throws StructuredOutputError when the last answer is still invalid.
+   */
+  private async chatDirectStructured(
+    modelConfig: ModelConfig,
     role: ModelRole,
     messages: OpenAI.ChatCompletionMessageParam[],
-    options: {
-      tools?: OpenAI.ChatCompletionTool[];
-      temperature?: number;
-      maxTokens?: number;
-    } = {},
-  ): AsyncGenerator<{
-    delta: string;
-    toolCalls?: OpenAI.ChatCompletionChunk.Choice.Delta.ToolCall[];
-    done: boolean;
-  }> {
-    const chain = await this.resolveChain(role);
-    if (chain.length === 0) {
-      const legacyRoles: ModelRole[] = ['thinking', 'fast', 'local'];
-      for (const r of legacyRoles) {
-        const m = this.roleMap.get(r);
-        if (m) chain.push(m);
+    options: ChatOptions,
+    structured: StructuredRequest,
+  ): Promise<{ message: OpenAI.ChatCompletionMessage; usage: TokenUsage; data: unknown }> {
+    let conversation = messages;
+    let usage: TokenUsage | undefined;
+    let error = '';
+    for (let attempt = 0; attempt <= structured.repairAttempts; attempt++) {
+      const result = await this.chatDirect(modelConfig, role, conversation, {
+        ...options,
+        onDelta: undefined,
+        structuredOutput: structured.output,
+        // An invalid answer would be replayed from the cache on every later call
+        cacheIf: (message) =>
+          parseStructuredOutput(message.content ?? '', structured.schema).success,
+      });
+      usage = usage
+        ? {
+            ...result.usage,
+            promptTokens: usage.promptTokens + result.usage.promptTokens,
+            completionTokens: usage.completionTokens + result.usage.completionTokens,
+            totalTokens: usage.totalTokens + result.usage.totalTokens,
+            estimatedCost: (usage.estimatedCost ?? 0) + (result.usage.estimatedCost ?? 0),
+          }
+        : result.usage;
+      const content = result.message.content ?? '';
+      const parsed = parseStructuredOutput(content, structured.schema);
+      if (parsed.success) return { message: result.message, usage, data: parsed.data };
+
+      error = parsed.error;
+      logger.debug(
+        `[ModelRouter] ${modelConfig.model} returned invalid "${structured.output.name}" output (attempt ${attempt + 1}): ${error}`,
+      );
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content },
+        { role: 'user', content: repairPrompt(error) },
+      ];
+    }
+    throw new StructuredOutputError(
+      `[${modelConfig.model}] Invalid "${structured.output.name}" output: ${error}`,
+    );
+  }
+
+  /**
+   * Answers from the response cache. Nothing is billed, so the usage carries no tokens.
+   * @param modelConfig - Model the request was routed to.
+   * @param role - Role of the request.
+   * @param result - Cached result.
+   * @param onDelta - Receives the whole answer as one delta when the call streams.
+   * @returns The cached message and a zero usage flagged `cached`.
+   */
+  private fromCache(
+    modelConfig: ModelConfig,
+    role: ModelRole,
+    result: LLMChatResult,
+    onDelta?: (chunk: ChatStreamChunk) => void,
+  ): { message: OpenAI.ChatCompletionMessage; usage: TokenUsage } {
+    const modelId = `${modelConfig.provider}/${modelConfig.model}`;
+    logger.debug(`[ModelRouter] Response cache hit for ${modelId}`);
+    this.observability?.recordCacheHit({
+      modelId,
+      inputTokens: result.usage.promptTokens + (result.usage.cachedTokens ?? 0),
+      outputTokens: result.usage.completionTokens,
+      savedCost: this.estimateCost(
+        modelConfig.model,
+        result.usage.promptTokens,
+        result.usage.completionTokens,
+      ),
+    });
+    if (onDelta && result.message.content) {
+      onDelta({ delta: result.message.content, done: false });
+    }
+    return {
+      message: result.message,
+      usage: {
+        model: modelId,
+        role,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedCost: 0,
+        cached: true,
+      },
+    };
+  }
+
+  /**
+   * Records the cost of a provider call, including what its prompt cache saved.
+   * @param modelConfig - Model that served the call.
+   * @param result - Result.
+   */
+  private async recordPromptCaching(modelConfig: ModelConfig, result: LLMChatResult) {
+    if (!this.observability) return;
+    const entry = await this.modelCatalog.get(`${modelConfig.provider}/${modelConfig.model}`);
+    if (!entry) return;
+    const cachedTokens = result.usage.cachedTokens ?? 0;
+    this.observability.recordCost({
+      model: entry,
+      inputTokens: result.usage.promptTokens + cachedTokens,
+      outputTokens: result.usage.completionTokens,
+      cachedInputTokens: cachedTokens,
+    });
+  }
+
+  /**
+   * Streams one model's answer to `onDelta`. When the model fails after it started answering,
+   * a `restart` chunk tells the consumer to drop the partial answer before the retry or the
+   * next model in the chain takes over.
+   * @param modelConfig - Model to call.
+   * @param request - Request options.
+   * @param onDelta - Receives the deltas.
+   * @returns The assembled result.
+   */
+  private async streamDirect(
+    modelConfig: ModelConfig,
+    request: LLMChatOptions,
+    onDelta: (chunk: ChatStreamChunk) => void,
+  ): Promise<LLMChatResult> {
+    let streamed = false;
+    try {
+      for await (const event of this.llmClient.chatStream(modelConfig, request)) {
+        if (event.type === 'done') return event.result;
+        streamed = true;
+        onDelta(
+          event.type === 'text'
+            ? { delta: event.delta, done: false }
+            : { delta: '', toolCalls: [event.toolCall], done: false },
+        );
       }
+      throw new Error(`[${modelConfig.model}] Stream ended without a result`);
+    } catch (error) {
+      if (streamed) onDelta({ delta: '', restart: true, done: false });
+      throw error;
     }
-    if (chain.length === 0)
-      throw new Error(`No models configured for role "${role}" and no fallbacks available.`);
-    const errors: Error[] = [];
-    for (const modelConfig of chain) {
-      const modelId = `${modelConfig.provider}/${modelConfig.model}`;
-      if (this.isRateLimited(modelId)) {
-        errors.push(new Error(`[${modelConfig.model}] skipped (recently rate-limited)`));
+  }
+
+  /**
+   * Streams an answer with the same routing, budgets, retries and fallbacks as `chat`. The
+   * last chunk has `done` set and carries the assembled message and usage.
+   * @param roleOrTask - Role, task or model id.
+   * @param messages - Conversation.
+   * @param options - Same as `chat`.
+   * @returns The chunks as the provider sends them.
+   */
+  async *chatStream(
+    roleOrTask: string,
+    messages: OpenAI.ChatCompletionMessageParam[],
+    options: Omit<ChatOptions, 'onDelta'> = {},
+  ): AsyncGenerator<ChatStreamChunk> {
+    const queue: ChatStreamChunk[] = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+    let failure: unknown;
+    const push = (chunk: ChatStreamChunk) => {
+      queue.push(chunk);
+      wake?.();
+    };
+    void this.chat(roleOrTask, messages, { ...options, onDelta: push })
+      .then(
+        ({ message, usage }) =>
+          push({ delta: '', toolCalls: message.tool_calls as any, done: true, message, usage }),
+        (err) => (failure = err),
+      )
+      .finally(() => {
+        finished = true;
+        wake?.();
+      });
+
+    while (true) {
+      const chunk = queue.shift();
+      if (chunk) {
+        yield chunk;
         continue;
       }
-      try {
-        logger.debug(`[ModelRouter] Streaming with ${modelConfig.model} for role ${role}...`);
-        this.markModelHealthy(modelId);
-        const result = await this.chatDirect(modelConfig, role, messages, options);
-        yield {
-          delta: result.message.content || '',
-          toolCalls: result.message.tool_calls as any,
-          done: true,
-        };
-        return;
-      } catch (error: any) {
-        const isRateLimited = this.isRateLimitError(error);
-        if (isRateLimited) this.setRateLimited(modelId, this.buildRateLimitState(error));
-        const errorMsg = `[${modelConfig.model}] ${error.message}`;
-        console.warn(`[ModelRouter] Stream model ${modelConfig.model} failed: ${error.message}`);
-        errors.push(new Error(errorMsg));
-        const shouldFallback = isRateLimited
-          ? this.routing.fallbackOnRateLimit
-          : this.routing.fallbackOnError;
-        if (!shouldFallback) {
-          const errorDetails = errors.map((e) => `  • ${e.message}`).join('\n');
-          throw new Error(
-            `Model ${modelConfig.model} failed and fallback is disabled for streaming "${role}".\n` +
-              `Errors (last error was critical):\n${errorDetails}`,
-          );
-        }
+      if (finished) break;
+      await new Promise<void>((resolve) => (wake = resolve));
+      wake = undefined;
+    }
+    if (failure) throw failure;
+  }
+
+  /**
+   * Checks budgets before a call, downgrading to a cheaper role or refusing when one is spent.
+   * Budget warnings and hits are reported as `token_update` frames.
+   * @param roleOrTask - Requested role, task or model id.
+   * @param options - Session, agent and tier of the call.
+   * @returns The role or task to route, and the agent tier the budgets used.
+   */
+  private async applyBudget(
+    roleOrTask: string,
+    options: { sessionId?: string; agentId?: string; tier?: AgentTier },
+  ): Promise<{ roleOrTask: string; tier?: AgentTier; downgraded?: boolean }> {
+    if (!this.budgetManager) return { roleOrTask, tier: options.tier };
+
+    const check = this.budgetManager.check(options);
+    const context = { sessionId: options.sessionId, agentId: options.agentId, tier: check.tier };
+    for (const warning of check.warnings) {
+      this.budgetManager.notify({ ...warning, action: 'warned' }, context);
+    }
+    if (check.exceeded.length === 0) return { roleOrTask, tier: check.tier };
+
+    const hit = check.exceeded[0];
+    if (check.onExceeded === 'downgrade') {
+      const role = await this.resolveDowngradeRole(roleOrTask, check.downgradeRoles);
+      if (role) {
+        logger.warn(
+          `[ModelRouter] ${hit.scope} budget exceeded; routing "${roleOrTask}" to "${role}"`,
+        );
+        this.budgetManager.notify({ ...hit, action: 'downgraded', role }, context);
+        return { roleOrTask: role, tier: check.tier, downgraded: role !== roleOrTask };
       }
     }
-    const errorDetails = errors.map((e) => `  • ${e.message}`).join('\n');
-    throw new Error(
-      `All models in chain failed for streaming "${role}".\n` + `Errors:\n${errorDetails}`,
-    );
+
+    this.budgetManager.notify({ ...hit, action: 'refused' }, context);
+    throw new BudgetExceededError(hit);
+  }
+
+  /**
+   * Picks the first downgrade role with configured models; a request already on one is kept.
+   * @param roleOrTask - Requested role, task or model id.
+   * @param roles - Allowed roles once a budget is spent.
+   * @returns The role to use, or undefined when none has models.
+   */
+  private async resolveDowngradeRole(
+    roleOrTask: string,
+    roles: ModelRole[],
+  ): Promise<string | undefined> {
+    if ((roles as string[]).includes(roleOrTask)) return roleOrTask;
+    for (const role of roles) {
+      if ((await this.resolveChain(role)).length > 0) return role;
+    }
+    return undefined;
+  }
+
+  /**
+   * Asks for an answer matching a Zod schema. Each model gets the schema natively where its
+   * API supports it (JSON schema response format or a forced tool call); answers are validated
+   * and, when invalid, sent back for repair. A model that still fails hands over to the next
+   * one in the chain, regardless of `routing.fallbackOnError`.
+   * @param roleOrTask - Role, task or model id.
+   * @param messages - Chat messages.
+   * @param schema - Shape of the answer.
+   * @param options - Call options.
+   * @returns The validated answer, the raw message and the usage of the model that produced it.
+   */
+  async chatStructured<T extends z.ZodTypeAny>(
+    roleOrTask: string,
+    messages: OpenAI.ChatCompletionMessageParam[],
+    schema: T,
+    options: StructuredChatOptions = {},
+  ): Promise<{ data: z.infer<T>; message: OpenAI.ChatCompletionMessage; usage: TokenUsage }> {
+    const { name = 'response', repairAttempts = 1, ...chatOptions } = options;
+    const result = await this.chat(roleOrTask, messages, {
+      ...chatOptions,
+      structured: { output: { name, schema: zodToJsonSchema(schema) }, schema, repairAttempts },
+    });
+    return result as typeof result & { data: z.infer<T> };
+  }
+
+  /**
+   * Resolves the model a call for this role or model id would try first, skipping
+   * rate-limited models like `chat` does.
+   * @param roleOrModelId - Role, task or model id.
+   * @returns The model with its catalog limits, or undefined when nothing is configured.
+   */
+  async resolveActiveModel(roleOrModelId: string): Promise<ActiveModel | undefined> {
+    if (!this.initialized) await this.initialize();
+    const directModel = await this.resolveDirectModel(roleOrModelId);
+    const chain = directModel ? [directModel] : await this.resolveChain(roleOrModelId);
+    const modelConfig =
+      chain.find((m) => !this.isRateLimited(`${m.provider}/${m.model}`)) ??
+      chain[0] ??
+      this.roleMap.get(roleOrModelId);
+    if (!modelConfig) return undefined;
+    const entry = await this.modelCatalog.get(`${modelConfig.provider}/${modelConfig.model}`);
+    return {
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      contextWindow: entry?.contextWindow,
+      maxTokens: entry?.maxTokens ?? modelConfig.maxTokens,
+    };
   }
 
   getModelForRole(role: ModelRole): string | undefined {
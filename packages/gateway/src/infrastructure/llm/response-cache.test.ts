@@ -0,0 +1,50 @@
+import 'reflect-metadata';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ModelConfig } from '@adytum/shared';
+import { MemoryDB } from '../repositories/memory-db.js';
+import { ResponseCache } from './response-cache.js';
+import type { LLMChatResult } from './llm-client.js';
+
+const model = { provider: 'anthropic', model: 'claude-3-haiku', role: 'fast' } as ModelConfig;
+const result: LLMChatResult = {
+  message: { role: 'assistant', content: 'Nothing to do.', refusal: null },
+  usage: { promptTokens: 900, completionTokens: 5, totalTokens: 905 },
+  model: 'claude-3-haiku',
+  finishReason: 'stop',
+};
+
+describe('ResponseCache', () => {
+  let dir: string;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'adytum-response-cache-'));
+    cache = new ResponseCache(new MemoryDB(dir), { ttlSeconds: 60, maxEntries: 10 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keys on model, messages and temperature', () => {
+    const request = { messages: [{ role: 'user' as const, content: 'Heartbeat' }], temperature: 0 };
+    const key = cache.keyFor(model, request);
+
+    expect(cache.keyFor(model, { ...request, signal: new AbortController().signal })).toBe(key);
+    expect(cache.keyFor(model, { ...request, temperature: 0.7 })).not.toBe(key);
+    expect(cache.keyFor({ ...model, model: 'claude-3-opus' }, request)).not.toBe(key);
+  });
+
+  it('serves a stored result until it expires', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    cache.set('k', model, result);
+    expect(cache.get('k')?.message.content).toBe('Nothing to do.');
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(cache.get('k')).toBeUndefined();
+  });
+});
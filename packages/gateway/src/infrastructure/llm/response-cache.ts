@@ -0,0 +1,88 @@
+/**
+ * @file packages/gateway/src/infrastructure/llm/response-cache.ts
+ * @description Exact-match cache of model responses, stored in SQLite with a TTL.
+ */
+
+import { createHash } from 'node:crypto';
+import type { ModelConfig } from '@adytum/shared';
+import type { MemoryDB } from '../repositories/memory-db.js';
+import type { LLMChatOptions, LLMChatResult } from './llm-client.js';
+
+/** Writes between two prunes of expired and surplus entries. */
+const PRUNE_EVERY = 50;
+
+/**
+ * Answers a request that exactly repeats an earlier one (same model, messages, tools,
+ * temperature, token limit and response format) with the earlier response.
+ */
+export class ResponseCache {
+  private writes = 0;
+
+  constructor(
+    private db: MemoryDB,
+    private options: { ttlSeconds: number; maxEntries: number },
+  ) {}
+
+  /**
+   * Hashes everything that shapes the response. Signals and caching hints do not.
+   * @param modelConfig - Model the request goes to.
+   * @param request - Request options.
+   * @returns The cache key.
+   */
+  keyFor(modelConfig: ModelConfig, request: LLMChatOptions): string {
+    const shape = {
+      model: `${modelConfig.provider}/${modelConfig.model}`,
+      messages: request.messages,
+      tools: request.tools ?? [],
+      temperature: request.temperature ?? null,
+      maxTokens: request.maxTokens ?? null,
+      responseFormat: request.response_format?.type ?? null,
+      structuredOutput: request.structuredOutput ?? null,
+    };
+    return createHash('sha256').update(JSON.stringify(shape)).digest('hex');
+  }
+
+  /**
+   * @param key - Cache key.
+   * @returns The cached result, or undefined on a miss.
+   */
+  get(key: string): LLMChatResult | undefined {
+    const row = this.db.getCachedResponse(key);
+    if (!row) return undefined;
+    try {
+      return JSON.parse(row.response) as LLMChatResult;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a result. Truncated answers are not cached.
+   * @param key - Cache key.
+   * @param modelConfig - Model that produced it.
+   * @param result - Result.
+   */
+  set(key: string, modelConfig: ModelConfig, result: LLMChatResult): void {
+    if (result.finishReason === 'length') return;
+    this.db.putCachedResponse(
+      key,
+      `${modelConfig.provider}/${modelConfig.model}`,
+      JSON.stringify(result),
+      this.options.ttlSeconds * 1000,
+    );
+    if (++this.writes % PRUNE_EVERY === 0) this.db.pruneResponseCache(this.options.maxEntries);
+  }
+
+  /** Number of stored responses. */
+  size(): number {
+    return this.db.countCachedResponses();
+  }
+
+  /**
+   * Removes every cached response.
+   * @returns Number of entries removed.
+   */
+  clear(): number {
+    return this.db.clearResponseCache();
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { extractJson, parseStructuredOutput } from './structured-output.js';
+
+const schema = z.object({
+  goal: z.string(),
+  steps: z.array(z.string()),
+  note: z.string().optional(),
+});
+
+describe('structured output', () => {
+  it('finds the JSON in fenced or chatty answers', () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Sure! Here is the plan:\n{"a":[1,2]}\nLet me know.')).toEqual({
+      a: [1, 2],
+    });
+    expect(() => extractJson('No JSON here.')).toThrow(SyntaxError);
+  });
+
+  it('validates against the schema and reports where it fails', () => {
+    expect(parseStructuredOutput('{"goal":"g","steps":["a"],"note":null}', schema)).toEqual({
+      success: true,
+      data: { goal: 'g', steps: ['a'] },
+    });
+
+    const invalid = parseStructuredOutput('{"goal":"g","steps":[1]}', schema);
+    expect(invalid.success).toBe(false);
+    expect(!invalid.success && invalid.error).toMatch(/^steps\.0: /);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @file packages/gateway/src/infrastructure/llm/structured-output.ts
+ * @description Extracts and validates JSON answers of structured model calls.
+ */
+
+import type { z } from 'zod';
+import { stripStrictNulls } from '../../tools/json-schema.js';
+
+/** Raised when a model's answer still fails validation after the repair attempts. */
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Reads the JSON value out of a model answer: bare, inside a markdown fence, or surrounded
+ * by prose.
+ * @param text - Answer text.
+ * @returns The parsed value.
+ * @throws SyntaxError when the answer holds no JSON.
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1]?.trim();
+  const candidate = fenced ?? trimmed;
+  try {
+    return JSON.parse(candidate);
+  } catch (err) {
+    // Prose around the value: take the span from the first opening to the last closing bracket
+    const start = candidate.search(/[{[]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw err;
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+/**
+ * Parses and validates an answer. Nulls that strict schemas send for optional keys are
+ * dropped first.
+ * @param text - Answer text.
+ * @param schema - Expected shape.
+ * @returns The validated value, or a description of what is wrong with the answer.
+ */
+export function parseStructuredOutput<T extends z.ZodTypeAny>(
+  text: string,
+  schema: T,
+): StructuredParseResult<z.infer<T>> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (err: any) {
+    return { success: false, error: `The reply is not valid JSON (${err.message}).` };
+  }
+  const result = schema.safeParse(stripStrictNulls(schema, value));
+  if (result.success) return { success: true, data: result.data };
+  const issues = result.error.issues.map(
+    (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+  );
+  return { success: false, error: issues.join('; ') };
+}
+
+/**
+ * @param error - Validation errors of the previous answer.
+ * @returns The follow-up message asking the model to fix its answer.
+ */
+export function repairPrompt(error: string): string {
+  return (
+    `Your previous reply did not match the required JSON schema: ${error}\n` +
+    'Reply again with only the corrected JSON, without markdown or commentary.'
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * @file packages/gateway/src/infrastructure/llm/tokenizer.ts
+ * @description Token counting per model family, backed by tiktoken BPE ranks.
+ */
+
+import { createRequire } from 'node:module';
+import type OpenAI from 'openai';
+import type { Tiktoken } from 'js-tiktoken/lite';
+
+type Encoding = 'o200k_base' | 'cl100k_base';
+
+/** Model a count is made for. Without one, counts use the generic profile. */
+export interface TokenizerModel {
+  provider: string;
+  model: string;
+}
+
+export interface TokenizerProfile {
+  encoding: Encoding;
+  /** Multiplier from the BPE count to the model's own tokenizer. */
+  scale: number;
+  /** Whether the BPE is the model's actual tokenizer. */
+  exact: boolean;
+}
+
+/**
+ * First match wins. OpenAI models use their own BPE. Other families are scaled from the
+ * closest BPE, measured on mixed prose and code.
+ */
+const PROFILES: Array<{ match: RegExp; profile: TokenizerProfile }> = [
+  {
+    match: /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt|(^|\/)o[134](-|$)|gpt-oss/,
+    profile: { encoding: 'o200k_base', scale: 1, exact: true },
+  },
+  {
+    match: /gpt-4|gpt-3\.5|text-embedding/,
+    profile: { encoding: 'cl100k_base', scale: 1, exact: true },
+  },
+  { match: /claude|anthropic/, profile: { encoding: 'cl100k_base', scale: 1.15, exact: false } },
+  { match: /gemini|gemma|google/, profile: { encoding: 'o200k_base', scale: 1.05, exact: false } },
+  { match: /llama|qwen|deepseek/, profile: { encoding: 'cl100k_base', scale: 1.05, exact: false } },
+];
+
+const GENERIC_PROFILE: TokenizerProfile = { encoding: 'cl100k_base', scale: 1.1, exact: false };
+
+/** Tokens every chat message costs on top of its content (role and delimiters). */
+const MESSAGE_OVERHEAD = 4;
+/** Tokens that prime the assistant reply. */
+const REPLY_OVERHEAD = 3;
+/** Flat estimate for a non-text content part (image, audio, file). */
+const MEDIA_PART_TOKENS = 1000;
+/** BPE merging is quadratic in the length of a run without whitespace, so long runs are sliced. */
+const MAX_RUN = 32;
+const LONG_RUN = new RegExp(`\\S{${MAX_RUN + 1},}`, 'g');
+
+const require = createRequire(import.meta.url);
+const encoders = new Map<Encoding, Tiktoken>();
+const messageCounts = new Map<Encoding, WeakMap<object, number>>();
+
+/**
+ * Loads an encoder on first use; the rank tables are a few megabytes each.
+ * @param encoding - BPE name.
+ * @returns The encoder.
+ */
+function encoderFor(encoding: Encoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    const { Tiktoken } = require('js-tiktoken/lite') as typeof import('js-tiktoken/lite');
+    encoder = new Tiktoken(require(`js-tiktoken/ranks/${encoding}`));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * @param text - Text.
+ * @param encoding - BPE name.
+ * @returns Exact BPE token count, up to the slicing of very long runs.
+ */
+function bpeLength(text: string, encoding: Encoding): number {
+  const encoder = encoderFor(encoding);
+  let total = 0;
+  let last = 0;
+  for (const run of text.matchAll(LONG_RUN)) {
+    total += encoder.encode(text.slice(last, run.index), [], []).length;
+    for (let i = 0; i < run[0].length; i += MAX_RUN) {
+      total += encoder.encode(run[0].slice(i, i + MAX_RUN), [], []).length;
+    }
+    last = run.index + run[0].length;
+  }
+  return total + encoder.encode(text.slice(last), [], []).length;
+}
+
+/**
+ * @param model - Model, if known.
+ * @returns How tokens are counted for the model.
+ */
+export function tokenizerFor(model?: TokenizerModel): TokenizerProfile {
+  if (!model) return GENERIC_PROFILE;
+  const id = `${model.provider}/${model.model}`.toLowerCase();
+  return PROFILES.find((p) => p.match.test(id))?.profile ?? GENERIC_PROFILE;
+}
+
+/**
+ * @param content - Message content: text or a list of content parts.
+ * @param encoding - BPE name.
+ * @returns Unscaled BPE token count.
+ */
+function contentLength(content: unknown, encoding: Encoding): number {
+  if (!content) return 0;
+  if (typeof content === 'string') return bpeLength(content, encoding);
+  if (!Array.isArray(content)) return bpeLength(JSON.stringify(content), encoding);
+  return content.reduce((sum: number, part) => {
+    if (typeof part === 'string') return sum + bpeLength(part, encoding);
+    if (part?.type === 'text') return sum + bpeLength(part.text ?? '', encoding);
+    if (part?.type === 'refusal') return sum + bpeLength(part.refusal ?? '', encoding);
+    return sum + MEDIA_PART_TOKENS;
+  }, 0);
+}
+
+/**
+ * @param content - Message content: text or a list of content parts.
+ * @param model - Model the content is sent to.
+ * @returns Token count.
+ */
+export function countContentTokens(content: unknown, model?: TokenizerModel): number {
+  const { encoding, scale } = tokenizerFor(model);
+  return Math.ceil(contentLength(content, encoding) * scale);
+}
+
+/**
+ * Counts a chat request the way providers bill its prompt. Counts are memoized per message
+ * object, so recounting a growing history only tokenizes the new messages.
+ * @param messages - Chat messages.
+ * @param model - Model the messages are sent to.
+ * @returns Token count.
+ */
+export function countMessageTokens(
+  messages: OpenAI.ChatCompletionMessageParam[],
+  model?: TokenizerModel,
+): number {
+  const { encoding, scale } = tokenizerFor(model);
+  let memo = messageCounts.get(encoding);
+  if (!memo) {
+    memo = new WeakMap();
+    messageCounts.set(encoding, memo);
+  }
+  let total = REPLY_OVERHEAD;
+  for (const message of messages) {
+    let count = memo.get(message);
+    if (count === undefined) {
+      const raw = message as any;
+      count =
+        MESSAGE_OVERHEAD +
+        bpeLength(message.role, encoding) +
+        contentLength(message.content, encoding) +
+        (raw.name ? bpeLength(raw.name, encoding) : 0);
+      for (const call of raw.tool_calls ?? []) {
+        count += bpeLength(
+          `${call.function?.name ?? ''}${call.function?.arguments ?? ''}`,
+          encoding,
+        );
+      }
+      memo.set(message, count);
+    }
+    total += count;
+  }
+  return Math.ceil(total * scale);
+}
+
+/**
+ * Counts tool schemas, which providers inject into the prompt.
+ * @param tools - Tools in OpenAI function format.
+ * @param model - Model the tools are sent to.
+ * @returns Token count.
+ */
+export function countToolTokens(tools: unknown[] | undefined, model?: TokenizerModel): number {
+  if (!tools?.length) return 0;
+  return countContentTokens(JSON.stringify(tools), model);
+}
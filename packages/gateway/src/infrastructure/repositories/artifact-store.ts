@@ -0,0 +1,157 @@
+/**
+ * @file packages/gateway/src/infrastructure/repositories/artifact-store.ts
+ * @description File-backed store for oversized tool outputs, read back in pages.
+ */
+
+import { v4 as uuid } from 'uuid';
+import {
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  closeSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import type { ArtifactRef } from '@adytum/shared';
+
+const ARTIFACTS_DIR = 'artifacts';
+const ARTIFACT_ID = /^[a-f0-9-]{36}$/;
+
+export interface ArtifactPage {
+  id: string;
+  mimeType: string;
+  /** Page content; base64 for binary artifacts. */
+  content: string;
+  offset: number;
+  nextOffset: number;
+  /** Total size in characters (bytes for binary artifacts). */
+  total: number;
+  done: boolean;
+}
+
+/**
+ * Persists tool outputs under `dataPath/artifacts` (content file plus JSON metadata)
+ * so the context only carries a preview and a handle.
+ */
+export class ArtifactStore {
+  private dir: string;
+
+  constructor(dataPath: string) {
+    this.dir = join(dataPath, ARTIFACTS_DIR);
+    mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Stores an artifact.
+   * @param content - Text or binary content.
+   * @param meta - Mime type and origin.
+   * @returns The artifact reference.
+   */
+  save(
+    content: string | Uint8Array,
+    meta: { mimeType?: string; tool?: string; sessionId?: string } = {},
+  ): ArtifactRef {
+    const binary = typeof content !== 'string';
+    const ref: ArtifactRef = {
+      id: uuid(),
+      mimeType: meta.mimeType || (binary ? 'application/octet-stream' : 'text/plain'),
+      size: binary ? content.byteLength : content.length,
+      encoding: binary ? 'binary' : 'utf-8',
+      createdAt: Date.now(),
+      tool: meta.tool,
+      sessionId: meta.sessionId,
+    };
+    writeFileSync(this.contentPath(ref.id), content);
+    writeFileSync(this.metaPath(ref.id), JSON.stringify(ref, null, 2), 'utf-8');
+    return ref;
+  }
+
+  /**
+   * Retrieves artifact metadata.
+   * @param id - Artifact id.
+   * @returns The reference, or undefined when unknown.
+   */
+  get(id: string): ArtifactRef | undefined {
+    if (!ARTIFACT_ID.test(id) || !existsSync(this.metaPath(id))) return undefined;
+    try {
+      return JSON.parse(readFileSync(this.metaPath(id), 'utf-8')) as ArtifactRef;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads a page of an artifact.
+   * @param id - Artifact id.
+   * @param offset - Start position in characters (bytes for binary).
+   * @param length - Page size in characters (bytes for binary).
+   * @returns The page, or undefined when the artifact does not exist.
+   */
+  read(id: string, offset: number = 0, length: number = 8000): ArtifactPage | undefined {
+    const ref = this.get(id);
+    if (!ref) return undefined;
+    const start = Math.max(0, Math.min(offset, ref.size));
+
+    let content: string;
+    let end: number;
+    if (ref.encoding === 'binary') {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, ref.size - start)));
+      const fd = openSync(this.contentPath(id), 'r');
+      try {
+        readSync(fd, buffer, 0, buffer.length, start);
+      } finally {
+        closeSync(fd);
+      }
+      content = buffer.toString('base64');
+      end = start + buffer.length;
+    } else {
+      const text = readFileSync(this.contentPath(id), 'utf-8');
+      content = text.slice(start, start + length);
+      end = start + content.length;
+    }
+
+    return {
+      id,
+      mimeType: ref.mimeType,
+      content,
+      offset: start,
+      nextOffset: end,
+      total: ref.size,
+      done: end >= ref.size,
+    };
+  }
+
+  /**
+   * Deletes artifacts older than the given age.
+   * @param maxAgeMs - Maximum age in milliseconds.
+   * @returns The number of artifacts removed.
+   */
+  prune(maxAgeMs: number): number {
+    const cutoff = Date.now() - maxAgeMs;
+    let removed = 0;
+    for (const file of readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const id = file.replace(/\.json$/, '');
+      const createdAt = this.get(id)?.createdAt ?? statSync(join(this.dir, file)).mtimeMs;
+      if (createdAt < cutoff) {
+        rmSync(this.contentPath(id), { force: true });
+        rmSync(this.metaPath(id), { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private contentPath(id: string): string {
+    return join(this.dir, `${id}.bin`);
+  }
+
+  private metaPath(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -7,6 +7,8 @@ import Database from 'better-sqlite3';
 import { join } from 'node:path';
 import { mkdirSync } from 'node:fs';
 import crypto from 'node:crypto';
+import { MemorySharingConfigSchema, type MemorySharingConfig } from '@adytum/shared';
+import { VectorIndex } from './vector-index.js';
 
 export type MessageRow = {
   id: string;
@@ -25,10 +27,53 @@ export type MemoryRow = {
   category: string;
   tags?: string[];
   embedding?: Buffer; // Vector embedding (Float32Array as Buffer)
+  /** Model that produced `embedding`. */
+  embeddingModel?: string;
+  /** Dimension of `embedding`. */
+  embeddingDim?: number;
   metadata?: Record<string, unknown>;
+  /** Pinned memories are never merged, consolidated or expired. */
+  pinned?: boolean;
+  /** Explicit importance (0-1); the category default applies when unset. */
+  importance?: number;
+  accessCount?: number;
+  lastAccessedAt?: number;
   createdAt: number;
 };
 
+/** Table rows carried by a backup archive. */
+export type BackupRows = {
+  messages: MessageRow[];
+  memories: MemoryRow[];
+  tokenUsage: TokenUsageRow[];
+};
+
+export type MemoryQuery = {
+  categories?: string[];
+  excludeCategories?: string[];
+  createdAfter?: number;
+  createdBefore?: number;
+  /** Keyset cursor: only memories after this one in (created_at, id) order. */
+  after?: { createdAt: number; id: string };
+  pinned?: boolean;
+  /** Only memories of this workspace; null for global memories. */
+  workspaceId?: string | null;
+  /** Only memories whose `metadata.path` is this path (document chunks). */
+  documentPath?: string;
+  /** Only memories with an embedding; the embedding is included in the rows. */
+  withEmbedding?: boolean;
+  limit?: number;
+};
+
+/**
+ * Memories readable from a workspace. `undefined` and null both mean the global scope, which
+ * reads only memories without a workspace.
+ */
+export type MemoryScope = {
+  category?: string;
+  workspaceId?: string | null;
+};
+
 export type TokenUsageRow = {
   id: string;
   sessionId: string;
@@ -40,7 +85,42 @@ export type TokenUsageRow = {
   completionTokens: number;
   totalTokens: number;
   cost: number;
+  agentId?: string;
+  tier?: number;
+  createdAt: number;
+};
+
+export type TurnCheckpointStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type TurnCheckpointRow = {
+  traceId: string;
+  sessionId: string;
+  workspaceId?: string;
+  agentId?: string;
+  status: TurnCheckpointStatus;
+  userMessage: string;
+  overrides?: object;
+  /** Conversation history (without the system prompt) after the last completed step. */
+  messages: unknown[];
+  /** Tool calls executed so far in this turn. */
+  toolCalls: unknown[];
+  /** Tool calls requested by the last model response that have not produced a result yet. */
+  pendingToolCalls: unknown[];
+  /** Sources retrieved into the turn's context. */
+  citations: unknown[];
+  iteration: number;
   createdAt: number;
+  updatedAt: number;
+};
+
+export type CachedResponseRow = {
+  key: string;
+  model: string;
+  /** Serialized model result. */
+  response: string;
+  hits: number;
+  createdAt: number;
+  expiresAt: number;
 };
 
 export type TokenUsageFilter = {
@@ -48,6 +128,8 @@ export type TokenUsageFilter = {
   to?: number;
   providers?: string[];
   modelIds?: string[];
+  sessionIds?: string[];
+  tiers?: number[];
 };
 
 export type TokenUsageTotals = {
@@ -83,11 +165,119 @@ export type TokenUsageDaily = {
   calls: number;
 };
 
+type RawTurnCheckpointRow = {
+  traceId: string;
+  sessionId: string;
+  workspaceId: string | null;
+  agentId: string | null;
+  status: string;
+  userMessage: string;
+  overrides: string | null;
+  messages: string;
+  toolCalls: string | null;
+  pendingToolCalls: string | null;
+  citations: string | null;
+  iteration: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const TURN_CHECKPOINT_SELECT = `SELECT
+    trace_id as traceId,
+    session_id as sessionId,
+    workspace_id as workspaceId,
+    agent_id as agentId,
+    status,
+    user_message as userMessage,
+    overrides,
+    messages,
+    tool_calls as toolCalls,
+    pending_tool_calls as pendingToolCalls,
+    citations,
+    iteration,
+    created_at as createdAt,
+    updated_at as updatedAt
+  FROM turn_checkpoints`;
+
+const MEMORY_COLUMNS = `id, workspace_id as workspaceId, content, source, category, tags, metadata,
+    pinned, importance, access_count as accessCount, last_accessed_at as lastAccessedAt,
+    embedding_model as embeddingModel, embedding_dim as embeddingDim, created_at as createdAt`;
+
+type RawMemoryRow = Omit<
+  MemoryRow,
+  | 'workspaceId'
+  | 'tags'
+  | 'metadata'
+  | 'pinned'
+  | 'importance'
+  | 'lastAccessedAt'
+  | 'embeddingModel'
+  | 'embeddingDim'
+> & {
+  workspaceId: string | null;
+  tags: string | null;
+  metadata: string | null;
+  pinned: number | null;
+  importance: number | null;
+  lastAccessedAt: number | null;
+  embeddingModel: string | null;
+  embeddingDim: number | null;
+};
+
+/**
+ * Maps a `memories` row selected with `MEMORY_COLUMNS` to a MemoryRow.
+ * @param r - Raw row.
+ * @returns The memory.
+ */
+function toMemoryRow(r: RawMemoryRow): MemoryRow {
+  return {
+    ...r,
+    workspaceId: r.workspaceId ?? undefined,
+    tags: r.tags ? JSON.parse(r.tags) : undefined,
+    metadata: r.metadata ? JSON.parse(r.metadata) : undefined,
+    pinned: !!r.pinned,
+    importance: r.importance ?? undefined,
+    accessCount: r.accessCount ?? 0,
+    lastAccessedAt: r.lastAccessedAt ?? undefined,
+    embeddingModel: r.embeddingModel ?? undefined,
+    embeddingDim: r.embeddingDim ?? undefined,
+  };
+}
+
+const VECTOR_PAGE_SIZE = 500;
+/** Meta key recording which embedding model the vector index was built for. */
+const VECTOR_INDEX_MODEL_KEY = 'vector_index_model';
+/** The only model used before embedding providers became configurable. */
+const LEGACY_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Reads a stored embedding BLOB as a Float32Array.
+ * @param embedding - Embedding bytes.
+ * @returns The vector.
+ */
+function toVector(embedding: Buffer): Float32Array {
+  const copy = new Uint8Array(embedding.byteLength);
+  copy.set(embedding);
+  return new Float32Array(copy.buffer);
+}
+
+/**
+ * Dimension of a stored embedding.
+ * @param embedding - Embedding bytes.
+ * @returns The dimension, or null without an embedding.
+ */
+function dimensionOf(embedding: Buffer | null | undefined): number | null {
+  return embedding ? embedding.byteLength / 4 : null;
+}
+
 /**
  * Encapsulates memory db behavior.
  */
 export class MemoryDB {
   private db: Database.Database;
+  private vectors: VectorIndex;
+  private embeddingModel?: string;
+  private sharing: MemorySharingConfig = MemorySharingConfigSchema.parse({});
 
   constructor(dataPath: string) {
     const sqliteDir = join(dataPath, 'sqlite');
@@ -95,6 +285,7 @@ export class MemoryDB {
     const dbPath = join(sqliteDir, 'adytum.db');
     this.db = new Database(dbPath);
     this.migrate();
+    this.vectors = new VectorIndex(join(dataPath, 'vector-index'));
   }
 
   /**
@@ -170,6 +361,36 @@ export class MemoryDB {
         key TEXT PRIMARY KEY,
         value TEXT NOT NULL
       );
+
+      CREATE TABLE IF NOT EXISTS turn_checkpoints (
+        trace_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        workspace_id TEXT,
+        agent_id TEXT,
+        status TEXT NOT NULL,
+        user_message TEXT NOT NULL,
+        overrides TEXT,
+        messages TEXT NOT NULL,
+        tool_calls TEXT,
+        pending_tool_calls TEXT,
+        citations TEXT,
+        iteration INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS turn_checkpoints_session_idx ON turn_checkpoints(session_id, updated_at);
+
+      CREATE TABLE IF NOT EXISTS response_cache (
+        key TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        response TEXT NOT NULL,
+        hits INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS response_cache_expires_idx ON response_cache(expires_at);
     `);
 
     // Migration for workspace isolation
@@ -188,6 +409,53 @@ export class MemoryDB {
     } catch {
       /* already exists */
     }
+    // Migration for the memory lifecycle (pinning, importance, recall tracking)
+    for (const column of [
+      'pinned INTEGER NOT NULL DEFAULT 0',
+      'importance REAL',
+      'access_count INTEGER NOT NULL DEFAULT 0',
+      'last_accessed_at INTEGER',
+    ]) {
+      try {
+        this.db.exec(`ALTER TABLE memories ADD COLUMN ${column};`);
+      } catch {
+        /* already exists */
+      }
+    }
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS memories_category_created_idx ON memories(category, created_at);',
+    );
+    // Migration for per-agent budgets
+    try {
+      this.db.exec('ALTER TABLE token_usage ADD COLUMN agent_id TEXT;');
+    } catch {
+      /* already exists */
+    }
+    try {
+      this.db.exec('ALTER TABLE token_usage ADD COLUMN tier INTEGER;');
+    } catch {
+      /* already exists */
+    }
+    // Migration for citations of resumable turns
+    try {
+      this.db.exec('ALTER TABLE turn_checkpoints ADD COLUMN citations TEXT;');
+    } catch {
+      /* already exists */
+    }
+    // Migration for per-vector embedding model; existing vectors all came from the legacy model
+    try {
+      this.db.exec('ALTER TABLE memories ADD COLUMN embedding_model TEXT;');
+      this.db.exec('ALTER TABLE memories ADD COLUMN embedding_dim INTEGER;');
+      this.db
+        .prepare(
+          `UPDATE memories SET embedding_model = ?, embedding_dim = length(embedding) / 4
+           WHERE embedding IS NOT NULL`,
+        )
+        .run(LEGACY_EMBEDDING_MODEL);
+      this.setMeta(VECTOR_INDEX_MODEL_KEY, LEGACY_EMBEDDING_MODEL);
+    } catch {
+      /* already exists */
+    }
 
     try {
       this.db.exec(`
@@ -219,7 +487,7 @@ export class MemoryDB {
    */
   getRecentMessages(
     limit: number = 40,
-    filters?: { sessionId?: string; workspaceId?: string },
+    filters?: { sessionId?: string; workspaceId?: string | null },
   ): MessageRow[] {
     let query =
       'SELECT id, session_id as sessionId, workspace_id as workspaceId, role, content, created_at as createdAt FROM messages';
@@ -258,8 +526,10 @@ export class MemoryDB {
     const id = crypto.randomUUID();
     const createdAt = Date.now();
     const stmt = this.db.prepare(
-      'INSERT INTO memories (id, workspace_id, content, source, category, tags, metadata, embedding, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO memories (id, workspace_id, content, source, category, tags, metadata, embedding, embedding_model, embedding_dim, pinned, importance, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
     );
+    const embeddingModel = record.embedding ? record.embeddingModel : undefined;
+    const embeddingDim = dimensionOf(record.embedding) ?? undefined;
     stmt.run(
       id,
       record.workspaceId || null,
@@ -269,6 +539,10 @@ export class MemoryDB {
       record.tags ? JSON.stringify(record.tags) : null,
       record.metadata ? JSON.stringify(record.metadata) : null,
       record.embedding || null,
+      embeddingModel ?? null,
+      embeddingDim ?? null,
+      record.pinned ? 1 : 0,
+      record.importance ?? null,
       createdAt,
     );
 
@@ -280,7 +554,8 @@ export class MemoryDB {
       // ignore if FTS unavailable
     }
 
-    return { id, createdAt, ...record };
+    this.indexVector(id, record.embedding, embeddingModel, record.category, record.workspaceId);
+    return { id, createdAt, ...record, embeddingModel, embeddingDim };
   }
 
   /**
@@ -294,27 +569,34 @@ export class MemoryDB {
       tags?: string[];
       source?: string;
       metadata?: Record<string, unknown>;
+      embedding?: Buffer;
+      embeddingModel?: string;
+      workspaceId?: string;
     }>,
   ): void {
     const insert = this.db.prepare(
-      'INSERT INTO memories (id, workspace_id, content, source, category, tags, metadata, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO memories (id, workspace_id, content, source, category, tags, metadata, embedding, embedding_model, embedding_dim, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
     );
     const insertFts = this.db.prepare(
       'INSERT INTO memories_fts (content, memory_id) VALUES (?, ?)',
     );
 
-    const transaction = this.db.transaction((items) => {
+    const transaction = this.db.transaction((items: typeof memories) => {
+      const ids: string[] = [];
       for (const item of items) {
         const id = crypto.randomUUID();
         const createdAt = Date.now();
         insert.run(
           id,
-          null, // workspace_id (global for now)
+          item.workspaceId || null,
           item.content,
           item.source || 'dreamer',
           item.category,
           item.tags ? JSON.stringify(item.tags) : null,
           item.metadata ? JSON.stringify(item.metadata) : null,
+          item.embedding || null,
+          item.embedding ? (item.embeddingModel ?? null) : null,
+          dimensionOf(item.embedding),
           createdAt,
         );
         try {
@@ -322,10 +604,21 @@ export class MemoryDB {
         } catch {
           // ignore fts error
         }
+        ids.push(id);
       }
+      return ids;
     });
 
-    transaction(memories);
+    const ids = transaction(memories);
+    memories.forEach((item, i) =>
+      this.indexVector(
+        ids[i],
+        item.embedding,
+        item.embeddingModel,
+        item.category,
+        item.workspaceId,
+      ),
+    );
   }
 
   /**
@@ -333,18 +626,13 @@ export class MemoryDB {
    * @param limit - Limit.
    * @returns The resulting collection of values.
    */
-  listMemories(limit: number = 50): MemoryRow[] {
+  listMemories(limit: number = 50, workspaceId?: string | null): MemoryRow[] {
+    const visible = this.visibilityClause(workspaceId);
     const stmt = this.db.prepare(
-      'SELECT id, content, source, category, tags, metadata, embedding, created_at as createdAt FROM memories ORDER BY created_at DESC LIMIT ?',
+      `SELECT ${MEMORY_COLUMNS}, embedding FROM memories WHERE ${visible.sql}
+       ORDER BY created_at DESC LIMIT ?`,
     );
-    const rows = stmt.all(limit) as Array<
-      Omit<MemoryRow, 'tags' | 'metadata'> & { tags?: string; metadata?: string }
-    >;
-    return rows.map((r) => ({
-      ...r,
-      tags: r.tags ? JSON.parse(r.tags) : undefined,
-      metadata: r.metadata ? JSON.parse(r.metadata) : undefined,
-    }));
+    return (stmt.all(...visible.params, limit) as RawMemoryRow[]).map(toMemoryRow);
   }
 
   /**
@@ -353,43 +641,60 @@ export class MemoryDB {
    * @param topK - Top k.
    * @returns The resulting collection of values.
    */
-  searchMemories(query: string, topK: number = 3): MemoryRow[] {
+  searchMemories(query: string, topK: number = 3, workspaceId?: string | null): MemoryRow[] {
+    const visible = this.visibilityClause(workspaceId);
     try {
       const stmt = this.db.prepare(
-        `SELECT m.id, m.content, m.source, m.category, m.tags, m.metadata, m.embedding, m.created_at as createdAt
-         FROM memories_fts f
-         JOIN memories m ON m.id = f.memory_id
-         WHERE memories_fts MATCH ?
-         ORDER BY bm25(memories_fts)
+        `SELECT ${MEMORY_COLUMNS}, embedding
+         FROM (
+           SELECT m.*, bm25(memories_fts) as rank
+           FROM memories_fts f
+           JOIN memories m ON m.id = f.memory_id
+           WHERE memories_fts MATCH ?
+         )
+         WHERE ${visible.sql}
+         ORDER BY rank
          LIMIT ?`,
       );
-      const rows = stmt.all(query, topK) as Array<
-        Omit<MemoryRow, 'tags' | 'metadata'> & { tags?: string; metadata?: string }
-      >;
-      return rows.map((r) => ({
-        ...r,
-        tags: r.tags ? JSON.parse(r.tags) : undefined,
-        metadata: r.metadata ? JSON.parse(r.metadata) : undefined,
-      }));
+      return (stmt.all(query, ...visible.params, topK) as RawMemoryRow[]).map(toMemoryRow);
     } catch {
       const stmt = this.db.prepare(
-        `SELECT id, content, source, category, tags, metadata, embedding, created_at as createdAt
+        `SELECT ${MEMORY_COLUMNS}, embedding
          FROM memories
-         WHERE content LIKE ?
+         WHERE content LIKE ? AND ${visible.sql}
          ORDER BY created_at DESC
          LIMIT ?`,
       );
-      const rows = stmt.all(`%${query}%`, topK) as Array<
-        Omit<MemoryRow, 'tags' | 'metadata'> & { tags?: string; metadata?: string }
-      >;
-      return rows.map((r) => ({
-        ...r,
-        tags: r.tags ? JSON.parse(r.tags) : undefined,
-        metadata: r.metadata ? JSON.parse(r.metadata) : undefined,
-      }));
+      return (stmt.all(`%${query}%`, ...visible.params, topK) as RawMemoryRow[]).map(toMemoryRow);
     }
   }
 
+  /**
+   * Sets which memories a workspace may read besides its own.
+   * @param rules - Parsed `memorySharing` config.
+   */
+  setSharingRules(rules: MemorySharingConfig): void {
+    this.sharing = rules;
+  }
+
+  /**
+   * Whether a memory is readable from a scope. A workspace reads its own memories, those of
+   * the workspaces granted to it and global memories of the shared categories; the global
+   * scope reads only global memories.
+   * @param workspaceId - Reading workspace; undefined or null for the global scope.
+   * @param memory - The memory's workspace and category.
+   * @returns True when the memory is visible.
+   */
+  isVisible(
+    workspaceId: string | null | undefined,
+    memory: { workspaceId?: string | null; category: string },
+  ): boolean {
+    if (!memory.workspaceId) {
+      return !workspaceId || this.sharing.sharedCategories.includes(memory.category);
+    }
+    return !!workspaceId && this.readableWorkspaces(workspaceId).includes(memory.workspaceId);
+  }
+
   /**
    * Executes add action log.
    * @param traceId - Trace id.
@@ -466,8 +771,8 @@ export class MemoryDB {
       .prepare(
         `INSERT INTO token_usage (
           id, session_id, provider, model, model_id, role, prompt_tokens,
-          completion_tokens, total_tokens, cost, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          completion_tokens, total_tokens, cost, agent_id, tier, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       )
       .run(
         row.id,
@@ -480,6 +785,8 @@ export class MemoryDB {
         row.completionTokens,
         row.totalTokens,
         row.cost,
+        row.agentId ?? null,
+        row.tier ?? null,
         row.createdAt,
       );
 
@@ -507,6 +814,8 @@ export class MemoryDB {
           completion_tokens as completionTokens,
           total_tokens as totalTokens,
           cost,
+          agent_id as agentId,
+          tier,
           created_at as createdAt
        FROM token_usage
        ${whereClause}
@@ -689,6 +998,18 @@ export class MemoryDB {
       params.push(...modelIds);
     }
 
+    const sessionIds = (filter.sessionIds || []).filter(Boolean);
+    if (sessionIds.length > 0) {
+      clauses.push(`session_id IN (${sessionIds.map(() => '?').join(',')})`);
+      params.push(...sessionIds);
+    }
+
+    const tiers = (filter.tiers || []).filter((tier) => Number.isInteger(tier));
+    if (tiers.length > 0) {
+      clauses.push(`tier IN (${tiers.map(() => '?').join(',')})`);
+      params.push(...tiers);
+    }
+
     return {
       whereClause: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
       params,
@@ -776,21 +1097,14 @@ export class MemoryDB {
     }
     const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
     const stmt = this.db.prepare(
-      `SELECT id, content, source, category, tags, metadata, embedding, created_at as createdAt
+      `SELECT ${MEMORY_COLUMNS}, embedding
        FROM memories
        ${where}
-       ORDER BY created_at DESC
+       ORDER BY pinned DESC, created_at DESC
        LIMIT ?
        OFFSET ?`,
     );
-    const rows = stmt.all(...params, limit, offset) as Array<
-      Omit<MemoryRow, 'tags' | 'metadata'> & { tags?: string; metadata?: string }
-    >;
-    return rows.map((r) => ({
-      ...r,
-      tags: r.tags ? JSON.parse(r.tags) : undefined,
-      metadata: r.metadata ? JSON.parse(r.metadata) : undefined,
-    }));
+    return (stmt.all(...params, limit, offset) as RawMemoryRow[]).map(toMemoryRow);
   }
 
   /**
@@ -818,18 +1132,84 @@ export class MemoryDB {
    * @returns The get memory result.
    */
   getMemory(id: string): MemoryRow | null {
+    const stmt = this.db.prepare(`SELECT ${MEMORY_COLUMNS} FROM memories WHERE id = ?`);
+    const row = stmt.get(id) as RawMemoryRow | undefined;
+    return row ? toMemoryRow(row) : null;
+  }
+
+  /**
+   * Lists memories for lifecycle maintenance, oldest first.
+   * @param query - Filters.
+   * @returns The matching memories.
+   */
+  findMemories(query: MemoryQuery = {}): MemoryRow[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (query.categories?.length) {
+      clauses.push(`category IN (${query.categories.map(() => '?').join(',')})`);
+      params.push(...query.categories);
+    }
+    if (query.excludeCategories?.length) {
+      clauses.push(`category NOT IN (${query.excludeCategories.map(() => '?').join(',')})`);
+      params.push(...query.excludeCategories);
+    }
+    if (query.createdAfter !== undefined) {
+      clauses.push('created_at > ?');
+      params.push(query.createdAfter);
+    }
+    if (query.createdBefore !== undefined) {
+      clauses.push('created_at < ?');
+      params.push(query.createdBefore);
+    }
+    if (query.after) {
+      clauses.push('(created_at > ? OR (created_at = ? AND id > ?))');
+      params.push(query.after.createdAt, query.after.createdAt, query.after.id);
+    }
+    if (query.pinned !== undefined) {
+      clauses.push('pinned = ?');
+      params.push(query.pinned ? 1 : 0);
+    }
+    if (query.workspaceId !== undefined) {
+      clauses.push('workspace_id IS ?');
+      params.push(query.workspaceId);
+    }
+    if (query.documentPath !== undefined) {
+      clauses.push("json_extract(metadata, '$.path') = ?");
+      params.push(query.documentPath);
+    }
+    if (query.withEmbedding) clauses.push('embedding IS NOT NULL');
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const columns = query.withEmbedding ? `${MEMORY_COLUMNS}, embedding` : MEMORY_COLUMNS;
     const stmt = this.db.prepare(
-      'SELECT id, content, source, category, tags, metadata, created_at as createdAt FROM memories WHERE id = ?',
+      `SELECT ${columns} FROM memories ${where} ORDER BY created_at ASC, id ASC LIMIT ?`,
     );
-    const row = stmt.get(id) as
-      | (Omit<MemoryRow, 'tags' | 'metadata'> & { tags?: string; metadata?: string })
-      | undefined;
-    if (!row) return null;
-    return {
-      ...row,
-      tags: row.tags ? JSON.parse(row.tags) : undefined,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-    };
+    return (stmt.all(...params, query.limit ?? -1) as RawMemoryRow[]).map(toMemoryRow);
+  }
+
+  /**
+   * Records that memories were recalled, which slows their decay.
+   * @param ids - Memory ids.
+   */
+  recordMemoryAccess(ids: string[]): void {
+    if (ids.length === 0) return;
+    this.db
+      .prepare(
+        `UPDATE memories SET access_count = access_count + 1, last_accessed_at = ?
+         WHERE id IN (${ids.map(() => '?').join(',')})`,
+      )
+      .run(Date.now(), ...ids);
+  }
+
+  /**
+   * Deletes several memories in one transaction.
+   * @param ids - Memory ids.
+   * @returns Number of memories deleted.
+   */
+  deleteMemories(ids: string[]): number {
+    const run = this.db.transaction((list: string[]) =>
+      list.reduce((count, id) => count + (this.deleteMemory(id) ? 1 : 0), 0),
+    );
+    return run(ids);
   }
 
   /**
@@ -845,10 +1225,17 @@ export class MemoryDB {
       category?: string;
       tags?: string[];
       metadata?: Record<string, unknown>;
+      pinned?: boolean;
+      importance?: number;
+      /** New embedding; when content changes without one, the stale embedding is dropped. */
+      embedding?: Buffer;
+      /** Model that produced the new `embedding`. */
+      embeddingModel?: string;
     },
   ): MemoryRow | null {
     const existing = this.getMemory(id);
     if (!existing) return null;
+    const stored = this.getVectorLocation(id);
 
     const next = {
       ...existing,
@@ -856,11 +1243,21 @@ export class MemoryDB {
       category: updates.category ?? existing.category,
       tags: updates.tags ?? existing.tags,
       metadata: updates.metadata ?? existing.metadata,
+      pinned: updates.pinned ?? existing.pinned,
+      importance: updates.importance ?? existing.importance,
     };
+    const contentChanged = next.content !== existing.content;
+    const embedding = updates.embedding ?? (contentChanged ? null : stored?.embedding);
+    const embeddingModel = updates.embedding
+      ? updates.embeddingModel
+      : embedding
+        ? (stored?.embeddingModel ?? undefined)
+        : undefined;
 
     const stmt = this.db.prepare(
       `UPDATE memories
-       SET content = ?, category = ?, tags = ?, metadata = ?
+       SET content = ?, category = ?, tags = ?, metadata = ?, embedding = ?, embedding_model = ?,
+           embedding_dim = ?, pinned = ?, importance = ?
        WHERE id = ?`,
     );
     stmt.run(
@@ -868,9 +1265,21 @@ export class MemoryDB {
       next.category,
       next.tags ? JSON.stringify(next.tags) : null,
       next.metadata ? JSON.stringify(next.metadata) : null,
+      embedding ?? null,
+      embeddingModel ?? null,
+      dimensionOf(embedding),
+      next.pinned ? 1 : 0,
+      next.importance ?? null,
       id,
     );
 
+    if (stored?.embedding && (!embedding || next.category !== existing.category)) {
+      this.vectors.remove(id, { category: existing.category, workspaceId: stored.workspaceId });
+    }
+    if (embedding !== stored?.embedding || next.category !== existing.category) {
+      this.indexVector(id, embedding, embeddingModel, next.category, stored?.workspaceId);
+    }
+
     try {
       this.db.prepare('DELETE FROM memories_fts WHERE memory_id = ?').run(id);
       this.db
@@ -880,7 +1289,7 @@ export class MemoryDB {
       // ignore if FTS unavailable
     }
 
-    return next;
+    return { ...next, embeddingModel, embeddingDim: dimensionOf(embedding) ?? undefined };
   }
 
   /**
@@ -889,6 +1298,7 @@ export class MemoryDB {
    * @returns Whether the operation succeeded.
    */
   deleteMemory(id: string): boolean {
+    const stored = this.getVectorLocation(id);
     const stmt = this.db.prepare('DELETE FROM memories WHERE id = ?');
     const result = stmt.run(id);
     try {
@@ -896,9 +1306,460 @@ export class MemoryDB {
     } catch {
       // ignore if FTS unavailable
     }
+    if (stored?.embedding) {
+      this.vectors.remove(id, { category: stored.category, workspaceId: stored.workspaceId });
+    }
     return result.changes > 0;
   }
 
+  // ─── Backup ──────────────────────────────────────────────────
+
+  /**
+   * Reads the rows included in a backup. Token usage is only included for full backups, since
+   * it is not tied to a workspace.
+   * @param workspaceId - Limit messages and memories to one workspace.
+   * @returns Messages, memories (with embeddings) and token usage, oldest first.
+   */
+  exportBackupRows(workspaceId?: string): BackupRows {
+    const where = workspaceId ? 'WHERE workspace_id = ?' : '';
+    const params = workspaceId ? [workspaceId] : [];
+    const messages = this.db
+      .prepare(
+        `SELECT id, session_id as sessionId, workspace_id as workspaceId, role, content, created_at as createdAt
+         FROM messages ${where} ORDER BY created_at ASC`,
+      )
+      .all(...params) as Array<Omit<MessageRow, 'workspaceId'> & { workspaceId: string | null }>;
+    const memories = this.db
+      .prepare(`SELECT ${MEMORY_COLUMNS}, embedding FROM memories ${where} ORDER BY created_at ASC`)
+      .all(...params) as RawMemoryRow[];
+    const tokenUsage = workspaceId
+      ? []
+      : (this.db
+          .prepare(
+            `SELECT id, session_id as sessionId, provider, model, model_id as modelId, role,
+                prompt_tokens as promptTokens, completion_tokens as completionTokens,
+                total_tokens as totalTokens, cost, agent_id as agentId, tier, created_at as createdAt
+             FROM token_usage ORDER BY created_at ASC`,
+          )
+          .all() as TokenUsageRow[]);
+    return {
+      messages: messages.map((m) => ({ ...m, workspaceId: m.workspaceId ?? undefined })),
+      memories: memories.map((m) => ({ ...toMemoryRow(m), embedding: m.embedding ?? undefined })),
+      tokenUsage,
+    };
+  }
+
+  /**
+   * Writes backup rows. Rows whose id already exists are skipped, so importing the same
+   * archive twice is harmless.
+   * @param rows - Rows to import.
+   * @param options - `replace` first deletes the current rows (only the workspace's rows when
+   *   `workspaceId` is set; token usage only for full restores).
+   * @returns Number of rows inserted per table.
+   */
+  importBackupRows(
+    rows: Partial<BackupRows>,
+    options: { replace?: boolean; workspaceId?: string } = {},
+  ): { messages: number; memories: number; tokenUsage: number } {
+    const insertMessage = this.db.prepare(
+      'INSERT OR IGNORE INTO messages (id, session_id, workspace_id, role, content, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+    );
+    const insertMemory = this.db.prepare(
+      `INSERT OR IGNORE INTO memories
+         (id, workspace_id, content, source, category, tags, metadata, embedding, embedding_model, embedding_dim, pinned, importance, access_count, last_accessed_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const insertUsage = this.db.prepare(
+      `INSERT OR IGNORE INTO token_usage
+         (id, session_id, provider, model, model_id, role, prompt_tokens, completion_tokens, total_tokens, cost, agent_id, tier, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    let removed: Array<{ id: string; category: string; workspaceId: string | null }> = [];
+    const inserted: MemoryRow[] = [];
+    const run = this.db.transaction(() => {
+      const counts = { messages: 0, memories: 0, tokenUsage: 0 };
+      if (options.replace) removed = this.clearBackupTables(options.workspaceId);
+
+      for (const m of rows.messages ?? []) {
+        counts.messages += insertMessage.run(
+          m.id,
+          m.sessionId,
+          m.workspaceId ?? null,
+          m.role,
+          m.content,
+          m.createdAt,
+        ).changes;
+      }
+      for (const m of rows.memories ?? []) {
+        const { changes } = insertMemory.run(
+          m.id,
+          m.workspaceId ?? null,
+          m.content,
+          m.source,
+          m.category,
+          m.tags ? JSON.stringify(m.tags) : null,
+          m.metadata ? JSON.stringify(m.metadata) : null,
+          m.embedding ?? null,
+          m.embedding ? (m.embeddingModel ?? null) : null,
+          dimensionOf(m.embedding),
+          m.pinned ? 1 : 0,
+          m.importance ?? null,
+          m.accessCount ?? 0,
+          m.lastAccessedAt ?? null,
+          m.createdAt,
+        );
+        if (changes === 0) continue;
+        counts.memories++;
+        inserted.push(m);
+        try {
+          this.db
+            .prepare('INSERT INTO memories_fts (content, memory_id) VALUES (?, ?)')
+            .run(m.content, m.id);
+        } catch {
+          // ignore if FTS unavailable
+        }
+      }
+      for (const u of options.workspaceId ? [] : (rows.tokenUsage ?? [])) {
+        counts.tokenUsage += insertUsage.run(
+          u.id,
+          u.sessionId,
+          u.provider,
+          u.model,
+          u.modelId,
+          u.role,
+          u.promptTokens,
+          u.completionTokens,
+          u.totalTokens,
+          u.cost,
+          u.agentId ?? null,
+          u.tier ?? null,
+          u.createdAt,
+        ).changes;
+      }
+      return counts;
+    });
+
+    const counts = run();
+    for (const r of removed) this.vectors.remove(r.id, r);
+    for (const m of inserted) {
+      this.indexVector(m.id, m.embedding, m.embeddingModel, m.category, m.workspaceId);
+    }
+    return counts;
+  }
+
+  /**
+   * Deletes the rows a `replace` import overwrites.
+   * @param workspaceId - Only delete this workspace's messages and memories.
+   * @returns Deleted memories that had embeddings, for the vector index.
+   */
+  private clearBackupTables(
+    workspaceId?: string,
+  ): Array<{ id: string; category: string; workspaceId: string | null }> {
+    const where = workspaceId ? 'WHERE workspace_id = ?' : '';
+    const params = workspaceId ? [workspaceId] : [];
+    const removed = this.db
+      .prepare(
+        `SELECT id, category, workspace_id as workspaceId FROM memories ${where}${where ? ' AND' : ' WHERE'} embedding IS NOT NULL`,
+      )
+      .all(...params) as Array<{ id: string; category: string; workspaceId: string | null }>;
+    try {
+      this.db
+        .prepare(`DELETE FROM memories_fts WHERE memory_id IN (SELECT id FROM memories ${where})`)
+        .run(...params);
+    } catch {
+      // ignore if FTS unavailable
+    }
+    this.db.prepare(`DELETE FROM memories ${where}`).run(...params);
+    this.db.prepare(`DELETE FROM messages ${where}`).run(...params);
+    if (!workspaceId) this.db.prepare('DELETE FROM token_usage').run();
+    return removed;
+  }
+
+  // ─── Vector Search ───────────────────────────────────────────
+
+  /**
+   * Sets the model new query vectors come from. Only vectors of this model are searched and
+   * indexed; an index built for another model is ignored until rebuilt.
+   * @param model - Embedding model name.
+   */
+  setEmbeddingModel(model: string): void {
+    this.embeddingModel = model;
+  }
+
+  /**
+   * Finds memories whose embedding came from a model other than the current one.
+   * @param limit - Maximum rows.
+   * @returns Ids and content to re-embed.
+   */
+  findStaleEmbeddings(limit: number): Array<{ id: string; content: string }> {
+    if (!this.embeddingModel) return [];
+    return this.db
+      .prepare(
+        `SELECT id, content FROM memories
+         WHERE embedding IS NOT NULL AND embedding_model IS NOT ? LIMIT ?`,
+      )
+      .all(this.embeddingModel, limit) as Array<{ id: string; content: string }>;
+  }
+
+  /**
+   * Counts memories whose embedding came from a model other than the current one.
+   * @returns Stale embedding count.
+   */
+  countStaleEmbeddings(): number {
+    if (!this.embeddingModel) return 0;
+    const row = this.db
+      .prepare(
+        'SELECT COUNT(*) as count FROM memories WHERE embedding IS NOT NULL AND embedding_model IS NOT ?',
+      )
+      .get(this.embeddingModel) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Replaces embeddings without touching the rest of the memory.
+   * @param items - New embedding and its model per memory id.
+   */
+  replaceEmbeddings(items: Array<{ id: string; embedding: Buffer; model: string }>): void {
+    const update = this.db.prepare(
+      'UPDATE memories SET embedding = ?, embedding_model = ?, embedding_dim = ? WHERE id = ?',
+    );
+    const located = items.flatMap((item) => {
+      const stored = this.getVectorLocation(item.id);
+      return stored ? [{ ...item, stored }] : [];
+    });
+    this.db.transaction(() => {
+      for (const item of located) {
+        update.run(item.embedding, item.model, dimensionOf(item.embedding), item.id);
+      }
+    })();
+    for (const { id, embedding, model, stored } of located) {
+      this.indexVector(id, embedding, model, stored.category, stored.workspaceId);
+    }
+  }
+
+  /**
+   * Finds the memories whose embeddings are closest to a query vector. Uses the vector index,
+   * or an exact scan over all embeddings while the index has not been built yet.
+   * @param vector - Normalized query embedding.
+   * @param topK - Number of results.
+   * @param filter - Category, and the workspace whose visible memories are searched.
+   * @returns Memories sorted by descending cosine similarity, with `score` set.
+   */
+  searchVectors(
+    vector: Float32Array,
+    topK: number,
+    filter: MemoryScope = {},
+  ): Array<MemoryRow & { score: number }> {
+    const hits = this.isVectorIndexCurrent()
+      ? this.vectors.search(vector, topK, {
+          category: filter.category,
+          partition: (p) => this.isVisible(filter.workspaceId, p),
+        })
+      : this.scanVectors(vector, topK, filter);
+    if (hits.length === 0) return [];
+
+    const rows = this.db
+      .prepare(
+        `SELECT ${MEMORY_COLUMNS}, embedding
+         FROM memories WHERE id IN (${hits.map(() => '?').join(',')})`,
+      )
+      .all(...hits.map((h) => h.id)) as RawMemoryRow[];
+    const byId = new Map(rows.map((r) => [r.id, r]));
+    return hits.flatMap((hit) => {
+      const r = byId.get(hit.id);
+      return r ? [{ ...toMemoryRow(r), score: hit.score }] : [];
+    });
+  }
+
+  /**
+   * Rebuilds the vector index from the stored embeddings of the current model, in pages so
+   * the event loop stays responsive. Concurrent calls share the running rebuild.
+   * @param onProgress - Called with the number of vectors indexed so far.
+   * @returns Indexed vector and partition counts.
+   */
+  rebuildVectorIndex(
+    onProgress?: (count: number) => void,
+  ): Promise<{ count: number; partitions: number }> {
+    const model = this.embeddingModel;
+    const page = this.db.prepare(
+      `SELECT rowid, id, workspace_id as workspaceId, category, embedding
+       FROM memories WHERE embedding IS NOT NULL AND rowid > ?
+         ${model ? 'AND (embedding_model IS NULL OR embedding_model = ?)' : ''}
+       ORDER BY rowid LIMIT ?`,
+    );
+    async function* records() {
+      let after = 0;
+      for (;;) {
+        const params = model ? [after, model, VECTOR_PAGE_SIZE] : [after, VECTOR_PAGE_SIZE];
+        const rows = page.all(...params) as Array<{
+          rowid: number;
+          id: string;
+          workspaceId: string | null;
+          category: string;
+          embedding: Buffer;
+        }>;
+        for (const row of rows) {
+          yield {
+            id: row.id,
+            category: row.category,
+            workspaceId: row.workspaceId,
+            vector: toVector(row.embedding),
+          };
+        }
+        if (rows.length < VECTOR_PAGE_SIZE) return;
+        after = rows[rows.length - 1].rowid;
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+    return this.vectors.rebuild(records(), onProgress).then((result) => {
+      if (model) this.setMeta(VECTOR_INDEX_MODEL_KEY, model);
+      return result;
+    });
+  }
+
+  /**
+   * Builds the vector index in the background when it does not exist yet or was built for
+   * another embedding model.
+   * @returns The running rebuild, if one was started.
+   */
+  ensureVectorIndex(): Promise<{ count: number; partitions: number }> | undefined {
+    if (this.isVectorIndexCurrent()) return undefined;
+    return this.rebuildVectorIndex();
+  }
+
+  /**
+   * Whether the vector index is built and answers searches.
+   * @returns True once built.
+   */
+  hasVectorIndex(): boolean {
+    return this.vectors.isBuilt();
+  }
+
+  /**
+   * Summarizes the vector index.
+   * @returns Whether it is built, and vectors per partition.
+   */
+  getVectorIndexStats(): ReturnType<VectorIndex['stats']> & { building: boolean } {
+    return { ...this.vectors.stats(), building: this.vectors.isBuilding() };
+  }
+
+  /**
+   * Writes pending vector index changes to disk.
+   */
+  flushVectorIndex(): void {
+    this.vectors.flush();
+  }
+
+  /**
+   * Whether the vector index is built for the current embedding model.
+   * @returns True when searches can use the index.
+   */
+  private isVectorIndexCurrent(): boolean {
+    if (!this.vectors.isBuilt()) return false;
+    return !this.embeddingModel || this.getMeta(VECTOR_INDEX_MODEL_KEY) === this.embeddingModel;
+  }
+
+  private indexVector(
+    id: string,
+    embedding: Buffer | null | undefined,
+    model: string | null | undefined,
+    category: string,
+    workspaceId?: string | null,
+  ): void {
+    if (!embedding) return;
+    if (model && this.embeddingModel && model !== this.embeddingModel) return;
+    // An index of another model is about to be rebuilt; a running rebuild journals the write
+    if (!this.vectors.isBuilding() && this.vectors.isBuilt() && !this.isVectorIndexCurrent()) {
+      return;
+    }
+    this.vectors.upsert({ id, vector: toVector(embedding), category, workspaceId });
+  }
+
+  private getVectorLocation(id: string):
+    | {
+        category: string;
+        workspaceId: string | null;
+        embedding: Buffer | null;
+        embeddingModel: string | null;
+      }
+    | undefined {
+    return this.db
+      .prepare(
+        `SELECT category, workspace_id as workspaceId, embedding, embedding_model as embeddingModel
+         FROM memories WHERE id = ?`,
+      )
+      .get(id) as
+      | {
+          category: string;
+          workspaceId: string | null;
+          embedding: Buffer | null;
+          embeddingModel: string | null;
+        }
+      | undefined;
+  }
+
+  /**
+   * Workspaces whose own memories a workspace reads: itself and those granted to it.
+   */
+  private readableWorkspaces(workspaceId: string): string[] {
+    return [workspaceId, ...(this.sharing.workspaceGrants[workspaceId] ?? [])];
+  }
+
+  /**
+   * SQL condition on the `memories` table matching the rows `isVisible` accepts.
+   */
+  private visibilityClause(workspaceId?: string | null): { sql: string; params: string[] } {
+    if (!workspaceId) return { sql: 'workspace_id IS NULL', params: [] };
+    const workspaces = this.readableWorkspaces(workspaceId);
+    const shared = this.sharing.sharedCategories;
+    const own = `workspace_id IN (${workspaces.map(() => '?').join(',')})`;
+    if (shared.length === 0) return { sql: own, params: workspaces };
+    return {
+      sql: `(${own} OR (workspace_id IS NULL AND category IN (${shared.map(() => '?').join(',')})))`,
+      params: [...workspaces, ...shared],
+    };
+  }
+
+  /**
+   * Exact cosine search over every stored embedding, used until the index is built.
+   */
+  private scanVectors(
+    vector: Float32Array,
+    topK: number,
+    filter: MemoryScope,
+  ): Array<{ id: string; score: number }> {
+    const clauses = ['embedding IS NOT NULL'];
+    const params: unknown[] = [];
+    if (this.embeddingModel) {
+      clauses.push('(embedding_model IS NULL OR embedding_model = ?)');
+      params.push(this.embeddingModel);
+    }
+    if (filter.category) {
+      clauses.push('category = ?');
+      params.push(filter.category);
+    }
+    const visible = this.visibilityClause(filter.workspaceId);
+    clauses.push(visible.sql);
+    params.push(...visible.params);
+    const rows = this.db
+      .prepare(`SELECT id, embedding FROM memories WHERE ${clauses.join(' AND ')}`)
+      .iterate(...params) as IterableIterator<{ id: string; embedding: Buffer }>;
+    const hits: Array<{ id: string; score: number }> = [];
+    for (const row of rows) {
+      const candidate = toVector(row.embedding);
+      if (candidate.length !== vector.length) continue;
+      let dot = 0;
+      let norm = 0;
+      for (let i = 0; i < vector.length; i++) {
+        dot += vector[i] * candidate[i];
+        norm += candidate[i] * candidate[i];
+      }
+      hits.push({ id: row.id, score: norm > 0 ? dot / Math.sqrt(norm) : 0 });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
   /**
    * Sets meta.
    * @param key - Key.
@@ -923,4 +1784,215 @@ export class MemoryDB {
       | undefined;
     return row?.value ?? null;
   }
+
+  // ─── Response Cache ─────────────────────────────────────────
+
+  /**
+   * Looks up an unexpired cached model response and counts the hit.
+   * @param key - Request hash.
+   * @returns The entry, or null on a miss.
+   */
+  getCachedResponse(key: string): CachedResponseRow | null {
+    const row = this.db
+      .prepare(
+        `SELECT key, model, response, hits, created_at as createdAt, expires_at as expiresAt
+         FROM response_cache WHERE key = ? AND expires_at > ?`,
+      )
+      .get(key, Date.now()) as CachedResponseRow | undefined;
+    if (!row) return null;
+    this.db.prepare('UPDATE response_cache SET hits = hits + 1 WHERE key = ?').run(key);
+    return { ...row, hits: row.hits + 1 };
+  }
+
+  /**
+   * Stores a model response, replacing any entry with the same key.
+   * @param key - Request hash.
+   * @param model - Model that produced it.
+   * @param response - Serialized result.
+   * @param ttlMs - Time to live.
+   */
+  putCachedResponse(key: string, model: string, response: string, ttlMs: number): void {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO response_cache (key, model, response, hits, created_at, expires_at)
+         VALUES (?, ?, ?, 0, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET
+           model = excluded.model,
+           response = excluded.response,
+           hits = 0,
+           created_at = excluded.created_at,
+           expires_at = excluded.expires_at`,
+      )
+      .run(key, model, response, now, now + ttlMs);
+  }
+
+  /**
+   * Drops expired entries, then the oldest ones beyond `maxEntries`.
+   * @param maxEntries - Entries to keep at most.
+   * @returns Number of entries removed.
+   */
+  pruneResponseCache(maxEntries: number): number {
+    const expired = this.db
+      .prepare('DELETE FROM response_cache WHERE expires_at <= ?')
+      .run(Date.now()).changes;
+    const overflow = this.db
+      .prepare(
+        `DELETE FROM response_cache WHERE key IN (
+           SELECT key FROM response_cache ORDER BY created_at DESC LIMIT -1 OFFSET ?
+         )`,
+      )
+      .run(maxEntries).changes;
+    return expired + overflow;
+  }
+
+  /**
+   * Counts cached responses, expired ones included until they are pruned.
+   * @returns The count.
+   */
+  countCachedResponses(): number {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM response_cache').get() as {
+      count: number;
+    };
+    return row.count;
+  }
+
+  /**
+   * Removes every cached response.
+   * @returns Number of entries removed.
+   */
+  clearResponseCache(): number {
+    return this.db.prepare('DELETE FROM response_cache').run().changes;
+  }
+
+  // ─── Turn Checkpoints ───────────────────────────────────────
+
+  /**
+   * Persists the latest checkpoint of an agent turn (upsert keyed by trace id).
+   * @param record - Checkpoint state.
+   * @returns The stored checkpoint.
+   */
+  saveTurnCheckpoint(
+    record: Omit<TurnCheckpointRow, 'createdAt' | 'updatedAt'>,
+  ): TurnCheckpointRow {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO turn_checkpoints (
+          trace_id, session_id, workspace_id, agent_id, status, user_message, overrides,
+          messages, tool_calls, pending_tool_calls, citations, iteration, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(trace_id) DO UPDATE SET
+          status = excluded.status,
+          messages = excluded.messages,
+          tool_calls = excluded.tool_calls,
+          pending_tool_calls = excluded.pending_tool_calls,
+          citations = excluded.citations,
+          iteration = excluded.iteration,
+          updated_at = excluded.updated_at`,
+      )
+      .run(
+        record.traceId,
+        record.sessionId,
+        record.workspaceId || null,
+        record.agentId || null,
+        record.status,
+        record.userMessage,
+        record.overrides ? JSON.stringify(record.overrides) : null,
+        JSON.stringify(record.messages),
+        JSON.stringify(record.toolCalls),
+        JSON.stringify(record.pendingToolCalls),
+        JSON.stringify(record.citations),
+        record.iteration,
+        now,
+        now,
+      );
+
+    return this.getTurnCheckpoint(record.traceId)!;
+  }
+
+  /**
+   * Retrieves a turn checkpoint.
+   * @param traceId - Trace id.
+   * @returns The checkpoint, or null when none exists.
+   */
+  getTurnCheckpoint(traceId: string): TurnCheckpointRow | null {
+    const row = this.db.prepare(`${TURN_CHECKPOINT_SELECT} WHERE trace_id = ?`).get(traceId) as
+      | RawTurnCheckpointRow
+      | undefined;
+    return row ? this.mapTurnCheckpoint(row) : null;
+  }
+
+  /**
+   * Lists turn checkpoints, most recently updated first.
+   * @param filter - Optional session and status filter.
+   * @param limit - Limit.
+   * @returns The resulting collection of values.
+   */
+  listTurnCheckpoints(
+    filter: { sessionId?: string; statuses?: TurnCheckpointStatus[] } = {},
+    limit: number = 50,
+  ): TurnCheckpointRow[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (filter.sessionId) {
+      clauses.push('session_id = ?');
+      params.push(filter.sessionId);
+    }
+    const statuses = (filter.statuses || []).filter(Boolean);
+    if (statuses.length > 0) {
+      clauses.push(`status IN (${statuses.map(() => '?').join(',')})`);
+      params.push(...statuses);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`${TURN_CHECKPOINT_SELECT} ${where} ORDER BY updated_at DESC LIMIT ?`)
+      .all(...params, limit) as RawTurnCheckpointRow[];
+    return rows.map((row) => this.mapTurnCheckpoint(row));
+  }
+
+  /**
+   * Sets the status of a turn checkpoint.
+   * @param traceId - Trace id.
+   * @param status - Status.
+   */
+  setTurnCheckpointStatus(traceId: string, status: TurnCheckpointStatus): void {
+    this.db
+      .prepare('UPDATE turn_checkpoints SET status = ?, updated_at = ? WHERE trace_id = ?')
+      .run(status, Date.now(), traceId);
+  }
+
+  /**
+   * Executes delete turn checkpoint.
+   * @param traceId - Trace id.
+   * @returns Whether the operation succeeded.
+   */
+  deleteTurnCheckpoint(traceId: string): boolean {
+    const result = this.db.prepare('DELETE FROM turn_checkpoints WHERE trace_id = ?').run(traceId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Maps a raw checkpoint row into its parsed form.
+   * @param row - Row.
+   * @returns The parsed checkpoint.
+   */
+  private mapTurnCheckpoint(row: RawTurnCheckpointRow): TurnCheckpointRow {
+    return {
+      traceId: row.traceId,
+      sessionId: row.sessionId,
+      workspaceId: row.workspaceId ?? undefined,
+      agentId: row.agentId ?? undefined,
+      status: row.status as TurnCheckpointStatus,
+      userMessage: row.userMessage,
+      overrides: row.overrides ? JSON.parse(row.overrides) : undefined,
+      messages: JSON.parse(row.messages),
+      toolCalls: row.toolCalls ? JSON.parse(row.toolCalls) : [],
+      pendingToolCalls: row.pendingToolCalls ? JSON.parse(row.pendingToolCalls) : [],
+      citations: row.citations ? JSON.parse(row.citations) : [],
+      iteration: row.iteration,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
 }
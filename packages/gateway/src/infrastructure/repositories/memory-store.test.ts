@@ -1,6 +1,10 @@
 import 'reflect-metadata';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { MemoryStore } from './memory-store.js';
+import { MemoryDB } from './memory-db.js';
 import { EmbeddingService } from '../llm/embedding-service.js';
 
 describe('MemoryStore Hybrid Search & MMR', () => {
@@ -13,11 +17,13 @@ describe('MemoryStore Hybrid Search & MMR', () => {
       redactSensitiveData: vi.fn(),
       addMemory: vi.fn(),
       searchMemories: vi.fn().mockReturnValue([]),
-      getMemoriesFiltered: vi.fn().mockReturnValue([]),
+      searchVectors: vi.fn().mockReturnValue([]),
+      recordMemoryAccess: vi.fn(),
     };
     mockEmbeddingService = {
       embed: vi.fn().mockResolvedValue(new Float32Array([0.1, 0.2])),
       cosineSimilarity: vi.fn().mockReturnValue(0.8),
+      getModelName: () => 'test-model',
     };
     memoryStore = new MemoryStore(mockDb, mockEmbeddingService);
   });
@@ -29,7 +35,7 @@ describe('MemoryStore Hybrid Search & MMR', () => {
 
     // 2. Mock semantic results (different from keyword)
     const docB = { id: 'B', content: 'Semantic Match', embedding: Buffer.alloc(8) };
-    mockDb.getMemoriesFiltered.mockReturnValue([docB]);
+    mockDb.searchVectors.mockReturnValue([docB]);
 
     // queryVector similarity
     mockEmbeddingService.cosineSimilarity.mockImplementation(
@@ -65,7 +71,7 @@ describe('MemoryStore Hybrid Search & MMR', () => {
       embedding: Buffer.from(new Float32Array([0, 1]).buffer),
     };
 
-    mockDb.getMemoriesFiltered.mockReturnValue([docA, docB, docC]);
+    mockDb.searchVectors.mockReturnValue([docA, docB, docC]);
 
     // query is similar to A and B
     mockEmbeddingService.cosineSimilarity.mockImplementation(
@@ -107,3 +113,104 @@ describe('MemoryStore Hybrid Search & MMR', () => {
     expect(ids).not.toContain('B');
   });
 });
+
+describe('MemoryStore embedding models', () => {
+  it('records the model per vector and re-embeds vectors of another model', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'adytum-embeddings-'));
+    try {
+      const db = new MemoryDB(dir);
+      const embeddings = new EmbeddingService();
+      let model = 'old-model';
+      let vector = [1, 0];
+      vi.spyOn(embeddings, 'getModelName').mockImplementation(() => model);
+      const embedBatch = vi
+        .spyOn(embeddings, 'embedBatch')
+        .mockImplementation(async (texts) => texts.map(() => new Float32Array(vector)));
+      vi.spyOn(embeddings, 'embed').mockImplementation(async () => new Float32Array(vector));
+      const store = new MemoryStore(db, embeddings);
+
+      db.setEmbeddingModel(model);
+      await store.addBatch([
+        { content: 'alpha', source: 'user', category: 'doc_chunk' },
+        { content: 'beta', source: 'user', category: 'doc_chunk' },
+      ]);
+      expect(db.listMemories().map((m) => [m.embeddingModel, m.embeddingDim])).toEqual([
+        ['old-model', 2],
+        ['old-model', 2],
+      ]);
+
+      model = 'new-model';
+      vector = [0, 0, 1];
+      db.setEmbeddingModel(model);
+      expect(db.countStaleEmbeddings()).toBe(2);
+      expect(await store.searchHybrid('gamma', 5, { category: 'doc_chunk' })).toEqual([]);
+
+      embedBatch.mockClear();
+      expect(await store.reembedStale(1)).toBe(2);
+      expect(embedBatch).toHaveBeenCalledTimes(2);
+      expect(db.countStaleEmbeddings()).toBe(0);
+      expect(db.listMemories().map((m) => [m.embeddingModel, m.embeddingDim])).toEqual([
+        ['new-model', 3],
+        ['new-model', 3],
+      ]);
+      const results = await store.searchHybrid('gamma', 5, { category: 'doc_chunk' });
+      expect(results.map((r) => r.score)).toEqual([1, 1]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MemoryStore workspace isolation', () => {
+  let dir: string;
+  let db: MemoryDB;
+  let store: MemoryStore;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'adytum-isolation-'));
+    db = new MemoryDB(dir);
+    const embeddings = new EmbeddingService();
+    vi.spyOn(embeddings, 'getModelName').mockReturnValue('test-model');
+    vi.spyOn(embeddings, 'embed').mockResolvedValue(new Float32Array([1, 0]));
+    vi.spyOn(embeddings, 'embedBatch').mockImplementation(async (texts) =>
+      texts.map(() => new Float32Array([1, 0])),
+    );
+    db.setEmbeddingModel('test-model');
+    store = new MemoryStore(db, embeddings);
+    await store.addBatch([
+      { content: 'secret plan alpha', source: 'user', category: 'doc_chunk', workspaceId: 'ws1' },
+      { content: 'secret plan beta', source: 'user', category: 'doc_chunk', workspaceId: 'ws2' },
+      { content: 'secret plan global', source: 'user', category: 'doc_chunk' },
+      { content: 'secret user likes tea', source: 'user', category: 'user_fact' },
+    ]);
+    return () => rmSync(dir, { recursive: true, force: true });
+  });
+
+  const contents = (rows: Array<{ content: string }>) => rows.map((r) => r.content).sort();
+
+  it('keeps keyword, vector and list results inside the reading workspace', async () => {
+    for (const indexed of [false, true]) {
+      if (indexed) await db.rebuildVectorIndex();
+      const ws1 = await store.searchHybrid('secret', 10, {
+        category: 'doc_chunk',
+        workspaceId: 'ws1',
+      });
+      expect(contents(ws1)).toEqual(['secret plan alpha', 'secret user likes tea']);
+      const global = await store.searchHybrid('secret', 10, { category: 'doc_chunk' });
+      expect(contents(global)).toEqual(['secret plan global', 'secret user likes tea']);
+    }
+    expect(contents(store.list(10, 'ws2'))).toEqual(['secret plan beta', 'secret user likes tea']);
+    expect(contents(store.list(10))).toEqual(['secret plan global', 'secret user likes tea']);
+  });
+
+  it('applies configured grants and shared categories', async () => {
+    db.setSharingRules({ sharedCategories: [], workspaceGrants: { ws1: ['ws2'] } });
+    await db.rebuildVectorIndex();
+    const ws1 = await store.searchHybrid('secret', 10, {
+      category: 'doc_chunk',
+      workspaceId: 'ws1',
+    });
+    expect(contents(ws1)).toEqual(['secret plan alpha', 'secret plan beta']);
+    expect(contents(store.list(10, 'ws2'))).toEqual(['secret plan beta']);
+  });
+});
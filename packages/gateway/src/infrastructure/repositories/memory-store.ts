@@ -5,22 +5,29 @@
 
 import { inject, singleton } from 'tsyringe';
 import { EmbeddingService } from '../llm/embedding-service.js';
-import type { MemoryDB, MemoryRow } from './memory-db.js';
+import type { MemoryDB, MemoryRow, MemoryScope } from './memory-db.js';
 import { EventBusService } from '../events/event-bus.js';
 import { MemoryEvents } from '@adytum/shared';
+import { DEFAULT_HALF_LIFE_DAYS, memoryScore } from '../../domain/logic/memory-decay.js';
 
-export type MemoryCategory =
-  | 'episodic_raw'
-  | 'episodic_summary'
-  | 'dream'
-  | 'monologue'
-  | 'curiosity'
-  | 'general'
-  | 'user_fact'
-  | 'doc_chunk';
+export const MEMORY_CATEGORIES = [
+  'episodic_raw',
+  'episodic_summary',
+  'dream',
+  'monologue',
+  'curiosity',
+  'general',
+  'user_fact',
+  'doc_chunk',
+] as const;
+
+export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
 
 export type MemoryRecord = MemoryRow;
 
+/** Nearest-neighbour candidates fetched from the vector index for hybrid search. */
+const SEMANTIC_CANDIDATES = 50;
+
 /**
  * Executes redact secrets.
  * @param input - Input.
@@ -67,6 +74,7 @@ export function redactSecrets(input: string): string {
 @singleton()
 export class MemoryStore {
   private eventBus?: EventBusService;
+  private halfLifeDays = DEFAULT_HALF_LIFE_DAYS;
 
   constructor(
     @inject('MemoryDB') private db: MemoryDB,
@@ -82,6 +90,14 @@ export class MemoryStore {
     this.eventBus = eventBus;
   }
 
+  /**
+   * Sets how fast unrecalled memories lose rank in search results.
+   * @param days - Days after which the recency weight halves.
+   */
+  setHalfLifeDays(days: number) {
+    this.halfLifeDays = days;
+  }
+
   /**
    * Executes add.
    * @param content - Content.
@@ -117,6 +133,7 @@ export class MemoryStore {
       metadata,
       workspaceId,
       embedding, // Add embedding to DB
+      embeddingModel: this.embeddingService.getModelName(),
     });
 
     if (memory && this.eventBus) {
@@ -140,27 +157,24 @@ export class MemoryStore {
       workspaceId?: string;
     }>,
   ): Promise<void> {
-    const enriched = await Promise.all(
-      items.map(async (item) => {
-        const sanitized = redactSecrets(item.content);
-        let embedding: Buffer | undefined;
-        try {
-          const vector = await this.embeddingService.embed(sanitized);
-          embedding = Buffer.from(vector.buffer);
-        } catch (err) {
-          console.error('[MemoryStore] Failed to generate embedding:', err);
-        }
-        return {
-          content: sanitized,
-          source: item.source,
-          category: item.category || 'general',
-          tags: item.tags,
-          metadata: item.metadata,
-          workspaceId: item.workspaceId,
-          embedding,
-        };
-      }),
-    );
+    const sanitized = items.map((item) => redactSecrets(item.content));
+    let vectors: Float32Array[] = [];
+    try {
+      vectors = await this.embeddingService.embedBatch(sanitized);
+    } catch (err) {
+      console.error('[MemoryStore] Failed to generate embeddings:', err);
+    }
+    const embeddingModel = this.embeddingService.getModelName();
+    const enriched = items.map((item, i) => ({
+      content: sanitized[i],
+      source: item.source,
+      category: item.category || 'general',
+      tags: item.tags,
+      metadata: item.metadata,
+      workspaceId: item.workspaceId,
+      embedding: vectors[i] ? Buffer.from(vectors[i].buffer) : undefined,
+      embeddingModel,
+    }));
 
     this.db.storeStructuredMemories(enriched);
 
@@ -179,37 +193,129 @@ export class MemoryStore {
   /**
    * Executes list.
    * @param limit - Limit.
+   * @param workspaceId - Reading workspace; global memories only when omitted.
    * @returns The resulting collection of values.
    */
-  list(limit: number = 50): MemoryRecord[] {
-    return this.db.listMemories(limit);
+  list(limit: number = 50, workspaceId?: string | null): MemoryRecord[] {
+    return this.db.listMemories(limit, workspaceId);
   }
 
   /**
-   * Executes search.
-   * @param query - Query.
-   * @param topK - Top k.
-   * @returns The resulting collection of values.
+   * Updates a memory, re-embedding it when the content changes.
+   * @param id - Memory id.
+   * @param updates - Fields to change.
+   * @returns The updated memory, or null when it does not exist.
+   */
+  async update(
+    id: string,
+    updates: {
+      content?: string;
+      category?: string;
+      tags?: string[];
+      metadata?: Record<string, unknown>;
+      pinned?: boolean;
+      importance?: number;
+    },
+  ): Promise<MemoryRecord | null> {
+    const content = updates.content === undefined ? undefined : redactSecrets(updates.content);
+    let embedding: Buffer | undefined;
+    if (content !== undefined) {
+      try {
+        const vector = await this.embeddingService.embed(content);
+        embedding = Buffer.from(vector.buffer);
+      } catch (err) {
+        console.error('[MemoryStore] Failed to generate embedding:', err);
+      }
+    }
+    return this.db.updateMemory(id, {
+      ...updates,
+      content,
+      embedding,
+      embeddingModel: this.embeddingService.getModelName(),
+    });
+  }
+
+  /**
+   * Re-embeds memories whose vectors came from another embedding model, in batches, until
+   * none are left.
+   * @param batchSize - Memories per batch.
+   * @returns Number of memories re-embedded.
+   */
+  async reembedStale(batchSize: number = 64): Promise<number> {
+    const model = this.embeddingService.getModelName();
+    let count = 0;
+    for (;;) {
+      const stale = this.db.findStaleEmbeddings(batchSize);
+      if (stale.length === 0) return count;
+      const vectors = await this.embeddingService.embedBatch(stale.map((m) => m.content));
+      this.db.replaceEmbeddings(
+        stale.map((m, i) => ({ id: m.id, embedding: Buffer.from(vectors[i].buffer), model })),
+      );
+      count += stale.length;
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  /**
+   * Deletes the `doc_chunk` memories of a document.
+   * @param path - Workspace-relative document path.
+   * @param workspaceId - Workspace the document belongs to.
+   * @returns Number of chunks deleted.
+   */
+  removeDocument(path: string, workspaceId?: string): number {
+    const chunks = this.db.findMemories({
+      categories: ['doc_chunk'],
+      documentPath: path,
+      workspaceId: workspaceId ?? null,
+    });
+    return this.db.deleteMemories(chunks.map((m) => m.id));
+  }
+
+  /**
+   * Points the `doc_chunk` memories of a moved document at its new path.
+   * @param from - Previous workspace-relative path.
+   * @param to - New workspace-relative path.
+   * @param workspaceId - Workspace the document belongs to.
+   * @returns Number of chunks updated.
    */
+  renameDocument(from: string, to: string, workspaceId?: string): number {
+    const chunks = this.db.findMemories({
+      categories: ['doc_chunk'],
+      documentPath: from,
+      workspaceId: workspaceId ?? null,
+    });
+    for (const chunk of chunks) {
+      this.db.updateMemory(chunk.id, { metadata: { ...chunk.metadata, path: to } });
+    }
+    return chunks.length;
+  }
+
   /**
    * Performs hybrid search (Semantic + Keyword) with diversity re-ranking (MMR).
+   * Relevance is weighted by each memory's decayed importance, and returned memories count
+   * as recalled. Results carry `score`, the cosine similarity to the query (0 for keyword-only
+   * matches). Only memories visible from `filter.workspaceId` are searched, so the global
+   * scope never sees workspace memories.
    */
   async searchHybrid(
     query: string,
     topK: number = 5,
-    filter?: { category?: string; workspaceId?: string },
+    filter?: MemoryScope,
     lambda: number = 0.5, // Diversity vs Relevance balance for MMR
-  ): Promise<MemoryRecord[]> {
+  ): Promise<Array<MemoryRecord & { score: number }>> {
     const category = filter?.category || 'doc_chunk';
 
     // 1. Keyword search (FTS5) - High recall
-    const keywordMatches = this.db.searchMemories(query, 50);
+    const keywordMatches = this.db.searchMemories(query, 50, filter?.workspaceId);
 
     // 2. Semantic search
     const queryVector = await this.embeddingService.embed(query);
-    const recentCandidates = this.db.getMemoriesFiltered([category], 200);
+    const nearest = this.db.searchVectors(queryVector, SEMANTIC_CANDIDATES, {
+      category,
+      workspaceId: filter?.workspaceId,
+    });
 
-    const scored = recentCandidates.map((mem) => {
+    const scored = nearest.map((mem) => {
       let score = 0;
       if (mem.embedding) {
         try {
@@ -226,6 +332,7 @@ export class MemoryStore {
       }
       return { ...mem, semanticScore: score };
     });
+    scored.sort((a, b) => b.semanticScore - a.semanticScore);
 
     // 3. Reciprocal Rank Fusion (Simple Version)
     // Combine keyword rank and semantic rank
@@ -248,14 +355,24 @@ export class MemoryStore {
       }
     });
 
-    const candidates = Array.from(fusedMap.values());
-    candidates.sort((a, b) => b.fusedScore - a.fusedScore);
+    // Older, unimportant and never-recalled memories lose up to a quarter of their weight
+    const now = Date.now();
+    const candidates = Array.from(fusedMap.values()).map((m) => ({
+      ...m,
+      decayWeight: 0.75 + 0.25 * memoryScore(m, now, this.halfLifeDays),
+    }));
+    candidates.sort((a, b) => b.fusedScore * b.decayWeight - a.fusedScore * a.decayWeight);
 
     // 4. Maximal Marginal Relevance (MMR)
     // Select results that are relevant AND diverse
-    if (candidates.length <= topK) return candidates;
+    if (candidates.length <= topK) return this.recall(candidates);
 
-    const selected: Array<MemoryRow & { semanticScore: number }> = [];
+    // Keyword matches may still carry a vector of a previous model until re-embedded
+    const model = this.embeddingService.getModelName();
+    const comparable = (m: MemoryRow) =>
+      !!m.embedding && (!m.embeddingModel || m.embeddingModel === model);
+
+    const selected: typeof candidates = [];
     const remaining = [...candidates].slice(0, Math.min(candidates.length, 25)); // Consider top candidates for MMR
 
     while (selected.length < topK && remaining.length > 0) {
@@ -267,7 +384,7 @@ export class MemoryStore {
 
         // Calculate similarity to already selected docs for diversity penalty
         let maxSimToSelected = 0;
-        if (selected.length > 0 && doc.embedding) {
+        if (selected.length > 0 && doc.embedding && comparable(doc)) {
           try {
             const docVec = new Float32Array(
               doc.embedding.buffer,
@@ -275,7 +392,7 @@ export class MemoryStore {
               doc.embedding.byteLength / 4,
             );
             for (const sel of selected) {
-              if (sel.embedding) {
+              if (sel.embedding && comparable(sel)) {
                 const selVec = new Float32Array(
                   sel.embedding.buffer,
                   sel.embedding.byteOffset,
@@ -289,7 +406,7 @@ export class MemoryStore {
             // Fallback for unaligned or raw buffers
             const docVec = new Float32Array(new Uint8Array(doc.embedding).buffer);
             for (const sel of selected) {
-              if (sel.embedding) {
+              if (sel.embedding && comparable(sel)) {
                 const selVec = new Float32Array(new Uint8Array(sel.embedding).buffer);
                 const sim = this.embeddingService.cosineSimilarity(docVec, selVec);
                 if (sim > maxSimToSelected) maxSimToSelected = sim;
@@ -298,7 +415,8 @@ export class MemoryStore {
           }
         }
 
-        const score = lambda * doc.semanticScore - (1 - lambda) * maxSimToSelected;
+        const score =
+          lambda * doc.semanticScore * doc.decayWeight - (1 - lambda) * maxSimToSelected;
         if (score > maxMMR) {
           maxMMR = score;
           bestIdx = i;
@@ -312,6 +430,21 @@ export class MemoryStore {
       }
     }
 
-    return selected;
+    return this.recall(selected);
+  }
+
+  /**
+   * Marks search results as recalled and strips the ranking fields.
+   * @param results - Ranked memories.
+   * @returns Memories with their semantic `score`.
+   */
+  private recall(
+    results: Array<MemoryRow & { semanticScore: number; fusedScore: number; decayWeight: number }>,
+  ): Array<MemoryRecord & { score: number }> {
+    this.db.recordMemoryAccess(results.map((r) => r.id));
+    return results.map(({ semanticScore, fusedScore: _f, decayWeight: _d, ...memory }) => ({
+      ...memory,
+      score: semanticScore,
+    }));
   }
 }
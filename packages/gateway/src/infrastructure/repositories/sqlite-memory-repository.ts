@@ -60,10 +60,15 @@ export class SqliteMemoryRepository implements MemoryRepository {
    * Executes search memories.
    * @param query - Query.
    * @param topK - Top k.
+   * @param workspaceId - Reading workspace; global memories only when omitted.
    * @returns The resulting collection of values.
    */
-  async searchMemories(query: string, topK: number = 3): Promise<MemoryEntity[]> {
-    return this.db.searchMemories(query, topK);
+  async searchMemories(
+    query: string,
+    topK: number = 3,
+    workspaceId?: string | null,
+  ): Promise<MemoryEntity[]> {
+    return this.db.searchMemories(query, topK, workspaceId);
   }
 
   /**
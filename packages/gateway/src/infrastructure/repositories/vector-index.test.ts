@@ -0,0 +1,171 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HnswGraph, VectorIndex, type VectorRecord } from './vector-index.js';
+
+const DIM = 32;
+
+/** Deterministic pseudo-random generator so recall does not flake. */
+function rng(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32 - 0.5;
+  };
+}
+
+function randomVectors(count: number, seed: number): Float32Array[] {
+  const next = rng(seed);
+  return Array.from({ length: count }, () => {
+    const v = new Float32Array(DIM);
+    for (let i = 0; i < DIM; i++) v[i] = next();
+    const norm = Math.hypot(...v);
+    return v.map((x) => x / norm);
+  });
+}
+
+function exactTop(vectors: Float32Array[], query: Float32Array, k: number): string[] {
+  return vectors
+    .map((v, i) => ({ id: String(i), score: v.reduce((sum, x, j) => sum + x * query[j], 0) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((h) => h.id);
+}
+
+async function* records(items: VectorRecord[]) {
+  yield* items;
+}
+
+describe('HnswGraph', () => {
+  it('finds nearly all exact nearest neighbours and survives serialization', () => {
+    const vectors = randomVectors(2000, 7);
+    const graph = new HnswGraph(DIM);
+    vectors.forEach((v, i) => graph.insert(String(i), v));
+
+    let found = 0;
+    const queries = randomVectors(20, 99);
+    for (const q of queries) {
+      const expected = new Set(exactTop(vectors, q, 10));
+      found += graph.search(q, 10).filter((h) => expected.has(h.id)).length;
+    }
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+
+    const restored = HnswGraph.deserialize(graph.serialize());
+    expect(restored.search(queries[0], 10)).toEqual(graph.search(queries[0], 10));
+  });
+
+  it('excludes removed vectors and drops them on compaction', () => {
+    const vectors = randomVectors(200, 3);
+    const graph = new HnswGraph(DIM);
+    vectors.forEach((v, i) => graph.insert(String(i), v));
+
+    expect(graph.search(vectors[5], 1)[0].id).toBe('5');
+    graph.remove('5');
+    expect(graph.search(vectors[5], 10).map((h) => h.id)).not.toContain('5');
+
+    const compacted = graph.compact();
+    expect(compacted.size).toBe(199);
+    expect(compacted.has('5')).toBe(false);
+  });
+});
+
+describe('VectorIndex', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'adytum-vectors-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ignores writes until built, then filters by category and workspace', async () => {
+    const [a, b, c, d] = randomVectors(4, 11);
+    const index = new VectorIndex(dir);
+    index.upsert({ id: 'early', vector: a, category: 'doc_chunk' });
+    expect(index.isBuilt()).toBe(false);
+    expect(index.search(a, 5)).toEqual([]);
+
+    await index.rebuild(
+      records([
+        { id: 'global', vector: a, category: 'doc_chunk' },
+        { id: 'ws1', vector: b, category: 'doc_chunk', workspaceId: 'ws1' },
+        { id: 'ws2', vector: c, category: 'doc_chunk', workspaceId: 'ws2' },
+      ]),
+    );
+    index.upsert({ id: 'fact', vector: d, category: 'user_fact', workspaceId: 'ws1' });
+
+    const ids = (filter: Parameters<VectorIndex['search']>[2]) =>
+      index
+        .search(a, 10, filter)
+        .map((h) => h.id)
+        .sort();
+    expect(ids({ category: 'doc_chunk', workspaceId: 'ws1' })).toEqual(['global', 'ws1']);
+    expect(ids({ category: 'doc_chunk' })).toEqual(['global', 'ws1', 'ws2']);
+    expect(ids({ workspaceId: 'ws1' })).toEqual(['fact', 'global', 'ws1']);
+  });
+
+  it('persists changes and replays writes made during a rebuild', async () => {
+    const [a, b, c] = randomVectors(3, 21);
+    const index = new VectorIndex(dir);
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    async function* slow() {
+      yield { id: 'a', vector: a, category: 'general' };
+      await gate;
+      yield { id: 'b', vector: b, category: 'general' };
+    }
+
+    const building = index.rebuild(slow());
+    index.upsert({ id: 'c', vector: c, category: 'general' });
+    index.remove('a', { category: 'general' });
+    release();
+    await building;
+
+    expect(index.search(c, 1)[0]).toMatchObject({ id: 'c' });
+    index.flush();
+
+    const reopened = new VectorIndex(dir);
+    expect(
+      reopened
+        .search(a, 10)
+        .map((h) => h.id)
+        .sort(),
+    ).toEqual(['b', 'c']);
+    expect(reopened.stats().partitions).toEqual([
+      { category: 'general', workspaceId: null, count: 2 },
+    ]);
+  });
+
+  it('re-applies unflushed writes when another process flushes first', async () => {
+    const [a, b, c] = randomVectors(3, 22);
+    const gateway = new VectorIndex(dir);
+    await gateway.rebuild(
+      (async function* () {
+        yield { id: 'a', vector: a, category: 'general' };
+      })(),
+    );
+    gateway.upsert({ id: 'b', vector: b, category: 'general' });
+    gateway.remove('a', { category: 'general' });
+
+    const cli = new VectorIndex(dir);
+    cli.upsert({ id: 'c', vector: c, category: 'general' });
+    cli.flush();
+
+    expect(
+      gateway
+        .search(a, 10)
+        .map((h) => h.id)
+        .sort(),
+    ).toEqual(['b', 'c']);
+    gateway.flush();
+    expect(
+      new VectorIndex(dir)
+        .search(a, 10)
+        .map((h) => h.id)
+        .sort(),
+    ).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,830 @@
+/**
+ * @file packages/gateway/src/infrastructure/repositories/vector-index.ts
+ * @description Approximate nearest-neighbour index (HNSW) over memory embeddings, persisted under dataPath.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { logger } from '../../logger.js';
+
+export interface HnswOptions {
+  /** Links per node on upper layers (layer 0 keeps twice as many). */
+  m?: number;
+  /** Candidate list size while inserting. */
+  efConstruction?: number;
+  /** Candidate list size while searching. */
+  efSearch?: number;
+}
+
+export interface VectorHit {
+  id: string;
+  /** Cosine similarity to the query. */
+  score: number;
+}
+
+export interface VectorPartition {
+  category: string;
+  workspaceId?: string | null;
+}
+
+export interface VectorFilter {
+  category?: string;
+  /** Workspace to search; global (workspace-less) vectors are always included. */
+  workspaceId?: string;
+  /** Searches only the partitions this accepts; used instead of `workspaceId` for sharing rules. */
+  partition?: (partition: { category: string; workspaceId: string | null }) => boolean;
+}
+
+const MAGIC = 'AHNSW1';
+/** Tombstoned share of a partition above which it is rebuilt on flush. */
+const COMPACT_RATIO = 0.3;
+const FLUSH_DELAY_MS = 1000;
+
+// ─── Heap ─────────────────────────────────────────────────────
+
+/**
+ * Binary heap of (distance, node) pairs; `max` flips the ordering.
+ */
+class DistanceHeap {
+  private items: Array<[number, number]> = [];
+
+  constructor(private max = false) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Returns the top entry without removing it.
+   * @returns The entry, if any.
+   */
+  peek(): [number, number] | undefined {
+    return this.items[0];
+  }
+
+  /**
+   * Adds an entry.
+   * @param dist - Distance.
+   * @param node - Node index.
+   */
+  push(dist: number, node: number): void {
+    const items = this.items;
+    items.push([dist, node]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i][0], items[parent][0])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  /**
+   * Removes and returns the top entry.
+   * @returns The entry, if any.
+   */
+  pop(): [number, number] | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.before(items[left][0], items[best][0])) best = left;
+        if (right < items.length && this.before(items[right][0], items[best][0])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  /**
+   * Returns all entries sorted by ascending distance.
+   * @returns The entries.
+   */
+  sorted(): Array<[number, number]> {
+    return [...this.items].sort((a, b) => a[0] - b[0]);
+  }
+
+  private before(a: number, b: number): boolean {
+    return this.max ? a > b : a < b;
+  }
+}
+
+// ─── HNSW Graph ───────────────────────────────────────────────
+
+/**
+ * Normalizes a vector to unit length so cosine similarity is a dot product.
+ * @param vector - Vector.
+ * @returns A normalized copy.
+ */
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+  const out = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+/**
+ * Hierarchical navigable small world graph over unit vectors (Malkov & Yashunin).
+ * Deletes are tombstones; the graph is rebuilt from live vectors once too many accumulate.
+ */
+export class HnswGraph {
+  private m: number;
+  private efConstruction: number;
+  private levelMult: number;
+  private ids: string[] = [];
+  private vectors: Float32Array[] = [];
+  private links: number[][][] = [];
+  private deleted = new Set<number>();
+  private nodeById = new Map<string, number>();
+  private entry = -1;
+  private maxLevel = -1;
+  private visitMarks = new Uint32Array(0);
+  private visitEpoch = 0;
+
+  constructor(
+    public dim: number,
+    options: HnswOptions = {},
+  ) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 64;
+    this.levelMult = 1 / Math.log(this.m);
+  }
+
+  /** Number of live vectors. */
+  get size(): number {
+    return this.ids.length - this.deleted.size;
+  }
+
+  /** Share of nodes that are tombstones. */
+  get deletedRatio(): number {
+    return this.ids.length === 0 ? 0 : this.deleted.size / this.ids.length;
+  }
+
+  /**
+   * Whether a live vector with this id exists.
+   * @param id - Id.
+   * @returns True when present.
+   */
+  has(id: string): boolean {
+    return this.nodeById.has(id);
+  }
+
+  /**
+   * Inserts or replaces a vector.
+   * @param id - Id.
+   * @param vector - Vector of length `dim`.
+   */
+  insert(id: string, vector: Float32Array): void {
+    if (vector.length !== this.dim) {
+      throw new Error(`Vector dimension ${vector.length} does not match index (${this.dim})`);
+    }
+    this.remove(id);
+    const q = normalize(vector);
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMult);
+    const node = this.ids.length;
+    this.ids.push(id);
+    this.vectors.push(q);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.nodeById.set(id, node);
+
+    if (this.entry === -1) {
+      this.entry = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let ep = this.entry;
+    for (let l = this.maxLevel; l > level; l--) ep = this.greedy(q, ep, l);
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(q, ep, this.efConstruction, l);
+      const neighbors = this.selectNeighbors(candidates, this.m);
+      this.links[node][l] = neighbors;
+      for (const n of neighbors) this.connect(n, node, l);
+      ep = candidates[0][1];
+    }
+    if (level > this.maxLevel) {
+      this.entry = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Tombstones a vector.
+   * @param id - Id.
+   * @returns True when it existed.
+   */
+  remove(id: string): boolean {
+    const node = this.nodeById.get(id);
+    if (node === undefined) return false;
+    this.nodeById.delete(id);
+    this.deleted.add(node);
+    return true;
+  }
+
+  /**
+   * Finds the nearest live vectors.
+   * @param vector - Query vector.
+   * @param k - Number of results.
+   * @param ef - Candidate list size; raised to at least `k`.
+   * @returns Hits sorted by descending similarity.
+   */
+  search(vector: Float32Array, k: number, ef = 64): VectorHit[] {
+    if (this.entry === -1 || vector.length !== this.dim || k <= 0) return [];
+    const q = normalize(vector);
+    let ep = this.entry;
+    for (let l = this.maxLevel; l > 0; l--) ep = this.greedy(q, ep, l);
+    // Tombstones still route the search but take up candidate slots
+    const width = Math.ceil(Math.max(ef, k) / Math.max(0.1, 1 - this.deletedRatio));
+    const hits: VectorHit[] = [];
+    for (const [dist, node] of this.searchLayer(q, ep, width, 0)) {
+      if (this.deleted.has(node)) continue;
+      hits.push({ id: this.ids[node], score: 1 - dist });
+      if (hits.length === k) break;
+    }
+    return hits;
+  }
+
+  /**
+   * Iterates live vectors.
+   * @returns Id and vector pairs.
+   */
+  *entries(): Generator<[string, Float32Array]> {
+    for (let node = 0; node < this.ids.length; node++) {
+      if (!this.deleted.has(node)) yield [this.ids[node], this.vectors[node]];
+    }
+  }
+
+  /**
+   * Builds a new graph holding only the live vectors.
+   * @param options - Graph options.
+   * @returns The compacted graph.
+   */
+  compact(options: HnswOptions = {}): HnswGraph {
+    const next = new HnswGraph(this.dim, options);
+    for (const [id, vector] of this.entries()) next.insert(id, vector);
+    return next;
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    const n = a.length;
+    let d0 = 0;
+    let d1 = 0;
+    let d2 = 0;
+    let d3 = 0;
+    let i = 0;
+    for (; i + 3 < n; i += 4) {
+      d0 += a[i] * b[i];
+      d1 += a[i + 1] * b[i + 1];
+      d2 += a[i + 2] * b[i + 2];
+      d3 += a[i + 3] * b[i + 3];
+    }
+    for (; i < n; i++) d0 += a[i] * b[i];
+    return 1 - (d0 + d1 + d2 + d3);
+  }
+
+  private greedy(q: Float32Array, start: number, level: number): number {
+    let current = start;
+    let best = this.distance(q, this.vectors[current]);
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const n of this.links[current][level] ?? []) {
+        const d = this.distance(q, this.vectors[n]);
+        if (d < best) {
+          best = d;
+          current = n;
+          changed = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  private searchLayer(
+    q: Float32Array,
+    entry: number,
+    ef: number,
+    level: number,
+  ): Array<[number, number]> {
+    if (this.visitMarks.length < this.ids.length) {
+      this.visitMarks = new Uint32Array(Math.max(this.ids.length * 2, 1024));
+      this.visitEpoch = 0;
+    }
+    const epoch = ++this.visitEpoch;
+    const visited = this.visitMarks;
+    visited[entry] = epoch;
+
+    const d0 = this.distance(q, this.vectors[entry]);
+    const candidates = new DistanceHeap();
+    const results = new DistanceHeap(true);
+    candidates.push(d0, entry);
+    results.push(d0, entry);
+
+    while (candidates.size > 0) {
+      const [dist, node] = candidates.pop()!;
+      if (dist > results.peek()![0] && results.size >= ef) break;
+      for (const n of this.links[node][level] ?? []) {
+        if (visited[n] === epoch) continue;
+        visited[n] = epoch;
+        const d = this.distance(q, this.vectors[n]);
+        if (results.size < ef || d < results.peek()![0]) {
+          candidates.push(d, n);
+          results.push(d, n);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+    return results.sorted();
+  }
+
+  /**
+   * Picks diverse neighbours: a candidate is kept only when it is closer to the new node
+   * than to every neighbour already kept, then the rest fill any free slots.
+   */
+  private selectNeighbors(candidates: Array<[number, number]>, max: number): number[] {
+    const selected: number[] = [];
+    const skipped: number[] = [];
+    for (const [dist, node] of candidates) {
+      if (selected.length >= max) break;
+      const diverse = selected.every(
+        (s) => this.distance(this.vectors[node], this.vectors[s]) > dist,
+      );
+      (diverse ? selected : skipped).push(node);
+    }
+    for (const node of skipped) {
+      if (selected.length >= max) break;
+      selected.push(node);
+    }
+    return selected;
+  }
+
+  private connect(from: number, to: number, level: number): void {
+    const list = this.links[from][level];
+    list.push(to);
+    const max = level === 0 ? this.m * 2 : this.m;
+    if (list.length <= max) return;
+    // Plain closest-first pruning; the diversity heuristic here dominates build time
+    const base = this.vectors[from];
+    this.links[from][level] = list
+      .map((n): [number, number] => [this.distance(base, this.vectors[n]), n])
+      .sort((a, b) => a[0] - b[0])
+      .slice(0, max)
+      .map(([, n]) => n);
+  }
+
+  /**
+   * Serializes the graph.
+   * @returns The binary representation.
+   */
+  serialize(): Buffer {
+    const count = this.ids.length;
+    const header = Buffer.from(
+      JSON.stringify({
+        dim: this.dim,
+        m: this.m,
+        entry: this.entry,
+        maxLevel: this.maxLevel,
+        ids: this.ids,
+        deleted: [...this.deleted],
+      }),
+    );
+    const linkWords = this.links.reduce(
+      (sum, levels) => sum + 1 + levels.reduce((s, l) => s + 1 + l.length, 0),
+      0,
+    );
+    const vectorBytes = count * this.dim * 4;
+    const out = Buffer.alloc(MAGIC.length + 4 + header.length + vectorBytes + linkWords * 4);
+    let offset = out.write(MAGIC, 0, 'ascii');
+    offset = out.writeUInt32LE(header.length, offset);
+    offset += header.copy(out, offset);
+    for (const vector of this.vectors) {
+      offset += Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).copy(out, offset);
+    }
+    for (const levels of this.links) {
+      offset = out.writeUInt32LE(levels.length, offset);
+      for (const list of levels) {
+        offset = out.writeUInt32LE(list.length, offset);
+        for (const n of list) offset = out.writeUInt32LE(n, offset);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Restores a serialized graph.
+   * @param buf - Buffer written by `serialize`.
+   * @param options - Graph options for later inserts.
+   * @returns The graph.
+   */
+  static deserialize(buf: Buffer, options: HnswOptions = {}): HnswGraph {
+    if (buf.toString('ascii', 0, MAGIC.length) !== MAGIC) {
+      throw new Error('Not a vector index file');
+    }
+    let offset = MAGIC.length;
+    const headerLength = buf.readUInt32LE(offset);
+    offset += 4;
+    const header = JSON.parse(buf.toString('utf-8', offset, offset + headerLength)) as {
+      dim: number;
+      m: number;
+      entry: number;
+      maxLevel: number;
+      ids: string[];
+      deleted: number[];
+    };
+    offset += headerLength;
+
+    const graph = new HnswGraph(header.dim, { ...options, m: header.m });
+    graph.ids = header.ids;
+    graph.entry = header.entry;
+    graph.maxLevel = header.maxLevel;
+    graph.deleted = new Set(header.deleted);
+    for (let node = 0; node < header.ids.length; node++) {
+      const bytes = header.dim * 4;
+      const vector = new Float32Array(header.dim);
+      new Uint8Array(vector.buffer).set(buf.subarray(offset, offset + bytes));
+      offset += bytes;
+      graph.vectors.push(vector);
+      if (!graph.deleted.has(node)) graph.nodeById.set(header.ids[node], node);
+    }
+    for (let node = 0; node < header.ids.length; node++) {
+      const levelCount = buf.readUInt32LE(offset);
+      offset += 4;
+      const levels: number[][] = [];
+      for (let l = 0; l < levelCount; l++) {
+        const n = buf.readUInt32LE(offset);
+        offset += 4;
+        const list: number[] = [];
+        for (let i = 0; i < n; i++, offset += 4) list.push(buf.readUInt32LE(offset));
+        levels.push(list);
+      }
+      graph.links.push(levels);
+    }
+    return graph;
+  }
+}
+
+// ─── Persisted Index ──────────────────────────────────────────
+
+export interface VectorRecord extends VectorPartition {
+  id: string;
+  vector: Float32Array;
+}
+
+interface PartitionEntry {
+  file: string;
+  category: string;
+  workspaceId: string | null;
+  dim: number;
+  count: number;
+}
+
+interface VectorManifest {
+  version: 1;
+  builtAt: number;
+  partitions: Record<string, PartitionEntry>;
+}
+
+type JournalEntry =
+  | { op: 'upsert'; record: VectorRecord }
+  | { op: 'remove'; id: string; partition: VectorPartition };
+
+/**
+ * Memory embeddings indexed with one HNSW graph per (category, workspace) partition, stored
+ * as `<dir>/<hash>.hnsw` plus `manifest.json`. The index only accepts writes once it has been
+ * built from the database with `rebuild`; until then callers fall back to an exact scan.
+ * Changes are flushed shortly after they happen, and a manifest rewritten by another process
+ * (e.g. `adytum memory reindex` or `adytum memory import`) is picked up on the next call, with
+ * this process's unflushed changes re-applied on top.
+ */
+export class VectorIndex {
+  private manifestPath: string;
+  private manifest?: VectorManifest;
+  private loadedStamp = '';
+  private graphs = new Map<string, HnswGraph>();
+  private dirty = new Set<string>();
+  private pending: JournalEntry[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private journal?: JournalEntry[];
+  private building?: Promise<{ count: number; partitions: number }>;
+
+  constructor(
+    private dir: string,
+    private options: HnswOptions = {},
+  ) {
+    this.manifestPath = join(dir, 'manifest.json');
+    this.refresh();
+  }
+
+  /**
+   * Whether the index has been built and can answer searches.
+   * @returns True once built.
+   */
+  isBuilt(): boolean {
+    this.refresh();
+    return !!this.manifest;
+  }
+
+  /**
+   * Whether a rebuild is in progress.
+   * @returns True while building.
+   */
+  isBuilding(): boolean {
+    return !!this.building;
+  }
+
+  /**
+   * Adds or replaces a vector.
+   * @param record - Vector record.
+   */
+  upsert(record: VectorRecord): void {
+    this.journal?.push({ op: 'upsert', record });
+    this.apply({ op: 'upsert', record });
+  }
+
+  /**
+   * Removes a vector.
+   * @param id - Memory id.
+   * @param partition - Partition the vector was stored in.
+   */
+  remove(id: string, partition: VectorPartition): void {
+    this.journal?.push({ op: 'remove', id, partition });
+    this.apply({ op: 'remove', id, partition });
+  }
+
+  /**
+   * Finds the nearest vectors across the partitions matching a filter.
+   * @param vector - Query vector.
+   * @param k - Number of results.
+   * @param filter - Category and workspace filter.
+   * @returns Hits sorted by descending similarity.
+   */
+  search(vector: Float32Array, k: number, filter: VectorFilter = {}): VectorHit[] {
+    if (!this.isBuilt()) return [];
+    const hits: VectorHit[] = [];
+    for (const [key, entry] of Object.entries(this.manifest!.partitions)) {
+      if (entry.dim !== vector.length) continue;
+      if (filter.category && entry.category !== filter.category) continue;
+      if (filter.workspaceId && entry.workspaceId && entry.workspaceId !== filter.workspaceId) {
+        continue;
+      }
+      if (filter.partition && !filter.partition(entry)) continue;
+      hits.push(...(this.graph(key)?.search(vector, k, this.options.efSearch) ?? []));
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Summarizes the partitions.
+   * @returns Whether the index is built, and per-partition vector counts.
+   */
+  stats(): {
+    built: boolean;
+    builtAt?: number;
+    partitions: Array<{ category: string; workspaceId: string | null; count: number }>;
+  } {
+    this.refresh();
+    const partitions = Object.entries(this.manifest?.partitions ?? {}).map(([key, entry]) => ({
+      category: entry.category,
+      workspaceId: entry.workspaceId,
+      count: this.graphs.get(key)?.size ?? entry.count,
+    }));
+    return { built: !!this.manifest, builtAt: this.manifest?.builtAt, partitions };
+  }
+
+  /**
+   * Replaces the whole index with the given vectors. Writes made while the rebuild runs are
+   * replayed on top of the result.
+   * @param records - All vectors, typically paged from the database.
+   * @param onProgress - Called with the number of vectors indexed so far.
+   * @returns Indexed vector and partition counts.
+   */
+  rebuild(
+    records: AsyncIterable<VectorRecord>,
+    onProgress?: (count: number) => void,
+  ): Promise<{ count: number; partitions: number }> {
+    this.building ??= this.runRebuild(records, onProgress).finally(() => {
+      this.building = undefined;
+      this.journal = undefined;
+    });
+    return this.building;
+  }
+
+  /**
+   * Writes pending changes to disk.
+   */
+  flush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.refresh();
+    if (!this.manifest || this.dirty.size === 0) return;
+
+    for (const key of this.dirty) {
+      let graph = this.graphs.get(key);
+      const entry = this.manifest.partitions[key];
+      if (!graph || !entry) continue;
+      if (graph.size === 0) {
+        rmSync(join(this.dir, entry.file), { force: true });
+        delete this.manifest.partitions[key];
+        this.graphs.delete(key);
+        continue;
+      }
+      if (graph.deletedRatio > COMPACT_RATIO) {
+        graph = graph.compact(this.options);
+        this.graphs.set(key, graph);
+      }
+      this.writeAtomic(join(this.dir, entry.file), graph.serialize());
+      entry.count = graph.size;
+    }
+    this.dirty.clear();
+    this.pending = [];
+    this.writeManifest();
+  }
+
+  private async runRebuild(
+    records: AsyncIterable<VectorRecord>,
+    onProgress?: (count: number) => void,
+  ): Promise<{ count: number; partitions: number }> {
+    this.journal = [];
+    const graphs = new Map<string, { graph: HnswGraph; partition: VectorPartition }>();
+    let count = 0;
+    for await (const record of records) {
+      const key = this.keyOf(record);
+      let target = graphs.get(key);
+      if (!target) {
+        target = { graph: new HnswGraph(record.vector.length, this.options), partition: record };
+        graphs.set(key, target);
+      }
+      if (target.graph.dim !== record.vector.length) continue;
+      target.graph.insert(record.id, record.vector);
+      count++;
+      if (onProgress && count % 500 === 0) onProgress(count);
+    }
+
+    mkdirSync(this.dir, { recursive: true });
+    const previous = this.readManifest();
+    const partitions: Record<string, PartitionEntry> = {};
+    for (const [key, { graph, partition }] of graphs) {
+      const file = `${createHash('sha1').update(key).digest('hex').slice(0, 16)}.hnsw`;
+      this.writeAtomic(join(this.dir, file), graph.serialize());
+      partitions[key] = {
+        file,
+        category: partition.category,
+        workspaceId: partition.workspaceId ?? null,
+        dim: graph.dim,
+        count: graph.size,
+      };
+    }
+    for (const entry of Object.values(previous?.partitions ?? {})) {
+      if (!Object.values(partitions).some((p) => p.file === entry.file)) {
+        rmSync(join(this.dir, entry.file), { force: true });
+      }
+    }
+
+    this.manifest = { version: 1, builtAt: Date.now(), partitions };
+    this.graphs = new Map([...graphs].map(([key, { graph }]) => [key, graph]));
+    this.dirty.clear();
+    this.pending = [];
+    this.writeManifest();
+
+    const journal = this.journal ?? [];
+    this.journal = undefined;
+    for (const entry of journal) this.apply(entry);
+    this.flush();
+    onProgress?.(count);
+    return { count, partitions: graphs.size };
+  }
+
+  /**
+   * Applies one change to the loaded graphs and remembers it until the next flush.
+   * @param entry - Upsert or removal.
+   */
+  private apply(entry: JournalEntry): void {
+    if (!this.isBuilt()) return;
+    if (entry.op === 'remove') {
+      const key = this.keyOf(entry.partition);
+      if (this.graph(key)?.remove(entry.id)) this.markDirty(key, entry);
+      return;
+    }
+    const { record } = entry;
+    const key = this.keyOf(record);
+    const graph = this.graph(key, record);
+    if (!graph) return;
+    if (graph.dim !== record.vector.length) {
+      logger.warn(
+        `Vector index: skipping ${record.id}, dimension ${record.vector.length} != ${graph.dim}. Run 'adytum memory reindex'.`,
+      );
+      return;
+    }
+    graph.insert(record.id, record.vector);
+    this.markDirty(key, entry);
+  }
+
+  /**
+   * Returns a partition graph, loading it from disk or creating it.
+   * @param key - Partition key.
+   * @param create - Partition and dimension to create it with when missing.
+   * @returns The graph, if available.
+   */
+  private graph(key: string, create?: VectorRecord): HnswGraph | undefined {
+    const loaded = this.graphs.get(key);
+    if (loaded) return loaded;
+    const entry = this.manifest?.partitions[key];
+    if (entry) {
+      try {
+        const graph = HnswGraph.deserialize(readFileSync(join(this.dir, entry.file)), this.options);
+        this.graphs.set(key, graph);
+        return graph;
+      } catch (err) {
+        logger.warn(`Vector index partition ${entry.file} is unreadable, rebuilding it: ${err}`);
+      }
+    }
+    if (!create || !this.manifest) return undefined;
+    const graph = new HnswGraph(create.vector.length, this.options);
+    this.graphs.set(key, graph);
+    this.manifest.partitions[key] = {
+      file: `${createHash('sha1').update(key).digest('hex').slice(0, 16)}.hnsw`,
+      category: create.category,
+      workspaceId: create.workspaceId ?? null,
+      dim: graph.dim,
+      count: 0,
+    };
+    return graph;
+  }
+
+  private keyOf(partition: VectorPartition): string {
+    return JSON.stringify([partition.category, partition.workspaceId ?? null]);
+  }
+
+  private markDirty(key: string, entry: JournalEntry): void {
+    this.dirty.add(key);
+    this.pending.push(entry);
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    this.flushTimer.unref?.();
+  }
+
+  /**
+   * Reloads the manifest when another process rewrote it, then re-applies the changes this
+   * process had not flushed yet: the other writer may only have flushed its own.
+   */
+  private refresh(): void {
+    const stamp = this.stamp();
+    if (stamp === this.loadedStamp) return;
+    const pending = this.pending;
+    if (pending.length > 0) {
+      logger.debug('Vector index changed on disk; re-applying unflushed changes.');
+    }
+    this.loadedStamp = stamp;
+    this.manifest = this.readManifest();
+    this.graphs.clear();
+    this.dirty.clear();
+    this.pending = [];
+    for (const entry of pending) this.apply(entry);
+  }
+
+  private readManifest(): VectorManifest | undefined {
+    if (!existsSync(this.manifestPath)) return undefined;
+    try {
+      const parsed = JSON.parse(readFileSync(this.manifestPath, 'utf-8')) as VectorManifest;
+      return parsed.version === 1 ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeManifest(): void {
+    this.writeAtomic(this.manifestPath, Buffer.from(JSON.stringify(this.manifest, null, 2)));
+    this.loadedStamp = this.stamp();
+  }
+
+  private stamp(): string {
+    if (!existsSync(this.manifestPath)) return 'missing';
+    const { mtimeMs, size } = statSync(this.manifestPath);
+    return `${mtimeMs}:${size}`;
+  }
+
+  private writeAtomic(path: string, data: Buffer): void {
+    mkdirSync(this.dir, { recursive: true });
+    const tmp = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmp, data);
+    renameSync(tmp, path);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @file packages/gateway/src/infrastructure/shell/host-shell-backend.ts
+ * @description Implements infrastructure adapters and external integrations.
+ */
+
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { isAbsolute, join } from 'node:path';
+import type { ShellBackend, ShellExecRequest, ShellExecResult } from './shell-backend.interface.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Runs commands directly in the gateway's environment, with the gateway's authority.
+ */
+export class HostShellBackend implements ShellBackend {
+  readonly name = 'host';
+
+  /**
+   * Executes a command.
+   * @param request - Request.
+   * @returns The command result.
+   */
+  async execute(request: ShellExecRequest): Promise<ShellExecResult> {
+    // Without a workspace the command runs in the gateway's own working directory
+    let cwd = request.cwd;
+    if (request.workspaceRoot && (!cwd || !isAbsolute(cwd))) {
+      cwd = cwd ? join(request.workspaceRoot, cwd) : request.workspaceRoot;
+    }
+
+    try {
+      const { stdout, stderr } = await execAsync(request.command, {
+        cwd,
+        timeout: request.timeout,
+        maxBuffer: 1024 * 1024, // 1MB
+        env: { ...process.env, PAGER: 'cat' },
+        signal: request.signal,
+      });
+      return { exitCode: 0, stdout, stderr };
+    } catch (error: any) {
+      return {
+        exitCode: typeof error.code === 'number' ? error.code : 1,
+        stdout: error.stdout || '',
+        stderr: error.stderr || error.message,
+      };
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ShellSandboxConfigSchema } from '@adytum/shared';
+import { RestrictedShellBackend } from './restricted-shell-backend.js';
+import { ShellBackendResolver } from './shell-backend-resolver.js';
+
+describe('RestrictedShellBackend', () => {
+  let workspace: string;
+  const settings = ShellSandboxConfigSchema.parse({
+    namespaces: 'off',
+    limits: { maxOutputBytes: 1024 },
+  });
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'adytum-sandbox-'));
+    process.env.ADYTUM_SANDBOX_TEST_SECRET = 'sk-test';
+  });
+
+  afterEach(() => {
+    delete process.env.ADYTUM_SANDBOX_TEST_SECRET;
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('scrubs the environment and runs inside the workspace', async () => {
+    const backend = new RestrictedShellBackend(workspace, () => settings);
+    const result = await backend.execute({
+      command: 'echo "secret=$ADYTUM_SANDBOX_TEST_SECRET"; pwd',
+      timeout: 5000,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('secret=\n');
+    expect(result.stdout.trim().endsWith(workspace.split('/').pop()!)).toBe(true);
+  });
+
+  it('rejects working directories outside the workspace', async () => {
+    const backend = new RestrictedShellBackend(workspace, () => settings);
+    const result = await backend.execute({ command: 'ls', cwd: '../', timeout: 5000 });
+
+    expect(result.exitCode).toBe(126);
+    expect(result.stderr).toContain('outside the workspace');
+  });
+
+  it('stops commands that exceed the output cap', async () => {
+    const backend = new RestrictedShellBackend(workspace, () => settings);
+    const result = await backend.execute({ command: 'yes', timeout: 5000 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.stdout.length).toBeLessThanOrEqual(1024);
+  });
+});
+
+describe('ShellBackendResolver', () => {
+  it('prefers workspace overrides, then tiers, then the default backend', () => {
+    const settings = ShellSandboxConfigSchema.parse({ workspaces: { trusted: 'host' } });
+    const resolver = new ShellBackendResolver(
+      '/tmp',
+      () => settings,
+      (id) => (id === 'worker' ? 3 : 1),
+    );
+
+    expect(resolver.resolve({ agentId: 'worker' }).name).toBe('restricted');
+    expect(resolver.resolve({ agentId: 'worker', workspaceId: 'trusted' }).name).toBe('host');
+    expect(resolver.resolve({ agentId: 'architect' }).name).toBe('host');
+  });
+});
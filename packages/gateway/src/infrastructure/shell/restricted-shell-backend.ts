@@ -0,0 +1,248 @@
+/**
+ * @file packages/gateway/src/infrastructure/shell/restricted-shell-backend.ts
+ * @description Implements infrastructure adapters and external integrations.
+ */
+
+import { spawn, spawnSync } from 'node:child_process';
+import { existsSync, realpathSync } from 'node:fs';
+import { resolve, sep } from 'node:path';
+import type { ShellSandboxConfig } from '@adytum/shared';
+import { logger } from '../../logger.js';
+import type { ShellBackend, ShellExecRequest, ShellExecResult } from './shell-backend.interface.js';
+
+type Isolation = 'bwrap' | 'unshare' | 'none';
+
+/**
+ * Runs commands with a scrubbed environment, a working directory locked to the workspace,
+ * rlimits on CPU, memory and file size, a cap on captured output and, when available,
+ * Linux namespaces via bubblewrap or unshare.
+ */
+export class RestrictedShellBackend implements ShellBackend {
+  readonly name = 'restricted';
+  private isolationCache = new Map<ShellSandboxConfig['namespaces'], Isolation>();
+
+  constructor(
+    private defaultWorkspaceRoot: string,
+    private getSettings: () => ShellSandboxConfig,
+  ) {}
+
+  /**
+   * Executes a command inside the sandbox.
+   * @param request - Request.
+   * @returns The command result.
+   */
+  async execute(request: ShellExecRequest): Promise<ShellExecResult> {
+    const settings = this.getSettings();
+    const root = this.realpath(resolve(request.workspaceRoot || this.defaultWorkspaceRoot));
+    const cwd = this.realpath(resolve(root, request.cwd || '.'));
+
+    if (cwd !== root && !cwd.startsWith(root + sep)) {
+      return {
+        exitCode: 126,
+        stdout: '',
+        stderr: `Sandbox: working directory "${cwd}" is outside the workspace "${root}".`,
+      };
+    }
+    if (!existsSync(cwd)) {
+      return {
+        exitCode: 126,
+        stdout: '',
+        stderr: `Sandbox: working directory "${cwd}" does not exist.`,
+      };
+    }
+
+    const [file, args] = this.wrap(settings, root, cwd, request.command);
+    return this.run(file, args, {
+      cwd,
+      env: this.buildEnv(settings, root),
+      timeout: request.timeout,
+      signal: request.signal,
+      maxOutputBytes: settings.limits.maxOutputBytes,
+    });
+  }
+
+  /**
+   * Detects which namespace tool works on this host for the configured mode.
+   * @param mode - Configured namespace mode.
+   * @returns The isolation that will be used.
+   */
+  detectIsolation(mode: ShellSandboxConfig['namespaces']): Isolation {
+    const cached = this.isolationCache.get(mode);
+    if (cached) return cached;
+
+    const probe = (file: string, args: string[]) => {
+      try {
+        return spawnSync(file, args, { stdio: 'ignore', timeout: 3000 }).status === 0;
+      } catch {
+        return false;
+      }
+    };
+    const bwrapWorks = () =>
+      probe('bwrap', ['--ro-bind', '/', '/', '--unshare-all', '--die-with-parent', 'true']);
+    const unshareWorks = () =>
+      probe('unshare', ['--user', '--map-root-user', '--mount', '--pid', '--fork', 'true']);
+
+    let isolation: Isolation = 'none';
+    if (mode === 'bwrap' || mode === 'auto') {
+      if (bwrapWorks()) isolation = 'bwrap';
+    }
+    if (isolation === 'none' && (mode === 'unshare' || mode === 'auto')) {
+      if (unshareWorks()) isolation = 'unshare';
+    }
+    if (isolation === 'none' && mode !== 'off') {
+      logger.warn(
+        { mode },
+        'Shell sandbox: namespaces unavailable, using rlimits and env scrubbing only',
+      );
+    }
+
+    this.isolationCache.set(mode, isolation);
+    return isolation;
+  }
+
+  private wrap(
+    settings: ShellSandboxConfig,
+    root: string,
+    cwd: string,
+    command: string,
+  ): [string, string[]] {
+    const { cpuSeconds, memoryMb, fileSizeMb } = settings.limits;
+    // Limits are applied by the shell before it execs the command (passed as $1, never quoted in)
+    const script = [
+      `ulimit -t ${cpuSeconds} || exit 125`,
+      `ulimit -d ${memoryMb * 1024} || exit 125`,
+      `ulimit -f ${fileSizeMb * 2048} || exit 125`,
+      'exec /bin/sh -c "$1"',
+    ].join('; ');
+    const shellArgs = ['/bin/sh', '-c', script, 'adytum-sandbox', command];
+
+    switch (this.detectIsolation(settings.namespaces)) {
+      case 'bwrap': {
+        const args = ['--die-with-parent', '--new-session', '--unshare-all'];
+        if (settings.allowNetwork) args.push('--share-net');
+        args.push('--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc', '--tmpfs', '/tmp');
+        // Hide the user's home (credentials, ~/.adytum data) unless the workspace lives in it
+        const home = process.env.HOME;
+        if (home && home !== '/' && !root.startsWith(resolve(home) + sep) && root !== home) {
+          args.push('--tmpfs', home);
+        }
+        args.push('--bind', root, root, '--chdir', cwd, ...shellArgs);
+        return ['bwrap', args];
+      }
+      case 'unshare': {
+        const args = ['--user', '--map-root-user', '--mount', '--pid', '--fork', '--mount-proc'];
+        if (!settings.allowNetwork) args.push('--net');
+        return ['unshare', [...args, ...shellArgs]];
+      }
+      default:
+        return [shellArgs[0], shellArgs.slice(1)];
+    }
+  }
+
+  private buildEnv(settings: ShellSandboxConfig, root: string): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+    for (const key of settings.envAllowlist) {
+      if (process.env[key] !== undefined) env[key] = process.env[key];
+    }
+    env.PATH = env.PATH || '/usr/local/bin:/usr/bin:/bin';
+    env.HOME = root;
+    env.PAGER = 'cat';
+    return env;
+  }
+
+  private run(
+    file: string,
+    args: string[],
+    options: {
+      cwd: string;
+      env: NodeJS.ProcessEnv;
+      timeout: number;
+      signal?: AbortSignal;
+      maxOutputBytes: number;
+    },
+  ): Promise<ShellExecResult> {
+    return new Promise((resolvePromise) => {
+      const child = spawn(file, args, {
+        cwd: options.cwd,
+        env: options.env,
+        detached: true, // own process group, so the whole tree can be killed
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let captured = 0;
+      let truncated = false;
+      let timedOut = false;
+      let aborted = false;
+
+      const killTree = () => {
+        try {
+          if (child.pid) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      };
+
+      const collect = (target: Buffer[]) => (chunk: Buffer) => {
+        if (truncated) return;
+        const room = options.maxOutputBytes - captured;
+        if (chunk.length > room) {
+          target.push(chunk.subarray(0, Math.max(0, room)));
+          captured = options.maxOutputBytes;
+          truncated = true;
+          killTree();
+          return;
+        }
+        target.push(chunk);
+        captured += chunk.length;
+      };
+      child.stdout!.on('data', collect(stdout));
+      child.stderr!.on('data', collect(stderr));
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killTree();
+      }, options.timeout);
+      const onAbort = () => {
+        aborted = true;
+        killTree();
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const finish = (exitCode: number, extraStderr?: string) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        let err = Buffer.concat(stderr).toString('utf-8');
+        if (extraStderr) err += (err ? '\n' : '') + extraStderr;
+        resolvePromise({
+          exitCode,
+          stdout: Buffer.concat(stdout).toString('utf-8'),
+          stderr: err,
+          truncated: truncated || undefined,
+        });
+      };
+
+      child.on('error', (error) => finish(127, `Sandbox: failed to start: ${error.message}`));
+      child.on('close', (code, signal) => {
+        if (timedOut) return finish(124, `Sandbox: command timed out after ${options.timeout}ms.`);
+        if (aborted) return finish(130, 'Sandbox: command was cancelled.');
+        if (truncated) {
+          return finish(
+            code ?? 137,
+            `Sandbox: output exceeded ${options.maxOutputBytes} bytes; the command was stopped.`,
+          );
+        }
+        finish(code ?? (signal ? 128 : 1));
+      });
+    });
+  }
+
+  private realpath(path: string): string {
+    try {
+      return existsSync(path) ? realpathSync(path) : path;
+    } catch {
+      return path;
+    }
+  }
+}
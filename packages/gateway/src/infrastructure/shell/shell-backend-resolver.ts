@@ -0,0 +1,46 @@
+/**
+ * @file packages/gateway/src/infrastructure/shell/shell-backend-resolver.ts
+ * @description Implements infrastructure adapters and external integrations.
+ */
+
+import type { AgentTier, ShellBackendKind, ShellSandboxConfig } from '@adytum/shared';
+import type { ShellBackend } from './shell-backend.interface.js';
+import { HostShellBackend } from './host-shell-backend.js';
+import { RestrictedShellBackend } from './restricted-shell-backend.js';
+
+/**
+ * Chooses the shell backend for a command: workspace override first, then the agent's tier,
+ * then the configured default.
+ */
+export class ShellBackendResolver {
+  private backends: Record<ShellBackendKind, ShellBackend>;
+
+  constructor(
+    defaultWorkspaceRoot: string,
+    private getSettings: () => ShellSandboxConfig,
+    private resolveTier?: (agentId: string) => AgentTier | undefined,
+  ) {
+    this.backends = {
+      host: new HostShellBackend(),
+      restricted: new RestrictedShellBackend(defaultWorkspaceRoot, getSettings),
+    };
+  }
+
+  /**
+   * Resolves the backend for a command.
+   * @param context - Workspace and agent the command runs for.
+   * @returns The backend to execute with.
+   */
+  resolve(context: { workspaceId?: string; agentId?: string } = {}): ShellBackend {
+    const settings = this.getSettings();
+
+    const byWorkspace = context.workspaceId ? settings.workspaces[context.workspaceId] : undefined;
+    if (byWorkspace) return this.backends[byWorkspace];
+
+    const tier = context.agentId ? this.resolveTier?.(context.agentId) : undefined;
+    const byTier = tier ? settings.tiers[String(tier) as '1' | '2' | '3'] : undefined;
+    if (byTier) return this.backends[byTier];
+
+    return this.backends[settings.defaultBackend];
+  }
+}
@@ -0,0 +1,25 @@
+export interface ShellExecRequest {
+  command: string;
+  /** Working directory; relative paths resolve against `workspaceRoot`. */
+  cwd?: string;
+  /** Root of the workspace the command belongs to, when it runs in a workspace. */
+  workspaceRoot?: string;
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+export interface ShellExecResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  /** True when output was cut off at the backend's output limit. */
+  truncated?: boolean;
+}
+
+/**
+ * Standard interface for shell execution backends used by `shell_execute`.
+ */
+export interface ShellBackend {
+  readonly name: string;
+  execute(request: ShellExecRequest): Promise<ShellExecResult>;
+}
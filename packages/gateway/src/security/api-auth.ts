@@ -0,0 +1,100 @@
+/**
+ * @file packages/gateway/src/security/api-auth.ts
+ * @description Provides security utilities and policy enforcement logic.
+ */
+
+import type { ApiTokenScope } from '@adytum/shared';
+
+const SCOPE_RANK: Record<ApiTokenScope, number> = { 'read-only': 0, chat: 1, admin: 2 };
+
+/** Paths reachable without a token. OAuth callbacks are browser redirects from the provider. */
+const PUBLIC_PATHS = [/^\/api\/health\/?$/, /^\/api\/skills\/[^/]+\/oauth\/[^/]+\/callback\/?$/];
+
+/** Reads that expose files, secrets or full backups and need an admin token. */
+const ADMIN_READS = [
+  /^\/api\/system\/files\//,
+  /^\/api\/system\/browse\/?$/,
+  /^\/api\/memories\/export\/?$/,
+];
+
+/** POST routes that only read; the body carries a query too large for a URL. */
+const READ_POSTS = [/^\/api\/knowledge\/query\/?$/];
+
+/** Writes a chat token may make: running turns and answering approvals. */
+const CHAT_WRITES = [
+  /^\/v1\/chat\/completions\/?$/,
+  /^\/api\/approvals\/[^/]+\/?$/,
+  /^\/api\/feedback\/?$/,
+  /^\/api\/sessions\/[^/]+\/resume\/?$/,
+];
+
+/** File and download routes a browser opens directly, the only ones taking `?token=`. */
+const QUERY_TOKEN_READS = [/^\/api\/system\/files\//, /^\/api\/memories\/export\/?$/];
+
+/**
+ * Whether a granted scope covers a required one.
+ * @param granted - Scope of the presented token.
+ * @param required - Scope the route needs.
+ * @returns True when access is allowed.
+ */
+export function scopeAllows(granted: ApiTokenScope, required: ApiTokenScope): boolean {
+  return SCOPE_RANK[granted] >= SCOPE_RANK[required];
+}
+
+/**
+ * Determines the scope a request needs.
+ * @param method - HTTP method.
+ * @param path - Request path without query string.
+ * @param publicPaths - Extra public path prefixes from config.
+ * @returns The required scope, or null for public routes.
+ */
+export function requiredScope(
+  method: string,
+  path: string,
+  publicPaths: string[] = [],
+): ApiTokenScope | null {
+  if (method === 'OPTIONS') return null;
+  if (PUBLIC_PATHS.some((p) => p.test(path))) return null;
+  if (publicPaths.some((prefix) => path.startsWith(prefix))) return null;
+
+  if (method === 'GET' || method === 'HEAD') {
+    if (ADMIN_READS.some((p) => p.test(path))) return 'admin';
+    return 'read-only';
+  }
+  if (method === 'POST' && READ_POSTS.some((p) => p.test(path))) return 'read-only';
+  return CHAT_WRITES.some((p) => p.test(path)) ? 'chat' : 'admin';
+}
+
+/**
+ * Whether a request may pass its token in the query string. Query strings end up in logs and
+ * browser history, so only file and download links get the fallback.
+ * @param method - HTTP method.
+ * @param path - Request path without query string.
+ * @returns True when the `token` query parameter is accepted.
+ */
+export function acceptsQueryToken(method: string, path: string): boolean {
+  return (method === 'GET' || method === 'HEAD') && QUERY_TOKEN_READS.some((p) => p.test(path));
+}
+
+/**
+ * Extracts a bearer token from request headers or the `token` query parameter.
+ * Browsers cannot set headers on `<img>` or download links, hence the query fallback.
+ * @param headers - Request headers.
+ * @param query - Parsed query string, for routes where {@link acceptsQueryToken} holds.
+ * @returns The token, if any.
+ */
+export function extractToken(
+  headers: Record<string, string | string[] | undefined>,
+  query?: unknown,
+): string | undefined {
+  const authorization = headers['authorization'];
+  const header = Array.isArray(authorization) ? authorization[0] : authorization;
+  const bearer = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (bearer) return bearer;
+
+  const apiKey = headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey.trim()) return apiKey.trim();
+
+  const fromQuery = (query as { token?: unknown } | undefined)?.token;
+  return typeof fromQuery === 'string' && fromQuery ? fromQuery : undefined;
+}
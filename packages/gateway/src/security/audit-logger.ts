@@ -170,6 +170,35 @@ export class AuditLogger extends EventEmitter {
     });
   }
 
+  /**
+   * Records a tool policy decision.
+   * @param traceId - Trace id.
+   * @param toolName - Tool name.
+   * @param decision - Decision and the rule that produced it.
+   * @param outcome - Whether the call went ahead after the decision (and any approval).
+   * @returns The log policy decision result.
+   */
+  logPolicyDecision(
+    traceId: string,
+    toolName: string,
+    decision: { action: string; reason: string; ruleId?: string },
+    outcome: 'allowed' | 'approved' | 'rejected' | 'denied',
+  ): LogEntry {
+    return this.log({
+      traceId,
+      actionType: 'security_event',
+      payload: {
+        action: 'tool_policy_decision',
+        tool: toolName,
+        decision: decision.action,
+        ruleId: decision.ruleId,
+        reason: decision.reason,
+        outcome,
+      },
+      status: outcome === 'allowed' || outcome === 'approved' ? 'success' : 'blocked',
+    });
+  }
+
   /**
    * Executes log system event (e.g. cancellation).
    */
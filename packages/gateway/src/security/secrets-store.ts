@@ -3,54 +3,68 @@
  * @description Provides security utilities and policy enforcement logic.
  */
 
-import { readFileSync, writeFileSync, mkdirSync, existsSync, chmodSync } from 'node:fs';
+import { readFileSync, existsSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
+import { SecretsVault } from './secrets-vault.js';
 
 type SecretsFile = {
   skills: Record<string, Record<string, string>>;
 };
 
+const SKILL_PREFIX = 'skills/';
+
 /**
- * Minimal secrets store persisted under data/secrets.json.
- * Values are plaintext on disk; dashboard must mask in UI and logs.
- * File perms set to 600 when created.
+ * Per-skill secrets, kept in the encrypted `SecretsVault` as `skills/<skillId>/<KEY>`.
+ * A legacy plaintext data/secrets.json is imported into the vault and removed on first use.
  */
 export class SecretsStore {
-  private filePath: string;
-  private cache: SecretsFile = { skills: {} };
+  private vault: SecretsVault;
+  private legacyPath: string;
 
-  constructor(dataPath: string) {
-    mkdirSync(dataPath, { recursive: true });
-    this.filePath = join(dataPath, 'secrets.json');
-    this.load();
+  constructor(dataPath: string, vault?: SecretsVault) {
+    this.vault = vault ?? new SecretsVault(dataPath);
+    this.legacyPath = join(dataPath, 'secrets.json');
+    this.migrateLegacyFile();
   }
 
   /**
-   * Executes load.
+   * Imports the plaintext secrets file into the vault, then deletes it.
    */
-  private load() {
-    if (!existsSync(this.filePath)) return;
+  private migrateLegacyFile() {
+    if (!existsSync(this.legacyPath)) return;
+    let parsed: SecretsFile | undefined;
     try {
-      const raw = readFileSync(this.filePath, 'utf-8');
-      const parsed = JSON.parse(raw) as SecretsFile;
-      if (parsed && typeof parsed === 'object' && parsed.skills) {
-        this.cache = parsed;
-      }
+      parsed = JSON.parse(readFileSync(this.legacyPath, 'utf-8')) as SecretsFile;
     } catch {
-      // ignore malformed file; keep empty cache
+      // ignore malformed file; leave it for manual inspection
+      return;
+    }
+    const values: Record<string, string> = {};
+    for (const [skillId, env] of Object.entries(parsed?.skills ?? {})) {
+      for (const [key, value] of Object.entries(env ?? {})) {
+        if (typeof value === 'string') values[this.secretName(skillId, key)] = value;
+      }
     }
+    this.vault.setMany(values);
+    rmSync(this.legacyPath, { force: true });
   }
 
   /**
-   * Executes save.
+   * Builds the vault name of a skill secret.
+   * @param skillId - Skill id.
+   * @param key - Key.
+   * @returns The vault name.
    */
-  private save() {
-    writeFileSync(this.filePath, JSON.stringify(this.cache, null, 2), 'utf-8');
-    try {
-      chmodSync(this.filePath, 0o600);
-    } catch {
-      // best effort
-    }
+  private secretName(skillId: string, key: string): string {
+    return `${SKILL_PREFIX}${skillId}/${key}`;
+  }
+
+  /**
+   * Returns the underlying vault.
+   * @returns The vault.
+   */
+  getVault(): SecretsVault {
+    return this.vault;
   }
 
   /**
@@ -59,7 +73,8 @@ export class SecretsStore {
    * @returns The resulting collection of values.
    */
   listSkillKeys(skillId: string): string[] {
-    return Object.keys(this.cache.skills[skillId] || {});
+    const prefix = this.secretName(skillId, '');
+    return this.vault.list(prefix).map((e) => e.name.slice(prefix.length));
   }
 
   /**
@@ -68,7 +83,12 @@ export class SecretsStore {
    * @returns The get skill env result.
    */
   getSkillEnv(skillId: string): Record<string, string> {
-    return { ...(this.cache.skills[skillId] || {}) };
+    const prefix = this.secretName(skillId, '');
+    const env: Record<string, string> = {};
+    for (const [name, value] of Object.entries(this.vault.export(prefix))) {
+      env[name.slice(prefix.length)] = value;
+    }
+    return env;
   }
 
   /**
@@ -76,7 +96,15 @@ export class SecretsStore {
    * @returns The get all result.
    */
   getAll(): Record<string, Record<string, string>> {
-    return JSON.parse(JSON.stringify(this.cache.skills));
+    const all: Record<string, Record<string, string>> = {};
+    for (const [name, value] of Object.entries(this.vault.export(SKILL_PREFIX))) {
+      const rest = name.slice(SKILL_PREFIX.length);
+      const slash = rest.lastIndexOf('/');
+      if (slash <= 0) continue;
+      const skillId = rest.slice(0, slash);
+      (all[skillId] ??= {})[rest.slice(slash + 1)] = value;
+    }
+    return all;
   }
 
   /**
@@ -86,9 +114,7 @@ export class SecretsStore {
    * @param value - Value.
    */
   setSkillSecret(skillId: string, key: string, value: string): void {
-    if (!this.cache.skills[skillId]) this.cache.skills[skillId] = {};
-    this.cache.skills[skillId][key] = value;
-    this.save();
+    this.vault.set(this.secretName(skillId, key), value);
   }
 
   /**
@@ -97,8 +123,6 @@ export class SecretsStore {
    * @param key - Key.
    */
   deleteSkillSecret(skillId: string, key: string): void {
-    if (!this.cache.skills[skillId]) return;
-    delete this.cache.skills[skillId][key];
-    this.save();
+    this.vault.delete(this.secretName(skillId, key));
   }
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SecretsVault, SecretsVaultError } from './secrets-vault.js';
+import { SecretsStore } from './secrets-store.js';
+
+describe('SecretsVault', () => {
+  let root: string;
+  let dataPath: string;
+  let keyringDir: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'adytum-vault-'));
+    dataPath = join(root, 'data');
+    keyringDir = join(root, 'keyring');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('encrypts values with a key file kept outside the data directory', () => {
+    const vault = new SecretsVault(dataPath, { keyringDir });
+    vault.set('skills/github/GITHUB_TOKEN', 'ghp_secret');
+
+    expect(readFileSync(join(dataPath, 'vault.json'), 'utf-8')).not.toContain('ghp_secret');
+    expect(readdirSync(keyringDir)).toHaveLength(1);
+    expect(new SecretsVault(dataPath, { keyringDir }).get('skills/github/GITHUB_TOKEN')).toBe(
+      'ghp_secret',
+    );
+    expect(() => new SecretsVault(dataPath, { keyringDir: join(root, 'other') }).list()).toThrow(
+      SecretsVaultError,
+    );
+  });
+
+  it('versions secrets and restores earlier versions', () => {
+    const vault = new SecretsVault(dataPath, { keyringDir, maxVersions: 2 });
+    expect(vault.set('a', 'one')).toBe(1);
+    expect(vault.set('a', 'one')).toBe(1);
+    expect(vault.set('a', 'two')).toBe(2);
+    expect(vault.set('a', 'three')).toBe(3);
+
+    expect(vault.list()).toEqual([
+      expect.objectContaining({ name: 'a', version: 3, versions: [2, 3] }),
+    ]);
+    expect(vault.restore('a', 2)).toBe(true);
+    expect(vault.get('a')).toBe('two');
+    expect(vault.restore('a', 1)).toBe(false);
+  });
+
+  it('rejects a wrong passphrase and keeps values across key rotation', () => {
+    const vault = new SecretsVault(dataPath, { passphrase: 'first', keyringDir });
+    vault.setMany({ a: '1', b: '2' });
+    expect(() => new SecretsVault(dataPath, { passphrase: 'wrong', keyringDir }).get('a')).toThrow(
+      /wrong passphrase/,
+    );
+
+    vault.rotateKey('second');
+    expect(new SecretsVault(dataPath, { passphrase: 'second', keyringDir }).export()).toEqual({
+      a: '1',
+      b: '2',
+    });
+
+    vault.rotateKey();
+    const reopened = new SecretsVault(dataPath, { keyringDir });
+    expect(reopened.usesPassphrase()).toBe(false);
+    expect(reopened.get('b')).toBe('2');
+  });
+
+  it('migrates a plaintext secrets.json into the vault', () => {
+    new SecretsVault(dataPath, { keyringDir });
+    writeFileSync(
+      join(dataPath, 'secrets.json'),
+      JSON.stringify({ skills: { github: { GITHUB_TOKEN: 'ghp_x' }, slack: { TOKEN: 'xoxb' } } }),
+    );
+
+    const store = new SecretsStore(dataPath, new SecretsVault(dataPath, { keyringDir }));
+    expect(existsSync(join(dataPath, 'secrets.json'))).toBe(false);
+    expect(store.getAll()).toEqual({ github: { GITHUB_TOKEN: 'ghp_x' }, slack: { TOKEN: 'xoxb' } });
+    expect(store.listSkillKeys('github')).toEqual(['GITHUB_TOKEN']);
+  });
+});
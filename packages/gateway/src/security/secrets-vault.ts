@@ -0,0 +1,461 @@
+/**
+ * @file packages/gateway/src/security/secrets-vault.ts
+ * @description Provides security utilities and policy enforcement logic.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scryptSync } from 'node:crypto';
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { AppError } from '../domain/errors/app-error.js';
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** AES-256-GCM ciphertext, base64 encoded. */
+interface Sealed {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface VaultVersion {
+  version: number;
+  createdAt: number;
+  /** Per-version data key, wrapped with the master key. */
+  key: Sealed;
+  /** Secret value, encrypted with the data key. */
+  value: Sealed;
+}
+
+interface VaultEntry {
+  current: number;
+  versions: VaultVersion[];
+}
+
+type VaultKdf = { type: 'scrypt'; salt: string } | { type: 'keyfile' };
+
+interface VaultFile {
+  version: 1;
+  vaultId: string;
+  kdf: VaultKdf;
+  /** Known plaintext sealed with the master key, to detect a wrong passphrase. */
+  check: Sealed;
+  entries: Record<string, VaultEntry>;
+}
+
+export interface VaultEntryInfo {
+  name: string;
+  version: number;
+  versions: number[];
+  updatedAt: number;
+}
+
+export interface SecretsVaultOptions {
+  /** Passphrase for the master key; defaults to `ADYTUM_SECRETS_PASSPHRASE` or `ADYTUM_AUTH_SECRET`. */
+  passphrase?: string;
+  /** Directory holding key files for vaults without a passphrase (OS keyring stand-in). */
+  keyringDir?: string;
+  /** Versions kept per secret. */
+  maxVersions?: number;
+}
+
+/** Thrown when the vault cannot be opened or decrypted. */
+export class SecretsVaultError extends AppError {
+  constructor(message: string) {
+    super(message, 423);
+  }
+}
+
+// ─── Encryption Helpers ───────────────────────────────────────
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const CHECK_PLAINTEXT = 'adytum-vault';
+/** Placeholder returned for reads before the vault file exists. */
+const EMPTY_VAULT: VaultFile = {
+  version: 1,
+  vaultId: '',
+  kdf: { type: 'keyfile' },
+  check: { iv: '', tag: '', data: '' },
+  entries: {},
+};
+
+function seal(plaintext: Buffer, key: Buffer, aad: string): Sealed {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function open(sealed: Sealed, key: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]);
+}
+
+function writePrivate(path: string, content: string): void {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, content, { encoding: 'utf-8', mode: 0o600 });
+  try {
+    chmodSync(tmp, 0o600);
+  } catch {
+    // best effort
+  }
+  renameSync(tmp, path);
+}
+
+// ─── Secrets Vault ────────────────────────────────────────────
+
+/**
+ * Encrypted secret storage in data/vault.json shared by skill secrets and auth profiles.
+ *
+ * Envelope encryption: every secret version has its own AES-256-GCM data key, wrapped with
+ * a master key. The master key comes from a passphrase (scrypt) or, without one, from a
+ * random key file under ~/.adytum/keyring so that copies of the data directory stay sealed.
+ * Each `set` adds a version; `rotateKey` re-wraps all data keys under a new master key.
+ */
+export class SecretsVault {
+  private filePath: string;
+  private keyringDir: string;
+  private passphrase?: string;
+  private maxVersions: number;
+  private file: VaultFile | null = null;
+  private loadedStamp = '';
+  private masterKey: { id: string; key: Buffer } | null = null;
+
+  constructor(dataPath: string, options: SecretsVaultOptions = {}) {
+    mkdirSync(dataPath, { recursive: true });
+    this.filePath = join(dataPath, 'vault.json');
+    this.keyringDir =
+      options.keyringDir ?? process.env.ADYTUM_KEYRING_DIR ?? join(homedir(), '.adytum', 'keyring');
+    this.passphrase =
+      options.passphrase ??
+      process.env.ADYTUM_SECRETS_PASSPHRASE ??
+      process.env.ADYTUM_AUTH_SECRET ??
+      undefined;
+    this.maxVersions = options.maxVersions ?? 5;
+  }
+
+  /**
+   * Whether the master key is protected by a passphrase.
+   * @returns True for passphrase vaults, false for key-file vaults.
+   */
+  usesPassphrase(): boolean {
+    if (!existsSync(this.filePath)) return Boolean(this.passphrase);
+    return this.load().kdf.type === 'scrypt';
+  }
+
+  /**
+   * Reads the current value of a secret.
+   * @param name - Secret name, e.g. `skills/github/GITHUB_TOKEN`.
+   * @param version - Specific version; defaults to the current one.
+   * @returns The value, or undefined when absent.
+   */
+  get(name: string, version?: number): string | undefined {
+    const file = this.load();
+    const entry = file.entries[name];
+    const target = entry?.versions.find((v) => v.version === (version ?? entry.current));
+    return target ? this.decryptVersion(file, name, target) : undefined;
+  }
+
+  /**
+   * Stores a secret as a new version, unless it equals the current value.
+   * @param name - Secret name.
+   * @param value - Secret value.
+   * @returns The current version number.
+   */
+  set(name: string, value: string): number {
+    return this.setMany({ [name]: value })[name];
+  }
+
+  /**
+   * Stores several secrets with a single write.
+   * @param values - Secret values by name.
+   * @returns The current version number of each secret.
+   */
+  setMany(values: Record<string, string>): Record<string, number> {
+    const file = this.load(true);
+    const versions: Record<string, number> = {};
+    let changed = false;
+    for (const [name, value] of Object.entries(values)) {
+      const entry = file.entries[name];
+      if (entry && this.get(name) === value) {
+        versions[name] = entry.current;
+        continue;
+      }
+      const version = (entry?.versions.at(-1)?.version ?? 0) + 1;
+      const next = this.encryptVersion(file, name, version, value);
+      file.entries[name] = {
+        current: version,
+        versions: [...(entry?.versions ?? []), next].slice(-this.maxVersions),
+      };
+      versions[name] = version;
+      changed = true;
+    }
+    if (changed) this.save(file);
+    return versions;
+  }
+
+  /**
+   * Deletes a secret and all its versions.
+   * @param name - Secret name.
+   * @returns True when something was deleted.
+   */
+  delete(name: string): boolean {
+    const file = this.load(true);
+    if (!file.entries[name]) return false;
+    delete file.entries[name];
+    this.save(file);
+    return true;
+  }
+
+  /**
+   * Makes an older version current again.
+   * @param name - Secret name.
+   * @param version - Version to restore.
+   * @returns True when the version exists.
+   */
+  restore(name: string, version: number): boolean {
+    const file = this.load(true);
+    const entry = file.entries[name];
+    if (!entry?.versions.some((v) => v.version === version)) return false;
+    entry.current = version;
+    this.save(file);
+    return true;
+  }
+
+  /**
+   * Lists secret names and versions, without values.
+   * @param prefix - Optional name prefix.
+   * @returns Entry metadata sorted by name.
+   */
+  list(prefix = ''): VaultEntryInfo[] {
+    const file = this.load();
+    return Object.entries(file.entries)
+      .filter(([name]) => name.startsWith(prefix))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, entry]) => ({
+        name,
+        version: entry.current,
+        versions: entry.versions.map((v) => v.version),
+        updatedAt: entry.versions.find((v) => v.version === entry.current)?.createdAt ?? 0,
+      }));
+  }
+
+  /**
+   * Decrypts the current value of every secret.
+   * @param prefix - Optional name prefix.
+   * @returns Values by name.
+   */
+  export(prefix = ''): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const { name } of this.list(prefix)) {
+      result[name] = this.get(name)!;
+    }
+    return result;
+  }
+
+  /**
+   * Re-wraps every data key under a new master key.
+   * @param passphrase - New passphrase, or undefined to switch to a fresh key file.
+   */
+  rotateKey(passphrase?: string): void {
+    const file = this.load(true);
+    const oldKey = this.resolveMasterKey(file);
+    const salt = randomBytes(16);
+    const kdf: VaultKdf = passphrase
+      ? { type: 'scrypt', salt: salt.toString('base64') }
+      : { type: 'keyfile' };
+    const rotated: VaultFile = { ...file, vaultId: randomUUID(), kdf };
+    const newKey = passphrase
+      ? scryptSync(passphrase, salt, KEY_LENGTH)
+      : this.createKeyFile(rotated.vaultId);
+    rotated.check = seal(Buffer.from(CHECK_PLAINTEXT), newKey, rotated.vaultId);
+    rotated.entries = Object.fromEntries(
+      Object.entries(file.entries).map(([name, entry]) => [
+        name,
+        {
+          ...entry,
+          versions: entry.versions.map((v) => {
+            const aad = `${name}#${v.version}`;
+            const dataKey = open(v.key, oldKey, aad);
+            return { ...v, key: seal(dataKey, newKey, aad) };
+          }),
+        },
+      ]),
+    );
+    this.passphrase = passphrase;
+    this.masterKey = { id: `${rotated.vaultId}:${JSON.stringify(kdf)}`, key: newKey };
+    this.save(rotated);
+    if (file.kdf.type === 'keyfile') {
+      rmSync(join(this.keyringDir, `${file.vaultId}.key`), { force: true });
+    }
+  }
+
+  /**
+   * Loads the vault file, creating an empty vault when none exists.
+   * @param forWrite - Whether the caller is about to modify the vault.
+   * @returns The parsed vault.
+   */
+  private load(forWrite = false): VaultFile {
+    if (!existsSync(this.filePath)) {
+      if (!forWrite) return { ...EMPTY_VAULT, entries: {} };
+      const created = this.createVault();
+      this.save(created);
+      return created;
+    }
+    const stamp = this.stamp();
+    if (this.file && stamp === this.loadedStamp) return this.file;
+    try {
+      this.file = JSON.parse(readFileSync(this.filePath, 'utf-8')) as VaultFile;
+    } catch (err: any) {
+      throw new SecretsVaultError(`Secrets vault is unreadable: ${err.message}`);
+    }
+    this.loadedStamp = stamp;
+    this.resolveMasterKey(this.file);
+    return this.file;
+  }
+
+  /**
+   * Executes save.
+   * @param file - Vault contents.
+   */
+  private save(file: VaultFile): void {
+    writePrivate(this.filePath, JSON.stringify(file, null, 2));
+    this.file = file;
+    this.loadedStamp = this.stamp();
+  }
+
+  /**
+   * Fingerprints the vault file by modification time and size.
+   * @returns The fingerprint.
+   */
+  private stamp(): string {
+    const { mtimeMs, size } = statSync(this.filePath);
+    return `${mtimeMs}:${size}`;
+  }
+
+  /**
+   * Creates an empty vault keyed by the passphrase or a new key file.
+   * @returns The vault contents.
+   */
+  private createVault(): VaultFile {
+    const vaultId = randomUUID();
+    const kdf: VaultKdf = this.passphrase
+      ? { type: 'scrypt', salt: randomBytes(16).toString('base64') }
+      : { type: 'keyfile' };
+    const file: VaultFile = {
+      version: 1,
+      vaultId,
+      kdf,
+      check: { iv: '', tag: '', data: '' },
+      entries: {},
+    };
+    if (kdf.type === 'keyfile') this.createKeyFile(vaultId);
+    const key = this.resolveMasterKey(file, true);
+    file.check = seal(Buffer.from(CHECK_PLAINTEXT), key, vaultId);
+    return file;
+  }
+
+  /**
+   * Writes a random master key to the keyring directory.
+   * @param vaultId - Vault id the key belongs to.
+   * @returns The key.
+   */
+  private createKeyFile(vaultId: string): Buffer {
+    mkdirSync(this.keyringDir, { recursive: true, mode: 0o700 });
+    const key = randomBytes(KEY_LENGTH);
+    writePrivate(join(this.keyringDir, `${vaultId}.key`), key.toString('base64'));
+    return key;
+  }
+
+  /**
+   * Derives or reads the master key and checks it against the vault.
+   * @param file - Vault contents.
+   * @param skipCheck - Skip verification for a vault that is being created.
+   * @returns The master key.
+   */
+  private resolveMasterKey(file: VaultFile, skipCheck = false): Buffer {
+    const id = `${file.vaultId}:${JSON.stringify(file.kdf)}`;
+    if (this.masterKey?.id === id) return this.masterKey.key;
+
+    let key: Buffer;
+    if (file.kdf.type === 'scrypt') {
+      if (!this.passphrase) {
+        throw new SecretsVaultError(
+          'Secrets vault is locked: set ADYTUM_SECRETS_PASSPHRASE to its passphrase',
+        );
+      }
+      key = scryptSync(this.passphrase, Buffer.from(file.kdf.salt, 'base64'), KEY_LENGTH);
+    } else {
+      const keyPath = join(this.keyringDir, `${file.vaultId}.key`);
+      if (!existsSync(keyPath)) {
+        throw new SecretsVaultError(`Secrets vault is locked: key file ${keyPath} is missing`);
+      }
+      key = Buffer.from(readFileSync(keyPath, 'utf-8').trim(), 'base64');
+    }
+
+    if (!skipCheck) {
+      try {
+        open(file.check, key, file.vaultId);
+      } catch {
+        throw new SecretsVaultError('Secrets vault is locked: wrong passphrase or key file');
+      }
+    }
+    this.masterKey = { id, key };
+    return key;
+  }
+
+  /**
+   * Encrypts a value under a fresh data key.
+   * @param file - Vault contents.
+   * @param name - Secret name.
+   * @param version - Version number.
+   * @param value - Plaintext.
+   * @returns The sealed version.
+   */
+  private encryptVersion(
+    file: VaultFile,
+    name: string,
+    version: number,
+    value: string,
+  ): VaultVersion {
+    const aad = `${name}#${version}`;
+    const dataKey = randomBytes(KEY_LENGTH);
+    return {
+      version,
+      createdAt: Date.now(),
+      key: seal(dataKey, this.resolveMasterKey(file), aad),
+      value: seal(Buffer.from(value, 'utf-8'), dataKey, aad),
+    };
+  }
+
+  /**
+   * Decrypts a stored version.
+   * @param file - Vault contents.
+   * @param name - Secret name.
+   * @param version - Sealed version.
+   * @returns The plaintext.
+   */
+  private decryptVersion(file: VaultFile, name: string, version: VaultVersion): string {
+    const aad = `${name}#${version.version}`;
+    const dataKey = open(version.key, this.resolveMasterKey(file), aad);
+    return open(version.value, dataKey, aad).toString('utf-8');
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { TokenStore } from './token-store.js';
+import { acceptsQueryToken, extractToken, requiredScope, scopeAllows } from './api-auth.js';
+
+describe('TokenStore', () => {
+  let dataPath: string;
+
+  beforeEach(() => {
+    dataPath = mkdtempSync(join(tmpdir(), 'adytum-tokens-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataPath, { recursive: true, force: true });
+  });
+
+  it('stores hashes only and verifies, expires and revokes tokens', () => {
+    const store = new TokenStore(dataPath);
+    const { token, record } = store.create('ci', 'chat');
+    const expired = store.create('old', 'admin', Date.now() - 1000);
+
+    expect(readFileSync(join(dataPath, 'tokens.json'), 'utf-8')).not.toContain(token);
+    expect(store.verify(token)?.id).toBe(record.id);
+    expect(store.verify(expired.token)).toBeUndefined();
+    expect(store.verify('adt_nope')).toBeUndefined();
+
+    expect(store.revoke(record.id)).toHaveLength(1);
+    expect(store.verify(token)).toBeUndefined();
+  });
+
+  it('keeps one local admin token and sees tokens created by another process', () => {
+    const gateway = new TokenStore(dataPath);
+    const admin = gateway.ensureAdminToken()!;
+    expect(gateway.ensureAdminToken()).toBeUndefined();
+    expect(gateway.readAdminToken()).toBe(admin);
+    expect(statSync(join(dataPath, 'admin.token')).mode & 0o777).toBe(0o600);
+
+    const { token } = new TokenStore(dataPath).create('cli', 'read-only');
+    expect(gateway.verify(token)?.scope).toBe('read-only');
+  });
+});
+
+describe('API auth rules', () => {
+  it('derives the required scope from method and path', () => {
+    expect(requiredScope('GET', '/api/health')).toBeNull();
+    expect(requiredScope('GET', '/api/skills/google/oauth/google/callback')).toBeNull();
+    expect(requiredScope('GET', '/api/memories')).toBe('read-only');
+    expect(requiredScope('GET', '/api/system/files/secret.txt')).toBe('admin');
+    expect(requiredScope('POST', '/v1/chat/completions')).toBe('chat');
+    expect(requiredScope('POST', '/api/approvals/abc')).toBe('chat');
+    expect(requiredScope('PUT', '/api/skills/x/secrets')).toBe('admin');
+    expect(requiredScope('GET', '/api/custom', ['/api/custom'])).toBeNull();
+
+    expect(scopeAllows('chat', 'read-only')).toBe(true);
+    expect(scopeAllows('chat', 'admin')).toBe(false);
+  });
+
+  it('reads tokens from the Authorization header, X-API-Key or the query', () => {
+    expect(extractToken({ authorization: 'Bearer adt_a' })).toBe('adt_a');
+    expect(extractToken({ 'x-api-key': 'adt_b' })).toBe('adt_b');
+    expect(extractToken({}, { token: 'adt_c' })).toBe('adt_c');
+    expect(extractToken({})).toBeUndefined();
+  });
+
+  it('only takes query tokens on file and download links', () => {
+    expect(acceptsQueryToken('GET', '/api/system/files/notes/a.pdf')).toBe(true);
+    expect(acceptsQueryToken('GET', '/api/memories/export')).toBe(true);
+    expect(acceptsQueryToken('GET', '/api/memories')).toBe(false);
+    expect(acceptsQueryToken('POST', '/v1/chat/completions')).toBe(false);
+    expect(acceptsQueryToken('DELETE', '/api/system/files/notes/a.pdf')).toBe(false);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @file packages/gateway/src/security/token-store.ts
+ * @description Provides security utilities and policy enforcement logic.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { readFileSync, writeFileSync, mkdirSync, existsSync, chmodSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { ApiTokenSchema, type ApiToken, type ApiTokenScope } from '@adytum/shared';
+
+const TOKEN_PREFIX = 'adt_';
+/** Only refresh `lastUsedAt` on disk this often per token. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Hashes a token secret for storage and lookup.
+ * @param token - Token.
+ * @returns The hex SHA-256 digest.
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Writes a file readable only by the owner.
+ * @param path - Path.
+ * @param content - Content.
+ */
+function writePrivate(path: string, content: string): void {
+  writeFileSync(path, content, { encoding: 'utf-8', mode: 0o600 });
+  try {
+    chmodSync(path, 0o600);
+  } catch {
+    // best effort
+  }
+}
+
+/**
+ * Gateway API tokens persisted under data/tokens.json.
+ * Only hashes are stored; the secret is shown once on creation. The local admin token is
+ * also kept in data/admin.token (mode 600) so the CLI can open the dashboard with it.
+ */
+export class TokenStore {
+  private filePath: string;
+  private adminTokenPath: string;
+  private tokens: ApiToken[] = [];
+  private loadedStamp = '';
+
+  constructor(dataPath: string) {
+    mkdirSync(dataPath, { recursive: true });
+    this.filePath = join(dataPath, 'tokens.json');
+    this.adminTokenPath = join(dataPath, 'admin.token');
+    this.load();
+  }
+
+  /**
+   * Executes load. Reloads only when the file changed, so tokens created by the CLI
+   * are picked up by a running gateway.
+   */
+  private load() {
+    if (!existsSync(this.filePath)) return;
+    const stamp = this.stamp();
+    if (stamp === this.loadedStamp) return;
+    this.loadedStamp = stamp;
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as { tokens?: unknown[] };
+      this.tokens = (parsed.tokens ?? []).flatMap((t) => {
+        const result = ApiTokenSchema.safeParse(t);
+        return result.success ? [result.data] : [];
+      });
+    } catch {
+      // ignore malformed file; keep empty list
+    }
+  }
+
+  /**
+   * Executes save.
+   */
+  private save() {
+    writePrivate(this.filePath, JSON.stringify({ tokens: this.tokens }, null, 2));
+    this.loadedStamp = this.stamp();
+  }
+
+  /**
+   * Fingerprints the tokens file by modification time and size.
+   * @returns The fingerprint.
+   */
+  private stamp(): string {
+    const { mtimeMs, size } = statSync(this.filePath);
+    return `${mtimeMs}:${size}`;
+  }
+
+  /**
+   * Creates a token.
+   * @param name - Human-readable label.
+   * @param scope - Access scope.
+   * @param expiresAt - Optional expiry timestamp.
+   * @returns The stored record and the secret, which is not recoverable later.
+   */
+  create(
+    name: string,
+    scope: ApiTokenScope,
+    expiresAt?: number,
+  ): { token: string; record: ApiToken } {
+    this.load();
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const record: ApiToken = {
+      id: randomBytes(4).toString('hex'),
+      name,
+      scope,
+      hash: hashToken(token),
+      createdAt: Date.now(),
+      expiresAt,
+    };
+    this.tokens.push(record);
+    this.save();
+    return { token, record };
+  }
+
+  /**
+   * Lists stored tokens.
+   * @returns Token records without secrets.
+   */
+  list(): ApiToken[] {
+    this.load();
+    return this.tokens.map((t) => ({ ...t }));
+  }
+
+  /**
+   * Revokes a token by id or name.
+   * @param idOrName - Token id or name.
+   * @returns The revoked records.
+   */
+  revoke(idOrName: string): ApiToken[] {
+    this.load();
+    const revoked = this.tokens.filter((t) => t.id === idOrName || t.name === idOrName);
+    if (revoked.length === 0) return [];
+    this.tokens = this.tokens.filter((t) => !revoked.includes(t));
+    this.save();
+    if (revoked.some((t) => t.scope === 'admin') && existsSync(this.adminTokenPath)) {
+      const local = readFileSync(this.adminTokenPath, 'utf-8').trim();
+      if (revoked.some((t) => t.hash === hashToken(local))) writePrivate(this.adminTokenPath, '');
+    }
+    return revoked;
+  }
+
+  /**
+   * Resolves a presented secret to its token.
+   * @param token - Token secret.
+   * @returns The token record, or undefined when unknown or expired.
+   */
+  verify(token: string): ApiToken | undefined {
+    if (!token.startsWith(TOKEN_PREFIX)) return undefined;
+    this.load();
+    const hash = hashToken(token);
+    const record = this.tokens.find((t) => t.hash === hash);
+    if (!record || (record.expiresAt && record.expiresAt <= Date.now())) return undefined;
+
+    const now = Date.now();
+    if (!record.lastUsedAt || now - record.lastUsedAt > LAST_USED_RESOLUTION_MS) {
+      record.lastUsedAt = now;
+      this.save();
+    }
+    return record;
+  }
+
+  /**
+   * Creates the local admin token unless a usable one is already stored in data/admin.token.
+   * @returns The new secret, or undefined when the existing one is still valid.
+   */
+  ensureAdminToken(): string | undefined {
+    const existing = this.readAdminToken();
+    if (existing && this.verify(existing)) return undefined;
+    const { token } = this.create('admin', 'admin');
+    writePrivate(this.adminTokenPath, `${token}\n`);
+    return token;
+  }
+
+  /**
+   * Reads the local admin token written by the Birth Protocol.
+   * @returns The secret, or undefined when none is stored.
+   */
+  readAdminToken(): string | undefined {
+    if (!existsSync(this.adminTokenPath)) return undefined;
+    return readFileSync(this.adminTokenPath, 'utf-8').trim() || undefined;
+  }
+}
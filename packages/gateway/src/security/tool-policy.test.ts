@@ -0,0 +1,90 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ToolPolicyEngine, parseShellCommand } from './tool-policy.js';
+
+describe('parseShellCommand', () => {
+  it('splits chained commands and honours quoting', () => {
+    expect(
+      parseShellCommand(`FOO=1 git commit -m "a && b" && cat .env | grep KEY > out.txt`),
+    ).toEqual([
+      ['git', 'commit', '-m', 'a && b'],
+      ['cat', '.env'],
+      ['grep', 'KEY', 'out.txt'],
+    ]);
+  });
+});
+
+describe('ToolPolicyEngine', () => {
+  let dataPath: string;
+
+  beforeEach(() => {
+    dataPath = mkdtempSync(join(tmpdir(), 'adytum-policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataPath, { recursive: true, force: true });
+  });
+
+  it('asks before shell commands touch config files by default', () => {
+    const engine = new ToolPolicyEngine(dataPath);
+
+    expect(engine.evaluate('shell_execute', { command: 'ls -la' }).action).toBe('allow');
+    const decision = engine.evaluate('shell_execute', { command: 'echo x >> ./config/.env' });
+    expect(decision).toMatchObject({ action: 'ask', ruleId: 'protect-config-files' });
+    // A file merely named like a config file elsewhere in the string does not count
+    expect(engine.evaluate('shell_execute', { command: 'echo "not.env.txt"' }).action).toBe(
+      'allow',
+    );
+  });
+
+  it('matches rules on tool, workspace and tier and reloads the policy file', () => {
+    const tiers: Record<string, 1 | 2 | 3> = { worker: 3, architect: 1 };
+    const engine = new ToolPolicyEngine(dataPath, (agentId) => tiers[agentId]);
+
+    writeFileSync(
+      join(dataPath, 'tool-policy.json'),
+      JSON.stringify({
+        defaultAction: 'allow',
+        rules: [
+          {
+            id: 'workers-no-network',
+            tools: ['shell_execute'],
+            commands: ['curl', 'wget'],
+            tiers: [3],
+            action: 'deny',
+            reason: 'No network for workers.',
+          },
+          {
+            id: 'readonly-client',
+            tools: ['file_write', 'file_*'],
+            workspaces: ['client-*'],
+            paths: ['src/**'],
+            action: 'ask',
+          },
+        ],
+      }),
+    );
+    engine.load();
+
+    expect(
+      engine.evaluate('shell_execute', { command: 'cd /tmp && curl x' }, { agentId: 'worker' }),
+    ).toMatchObject({ action: 'deny', reason: 'No network for workers.' });
+    expect(
+      engine.evaluate('shell_execute', { command: 'curl x' }, { agentId: 'architect' }).action,
+    ).toBe('allow');
+    expect(
+      engine.evaluate('file_write', { path: 'src/a.ts' }, { workspaceId: 'client-acme' }).action,
+    ).toBe('ask');
+    expect(
+      engine.evaluate('file_write', { path: 'src/a.ts' }, { workspaceId: 'internal' }).action,
+    ).toBe('allow');
+
+    // Invalid files keep the previous policy
+    writeFileSync(join(dataPath, 'tool-policy.json'), '{ not json');
+    engine.load();
+    expect(engine.getPolicy().rules).toHaveLength(2);
+  });
+});
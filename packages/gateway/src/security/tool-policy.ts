@@ -0,0 +1,357 @@
+/**
+ * @file packages/gateway/src/security/tool-policy.ts
+ * @description Provides security utilities and policy enforcement logic.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve, basename } from 'node:path';
+import {
+  ToolPolicySchema,
+  type AgentTier,
+  type ToolPolicy,
+  type ToolPolicyAction,
+  type ToolPolicyRule,
+} from '@adytum/shared';
+import { logger } from '../logger.js';
+
+export interface ToolPolicyContext {
+  workspaceId?: string;
+  agentId?: string;
+  tier?: AgentTier;
+}
+
+export interface ToolPolicyDecision {
+  action: ToolPolicyAction;
+  reason: string;
+  /** Id of the rule that decided; undefined when the policy default applied. */
+  ruleId?: string;
+}
+
+/** Argument keys that carry file system targets. */
+const PATH_ARG_KEYS = [
+  'path',
+  'paths',
+  'filePath',
+  'file',
+  'files',
+  'source',
+  'destination',
+  'target',
+  'cwd',
+  'directory',
+  'dir',
+];
+
+/** Tools whose `command` argument is a shell command line. */
+const SHELL_TOOLS = new Set(['shell_execute']);
+
+const SHELL_OPERATORS = new Set(['&&', '||', '|', ';', '&']);
+
+/** Built-in policy used when `tool-policy.json` does not exist. */
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  version: 1,
+  defaultAction: 'allow',
+  rules: [
+    {
+      id: 'protect-config-files',
+      tools: ['shell_execute'],
+      paths: [
+        '**/adytum.config.yaml',
+        '**/litellm_config.yaml',
+        '**/.env',
+        '**/.env.*',
+        '**/security.json',
+        '**/tool-policy.json',
+      ],
+      action: 'ask',
+      reason: 'Command targets sensitive configuration files.',
+    },
+    {
+      id: 'privileged-commands',
+      tools: ['shell_execute'],
+      commands: ['sudo', 'su', 'mkfs*', 'shutdown', 'reboot', 'halt', 'poweroff'],
+      action: 'ask',
+      reason: 'Command needs elevated privileges or affects the whole machine.',
+    },
+  ],
+};
+
+/**
+ * Splits a shell command line into the argv of every command in it.
+ * Handles quoting, escapes, `&&`/`||`/`;`/`|` chains and leading `VAR=value` assignments.
+ * @param command - Raw command string.
+ * @returns One argv array per command.
+ */
+export function parseShellCommand(command: string): string[][] {
+  const commands: string[][] = [];
+  let argv: string[] = [];
+  let token = '';
+  let hasToken = false;
+  let quote: '"' | "'" | null = null;
+
+  const pushToken = () => {
+    if (hasToken) argv.push(token);
+    token = '';
+    hasToken = false;
+  };
+  const pushCommand = () => {
+    pushToken();
+    while (argv.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[0])) argv.shift();
+    if (argv.length > 0) commands.push(argv);
+    argv = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+
+    if (quote) {
+      if (ch === quote) {
+        quote = null;
+      } else if (ch === '\\' && quote === '"' && i + 1 < command.length) {
+        token += command[++i];
+      } else {
+        token += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      hasToken = true;
+    } else if (ch === '\\' && i + 1 < command.length) {
+      token += command[++i];
+      hasToken = true;
+    } else if (ch === '\n') {
+      pushCommand();
+    } else if (/\s/.test(ch)) {
+      pushToken();
+    } else if (ch === '>' || ch === '<') {
+      // Redirections: the operator is dropped, its target stays as an operand
+      if (/^\d$/.test(token)) {
+        token = '';
+        hasToken = false;
+      }
+      pushToken();
+      if (command[i + 1] === '>' || command[i + 1] === '&') i++;
+    } else {
+      const two = command.slice(i, i + 2);
+      if (SHELL_OPERATORS.has(two)) {
+        pushCommand();
+        i++;
+      } else if (SHELL_OPERATORS.has(ch)) {
+        pushCommand();
+      } else {
+        token += ch;
+        hasToken = true;
+      }
+    }
+  }
+  pushCommand();
+
+  return commands;
+}
+
+/**
+ * Converts a glob into an anchored regular expression.
+ * @param pattern - Glob with `*`, `**` and `?`.
+ * @returns The compiled expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        if (pattern[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Evaluates tool calls against a declarative allow/ask/deny policy.
+ * Hot-reloads `tool-policy.json` from the data directory, like `PermissionManager`.
+ */
+export class ToolPolicyEngine {
+  private policy: ToolPolicy = DEFAULT_TOOL_POLICY;
+  private policyPath: string;
+  private watchInterval: ReturnType<typeof setInterval> | null = null;
+  private globCache = new Map<string, RegExp>();
+
+  constructor(
+    dataPath: string,
+    private resolveTier?: (agentId: string) => AgentTier | undefined,
+  ) {
+    this.policyPath = resolve(dataPath, 'tool-policy.json');
+    this.load();
+  }
+
+  /** Reload the policy file. Keeps the previous policy when the file is invalid. */
+  load(): void {
+    if (!existsSync(this.policyPath)) {
+      this.policy = DEFAULT_TOOL_POLICY;
+      return;
+    }
+    try {
+      const raw = JSON.parse(readFileSync(this.policyPath, 'utf-8'));
+      this.policy = ToolPolicySchema.parse(raw);
+    } catch (err: any) {
+      logger.warn(
+        { err: err.message, path: this.policyPath },
+        'Invalid tool policy, keeping previous',
+      );
+    }
+  }
+
+  /** Get the active policy. */
+  getPolicy(): ToolPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Decides whether a tool call may run.
+   * @param toolName - Tool name.
+   * @param args - Validated tool arguments.
+   * @param context - Execution context.
+   * @returns The decision of the first matching rule, or the policy default.
+   */
+  evaluate(
+    toolName: string,
+    args: Record<string, unknown>,
+    context: ToolPolicyContext = {},
+  ): ToolPolicyDecision {
+    const tier =
+      context.tier ?? (context.agentId ? this.resolveTier?.(context.agentId) : undefined);
+    const command =
+      SHELL_TOOLS.has(toolName) && typeof args.command === 'string' ? args.command : undefined;
+    const argvs = command ? parseShellCommand(command) : [];
+    const paths = this.extractPaths(args, argvs);
+
+    for (const rule of this.policy.rules) {
+      if (this.matches(rule, { ...context, toolName, command, argvs, paths, tier })) {
+        return {
+          action: rule.action,
+          reason: rule.reason || `Matched tool policy rule "${rule.id}".`,
+          ruleId: rule.id,
+        };
+      }
+    }
+
+    return {
+      action: this.policy.defaultAction,
+      reason: 'No tool policy rule matched; default action applied.',
+    };
+  }
+
+  /** Start hot-reload watching. */
+  startWatching(intervalMs: number = 5000): void {
+    this.watchInterval = setInterval(() => this.load(), intervalMs);
+  }
+
+  /** Stop hot-reload watching. */
+  stopWatching(): void {
+    if (this.watchInterval) {
+      clearInterval(this.watchInterval);
+      this.watchInterval = null;
+    }
+  }
+
+  private matches(
+    rule: ToolPolicyRule,
+    call: {
+      toolName: string;
+      command?: string;
+      argvs: string[][];
+      paths: string[];
+      workspaceId?: string;
+      tier?: AgentTier;
+    },
+  ): boolean {
+    if (rule.tools && !rule.tools.some((p) => this.glob(p).test(call.toolName))) return false;
+
+    if (rule.commands) {
+      const executables = call.argvs.map((argv) => basename(argv[0]));
+      if (!executables.some((exe) => rule.commands!.some((p) => this.glob(p).test(exe)))) {
+        return false;
+      }
+    }
+
+    if (rule.argv) {
+      const tokens = call.argvs.flat();
+      if (!tokens.some((t) => rule.argv!.some((p) => this.glob(p).test(t)))) return false;
+    }
+
+    if (rule.commandPattern) {
+      if (!call.command) return false;
+      try {
+        if (!new RegExp(rule.commandPattern).test(call.command)) return false;
+      } catch {
+        return false;
+      }
+    }
+
+    if (
+      rule.paths &&
+      !call.paths.some((path) => rule.paths!.some((p) => this.matchPath(p, path)))
+    ) {
+      return false;
+    }
+
+    if (rule.workspaces) {
+      if (!call.workspaceId) return false;
+      if (!rule.workspaces.some((p) => this.glob(p).test(call.workspaceId!))) return false;
+    }
+
+    if (rule.tiers && (call.tier === undefined || !rule.tiers.includes(call.tier))) return false;
+
+    return true;
+  }
+
+  /** Patterns without a slash match the file name, others the whole path. */
+  private matchPath(pattern: string, path: string): boolean {
+    if (!pattern.includes('/')) return this.glob(pattern).test(basename(path));
+    const normalized = path.replace(/^\.\//, '');
+    return this.glob(pattern).test(normalized) || this.glob(pattern).test(resolve(normalized));
+  }
+
+  private extractPaths(args: Record<string, unknown>, argvs: string[][]): string[] {
+    const paths: string[] = [];
+    for (const key of PATH_ARG_KEYS) {
+      const value = args[key];
+      if (typeof value === 'string') paths.push(value);
+      if (Array.isArray(value))
+        paths.push(...value.filter((v): v is string => typeof v === 'string'));
+    }
+    // Shell operands: everything after argv[0] that is not a flag
+    for (const argv of argvs) {
+      for (const token of argv.slice(1)) {
+        if (token.startsWith('-')) continue;
+        const eq = token.indexOf('=');
+        paths.push(eq > 0 ? token.slice(eq + 1) : token);
+      }
+    }
+    return paths.filter(Boolean);
+  }
+
+  private glob(pattern: string): RegExp {
+    let compiled = this.globCache.get(pattern);
+    if (!compiled) {
+      compiled = globToRegExp(pattern);
+      this.globCache.set(pattern, compiled);
+    }
+    return compiled;
+  }
+}
@@ -8,7 +8,12 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import { EventEmitter } from 'node:events';
 import type { WebSocket } from 'ws';
-import { type AdytumConfig, serializeFrame, type WebSocketFrame } from '@adytum/shared';
+import {
+  type AdytumConfig,
+  type AuthConfig,
+  serializeFrame,
+  type WebSocketFrame,
+} from '@adytum/shared';
 import crypto from 'node:crypto';
 import { readFileSync, writeFileSync, existsSync } from 'node:fs';
 import { join, relative, resolve } from 'node:path';
@@ -16,6 +21,7 @@ import { execFile } from 'node:child_process';
 import { logger } from './logger.js';
 
 import { errorHandler } from './api/middleware/error.middleware.js';
+import { createAuthHook } from './api/middleware/auth.middleware.js';
 import { modelRoutes } from './api/routes/model.routes.js';
 import { skillRoutes } from './api/routes/skill.routes.js';
 import { configRoutes } from './api/routes/config.routes.js';
@@ -25,6 +31,7 @@ import { systemRoutes } from './api/routes/system.routes.js';
 import { taskRoutes } from './api/routes/task.routes.js';
 import { knowledgeRoutes } from './api/routes/knowledge.routes.js';
 import { agentsRoutes } from './api/routes/agents.routes.js';
+import { openaiRoutes } from './api/routes/openai.routes.js';
 
 import { tokenTracker } from './domain/logic/token-tracker.js';
 import { auditLogger } from './security/audit-logger.js';
@@ -34,6 +41,7 @@ import { AgentController } from './api/controllers/agent.controller.js';
 import { ApprovalService } from './domain/logic/approval-service.js';
 
 import type { SecretsStore } from './security/secrets-store.js';
+import type { TokenStore } from './security/token-store.js';
 import type { PermissionManager } from './security/permission-manager.js';
 import type { HeartbeatManager } from './application/services/heartbeat-manager.js';
 import type { CronManager } from './application/services/cron-manager.js';
@@ -59,6 +67,8 @@ export interface ServerConfig {
   modelCatalog?: ModelCatalog;
   modelRouter?: ModelRouter;
   secretsStore?: SecretsStore;
+  tokenStore?: TokenStore;
+  getAuthSettings?: () => AuthConfig;
   onScheduleUpdate?: (type: 'dreamer' | 'monologue', intervalMinutes: number) => void;
   onSkillsReload?: () => Promise<void>;
   onChainsUpdate?: (chains: Record<string, string[]>) => void;
@@ -143,6 +153,14 @@ export class GatewayServer extends EventEmitter {
     // Centralized Error Handling
     this.app.setErrorHandler(errorHandler);
 
+    // Token auth for every route registered below
+    if (this.config.tokenStore && this.config.getAuthSettings) {
+      this.app.addHook(
+        'onRequest',
+        createAuthHook(this.config.tokenStore, this.config.getAuthSettings),
+      );
+    }
+
     // Register Migrated Routes
     await this.app.register(healthRoutes);
     await this.app.register(modelRoutes);
@@ -153,6 +171,7 @@ export class GatewayServer extends EventEmitter {
     await this.app.register(taskRoutes);
     await this.app.register(knowledgeRoutes);
     await this.app.register(agentsRoutes); // This route file needs to use agentsController
+    await this.app.register(openaiRoutes);
 
     this.app.get('/api/models/runtime-status', async () => {
       return {
@@ -160,6 +179,11 @@ export class GatewayServer extends EventEmitter {
       };
     });
 
+    // Response cache hits and prompt caching savings over the last hour
+    this.app.get('/api/models/cache', async () => {
+      return this.config.modelRouter?.getCacheStats() ?? {};
+    });
+
     // WebSocket handling is now fully delegated to AgentController via agentRoutes
     // (Route /ws is registered in agentRoutes)
 
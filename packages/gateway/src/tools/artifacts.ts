@@ -0,0 +1,51 @@
+/**
+ * @file packages/gateway/src/tools/artifacts.ts
+ * @description Defines tool handlers exposed to the runtime.
+ */
+
+import { z } from 'zod';
+import type { ToolDefinition } from '@adytum/shared';
+import type { ArtifactStore } from '../infrastructure/repositories/artifact-store.js';
+
+/**
+ * Creates artifact tools.
+ * @param artifactStore - Artifact store.
+ * @param maxPageChars - Largest page a single call may return.
+ * @returns The resulting collection of values.
+ */
+export function createArtifactTools(
+  artifactStore: ArtifactStore,
+  maxPageChars: number = 8000,
+): ToolDefinition[] {
+  return [
+    {
+      name: 'read_artifact',
+      description:
+        'Read a page of a stored tool output (artifact). Large tool results are replaced by a preview and an artifact id; use this to page through the full content.',
+      parameters: z.object({
+        id: z.string().describe('Artifact id from a truncated tool result'),
+        offset: z
+          .number()
+          .int()
+          .min(0)
+          .default(0)
+          .describe('Start position in characters (bytes for binary artifacts)'),
+        length: z
+          .number()
+          .int()
+          .min(1)
+          .max(maxPageChars)
+          .default(Math.min(4000, maxPageChars))
+          .describe('Number of characters to read (bytes for binary artifacts)'),
+      }),
+      execute: async (args: any) => {
+        const { id, offset, length } = args as { id: string; offset: number; length: number };
+        const page = artifactStore.read(id, offset, length);
+        if (!page) {
+          throw new Error(`Artifact "${id}" not found`);
+        }
+        return page;
+      },
+    },
+  ];
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { stripStrictNulls, toStrictJsonSchema, zodToJsonSchema } from './json-schema.js';
+
+const params = z.object({
+  url: z.string().url().describe('Target URL'),
+  headers: z.record(z.string()).optional().describe('Additional headers'),
+  retries: z.number().int().min(0).max(5).default(2),
+  target: z
+    .discriminatedUnion('kind', [
+      z.object({ kind: z.literal('chat'), chatId: z.string() }),
+      z.object({ kind: z.literal('group'), groupId: z.string(), mention: z.boolean().optional() }),
+    ])
+    .describe('Where to send'),
+  tags: z.array(z.object({ name: z.string() })).optional(),
+  note: z.string().nullable(),
+});
+
+describe('zodToJsonSchema', () => {
+  it('converts nested objects, records, unions, defaults and constraints', () => {
+    const schema = zodToJsonSchema(params) as any;
+
+    expect(schema.required).toEqual(['url', 'target', 'note']);
+    expect(schema.properties.url).toEqual({
+      type: 'string',
+      format: 'uri',
+      description: 'Target URL',
+    });
+    expect(schema.properties.headers).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'Additional headers',
+    });
+    expect(schema.properties.retries).toEqual({
+      type: 'integer',
+      minimum: 0,
+      maximum: 5,
+      default: 2,
+    });
+    expect(schema.properties.target.description).toBe('Where to send');
+    expect(schema.properties.target.anyOf[1]).toEqual({
+      type: 'object',
+      properties: {
+        kind: { type: 'string', const: 'group' },
+        groupId: { type: 'string' },
+        mention: { type: 'boolean' },
+      },
+      required: ['kind', 'groupId'],
+    });
+    expect(schema.properties.tags.items.properties.name).toEqual({ type: 'string' });
+    expect(schema.properties.note).toEqual({ type: ['string', 'null'] });
+  });
+});
+
+describe('toStrictJsonSchema', () => {
+  it('closes objects and turns optional keys into required nullable ones', () => {
+    const strict = toStrictJsonSchema(zodToJsonSchema(params.omit({ headers: true }))) as any;
+
+    expect(strict.additionalProperties).toBe(false);
+    expect(strict.required).toEqual(['url', 'retries', 'target', 'tags', 'note']);
+    expect(strict.properties.retries).toEqual({
+      type: ['integer', 'null'],
+      minimum: 0,
+      maximum: 5,
+      description: 'Default: 2.',
+    });
+    expect(strict.properties.tags.type).toEqual(['array', 'null']);
+    expect(strict.properties.target.anyOf[1].required).toEqual(['kind', 'groupId', 'mention']);
+    expect(strict.properties.target.anyOf[1].properties.mention.type).toEqual(['boolean', 'null']);
+  });
+
+  it('gives up on free-form records', () => {
+    expect(toStrictJsonSchema(zodToJsonSchema(params))).toBeUndefined();
+  });
+
+  it('strips the nulls strict calls send for optional keys', () => {
+    const args = stripStrictNulls(params, {
+      url: 'https://example.com',
+      headers: null,
+      retries: 1,
+      target: { kind: 'group', groupId: 'g1', mention: null },
+      tags: null,
+      note: null,
+    });
+
+    expect(params.parse(args)).toEqual({
+      url: 'https://example.com',
+      retries: 1,
+      target: { kind: 'group', groupId: 'g1' },
+      note: null,
+    });
+  });
+});
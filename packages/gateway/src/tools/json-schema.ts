@@ -0,0 +1,337 @@
+/**
+ * @file packages/gateway/src/tools/json-schema.ts
+ * @description Converts Zod tool parameter schemas into JSON Schema for model tool calling.
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Keywords OpenAI structured tool calls reject; `default` is folded into the description. */
+const STRICT_UNSUPPORTED_KEYWORDS = ['default', 'minLength', 'maxLength', 'uniqueItems'];
+
+// ─── Zod → JSON Schema ────────────────────────────────────────
+
+/**
+ * Converts a Zod schema into JSON Schema.
+ * Handles nested objects, records, unions (including discriminated unions), literals, enums,
+ * nullable/optional/default wrappers, `describe()` text on every node and min/max constraints.
+ * @param schema - Zod schema.
+ * @returns The JSON Schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return convert(schema, new Set());
+}
+
+function convert(type: z.ZodTypeAny, seen: Set<z.ZodTypeAny>): JsonSchema {
+  const json = convertInner(type, seen);
+  if (type.description) json.description = type.description;
+  return json;
+}
+
+function convertInner(type: z.ZodTypeAny, seen: Set<z.ZodTypeAny>): JsonSchema {
+  if (type instanceof z.ZodString) return stringSchema(type);
+  if (type instanceof z.ZodNumber) return numberSchema(type);
+  if (type instanceof z.ZodBigInt) return { type: 'integer' };
+  if (type instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (type instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (type instanceof z.ZodNull) return { type: 'null' };
+  if (type instanceof z.ZodLiteral) return literalSchema(type.value);
+  if (type instanceof z.ZodEnum) return { type: 'string', enum: [...type.options] };
+  if (type instanceof z.ZodNativeEnum) {
+    // Numeric enums also map values back to names; keep only the values
+    const values = Object.values(type.enum as Record<string, string | number>);
+    const numeric = values.filter((v) => typeof v === 'number');
+    return numeric.length > 0
+      ? { type: 'number', enum: numeric }
+      : { type: 'string', enum: values };
+  }
+
+  if (type instanceof z.ZodArray) {
+    const json: JsonSchema = { type: 'array', items: convert(type.element, seen) };
+    const def = type._def;
+    if (def.exactLength) {
+      json.minItems = def.exactLength.value;
+      json.maxItems = def.exactLength.value;
+    }
+    if (def.minLength) json.minItems = def.minLength.value;
+    if (def.maxLength) json.maxItems = def.maxLength.value;
+    return json;
+  }
+  if (type instanceof z.ZodSet) {
+    return { type: 'array', items: convert(type._def.valueType, seen), uniqueItems: true };
+  }
+  if (type instanceof z.ZodTuple) {
+    const items = type.items.map((item: z.ZodTypeAny) => convert(item, seen));
+    return { type: 'array', prefixItems: items, minItems: items.length, maxItems: items.length };
+  }
+
+  if (type instanceof z.ZodObject) return objectSchema(type, seen);
+  if (type instanceof z.ZodRecord || type instanceof z.ZodMap) {
+    return { type: 'object', additionalProperties: convert(type._def.valueType, seen) };
+  }
+
+  if (type instanceof z.ZodUnion || type instanceof z.ZodDiscriminatedUnion) {
+    const options = [...type.options] as z.ZodTypeAny[];
+    // Unions of string/number literals read better as an enum
+    if (options.every((o) => o instanceof z.ZodLiteral)) {
+      const values = options.map((o) => (o as z.ZodLiteral<unknown>).value);
+      const kinds = new Set(values.map((v) => typeof v));
+      if (kinds.size === 1 && (kinds.has('string') || kinds.has('number'))) {
+        return { type: typeof values[0], enum: values };
+      }
+    }
+    return { anyOf: options.map((o) => convert(o, seen)) };
+  }
+  if (type instanceof z.ZodIntersection) {
+    return { allOf: [convert(type._def.left, seen), convert(type._def.right, seen)] };
+  }
+
+  if (type instanceof z.ZodOptional) return convert(type.unwrap(), seen);
+  if (type instanceof z.ZodNullable) return nullable(convert(type.unwrap(), seen));
+  if (type instanceof z.ZodDefault) {
+    return { ...convert(type.removeDefault(), seen), default: type._def.defaultValue() };
+  }
+  if (type instanceof z.ZodCatch) return convert(type._def.innerType, seen);
+  if (type instanceof z.ZodEffects) return convert(type.innerType(), seen);
+  if (type instanceof z.ZodBranded) return convert(type.unwrap(), seen);
+  if (type instanceof z.ZodReadonly) return convert(type._def.innerType, seen);
+  if (type instanceof z.ZodPipeline) return convert(type._def.in, seen);
+  if (type instanceof z.ZodLazy) {
+    // Recursive schemas are cut at the first repetition
+    if (seen.has(type)) return {};
+    seen.add(type);
+    const json = convert(type.schema, seen);
+    seen.delete(type);
+    return json;
+  }
+
+  // z.any(), z.unknown() and anything unrecognised accept any value
+  return {};
+}
+
+function objectSchema(type: z.ZodObject<z.ZodRawShape>, seen: Set<z.ZodTypeAny>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(type.shape)) {
+    const field = value as z.ZodTypeAny;
+    properties[key] = convert(field, seen);
+    if (!field.isOptional()) required.push(key);
+  }
+
+  const json: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) json.required = required;
+
+  const catchall = type._def.catchall as z.ZodTypeAny;
+  if (!(catchall instanceof z.ZodNever)) {
+    json.additionalProperties = convert(catchall, seen);
+  } else if (type._def.unknownKeys === 'strict') {
+    json.additionalProperties = false;
+  }
+  return json;
+}
+
+function stringSchema(type: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of type._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'date':
+        json.format = 'date';
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+    }
+  }
+  return json;
+}
+
+function numberSchema(type: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+  for (const check of type._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+  return json;
+}
+
+function literalSchema(value: unknown): JsonSchema {
+  if (value === null) return { type: 'null' };
+  const kind = typeof value;
+  if (kind === 'string' || kind === 'number' || kind === 'boolean') {
+    return { type: kind, const: value };
+  }
+  return { const: value };
+}
+
+function nullable(json: JsonSchema): JsonSchema {
+  const { description, ...rest } = json;
+  let result: JsonSchema;
+  if (typeof rest.type === 'string' && rest.const === undefined) {
+    result = { ...rest, type: [rest.type, 'null'] };
+    if (Array.isArray(rest.enum) && !rest.enum.includes(null)) result.enum = [...rest.enum, null];
+  } else if (Array.isArray(rest.type)) {
+    result = rest.type.includes('null') ? rest : { ...rest, type: [...rest.type, 'null'] };
+  } else if (Array.isArray(rest.anyOf)) {
+    result = { ...rest, anyOf: [...rest.anyOf, { type: 'null' }] };
+  } else {
+    result = { anyOf: [rest, { type: 'null' }] };
+  }
+  return description === undefined ? result : { ...result, description };
+}
+
+// ─── Strict Mode ──────────────────────────────────────────────
+
+/**
+ * Rewrites a JSON Schema for strict structured tool calls (OpenAI `strict: true`):
+ * every object closes with `additionalProperties: false` and lists all keys as required,
+ * formerly optional keys become nullable, and unsupported keywords are dropped.
+ * @param schema - Schema produced by `zodToJsonSchema`.
+ * @returns The strict schema, or undefined when the shape cannot be expressed strictly
+ * (free-form records, `any` values, intersections).
+ */
+export function toStrictJsonSchema(schema: JsonSchema): JsonSchema | undefined {
+  if (schema.type !== 'object') return undefined;
+  return strictify(schema);
+}
+
+function strictify(schema: JsonSchema): JsonSchema | undefined {
+  if (schema.allOf) return undefined;
+  if (!schema.type && !schema.anyOf && !schema.enum && schema.const === undefined) {
+    return undefined;
+  }
+
+  const json: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (!STRICT_UNSUPPORTED_KEYWORDS.includes(key)) json[key] = value;
+  }
+  if (schema.default !== undefined) {
+    const note = `Default: ${JSON.stringify(schema.default)}.`;
+    json.description = schema.description ? `${schema.description} (${note})` : note;
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf.map((option) => strictify(option as JsonSchema));
+    if (options.some((option) => !option)) return undefined;
+    json.anyOf = options;
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes('array')) {
+    if (schema.prefixItems || !schema.items) return undefined;
+    const items = strictify(schema.items as JsonSchema);
+    if (!items) return undefined;
+    json.items = items;
+  }
+
+  if (types.includes('object')) {
+    // Records carry their keys at runtime only, which strict mode cannot express
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+      return undefined;
+    }
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = new Set((schema.required as string[] | undefined) ?? []);
+    const strictProperties: Record<string, JsonSchema> = {};
+    for (const [key, property] of Object.entries(properties)) {
+      const strictProperty = strictify(property);
+      if (!strictProperty) return undefined;
+      strictProperties[key] = required.has(key) ? strictProperty : nullable(strictProperty);
+    }
+    json.properties = strictProperties;
+    json.required = Object.keys(strictProperties);
+    json.additionalProperties = false;
+  }
+
+  return json;
+}
+
+/**
+ * Removes the `null` values strict tool calls send for optional keys, so the arguments
+ * validate against the original Zod schema.
+ * @param type - Zod schema of the arguments.
+ * @param value - Raw arguments.
+ * @returns The arguments without nulls in optional, non-nullable positions.
+ */
+export function stripStrictNulls(type: z.ZodTypeAny, value: unknown): unknown {
+  const inner = unwrap(type);
+
+  if (inner instanceof z.ZodObject && isPlainObject(value)) {
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, field] of Object.entries(inner.shape as z.ZodRawShape)) {
+      if (result[key] === null && field.isOptional() && !field.isNullable()) {
+        delete result[key];
+      } else if (key in result) {
+        result[key] = stripStrictNulls(field, result[key]);
+      }
+    }
+    return result;
+  }
+
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item) => stripStrictNulls(inner.element, item));
+  }
+
+  if (inner instanceof z.ZodUnion || inner instanceof z.ZodDiscriminatedUnion) {
+    // Use the first option the cleaned value satisfies
+    for (const option of inner.options as z.ZodTypeAny[]) {
+      const candidate = stripStrictNulls(option, value);
+      if (option.safeParse(candidate).success) return candidate;
+    }
+  }
+
+  return value;
+}
+
+function unwrap(type: z.ZodTypeAny): z.ZodTypeAny {
+  let current = type;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return current;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
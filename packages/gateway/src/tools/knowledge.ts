@@ -1,8 +1,15 @@
 import { z } from 'zod';
-import { ToolDefinition } from '@adytum/shared';
+import {
+  ToolDefinition,
+  GraphEdgeTypeSchema,
+  GraphQuerySchema,
+  type GraphNode,
+} from '@adytum/shared';
 import { GraphTraversalService } from '../domain/knowledge/graph-traversal.js';
 import { GraphIndexer } from '../domain/knowledge/graph-indexer.js';
+import type { GraphStore } from '../domain/knowledge/graph-store.js';
 import { MemoryStore } from '../infrastructure/repositories/memory-store.js';
+import { memoryWorkspaceOf } from './memory.js';
 
 const KnowledgeWalkSchema = z.object({
   startNodeId: z.string().optional().describe('The ID of the node to start traversal from.'),
@@ -11,32 +18,83 @@ const KnowledgeWalkSchema = z.object({
     .optional()
     .describe('Search term to find a starting node if startNodeId is unknown.'),
   depth: z.number().min(1).max(3).default(1).describe('How many hops to traverse (1-3).'),
-  workspaceId: z.string().optional().describe('The workspace context.'),
+  relation: GraphEdgeTypeSchema.optional().describe(
+    'Only follow edges of this type, e.g. "calls", "imports", "extends".',
+  ),
+  direction: z
+    .enum(['in', 'out', 'both'])
+    .default('both')
+    .describe(
+      'Edge direction: "in" finds callers/importers/subclasses, "out" finds callees/imports.',
+    ),
+  graphQuery: GraphQuerySchema.optional().describe(
+    'Structured query instead of a walk. Example, interfaces under packages/gateway that are implemented somewhere and whose file imports model-router.ts: {"match": {"type": "interface", "path": "packages/gateway/**", "where": [{"edge": "implements", "direction": "in"}, {"edge": "contains", "direction": "in", "node": {"type": "file", "where": [{"edge": "imports", "node": {"path": "**/model-router.ts"}}]}}]}}. Add "traverse" steps to move from the matches to related nodes, e.g. [{"edge": "calls", "direction": "in", "maxDepth": 2}].',
+  ),
 });
 
+/**
+ * Formats nodes as one line each.
+ * @param nodes - Nodes.
+ * @returns The list.
+ */
+function formatNodes(nodes: GraphNode[]): string {
+  return nodes
+    .map((n) => {
+      const location = n.line ? ` at ${n.path}:${n.line}` : '';
+      return `- [${n.type}] ${n.label}${location} (ID: ${n.id})`;
+    })
+    .join('\n');
+}
+
 /**
  * Creates knowledge tools.
  */
 export function createKnowledgeTools(
   traversalService: GraphTraversalService,
   indexer: GraphIndexer,
+  graphStore: GraphStore,
   memoryStore: MemoryStore,
 ): ToolDefinition[] {
   return [
     {
       name: 'knowledge_walk',
       description:
-        'Explore the knowledge graph starting from a specific node or topic to find related concepts, dependencies, or connections.',
+        'Explore the knowledge graph starting from a specific node or topic to find related concepts, dependencies, or connections. Code symbols (classes, functions, methods such as "GraphIndexer.update") are nodes too: use relation "calls" with direction "in" to find who calls a function. For precise questions (node types, path globs, metadata, multi-hop patterns) pass graphQuery instead.',
       parameters: KnowledgeWalkSchema,
-      execute: async (args: z.infer<typeof KnowledgeWalkSchema>) => {
-        const { startNodeId, query, depth, workspaceId } = args;
+      execute: async (args: z.infer<typeof KnowledgeWalkSchema>, context?: any) => {
+        const { startNodeId, query, depth, relation, direction, graphQuery } = args;
+        const workspaceId = memoryWorkspaceOf(context);
         const wsId = workspaceId || 'default';
 
+        if (graphQuery) {
+          try {
+            const result = traversalService.query(graphQuery, wsId);
+            if (result.results.length === 0) return { result: 'No nodes match the query.' };
+            const byId = new Map(result.nodes.map((n) => [n.id, n]));
+            const matches = result.results.map((id) => byId.get(id)!);
+            const more = result.truncated ? ' (truncated; raise limit for more)' : '';
+            return {
+              result: `Found ${matches.length} nodes${more}:\n${formatNodes(matches)}`,
+            };
+          } catch (error: any) {
+            return { result: `Failed to run graph query: ${error.message}`, isError: true };
+          }
+        }
+
         let startId = startNodeId;
 
+        // Exact symbol or file names win over fuzzy matches
+        if (!startId && query) {
+          const exact = traversalService
+            .findNodesByQuery(query, wsId, 50)
+            .find((n) => n.label === query || n.path === query);
+          startId = exact?.id;
+        }
+
         if (!startId && query) {
           const semanticResults = await memoryStore.searchHybrid(query, 3, {
             category: 'doc_chunk',
+            workspaceId,
           });
 
           // Filter out low scores (anything below 0.3 is likely noise or orthogonal vectors)
@@ -82,17 +140,17 @@ export function createKnowledgeTools(
         }
 
         try {
-          const neighbors = traversalService.getNeighbors(startId, wsId, depth);
+          const neighbors = traversalService.getNeighbors(startId, wsId, depth, {
+            edgeTypes: relation ? [relation] : undefined,
+            direction,
+          });
 
           if (neighbors.length === 0) {
             return { result: `No connections found for node '${startId}' within depth ${depth}.` };
           }
 
-          const formatted = neighbors
-            .map((n: any) => `- [${n.type}] ${n.label} (ID: ${n.id})`)
-            .join('\n');
           return {
-            result: `Found ${neighbors.length} connected nodes from '${startId}' (depth ${depth}):\n${formatted}`,
+            result: `Found ${neighbors.length} connected nodes from '${startId}' (depth ${depth}):\n${formatNodes(neighbors)}`,
           };
         } catch (error: any) {
           return {
@@ -117,17 +175,24 @@ export function createKnowledgeTools(
           .describe(
             'If true, skips expensive LLM summaries while still performing local vector indexing during deep mode.',
           ),
-        workspaceId: z.string().optional().describe('The workspace context.'),
       }),
-      execute: async (args: any) => {
-        const { mode, workspaceId, skipSummaries } = args as {
+      execute: async (args: any, context?: any) => {
+        const { mode, skipSummaries } = args as {
           mode: 'fast' | 'deep';
-          workspaceId?: string;
           skipSummaries: boolean;
         };
-        const wsId = workspaceId || 'default';
+        // Chunks of the global graph stay global, as when the watcher indexes them
+        const workspaceId = memoryWorkspaceOf(context) ?? undefined;
+        // A workspace graph must be built from that workspace's files, not the gateway root
+        const workspace = workspaceId ? graphStore.getWorkspace(workspaceId) : undefined;
+        if (workspaceId && !workspace) {
+          return { result: `Unknown workspace "${workspaceId}"; nothing indexed.`, isError: true };
+        }
         try {
-          const graph = await indexer.update(undefined, wsId, { mode, skipLLM: skipSummaries });
+          const graph = await indexer.update(workspace?.path, workspaceId, {
+            mode,
+            skipLLM: skipSummaries,
+          });
           return {
             result: `Indexing [${mode}] completed (skipSummaries: ${skipSummaries}). Graph now contains ${graph.nodes.length} nodes and ${graph.edges.length} edges.`,
             status: 'success',
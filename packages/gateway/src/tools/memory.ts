@@ -7,6 +7,16 @@ import { z } from 'zod';
 import type { ToolDefinition } from '@adytum/shared';
 import type { MemoryStore } from '../infrastructure/repositories/memory-store.js';
 
+/**
+ * Workspace whose memories a tool call reads and writes. It is set by the runtime, never taken
+ * from model arguments, so a model cannot reach into another workspace.
+ * @param context - Tool execution context.
+ * @returns The workspace id, or null in the global scope.
+ */
+export function memoryWorkspaceOf(context?: { memoryWorkspaceId?: string | null }): string | null {
+  return context?.memoryWorkspaceId ?? null;
+}
+
 /**
  * Creates memory tools.
  * @param memoryStore - Memory store.
@@ -27,18 +37,19 @@ export function createMemoryTools(memoryStore: MemoryStore): ToolDefinition[] {
             'Memory category (episodic_raw, episodic_summary, dream, monologue, curiosity, general, user_fact)',
           ),
       }),
-      execute: async (args: any) => {
+      execute: async (args: any, context?: any) => {
         const { content, tags, category } = args as {
           content: string;
           tags?: string[];
           category?: string;
         };
-        const record = memoryStore.add(
+        const record = await memoryStore.add(
           content,
           'user',
           tags,
           undefined,
           (category as any) || 'general',
+          memoryWorkspaceOf(context) ?? undefined,
         );
         return { success: true, memory: record };
       },
@@ -50,9 +61,11 @@ export function createMemoryTools(memoryStore: MemoryStore): ToolDefinition[] {
         query: z.string().describe('Search query'),
         topK: z.number().default(3).describe('Number of results to return'),
       }),
-      execute: async (args: any) => {
+      execute: async (args: any, context?: any) => {
         const { query, topK } = args as { query: string; topK: number };
-        const results = await memoryStore.searchHybrid(query, topK);
+        const results = await memoryStore.searchHybrid(query, topK, {
+          workspaceId: memoryWorkspaceOf(context),
+        });
         return { query, results };
       },
     },
@@ -62,9 +75,9 @@ export function createMemoryTools(memoryStore: MemoryStore): ToolDefinition[] {
       parameters: z.object({
         limit: z.number().default(20).describe('Number of memories to return'),
       }),
-      execute: async (args: any) => {
+      execute: async (args: any, context?: any) => {
         const { limit } = args as { limit: number };
-        const results = memoryStore.list(limit);
+        const results = memoryStore.list(limit, memoryWorkspaceOf(context));
         return { results };
       },
     },
@@ -18,12 +18,28 @@ export const createPlannerTools = (
       parameters: z.object({
         goal: z.string().describe('The complex goal to achieve.'),
         context: z.string().optional().describe('Additional context or constraints.'),
+        failurePolicy: z
+          .enum(['skip', 'fail_fast'])
+          .optional()
+          .describe(
+            'What to do when a step fails: skip its dependents (default) or cancel the rest of the plan.',
+          ),
       }),
-      execute: async ({ goal, context }) => {
-        const plan = await planner.plan(goal, context || '');
+      execute: async ({ goal, context, failurePolicy }, toolContext) => {
+        const plan = await planner.plan(goal, context || '', toolContext?.signal);
 
-        // Execute the plan
-        const results = await executor.execute(plan);
+        // Execute the plan; step progress is streamed to the dashboard as it happens
+        const results = await executor.execute(plan, {
+          failurePolicy,
+          signal: toolContext?.signal,
+          sessionId: toolContext?.sessionId,
+          toolContext: {
+            agentId: toolContext?.agentId,
+            workspaceId: toolContext?.workspaceId,
+            memoryWorkspaceId: toolContext?.memoryWorkspaceId,
+            agentMode: toolContext?.agentMode,
+          },
+        });
 
         // Merge results back into the plan for visualization
         const stepsWithResults = plan.steps.map((step) => {
@@ -32,8 +48,9 @@ export const createPlannerTools = (
             return {
               ...step,
               status: result.status,
-              result: JSON.stringify(result.result),
+              result: result.result === undefined ? undefined : JSON.stringify(result.result),
               error: result.error,
+              attempts: result.attempts,
             };
           }
           return step;
@@ -43,8 +60,8 @@ export const createPlannerTools = (
         // Format the final report
         const report = Object.entries(results)
           .map(
-            ([stepId, r]: [string, any]) =>
-              `- **${stepId}**: ${r.status || 'completed'} ${r.error ? `(Error: ${r.error})` : ''}\n  Result: ${JSON.stringify(r.result || r)}`,
+            ([stepId, r]) =>
+              `- **${stepId}**: ${r.status} ${r.error ? `(Error: ${r.error})` : ''}\n  Result: ${JSON.stringify(r.result ?? null)}`,
           )
           .join('\n');
 
@@ -3,8 +3,25 @@
  * @description Defines tool handlers exposed to the runtime.
  */
 
-import { z } from 'zod';
 import type { ToolCall, ToolResult, ToolDefinition } from '@adytum/shared';
+import type { ToolPolicyDecision, ToolPolicyEngine } from '../security/tool-policy.js';
+import { auditLogger } from '../security/audit-logger.js';
+import { stripStrictNulls, zodToJsonSchema } from './json-schema.js';
+import { untilAborted } from '../domain/errors/cancelled-error.js';
+import type { ArtifactStore } from '../infrastructure/repositories/artifact-store.js';
+import {
+  buildResultEnvelope,
+  DEFAULT_ENVELOPE_OPTIONS,
+  type ResultEnvelopeOptions,
+} from './result-envelope.js';
+
+/** Tools whose output is already paged and must not be spilled again. */
+const NO_SPILL_TOOLS = new Set(['read_artifact']);
+
+export type ToolPolicyApprovalFn = (
+  description: string,
+  context?: { sessionId?: string; workspaceId?: string },
+) => Promise<boolean>;
 
 // ─── Tool Registry ────────────────────────────────────────────
 
@@ -13,6 +30,30 @@ import type { ToolCall, ToolResult, ToolDefinition } from '@adytum/shared';
  */
 export class ToolRegistry {
   private tools = new Map<string, ToolDefinition>();
+  private policyEngine?: ToolPolicyEngine;
+  private policyApproval?: ToolPolicyApprovalFn;
+  private artifactStore?: ArtifactStore;
+  private envelopeOptions: ResultEnvelopeOptions = DEFAULT_ENVELOPE_OPTIONS;
+
+  /**
+   * Applies a tool policy to every call made through `execute`.
+   * @param engine - Policy engine.
+   * @param requestApproval - Asks the user when a rule decides `ask`; without it `ask` denies.
+   */
+  setPolicyEngine(engine: ToolPolicyEngine, requestApproval?: ToolPolicyApprovalFn): void {
+    this.policyEngine = engine;
+    this.policyApproval = requestApproval;
+  }
+
+  /**
+   * Spills oversized tool outputs to an artifact store instead of returning them inline.
+   * @param store - Artifact store.
+   * @param options - Size thresholds.
+   */
+  setArtifactStore(store: ArtifactStore, options: Partial<ResultEnvelopeOptions> = {}): void {
+    this.artifactStore = store;
+    this.envelopeOptions = { ...DEFAULT_ENVELOPE_OPTIONS, ...options };
+  }
 
   /**
    * Executes register.
@@ -82,84 +123,111 @@ export class ToolRegistry {
       function: {
         name: tool.name,
         description: tool.description,
-        parameters: this.zodToJsonSchema(tool.parameters),
+        parameters: zodToJsonSchema(tool.parameters),
       },
     }));
   }
 
   /**
    * Execute a tool call with validation.
+   * When `context.signal` aborts, the call returns a cancellation error right away, even if
+   * the tool itself ignores the signal.
    */
   async execute(call: ToolCall, context?: any): Promise<ToolResult> {
     const tool = this.tools.get(call.name);
     if (!tool) {
-      return {
-        toolCallId: call.id,
-        name: call.name,
-        result: `Error: Unknown tool "${call.name}"`,
-        isError: true,
-      };
+      return this.toResult(call, `Error: Unknown tool "${call.name}"`, true, context);
     }
+    const signal: AbortSignal | undefined = context?.signal;
+    const cancelled = `Tool "${call.name}" was cancelled.`;
 
     try {
-      // Validate arguments
-      const validated = tool.parameters.parse(call.arguments);
-      const result = await tool.execute(validated, context);
-
-      return {
-        toolCallId: call.id,
-        name: call.name,
-        result,
-        isError: false,
-      };
+      // Validate arguments (strict tool calls send null for omitted optional keys)
+      const validated = tool.parameters.parse(stripStrictNulls(tool.parameters, call.arguments));
+
+      const policy = await untilAborted(
+        this.enforcePolicy(call, validated, context),
+        signal,
+        cancelled,
+      );
+      if (policy && !policy.allowed) {
+        return this.toResult(call, `Error: ${policy.message}`, true, context);
+      }
+
+      const result = await untilAborted(
+        tool.execute(validated, policy ? { ...context, policy: policy.decision } : context),
+        signal,
+        cancelled,
+      );
+
+      return this.toResult(call, result, false, context);
     } catch (error: any) {
-      return {
-        toolCallId: call.id,
-        name: call.name,
-        result: `Error: ${error.message}`,
-        isError: true,
-      };
+      return this.toResult(call, `Error: ${error.message}`, true, context);
     }
   }
 
   /**
-   * Simple Zod to JSON Schema conversion for OpenAI.
+   * Wraps a raw tool output in a result with its envelope.
+   * @param call - Tool call.
+   * @param output - Raw output.
+   * @param isError - Whether the call failed.
+   * @param context - Execution context.
+   * @returns The tool result.
    */
-  private zodToJsonSchema(schema: z.ZodObject<any>): Record<string, unknown> {
-    const shape = schema.shape;
-    const properties: Record<string, unknown> = {};
-    const required: string[] = [];
-
-    for (const [key, value] of Object.entries(shape)) {
-      const zodType = value as z.ZodTypeAny;
-      properties[key] = this.zodTypeToJson(zodType);
-
-      if (!zodType.isOptional()) {
-        required.push(key);
-      }
-    }
-
-    return {
-      type: 'object',
-      properties,
-      required: required.length > 0 ? required : undefined,
-    };
+  private toResult(call: ToolCall, output: unknown, isError: boolean, context?: any): ToolResult {
+    const envelope = buildResultEnvelope(
+      output,
+      isError,
+      {
+        store: NO_SPILL_TOOLS.has(call.name) ? undefined : this.artifactStore,
+        tool: call.name,
+        sessionId: context?.sessionId,
+      },
+      this.envelopeOptions,
+    );
+    return { toolCallId: call.id, name: call.name, result: output, isError, envelope };
   }
 
   /**
-   * Executes zod type to json.
-   * @param type - Type.
-   * @returns The zod type to json result.
+   * Evaluates the tool policy for a call, asking for approval when required.
+   * Every decision is recorded in the audit log.
+   * @param call - Tool call.
+   * @param args - Validated arguments.
+   * @param context - Execution context.
+   * @returns The outcome, or undefined when no policy engine is configured.
    */
-  private zodTypeToJson(type: z.ZodTypeAny): Record<string, unknown> {
-    if (type instanceof z.ZodString) return { type: 'string', description: type.description };
-    if (type instanceof z.ZodNumber) return { type: 'number', description: type.description };
-    if (type instanceof z.ZodBoolean) return { type: 'boolean', description: type.description };
-    if (type instanceof z.ZodArray)
-      return { type: 'array', items: this.zodTypeToJson(type.element) };
-    if (type instanceof z.ZodEnum) return { type: 'string', enum: type.options };
-    if (type instanceof z.ZodOptional) return this.zodTypeToJson(type.unwrap());
-    if (type instanceof z.ZodDefault) return this.zodTypeToJson(type.removeDefault());
-    return { type: 'string' };
+  private async enforcePolicy(
+    call: ToolCall,
+    args: Record<string, unknown>,
+    context?: any,
+  ): Promise<{ allowed: boolean; decision: ToolPolicyDecision; message?: string } | undefined> {
+    if (!this.policyEngine) return undefined;
+
+    const decision = this.policyEngine.evaluate(call.name, args, {
+      workspaceId: context?.workspaceId ?? (args.workspaceId as string | undefined),
+      agentId: context?.agentId,
+    });
+    const traceId = context?.traceId || call.id;
+
+    if (decision.action === 'allow') {
+      auditLogger.logPolicyDecision(traceId, call.name, decision, 'allowed');
+      return { allowed: true, decision };
+    }
+
+    if (decision.action === 'deny') {
+      auditLogger.logPolicyDecision(traceId, call.name, decision, 'denied');
+      return { allowed: false, decision, message: `Blocked by tool policy: ${decision.reason}` };
+    }
+
+    const approved = this.policyApproval
+      ? await this.policyApproval(
+          `Tool "${call.name}" requires approval (${decision.reason}): ${JSON.stringify(args)}`,
+          { sessionId: context?.sessionId, workspaceId: context?.workspaceId },
+        )
+      : false;
+    auditLogger.logPolicyDecision(traceId, call.name, decision, approved ? 'approved' : 'rejected');
+    return approved
+      ? { allowed: true, decision }
+      : { allowed: false, decision, message: `Action rejected by user (${decision.reason})` };
   }
 }
@@ -0,0 +1,92 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { ArtifactStore } from '../infrastructure/repositories/artifact-store.js';
+import { ToolRegistry } from './registry.js';
+import { createArtifactTools } from './artifacts.js';
+import { buildResultEnvelope } from './result-envelope.js';
+
+describe('tool result envelopes', () => {
+  let dataPath: string;
+  let store: ArtifactStore;
+
+  beforeEach(() => {
+    dataPath = mkdtempSync(join(tmpdir(), 'adytum-artifacts-'));
+    store = new ArtifactStore(dataPath);
+  });
+
+  afterEach(() => {
+    rmSync(dataPath, { recursive: true, force: true });
+  });
+
+  it('keeps small outputs inline', () => {
+    expect(buildResultEnvelope('hello', false, { store, tool: 't' })).toMatchObject({
+      type: 'text',
+      text: 'hello',
+      truncated: false,
+    });
+    expect(buildResultEnvelope({ ok: true }, false, { store, tool: 't' })).toMatchObject({
+      type: 'json',
+      text: '{"ok":true}',
+      json: { ok: true },
+    });
+  });
+
+  it('spills oversized JSON and shows a shortened preview', () => {
+    const output = { status: 200, content: 'x'.repeat(20_000) };
+    const envelope = buildResultEnvelope(
+      output,
+      false,
+      { store, tool: 'web_fetch' },
+      {
+        maxInlineChars: 8000,
+        previewChars: 100,
+      },
+    );
+
+    expect(envelope.truncated).toBe(true);
+    expect(envelope.artifact?.mimeType).toBe('application/json');
+    expect(envelope.text).toContain('"status":200');
+    expect(envelope.text).toContain('[+19900 chars]');
+    expect(envelope.text.length).toBeLessThan(1000);
+    expect(JSON.parse(store.read(envelope.artifact!.id, 0, 50_000)!.content)).toEqual(output);
+  });
+
+  it('pages spilled output through read_artifact without spilling it again', async () => {
+    const registry = new ToolRegistry();
+    registry.setArtifactStore(store, { maxInlineChars: 1000, previewChars: 500 });
+    for (const tool of createArtifactTools(store, 4000)) registry.register(tool);
+    registry.register({
+      name: 'big_output',
+      description: 'Returns a lot of text',
+      parameters: z.object({}),
+      execute: async () => 'a'.repeat(3000) + 'b'.repeat(3000),
+    });
+
+    const result = await registry.execute({ id: '1', name: 'big_output', arguments: {} });
+    const artifactId = result.envelope!.artifact!.id;
+    expect(result.envelope!.text.startsWith('a'.repeat(500) + '\n\n[Output truncated')).toBe(true);
+
+    const page = await registry.execute({
+      id: '2',
+      name: 'read_artifact',
+      arguments: { id: artifactId, offset: 2900, length: 4000 },
+    });
+    expect(page.envelope!.truncated).toBe(false);
+    expect(page.result).toMatchObject({ offset: 2900, nextOffset: 6000, total: 6000, done: true });
+    expect((page.result as { content: string }).content.startsWith('a'.repeat(100) + 'b')).toBe(
+      true,
+    );
+
+    const missing = await registry.execute({
+      id: '3',
+      name: 'read_artifact',
+      arguments: { id: 'nope' },
+    });
+    expect(missing.isError).toBe(true);
+    expect(missing.envelope!.type).toBe('error');
+  });
+});
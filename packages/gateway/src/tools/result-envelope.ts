@@ -0,0 +1,131 @@
+/**
+ * @file packages/gateway/src/tools/result-envelope.ts
+ * @description Wraps raw tool outputs in envelopes and spills oversized ones to artifacts.
+ */
+
+import type { ToolResult, ToolResultEnvelope } from '@adytum/shared';
+import type { ArtifactStore } from '../infrastructure/repositories/artifact-store.js';
+
+export interface ResultEnvelopeOptions {
+  /** Outputs longer than this (in characters) are spilled to the artifact store. */
+  maxInlineChars: number;
+  /** Characters of a spilled output kept inline as a preview. */
+  previewChars: number;
+}
+
+export const DEFAULT_ENVELOPE_OPTIONS: ResultEnvelopeOptions = {
+  maxInlineChars: 8000,
+  previewChars: 2000,
+};
+
+/**
+ * Builds the envelope for a tool output.
+ * Strings become `text`, objects `json` and byte arrays `binary`. Outputs above
+ * `maxInlineChars` are written to the artifact store and replaced by a preview plus a handle
+ * for `read_artifact`.
+ * @param output - Raw tool output.
+ * @param isError - Whether the tool failed.
+ * @param spill - Artifact store and origin; without a store nothing is spilled.
+ * @param options - Size thresholds.
+ * @returns The envelope.
+ */
+export function buildResultEnvelope(
+  output: unknown,
+  isError: boolean,
+  spill: { store?: ArtifactStore; tool: string; sessionId?: string },
+  options: ResultEnvelopeOptions = DEFAULT_ENVELOPE_OPTIONS,
+): ToolResultEnvelope {
+  if (isError) {
+    return { type: 'error', text: stringify(output), truncated: false };
+  }
+
+  if (output instanceof Uint8Array) {
+    if (!spill.store) {
+      return {
+        type: 'binary',
+        text: `[Binary output: ${output.byteLength} bytes]`,
+        truncated: true,
+        originalSize: output.byteLength,
+      };
+    }
+    const artifact = spill.store.save(output, { tool: spill.tool, sessionId: spill.sessionId });
+    return {
+      type: 'binary',
+      text:
+        `[Binary output: ${output.byteLength} bytes stored as artifact ${artifact.id}. ` +
+        `Use read_artifact to read it as base64.]`,
+      artifact,
+      truncated: true,
+      originalSize: output.byteLength,
+    };
+  }
+
+  const isText = typeof output === 'string';
+  const text = stringify(output);
+  const type = isText ? 'text' : 'json';
+  const json = isText ? undefined : output;
+
+  if (text.length <= options.maxInlineChars || !spill.store) {
+    return { type, text, json, truncated: false, originalSize: text.length };
+  }
+
+  const artifact = spill.store.save(text, {
+    mimeType: isText ? 'text/plain' : 'application/json',
+    tool: spill.tool,
+    sessionId: spill.sessionId,
+  });
+  const preview = isText
+    ? text.slice(0, options.previewChars)
+    : stringify(previewJson(output, options.previewChars)).slice(0, options.maxInlineChars);
+
+  return {
+    type,
+    text:
+      `${preview}\n\n[Output truncated: ${text.length} characters in total. The full output is ` +
+      `stored as artifact ${artifact.id}; call read_artifact with this id ` +
+      `(offset ${isText ? preview.length : 0}) to page through it.]`,
+    artifact,
+    truncated: true,
+    originalSize: text.length,
+  };
+}
+
+/**
+ * Renders a tool result for the model context, preferring the envelope text.
+ * @param result - Tool result.
+ * @returns The context message content.
+ */
+export function formatToolResultForContext(result: ToolResult): string {
+  return result.envelope?.text ?? stringify(result.result);
+}
+
+/** Shortens long strings and arrays inside a JSON value, keeping its shape visible. */
+function previewJson(value: unknown, maxString: number, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxString
+      ? `${value.slice(0, maxString)}… [+${value.length - maxString} chars]`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, 20).map((item) => previewJson(item, maxString, depth + 1));
+    if (value.length > 20) items.push(`… [+${value.length - 20} items]`);
+    return items;
+  }
+  if (value && typeof value === 'object') {
+    if (depth > 4) return '[…]';
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, previewJson(item, maxString, depth + 1)]),
+    );
+  }
+  return value;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
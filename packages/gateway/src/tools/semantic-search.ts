@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import type { ToolDefinition } from '@adytum/shared';
 import type { MemoryStore } from '../infrastructure/repositories/memory-store.js';
+import { memoryWorkspaceOf } from './memory.js';
 
 /**
  * Creates semantic search tools.
@@ -18,7 +19,7 @@ export function createSemanticTools(memoryStore: MemoryStore): ToolDefinition[]
         maxResults: z.number().default(10).describe('Maximum number of results to return'),
         workspaceId: z.string().optional().describe('Internal workspace ID'),
       }),
-      execute: async (args: any) => {
+      execute: async (args: any, context?: any) => {
         const { query, maxResults } = args as {
           query: string;
           maxResults: number;
@@ -26,6 +27,7 @@ export function createSemanticTools(memoryStore: MemoryStore): ToolDefinition[]
 
         const results = await memoryStore.searchHybrid(query, maxResults, {
           category: 'doc_chunk',
+          workspaceId: memoryWorkspaceOf(context),
         });
 
         const data = {
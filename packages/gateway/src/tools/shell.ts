@@ -4,12 +4,12 @@
  */
 
 import { z } from 'zod';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import { join } from 'node:path';
-import { DANGEROUS_COMMANDS, type ToolDefinition } from '@adytum/shared';
+import { type ToolDefinition } from '@adytum/shared';
+import type { ToolPolicyDecision } from '../security/tool-policy.js';
+import { HostShellBackend } from '../infrastructure/shell/host-shell-backend.js';
+import type { ShellBackendResolver } from '../infrastructure/shell/shell-backend-resolver.js';
 
-const execAsync = promisify(exec);
+const hostBackend = new HostShellBackend();
 
 export type ShellApprovalResult = {
   approved: boolean;
@@ -32,8 +32,9 @@ export type ShellApprovalFn = (
 export function createShellToolWithApproval(
   onApprovalRequired: ShellApprovalFn,
   resolveWorkspacePath?: (workspaceId: string) => string,
+  backends?: ShellBackendResolver,
 ): ToolDefinition['execute'] {
-  return async (args: any) => {
+  return async (args: any, context?: any) => {
     const { command, cwd, timeout, sessionId, workspaceId } = args as {
       command: string;
       cwd?: string;
@@ -42,40 +43,15 @@ export function createShellToolWithApproval(
       workspaceId?: string;
     };
 
-    // Resolve base CWD if workspaceId is present and no explicit absolute CWD is provided
-    let effectiveCwd = cwd;
-    if (workspaceId && resolveWorkspacePath) {
-      const wsPath = resolveWorkspacePath(workspaceId);
-      if (wsPath) {
-        if (!effectiveCwd || !effectiveCwd.startsWith('/')) {
-          effectiveCwd = effectiveCwd ? join(wsPath, effectiveCwd) : wsPath;
-        }
-      }
-    }
-
-    // Always consult approval policy (policy decides auto/ask/deny)
-    // Heuristic: Check for critical files in command
-    const criticalFiles = ['adytum.config.yaml', '.env', 'security.json', 'litellm_config.yaml'];
-    const isCritical = criticalFiles.some((file) => command.includes(file));
-
-    // If critical file detected, force ASK mode and append warning
-    // This is a basic string check, but better than nothing
-    let wrappedApprovalFn = onApprovalRequired;
-    if (isCritical) {
-      wrappedApprovalFn = async (cmd: string) => {
-        const result = await onApprovalRequired(cmd);
-        if (result.mode === 'auto') {
-          // Downgrade AUTO to ASK for critical files
-          result.mode = 'ask';
-          result.message =
-            (result.message || '') +
-            '\n⚠️  CRITICAL FILE DETECTED: This command targets sensitive configuration files.';
-        }
-        return result;
-      };
-    }
+    const workspaceRoot =
+      workspaceId && resolveWorkspacePath ? resolveWorkspacePath(workspaceId) : undefined;
 
-    const approval = await wrappedApprovalFn(command, { sessionId, workspaceId });
+    // An explicit tool policy rule already decided (and asked, if needed) in ToolRegistry.execute.
+    // Otherwise fall back to the execution.shell mode (auto/ask/deny) behind the approval callback.
+    const policy = context?.policy as ToolPolicyDecision | undefined;
+    const approval: ShellApprovalResult = policy?.ruleId
+      ? { approved: true, mode: policy.action === 'allow' ? 'auto' : 'ask', reason: policy.reason }
+      : await onApprovalRequired(command, { sessionId, workspaceId });
     if (!approval.approved) {
       return {
         exitCode: -1,
@@ -91,39 +67,49 @@ export function createShellToolWithApproval(
       };
     }
 
-    try {
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: effectiveCwd,
-        timeout,
-        maxBuffer: 1024 * 1024, // 1MB
-        env: { ...process.env, PAGER: 'cat' },
-      });
+    // The backend (host or sandboxed) is chosen per workspace or per agent tier
+    const backend = backends?.resolve({ workspaceId, agentId: context?.agentId }) ?? hostBackend;
+    const result = await backend.execute({
+      command,
+      cwd,
+      workspaceRoot,
+      timeout,
+      signal: context?.signal,
+    });
 
+    if (result.exitCode !== 0) {
       return {
-        exitCode: 0,
-        stdout: stdout.slice(0, 10000), // Cap output
-        stderr: stderr.slice(0, 5000),
-        approved: approval.approved,
-        mode: approval.mode,
-      };
-    } catch (error: any) {
-      return {
-        exitCode: error.code || 1,
-        stdout: (error.stdout || '').slice(0, 10000),
-        stderr: (error.stderr || error.message).slice(0, 5000),
+        exitCode: result.exitCode,
+        stdout: result.stdout.slice(0, 10000),
+        stderr: result.stderr.slice(0, 5000),
+        sandbox: backend.name,
+        truncated: result.truncated,
       };
     }
+
+    return {
+      exitCode: 0,
+      stdout: result.stdout.slice(0, 10000), // Cap output
+      stderr: result.stderr.slice(0, 5000),
+      approved: approval.approved,
+      mode: approval.mode,
+      sandbox: backend.name,
+      truncated: result.truncated,
+    };
   };
 }
 
 /**
  * Creates shell tool.
  * @param onApprovalRequired - On approval required.
+ * @param resolveWorkspacePath - Resolves a workspace id to its root directory.
+ * @param backends - Chooses the execution backend; commands run on the host without it.
  * @returns The create shell tool result.
  */
 export function createShellTool(
   onApprovalRequired: ShellApprovalFn,
   resolveWorkspacePath?: (workspaceId: string) => string,
+  backends?: ShellBackendResolver,
 ): ToolDefinition {
   return {
     name: 'shell_execute',
@@ -137,6 +123,6 @@ export function createShellTool(
       sessionId: z.string().describe('Internal session ID for approval routing'),
       workspaceId: z.string().optional().describe('Internal workspace ID for approval routing'),
     }),
-    execute: createShellToolWithApproval(onApprovalRequired, resolveWorkspacePath),
+    execute: createShellToolWithApproval(onApprovalRequired, resolveWorkspacePath, backends),
   };
 }
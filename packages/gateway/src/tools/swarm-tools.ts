@@ -182,7 +182,11 @@ export function createSwarmTools(
         // If background execution is requested (e.g. for daemons or long tasks)
         if (args.background) {
           runtime
-            .run(args.goal, taskSessionId, { agentId: args.to, workspaceId: context.workspaceId })
+            .run(args.goal, taskSessionId, {
+              agentId: args.to,
+              workspaceId: context.workspaceId,
+              parentSessionId: context?.sessionId,
+            })
             .catch((err) => {
               swarmManager.notifyFailure(args.to, err.message);
               console.error(`Background task failed for ${args.to}:`, err);
@@ -197,11 +201,15 @@ export function createSwarmTools(
           const resultPromise = runtime.run(args.goal, taskSessionId, {
             agentId: args.to,
             workspaceId: context.workspaceId,
+            parentSessionId: context?.sessionId,
           });
 
           // Implement Promise.race for timeout
           const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new Error(`Delegation timeout after ${timeout}ms`)), timeout);
+            setTimeout(() => {
+              runtime.abort(taskSessionId);
+              reject(new Error(`Delegation timeout after ${timeout}ms`));
+            }, timeout);
           });
 
           const result: any = await Promise.race([resultPromise, timeoutPromise]);
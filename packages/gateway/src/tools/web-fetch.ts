@@ -21,7 +21,7 @@ export function createWebFetchTool(): ToolDefinition {
       body: z.string().optional().describe('Request body (for POST)'),
       maxLength: z.number().default(20000).describe('Max response length in characters'),
     }),
-    execute: async (args: any) => {
+    execute: async (args: any, context?: any) => {
       const { url, method, headers, body, maxLength } = args as {
         url: string;
         method: string;
@@ -38,7 +38,9 @@ export function createWebFetchTool(): ToolDefinition {
             ...headers,
           },
           body: method === 'POST' ? body : undefined,
-          signal: AbortSignal.timeout(15000),
+          signal: context?.signal
+            ? AbortSignal.any([context.signal, AbortSignal.timeout(15000)])
+            : AbortSignal.timeout(15000),
         });
 
         const text = await response.text();
@@ -25,9 +25,23 @@ export const MemoryEvents = {
 export const GraphEvents = {
   INDEXING_STARTED: 'graph:indexing_started',
   INDEXING_COMPLETED: 'graph:indexing_completed',
+  INDEXING_PROGRESS: 'graph:indexing_progress',
   NODE_UPDATED: 'graph:node_updated',
+  NODE_REMOVED: 'graph:node_removed',
 } as const;
 
+/** Payload of `graph:indexing_progress`. */
+export interface GraphIndexingProgress {
+  workspaceId?: string;
+  phase: 'scan' | 'parse' | 'link' | 'semantic';
+  /** Items handled so far in this phase. */
+  processed: number;
+  total: number;
+  changed: number;
+  removed: number;
+  renamed: number;
+}
+
 // Agent Events
 export const AgentEvents = {
   THOUGHT: 'agent:thought',
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { BudgetStatusSchema, CitationSchema } from './types.js';
 
 // ─── WebSocket Frame Types ────────────────────────────────────
 
@@ -42,6 +43,8 @@ export const MessageFrameSchema = z.object({
   modelRole: z.string().optional(),
   modelId: z.string().optional(),
   workspaceId: z.string().optional(),
+  /** Sources retrieved for an agent reply, referenced in `content` as `[n]`. */
+  citations: z.array(CitationSchema).optional(),
   attachments: z
     .array(
       z.object({
@@ -67,6 +70,7 @@ export const StreamFrameSchema = z.object({
     'tool_call', // Tool being invoked
     'tool_result', // Tool execution result
     'status', // Status update
+    'plan_step', // Plan step status change (metadata carries the step and plan snapshot)
   ]),
   workspaceId: z.string().optional(),
   metadata: z.record(z.unknown()).optional(),
@@ -109,6 +113,8 @@ export const TokenUpdateFrameSchema = z.object({
   estimatedCost: z.number().optional(),
   cumulativeTokens: z.number(),
   cumulativeCost: z.number().optional(),
+  /** Set when a budget is close to or over its limit. */
+  budget: BudgetStatusSchema.optional(),
 });
 export type TokenUpdateFrame = z.infer<typeof TokenUpdateFrameSchema>;
 
@@ -41,11 +41,35 @@ export const ToolCallSchema = z.object({
 });
 export type ToolCall = z.infer<typeof ToolCallSchema>;
 
+export const ArtifactRefSchema = z.object({
+  id: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  encoding: z.enum(['utf-8', 'binary']),
+  createdAt: z.number(),
+  tool: z.string().optional(),
+  sessionId: z.string().optional(),
+});
+export type ArtifactRef = z.infer<typeof ArtifactRefSchema>;
+
+export const ToolResultEnvelopeSchema = z.object({
+  type: z.enum(['text', 'json', 'binary', 'error']),
+  /** What the model sees: the full output, or a preview plus an artifact handle. */
+  text: z.string(),
+  json: z.unknown().optional(),
+  artifact: ArtifactRefSchema.optional(),
+  truncated: z.boolean().default(false),
+  /** Size of the full output in characters (bytes for binary). */
+  originalSize: z.number().optional(),
+});
+export type ToolResultEnvelope = z.infer<typeof ToolResultEnvelopeSchema>;
+
 export const ToolResultSchema = z.object({
   toolCallId: z.string(),
   name: z.string(),
   result: z.unknown(),
   isError: z.boolean().default(false),
+  envelope: ToolResultEnvelopeSchema.optional(),
 });
 export type ToolResult = z.infer<typeof ToolResultSchema>;
 
@@ -64,6 +88,8 @@ export const ModelConfigSchema = z.object({
   temperature: z.number().min(0).max(2).optional(),
   inputCost: z.number().optional(),
   outputCost: z.number().optional(),
+  /** Send tool schemas as strict structured tool calls (OpenAI-compatible providers). */
+  strictTools: z.boolean().optional(),
 });
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
 
@@ -76,6 +102,10 @@ export const TokenUsageSchema = z.object({
   completionTokens: z.number(),
   totalTokens: z.number(),
   estimatedCost: z.number().optional(),
+  agentId: z.string().optional(),
+  tier: z.number().int().optional(),
+  /** Served from the response cache; nothing was billed. */
+  cached: z.boolean().optional(),
 });
 export type TokenUsage = z.infer<typeof TokenUsageSchema>;
 
@@ -124,6 +154,7 @@ export const AgentLogSchema = z.object({
     'sub_agent_spawn',
     'monologue_run',
     'dreamer_run',
+    'memory_lifecycle',
     'soul_evolve',
     'system_event',
   ]),
@@ -266,8 +297,41 @@ export const SkillsConfigSchema = z.object({
 });
 export type SkillsConfig = z.infer<typeof SkillsConfigSchema>;
 
+export const ShellBackendKindSchema = z.enum(['host', 'restricted']);
+export type ShellBackendKind = z.infer<typeof ShellBackendKindSchema>;
+
+/** How `shell_execute` runs commands; the backend is chosen per workspace, then per agent tier. */
+export const ShellSandboxConfigSchema = z.object({
+  defaultBackend: ShellBackendKindSchema.default('host'),
+  /** Backend per agent tier ("1" | "2" | "3"). Tier-3 workers are restricted by default. */
+  tiers: z.record(z.enum(['1', '2', '3']), ShellBackendKindSchema).default({ '3': 'restricted' }),
+  /** Backend per workspace id; takes precedence over tiers. */
+  workspaces: z.record(z.string(), ShellBackendKindSchema).default({}),
+  /** Linux namespace isolation for the restricted backend. */
+  namespaces: z.enum(['auto', 'bwrap', 'unshare', 'off']).default('auto'),
+  allowNetwork: z.boolean().default(true),
+  /** Environment variables passed through to restricted commands; everything else is dropped. */
+  envAllowlist: z
+    .array(z.string())
+    .default(['PATH', 'LANG', 'LC_ALL', 'TERM', 'TZ', 'USER', 'SHELL', 'TMPDIR']),
+  limits: z
+    .object({
+      cpuSeconds: z.number().int().positive().default(60),
+      memoryMb: z.number().int().positive().default(1024),
+      fileSizeMb: z.number().int().positive().default(256),
+      maxOutputBytes: z
+        .number()
+        .int()
+        .positive()
+        .default(1024 * 1024),
+    })
+    .default({}),
+});
+export type ShellSandboxConfig = z.infer<typeof ShellSandboxConfigSchema>;
+
 export const ExecutionPermissionsSchema = z.object({
   shell: z.enum(['auto', 'ask', 'deny']).default('ask'),
+  sandbox: ShellSandboxConfigSchema.optional(),
   defaultChannel: z.string().optional(),
   defaultUser: z.string().optional(),
   defaultCommSkillId: z.string().optional(),
@@ -282,6 +346,143 @@ export const RoutingConfigSchema = z.object({
 });
 export type RoutingConfig = z.infer<typeof RoutingConfigSchema>;
 
+// ─── Budgets ──────────────────────────────────────────────────
+
+export const BudgetLimitSchema = z.object({
+  /** Maximum estimated cost in USD. */
+  maxCost: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+export type BudgetLimit = z.infer<typeof BudgetLimitSchema>;
+
+export const BudgetScopeSchema = z.enum(['daily', 'monthly', 'session', 'tier']);
+export type BudgetScope = z.infer<typeof BudgetScopeSchema>;
+
+export const BudgetConfigSchema = z.object({
+  daily: BudgetLimitSchema.optional(),
+  monthly: BudgetLimitSchema.optional(),
+  /** Lifetime spend of a single session. */
+  session: BudgetLimitSchema.optional(),
+  /** Daily spend of all agents of a tier ("1" | "2" | "3"). */
+  tiers: z.record(z.enum(['1', '2', '3']), BudgetLimitSchema).default({}),
+  /** `downgrade` switches to the cheaper roles below, `refuse` fails the call. */
+  onExceeded: z.enum(['downgrade', 'refuse']).default('downgrade'),
+  downgradeRoles: z.array(ModelRoleSchema).default(['fast', 'local']),
+  /** Fraction of a budget at which a warning is sent. */
+  warnAt: z.number().min(0).max(1).default(0.8),
+});
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
+
+export const BudgetStatusSchema = z.object({
+  scope: BudgetScopeSchema,
+  status: z.enum(['warning', 'exceeded']),
+  spentCost: z.number(),
+  spentTokens: z.number(),
+  limit: BudgetLimitSchema,
+  /** What the router did: `warned`, `downgraded` (with the role used) or `refused`. */
+  action: z.enum(['warned', 'downgraded', 'refused']),
+  role: z.string().optional(),
+});
+export type BudgetStatus = z.infer<typeof BudgetStatusSchema>;
+
+// ─── Model Caching ────────────────────────────────────────────
+
+export const ModelCacheConfigSchema = z.object({
+  /**
+   * Answer repeated identical requests (model, messages, tools, temperature) locally. Only
+   * background calls that opt in are cached (planning, reflection, memory extraction).
+   */
+  responses: z.boolean().default(true),
+  ttlSeconds: z.number().int().positive().default(3600),
+  maxEntries: z.number().int().positive().default(2000),
+  /**
+   * Provider prompt caching of the system prompt: `short` (about 5 minutes), `long` (1 hour
+   * on Anthropic) or `none`.
+   */
+  promptCaching: z.enum(['none', 'short', 'long']).default('short'),
+});
+export type ModelCacheConfig = z.infer<typeof ModelCacheConfigSchema>;
+
+// ─── Memory Lifecycle ─────────────────────────────────────────
+
+/** Retention rule for one memory category. Pinned memories are never removed. */
+export const MemoryRetentionRuleSchema = z.object({
+  /** Remove memories neither created nor recalled within this many days. */
+  maxAgeDays: z.number().positive().optional(),
+  /** Keep at most this many memories, dropping the lowest-scored first. */
+  maxCount: z.number().int().positive().optional(),
+  /** Remove memories whose decayed score falls below this value (0-1). */
+  minScore: z.number().min(0).max(1).optional(),
+});
+export type MemoryRetentionRule = z.infer<typeof MemoryRetentionRuleSchema>;
+
+export const MemoryLifecycleConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  intervalMinutes: z.number().positive().default(60),
+  /** Days after which an unrecalled memory's recency weight halves. */
+  halfLifeDays: z.number().positive().default(30),
+  dedup: z
+    .object({
+      /** Cosine similarity at which two memories of the same category are merged. */
+      threshold: z.number().min(0).max(1).default(0.95),
+      excludeCategories: z.array(z.string()).default(['doc_chunk']),
+    })
+    .default({}),
+  consolidation: z
+    .object({
+      /** Age after which `episodic_raw` turns are summarized into `episodic_summary`. */
+      afterHours: z.number().positive().default(24),
+      /** Sessions summarized per run, to bound model cost. */
+      maxGroupsPerRun: z.number().int().positive().default(10),
+    })
+    .default({}),
+  retention: z.record(z.string(), MemoryRetentionRuleSchema).default({
+    episodic_raw: { maxAgeDays: 30 },
+    monologue: { maxAgeDays: 30, maxCount: 500 },
+    curiosity: { maxAgeDays: 90 },
+  }),
+});
+export type MemoryLifecycleConfig = z.infer<typeof MemoryLifecycleConfigSchema>;
+
+// ─── Memory Sharing ───────────────────────────────────────────
+
+/**
+ * What a workspace may read besides its own memories. Memories without a workspace are
+ * global; everything else stays in the workspace that wrote it.
+ */
+export const MemorySharingConfigSchema = z.object({
+  /** Categories of global memories that every workspace can read. */
+  sharedCategories: z.array(z.string()).default(['user_fact']),
+  /** Workspace id mapped to the other workspaces whose memories it may read. */
+  workspaceGrants: z.record(z.string(), z.array(z.string())).default({}),
+});
+export type MemorySharingConfig = z.infer<typeof MemorySharingConfigSchema>;
+
+// ─── Embeddings ───────────────────────────────────────────────
+
+export const EmbeddingProviderKindSchema = z.enum(['local', 'ollama', 'openai-compatible']);
+export type EmbeddingProviderKind = z.infer<typeof EmbeddingProviderKindSchema>;
+
+export const EmbeddingConfigSchema = z.object({
+  /** `local` runs a transformers.js model in process; the others call an embeddings API. */
+  provider: EmbeddingProviderKindSchema.default('local'),
+  /** Model name; each provider has a default. */
+  model: z.string().optional(),
+  /**
+   * Built-in provider (e.g. `openai`, `mistral`, `lmstudio`) whose base URL and API key env
+   * var an `openai-compatible` backend uses.
+   */
+  providerId: z.string().optional(),
+  baseUrl: z.string().optional(),
+  /** API key, env var name or `${ENV_VAR}` reference. */
+  apiKey: z.string().optional(),
+  /** Texts sent per embedding request. */
+  batchSize: z.number().int().positive().default(32),
+  /** Re-embed memories stored with another model in the background. */
+  reembed: z.boolean().default(true),
+});
+export type EmbeddingConfig = z.infer<typeof EmbeddingConfigSchema>;
+
 // ─── Hierarchical Multi-Agent (Birth Protocol) ─────────────────
 
 export const AgentTierSchema = z.union([z.literal(1), z.literal(2), z.literal(3)]);
@@ -312,6 +513,68 @@ export const HierarchySettingsSchema = z.object({
 });
 export type HierarchySettings = z.infer<typeof HierarchySettingsSchema>;
 
+// ─── Tool Policy ──────────────────────────────────────────────
+
+export const ToolPolicyActionSchema = z.enum(['allow', 'ask', 'deny']);
+export type ToolPolicyAction = z.infer<typeof ToolPolicyActionSchema>;
+
+/**
+ * A single policy rule. Every matcher that is set must match for the rule to apply;
+ * glob patterns support `*`, `**` and `?`. Rules are evaluated in order, first match wins.
+ */
+export const ToolPolicyRuleSchema = z.object({
+  id: z.string(),
+  /** Tool name globs, e.g. `shell_execute`, `file_*`. */
+  tools: z.array(z.string()).optional(),
+  /** Executable globs matched against argv[0] of every command in a shell pipeline. */
+  commands: z.array(z.string()).optional(),
+  /** Globs matched against any argv token of a shell command. */
+  argv: z.array(z.string()).optional(),
+  /** Regular expression tested against the raw command string. */
+  commandPattern: z.string().optional(),
+  /** Path globs matched against target paths (tool path arguments and shell operands). */
+  paths: z.array(z.string()).optional(),
+  workspaces: z.array(z.string()).optional(),
+  tiers: z.array(AgentTierSchema).optional(),
+  action: ToolPolicyActionSchema,
+  reason: z.string().optional(),
+});
+export type ToolPolicyRule = z.infer<typeof ToolPolicyRuleSchema>;
+
+export const ToolPolicySchema = z.object({
+  version: z.literal(1).default(1),
+  /** Action applied when no rule matches. */
+  defaultAction: ToolPolicyActionSchema.default('allow'),
+  rules: z.array(ToolPolicyRuleSchema).default([]),
+});
+export type ToolPolicy = z.infer<typeof ToolPolicySchema>;
+
+// ─── Gateway Auth ─────────────────────────────────────────────
+
+/** Access level of an API token; each scope includes the ones before it. */
+export const ApiTokenScopeSchema = z.enum(['read-only', 'chat', 'admin']);
+export type ApiTokenScope = z.infer<typeof ApiTokenScopeSchema>;
+
+/** Stored API token. Only the SHA-256 hash of the secret is kept. */
+export const ApiTokenSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  scope: ApiTokenScopeSchema,
+  hash: z.string(),
+  createdAt: z.number(),
+  lastUsedAt: z.number().optional(),
+  expiresAt: z.number().optional(),
+});
+export type ApiToken = z.infer<typeof ApiTokenSchema>;
+
+export const AuthConfigSchema = z.object({
+  /** Require a token on every route and Socket.IO connection. */
+  enabled: z.boolean().default(true),
+  /** Extra unauthenticated path prefixes (health and OAuth callbacks are always public). */
+  publicPaths: z.array(z.string()).default([]),
+});
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
 // AgentLogEntry moved to ./types/agent.ts
 
 // ─── Agent Config ─────────────────────────────────────────────
@@ -346,7 +609,8 @@ export const AdytumConfigSchema = z.object({
     .default({ autoUpdate: true }),
   gatewayPort: z.number().default(7431),
   dashboardPort: z.number().default(7432),
-  contextSoftLimit: z.number().default(40000),
+  /** Caps compaction below the threshold derived from the model's context window. */
+  contextSoftLimit: z.number().positive().optional(),
   heartbeatIntervalMinutes: z.number().default(30),
   dreamerIntervalMinutes: z.number().default(30),
   monologueIntervalMinutes: z.number().default(15),
@@ -359,6 +623,12 @@ export const AdytumConfigSchema = z.object({
     fallbackOnError: false,
   }),
   hierarchy: HierarchySettingsSchema.optional(),
+  budgets: BudgetConfigSchema.optional(),
+  modelCache: ModelCacheConfigSchema.optional(),
+  auth: AuthConfigSchema.optional(),
+  memoryLifecycle: MemoryLifecycleConfigSchema.optional(),
+  embeddings: EmbeddingConfigSchema.optional(),
+  memorySharing: MemorySharingConfigSchema.optional(),
 });
 export type AdytumConfig = z.infer<typeof AdytumConfigSchema>;
 
@@ -422,6 +692,124 @@ export const KnowledgeGraphSchema = z.object({
 });
 export type KnowledgeGraph = z.infer<typeof KnowledgeGraphSchema>;
 
+// ─── Graph Queries ────────────────────────────────────────────
+
+export type GraphNodeFilter = {
+  type?: GraphNodeType | GraphNodeType[];
+  id?: string;
+  label?: string;
+  path?: string;
+  metadata?: Record<string, string | number | boolean | null>;
+  where?: GraphQueryStep[];
+  whereNot?: GraphQueryStep[];
+};
+
+export type GraphQueryStep = {
+  edge?: GraphEdgeType | GraphEdgeType[];
+  direction?: 'in' | 'out' | 'both';
+  minDepth?: number;
+  maxDepth?: number;
+  node?: GraphNodeFilter;
+};
+
+export const GraphNodeFilterSchema: z.ZodType<GraphNodeFilter> = z.lazy(() =>
+  z.object({
+    type: z
+      .union([GraphNodeTypeSchema, z.array(GraphNodeTypeSchema)])
+      .optional()
+      .describe('Node type(s), e.g. "interface" or ["class", "function"].'),
+    id: z.string().optional().describe('Exact node id.'),
+    label: z
+      .string()
+      .optional()
+      .describe('Label glob, case-insensitive: "ModelRouter", "*Router*".'),
+    path: z.string().optional().describe('Path glob: "packages/gateway/**", "**/*.test.ts".'),
+    metadata: z
+      .record(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+      .optional()
+      .describe('Metadata values the node must have, e.g. {"exported": true}.'),
+    where: z
+      .array(GraphQueryStepSchema)
+      .optional()
+      .describe('Patterns that must each reach at least one node from this node.'),
+    whereNot: z
+      .array(GraphQueryStepSchema)
+      .optional()
+      .describe('Patterns that must not reach any node from this node.'),
+  }),
+);
+
+export const GraphQueryStepSchema: z.ZodType<GraphQueryStep> = z.lazy(() =>
+  z.object({
+    edge: z
+      .union([GraphEdgeTypeSchema, z.array(GraphEdgeTypeSchema)])
+      .optional()
+      .describe('Edge type(s) to follow; any type when omitted.'),
+    direction: z
+      .enum(['in', 'out', 'both'])
+      .optional()
+      .describe('"out" follows source→target (default), "in" the reverse.'),
+    minDepth: z.number().int().min(1).max(10).optional().describe('Minimum hops (default 1).'),
+    maxDepth: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe('Maximum hops (default minDepth).'),
+    node: GraphNodeFilterSchema.optional().describe('Filter for the node reached.'),
+  }),
+);
+
+/**
+ * Structured knowledge graph query: start from nodes matching `match`, then follow `traverse`
+ * steps. The result is the reached nodes plus the subgraph connecting them.
+ */
+export const GraphQuerySchema = z.object({
+  match: GraphNodeFilterSchema.describe('Start nodes.'),
+  traverse: z
+    .array(GraphQueryStepSchema)
+    .optional()
+    .describe("Steps followed from the start nodes; the last step's nodes are the results."),
+  limit: z.number().int().min(1).max(1000).optional().describe('Maximum results (default 100).'),
+});
+export type GraphQuery = z.infer<typeof GraphQuerySchema>;
+
+export type GraphQueryResult = {
+  /** Result nodes, then the nodes on paths leading to them. */
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Ids of the result nodes. */
+  results: string[];
+  /** More results matched than `limit`. */
+  truncated: boolean;
+};
+
+// ─── Citations ────────────────────────────────────────────────
+/** A retrieved source the agent was given, numbered as it appeared in the context. */
+export const CitationSchema = z.object({
+  /** 1-based marker, cited in text as `[n]`. */
+  index: z.number().int().positive(),
+  /** `chunk` for document chunks from memory, `node` for knowledge graph nodes. */
+  kind: z.enum(['chunk', 'node']),
+  /** Path relative to the workspace root. */
+  path: z.string(),
+  workspaceId: z.string().optional(),
+  memoryId: z.string().optional(),
+  nodeId: z.string().optional(),
+  startLine: z.number().int().optional(),
+  endLine: z.number().int().optional(),
+  page: z.number().int().optional(),
+  /** Archive member or email attachment the text came from. */
+  entry: z.string().optional(),
+  /** Other locator, e.g. `rows 2-26` or `message 3`. */
+  location: z.string().optional(),
+  heading: z.string().optional(),
+  score: z.number(),
+  snippet: z.string(),
+});
+export type Citation = z.infer<typeof CitationSchema>;
+
 // ─── Workspaces ───────────────────────────────────────────────
 export const WorkspaceTypeSchema = z.enum(['project', 'collection']);
 export type WorkspaceType = z.infer<typeof WorkspaceTypeSchema>;
@@ -461,9 +849,13 @@ export const PlanStepSchema = z.object({
   tool: z.string().optional(),
   args: z.record(z.unknown()).optional(),
   dependencies: z.array(z.string()).default([]),
-  status: z.enum(['pending', 'running', 'completed', 'failed']).default('pending').optional(),
+  status: z
+    .enum(['pending', 'running', 'completed', 'failed', 'skipped', 'cancelled'])
+    .default('pending')
+    .optional(),
   result: z.string().optional(),
   error: z.string().optional(),
+  attempts: z.number().int().nonnegative().optional(),
 });
 export type PlanStep = z.infer<typeof PlanStepSchema>;
 
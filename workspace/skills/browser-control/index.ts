@@ -21,11 +21,17 @@ type SkillLogger = {
   error: (message: string) => void;
 };
 
+/** The part of the gateway's tool context this skill uses. */
+type ToolCallContext = {
+  /** Aborted when the agent turn is cancelled. */
+  signal?: AbortSignal;
+};
+
 type RegisteredTool = {
   name: string;
   description: string;
   parameters: z.ZodTypeAny;
-  execute: (args: unknown) => Promise<unknown>;
+  execute: (args: unknown, context?: ToolCallContext) => Promise<unknown>;
 };
 
 type RegisteredService = {
@@ -205,7 +211,7 @@ const browserControlPlugin = {
       description:
         'Open URL in Chromium/Chrome/Edge/Firefox/WebKit and return a compact page snapshot.',
       parameters: BrowserOpenSchema,
-      execute: async (rawArgs: unknown) => {
+      execute: async (rawArgs: unknown, context?: ToolCallContext) => {
         const parsedArgs = parseToolArgs(BrowserOpenSchema, rawArgs);
         if (!parsedArgs.success) return parsedArgs.response;
 
@@ -231,11 +237,19 @@ const browserControlPlugin = {
             session.page = await session.context.newPage();
           }
 
-          await session.page.goto(url, {
-            waitUntil: args.waitUntil,
-            timeout: timeoutMs,
-          });
-          await settlePage(session.page, waitMs, Math.min(timeoutMs, config.navigationTimeoutMs));
+          await untilAborted(
+            session.page.goto(url, {
+              waitUntil: args.waitUntil,
+              timeout: timeoutMs,
+            }),
+            context?.signal,
+          );
+          await settlePage(
+            session.page,
+            waitMs,
+            Math.min(timeoutMs, config.navigationTimeoutMs),
+            context?.signal,
+          );
 
           const snapshot = await readPageSnapshot(session.page);
           activeSessionKey = target.key;
@@ -261,7 +275,7 @@ const browserControlPlugin = {
       name: 'browser_click',
       description: 'Click an element on the active page by CSS selector.',
       parameters: BrowserClickSchema,
-      execute: async (rawArgs: unknown) => {
+      execute: async (rawArgs: unknown, context?: ToolCallContext) => {
         const parsedArgs = parseToolArgs(BrowserClickSchema, rawArgs);
         if (!parsedArgs.success) return parsedArgs.response;
 
@@ -302,6 +316,7 @@ const browserControlPlugin = {
             session.page,
             args.waitMs ?? config.defaultWaitMs,
             config.actionTimeoutMs,
+            context?.signal,
           );
           activeSessionKey = session.target.key;
           return {
@@ -319,7 +334,7 @@ const browserControlPlugin = {
       name: 'browser_type',
       description: 'Type into field/contenteditable by CSS selector on the active page.',
       parameters: BrowserTypeSchema,
-      execute: async (rawArgs: unknown) => {
+      execute: async (rawArgs: unknown, context?: ToolCallContext) => {
         const parsedArgs = parseToolArgs(BrowserTypeSchema, rawArgs);
         if (!parsedArgs.success) return parsedArgs.response;
 
@@ -390,6 +405,7 @@ const browserControlPlugin = {
             session.page,
             args.waitMs ?? config.defaultWaitMs,
             config.actionTimeoutMs,
+            context?.signal,
           );
           activeSessionKey = session.target.key;
           return {
@@ -498,7 +514,7 @@ const browserControlPlugin = {
       name: 'browser_scroll',
       description: 'Scroll the active page up, down, or to top/bottom.',
       parameters: BrowserScrollSchema,
-      execute: async (rawArgs: unknown) => {
+      execute: async (rawArgs: unknown, context?: ToolCallContext) => {
         const parsedArgs = parseToolArgs(BrowserScrollSchema, rawArgs);
         if (!parsedArgs.success) return parsedArgs.response;
 
@@ -519,7 +535,7 @@ const browserControlPlugin = {
               'return { scrolled: true, direction, amount: (direction === "top" || direction === "bottom") ? "max" : amount };',
             ].join('\n'),
           );
-          await sleep(400); // Small settle for visual effects
+          await sleep(400, context?.signal); // Small settle for visual effects
           activeSessionKey = session.target.key;
           return {
             ok: true,
@@ -744,10 +760,16 @@ async function readPageSnapshot(page: PageInstance): Promise<{
   };
 }
 
-async function settlePage(page: PageInstance, waitMs: number, timeoutMs: number): Promise<void> {
+async function settlePage(
+  page: PageInstance,
+  waitMs: number,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<void> {
   if (waitMs > 0) {
-    await sleep(waitMs);
+    await sleep(waitMs, signal);
   }
+  if (signal?.aborted) throw new BrowserActionCancelled();
   if (typeof page.waitForLoadState === 'function') {
     try {
       await page.waitForLoadState('domcontentloaded', { timeout: timeoutMs });
@@ -836,6 +858,10 @@ function normalizeBrowserError(
   target: BrowserTarget,
   action: 'open' | 'click' | 'type' | 'eval' | 'extract' | 'scroll',
 ) {
+  if (err instanceof BrowserActionCancelled) {
+    return { error: `Browser ${action} cancelled`, browser: target.requested, action };
+  }
+
   const message = errorMessage(err);
   if (looksLikeMissingPlaywright(message)) {
     return {
@@ -985,8 +1011,28 @@ function asRecord(value: unknown): Record<string, unknown> {
   return { result: value };
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return untilAborted(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+}
+
+/** Thrown when the agent turn is cancelled while a browser action is waiting. */
+class BrowserActionCancelled extends Error {
+  constructor() {
+    super('Browser action cancelled.');
+  }
+}
+
+/**
+ * Stops waiting on a page operation once the signal aborts; Playwright takes no signal itself.
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new BrowserActionCancelled());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new BrowserActionCancelled());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
 }
 
 function errorMessage(err: unknown): string {